@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // serialport loads native bindings, so keep it out of the server bundle
+  serverExternalPackages: ["serialport"],
 };
 
 export default nextConfig;
@@ -0,0 +1,69 @@
+// Validate URDF files from the command line, for CI:
+//
+//   npm run validate-urdf -- public/elbot_ros.urdf [--packages <dir>]
+//
+// package:// mesh paths resolve under --packages (default: the URDF's
+// directory), relative paths against the URDF's directory. Issues print as
+// "file:line: severity: message"; the exit code is 1 if any file has errors.
+
+import fs from 'fs';
+import path from 'path';
+import { JSDOM } from 'jsdom';
+import { formatUrdfIssue, validateUrdf } from '../src/app/utils/urdfValidator';
+
+// URDFLoader and the validator parse with the browser's DOMParser
+const { window } = new JSDOM('');
+Object.assign(globalThis, { DOMParser: window.DOMParser, Element: window.Element, Document: window.Document });
+
+function usage(): never {
+  console.error('Usage: validate-urdf <file.urdf>... [--packages <dir>]');
+  process.exit(2);
+}
+
+async function main() {
+  const files: string[] = [];
+  let packagesDir: string | null = null;
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--packages') {
+      packagesDir = args[++i] ?? usage();
+    } else if (args[i].startsWith('-')) {
+      usage();
+    } else {
+      files.push(args[i]);
+    }
+  }
+  if (files.length === 0) usage();
+
+  let failed = false;
+  for (const file of files) {
+    let text: string;
+    try {
+      text = fs.readFileSync(file, 'utf8');
+    } catch (error) {
+      console.error(`${file}: error: ${error instanceof Error ? error.message : String(error)}`);
+      failed = true;
+      continue;
+    }
+
+    const directory = path.resolve(path.dirname(file));
+    const report = await validateUrdf(text, {
+      workingPath: directory + path.sep,
+      packages: path.resolve(packagesDir ?? directory),
+      fileExists: async meshPath => fs.existsSync(meshPath),
+      describePath: meshPath => {
+        const relative = path.relative(process.cwd(), meshPath);
+        return relative.startsWith('..') ? meshPath : relative;
+      }
+    });
+
+    report.issues.forEach(issue => console.log(formatUrdfIssue(issue, file)));
+    const errors = report.issues.filter(issue => issue.severity === 'error').length;
+    const warnings = report.issues.length - errors;
+    console.log(`${file}: ${report.robotName ?? 'robot'} with ${report.linkCount} links and ${report.jointCount} joints, ${errors} errors, ${warnings} warnings`);
+    if (errors > 0) failed = true;
+  }
+  process.exit(failed ? 1 : 0);
+}
+
+main();
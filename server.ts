@@ -0,0 +1,47 @@
+import { createServer } from 'node:http';
+import next from 'next';
+import { WebSocketServer } from 'ws';
+import { REMOTE_SOCKET_PATH, serveRemoteSocket } from './src/app/api/robot/socket';
+
+// Next.js with the remote control WebSocket, which route handlers cannot serve.
+// Every other upgrade (the dev server's hot reload) goes on to Next.js.
+
+const dev = process.env.NODE_ENV !== 'production';
+const hostname = 'localhost';
+const port = Number(process.env.PORT ?? 3000);
+
+const app = next({ dev, hostname, port, turbopack: dev });
+const sockets = new WebSocketServer({ noServer: true });
+
+app.prepare().then(() => {
+  const handle = app.getRequestHandler();
+  const upgrade = app.getUpgradeHandler();
+
+  const server = createServer((request, response) => {
+    handle(request, response);
+  });
+
+  server.on('upgrade', (request, socket, head) => {
+    const { pathname } = new URL(request.url ?? '/', `http://${hostname}`);
+    if (pathname !== REMOTE_SOCKET_PATH) {
+      upgrade(request, socket, head);
+      return;
+    }
+    // An error without a listener would throw and take the whole server down:
+    // a reset during the handshake drops the socket, a bad frame afterwards
+    // ends the connection
+    const onSocketError = () => socket.destroy();
+    socket.on('error', onSocketError);
+    sockets.handleUpgrade(request, socket, head, ws => {
+      socket.off('error', onSocketError);
+      const connection = serveRemoteSocket({ send: data => ws.send(data) });
+      ws.on('message', data => connection.receive(data.toString()));
+      ws.on('error', () => ws.terminate());
+      ws.on('close', connection.close);
+    });
+  });
+
+  server.listen(port, () => {
+    console.log(`> Ready on http://${hostname}:${port}`);
+  });
+});
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RemoteRobotError, getConfig, getJoints, setConfig } from '../remote';
+import { errorResponse, readBody } from '../http';
+import { RobotConfigFile, parseRobotConfig, toConfigFile } from '../../../utils/robotConfig';
+import { RobotConfig } from '../../../types/robot';
+
+// GET the robot configuration requests are checked against; PUT { config, origin? }
+// replaces it (the page sends the selected robot's). Refused with 409 while a
+// move is running.
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return NextResponse.json({ success: true, config: toConfigFile(getConfig()) });
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await readBody(request);
+    if (body.origin !== undefined && typeof body.origin !== 'string') {
+      return NextResponse.json({ success: false, error: '"origin" must be a string' }, { status: 400 });
+    }
+    let config: RobotConfig;
+    try {
+      config = parseRobotConfig(body.config as RobotConfigFile);
+    } catch (error) {
+      throw new RemoteRobotError(error instanceof Error ? error.message : 'Invalid robot configuration');
+    }
+    setConfig(config, body.origin as string | undefined);
+    return NextResponse.json({ success: true, joints: getJoints() });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest } from 'next/server';
+import { RemoteEvent, subscribe } from '../remote';
+
+// Server-Sent Events stream of the arm: the state on connect and while it
+// changes, and the start and end of every move
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (event: RemoteEvent) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      unsubscribe = subscribe(send);
+      request.signal.addEventListener('abort', () => {
+        unsubscribe?.();
+      });
+    },
+    cancel() {
+      unsubscribe?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
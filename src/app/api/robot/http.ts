@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RemoteRobotError } from './remote';
+
+// Responses shared by the /api/robot routes: { success: true, ... } or
+// { success: false, error } with the status of the failure
+
+export const errorResponse = (error: unknown) => {
+  const status = error instanceof RemoteRobotError ? error.status : 500;
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json({ success: false, error: message }, { status });
+};
+
+// The JSON object in the request body
+export async function readBody(request: NextRequest): Promise<Record<string, unknown>> {
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    throw new RemoteRobotError('Request body must be JSON');
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new RemoteRobotError('Request body must be a JSON object');
+  }
+  return body;
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJoints, parseJointTargets, setJoints } from '../remote';
+import { errorResponse, readBody } from '../http';
+
+// GET the joint state; PUT { joints, origin? } sets joints at once, without a
+// planned move. Refused with 409 while a move is running.
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return NextResponse.json({ success: true, joints: getJoints() });
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await readBody(request);
+    if (body.origin !== undefined && typeof body.origin !== 'string') {
+      return NextResponse.json({ success: false, error: '"origin" must be a string' }, { status: 400 });
+    }
+    setJoints(parseJointTargets(body.joints), body.origin as string | undefined);
+    return NextResponse.json({ success: true, joints: getJoints() });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseFeedRate, parseJointTargets, startMove } from '../remote';
+import { errorResponse, readBody } from '../http';
+
+// POST { joints, feedRate? } starts a move and answers 202 at once; follow it on
+// /api/robot/status or /api/robot/events. Refused with 409 while another move runs.
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readBody(request);
+    const target = parseJointTargets(body.joints);
+    const feedRate = parseFeedRate(body.feedRate);
+    const { id, durationMs } = startMove(target, feedRate);
+    return NextResponse.json({ success: true, id, durationMs }, { status: 202 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
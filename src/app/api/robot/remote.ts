@@ -0,0 +1,211 @@
+import { JointState, RobotConfig } from '../../types/robot';
+import { DEFAULT_FEED_RATE, fromWire, toWire } from '../../utils/g06';
+import { DEFAULT_ROBOT_CONFIG, clampJointValue, homeState } from '../../utils/robotConfig';
+import { Trajectory, planMove } from '../../utils/trajectory';
+import { RemoteEvent, toApiUnits } from '../../utils/remoteApi';
+
+export type { RemoteEvent };
+
+// The arm as seen by the /api/robot routes and WebSocket, shared by every
+// request. Scripts read and set its joints, and start moves that the server
+// plays out in real time with the same planner as the browser; the open page
+// subscribes to the events and mirrors them. The page also reports poses set by
+// hand, so what a script reads is what the viewer shows.
+//
+// Joint values cross the API in degrees (mm for prismatic joints), like G06 and
+// the joint controls, and are checked against the configuration of the robot the
+// page mirrors into, which it pushes when it connects. Until then that is the
+// built-in Elbot configuration.
+
+type RemoteListener = (event: RemoteEvent) => void;
+
+export interface RemoteStatus {
+  moving: boolean;
+  move: { id: number; target: JointState; feedRate: number; remainingMs: number } | null;
+}
+
+interface ActiveMove {
+  id: number;
+  target: JointState; // radians
+  feedRate: number;
+  trajectory: Trajectory;
+  start: number; // Date.now() when the move began
+  timer: ReturnType<typeof setInterval>;
+}
+
+interface RemoteRobot {
+  config: RobotConfig;
+  joints: JointState; // radians
+  move: ActiveMove | null;
+  moveCount: number;
+  listeners: Set<RemoteListener>;
+}
+
+// Error with the HTTP status the route should answer with
+export class RemoteRobotError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'RemoteRobotError';
+  }
+}
+
+const STATE_INTERVAL_MS = 50;
+
+// Keep the arm across module reloads in `next dev`, like the serial bridge ports
+const globalForRemote = globalThis as typeof globalThis & { remoteRobot?: RemoteRobot };
+const robot: RemoteRobot = globalForRemote.remoteRobot ?? {
+  config: DEFAULT_ROBOT_CONFIG,
+  joints: homeState(DEFAULT_ROBOT_CONFIG),
+  move: null,
+  moveCount: 0,
+  listeners: new Set()
+};
+globalForRemote.remoteRobot = robot;
+
+const broadcast = (event: RemoteEvent) => {
+  robot.listeners.forEach(listener => listener(event));
+};
+
+const stateEvent = (origin?: string): RemoteEvent => ({
+  type: 'state',
+  joints: toApiUnits(robot.joints, robot.config),
+  moving: !!robot.move,
+  ...(origin ? { origin } : {})
+});
+
+// Validate joint values sent by a client (API units) and convert them to radians.
+// Joints left out keep their value.
+export function parseJointTargets(value: unknown): JointState {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new RemoteRobotError('Expected "joints" to be an object of joint name to value');
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length === 0) throw new RemoteRobotError('No joints given');
+
+  return Object.fromEntries(entries.map(([name, raw]) => {
+    const joint = robot.config.joints.find(entry => entry.name === name);
+    if (!joint) {
+      throw new RemoteRobotError(`Unknown joint '${name}'; expected ${robot.config.joints.map(entry => entry.name).join(', ')}`);
+    }
+    if (typeof raw !== 'number' || !Number.isFinite(raw)) {
+      throw new RemoteRobotError(`Joint '${name}' must be a finite number`);
+    }
+    const radians = fromWire(joint, raw);
+    if (joint.type !== 'continuous' && (radians < joint.min - 1e-9 || radians > joint.max + 1e-9)) {
+      const unit = joint.type === 'prismatic' ? 'mm' : 'degrees';
+      throw new RemoteRobotError(
+        `Joint '${name}' = ${raw} is outside its limits of ${toWire(joint, joint.min).toFixed(1)} to ${toWire(joint, joint.max).toFixed(1)} ${unit}`,
+        422
+      );
+    }
+    return [name, radians];
+  }));
+}
+
+export function parseFeedRate(value: unknown): number {
+  if (value === undefined) return DEFAULT_FEED_RATE;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new RemoteRobotError('"feedRate" must be a positive number of degrees/minute');
+  }
+  return value;
+}
+
+export function getConfig(): RobotConfig {
+  return robot.config;
+}
+
+// Check requests against another robot. Joints it shares with the previous one
+// keep their value, clamped into its limits; the others start at home.
+export function setConfig(config: RobotConfig, origin?: string) {
+  assertIdle();
+  const home = homeState(config);
+  robot.config = config;
+  robot.joints = Object.fromEntries(config.joints.map(joint =>
+    [joint.name, clampJointValue(config, joint.name, robot.joints[joint.name] ?? home[joint.name])]));
+  broadcast(stateEvent(origin));
+}
+
+export function getJoints(): JointState {
+  return toApiUnits(robot.joints, robot.config);
+}
+
+export function getStatus(): RemoteStatus {
+  const move = robot.move;
+  return {
+    moving: !!move,
+    move: move
+      ? {
+        id: move.id,
+        target: toApiUnits(move.target, robot.config),
+        feedRate: move.feedRate,
+        remainingMs: Math.max(0, Math.round(move.trajectory.duration * 1000 - (Date.now() - move.start)))
+      }
+      : null
+  };
+}
+
+const assertIdle = () => {
+  if (robot.move) {
+    throw new RemoteRobotError(`Move ${robot.move.id} is running; wait for it or POST /api/robot/stop`, 409);
+  }
+};
+
+// Set joints at once. origin names the client, which the events echo so the
+// page can skip its own updates.
+export function setJoints(joints: JointState, origin?: string) {
+  assertIdle();
+  robot.joints = { ...robot.joints, ...joints };
+  broadcast(stateEvent(origin));
+}
+
+// Start a move to the target at the feed rate; the arm is busy until it has finished
+export function startMove(target: JointState, feedRate: number) {
+  assertIdle();
+  const fullTarget = { ...robot.joints, ...target };
+  const trajectory = planMove(robot.joints, fullTarget, robot.config, { feedRate });
+  const id = ++robot.moveCount;
+
+  const timer = setInterval(() => {
+    const move = robot.move;
+    if (!move || move.id !== id) return;
+    const elapsed = (Date.now() - move.start) / 1000;
+    if (elapsed < trajectory.duration) {
+      robot.joints = { ...robot.joints, ...trajectory.sample(elapsed).positions };
+      broadcast(stateEvent());
+    } else {
+      finishMove('finished', trajectory.waypoints[trajectory.waypoints.length - 1]);
+    }
+  }, STATE_INTERVAL_MS);
+
+  robot.move = { id, target: fullTarget, feedRate, trajectory, start: Date.now(), timer };
+  const durationMs = Math.round(trajectory.duration * 1000);
+  broadcast({ type: 'move', id, target: toApiUnits(fullTarget, robot.config), feedRate, durationMs });
+  return { id, durationMs };
+}
+
+// Halt a running move where the arm is now
+export function stopMove(): boolean {
+  if (!robot.move) return false;
+  finishMove('stopped');
+  return true;
+}
+
+function finishMove(reason: 'finished' | 'stopped', reached?: JointState) {
+  const move = robot.move;
+  if (!move) return;
+  clearInterval(move.timer);
+  robot.move = null;
+  if (reached) robot.joints = { ...robot.joints, ...reached };
+  broadcast(stateEvent());
+  broadcast({ type: 'idle', id: move.id, reason });
+}
+
+// Register for events; the current state is sent right away. Returns the unsubscribe function.
+export function subscribe(listener: RemoteListener): () => void {
+  robot.listeners.add(listener);
+  listener(stateEvent());
+  return () => {
+    robot.listeners.delete(listener);
+  };
+}
@@ -0,0 +1,90 @@
+import {
+  RemoteEvent,
+  RemoteRobotError,
+  getJoints,
+  getStatus,
+  parseFeedRate,
+  parseJointTargets,
+  setJoints,
+  startMove,
+  stopMove,
+  subscribe
+} from './remote';
+
+// The /api/robot/ws WebSocket: one connection carries the events of
+// /api/robot/events and the requests of the other routes. Route handlers cannot
+// upgrade a request, so server.ts hands the connections over. Each request is
+// a JSON object with an "op"; the reply has type "reply", the requestId it was
+// sent with and the body the matching route would answer with.
+
+export const REMOTE_SOCKET_PATH = '/api/robot/ws';
+
+export type RemoteSocketOp = 'get-joints' | 'set-joints' | 'move' | 'stop' | 'status';
+
+export type RemoteReply =
+  | { type: 'reply'; requestId?: unknown; success: true; [field: string]: unknown }
+  | { type: 'reply'; requestId?: unknown; success: false; error: string; status: number };
+
+// Sending side of a connection
+export interface RemoteSocket {
+  send(data: string): void;
+}
+
+function handleRequest(request: Record<string, unknown>): Record<string, unknown> {
+  switch (request.op as RemoteSocketOp) {
+    case 'get-joints':
+      return { joints: getJoints() };
+    case 'set-joints':
+      if (request.origin !== undefined && typeof request.origin !== 'string') {
+        throw new RemoteRobotError('"origin" must be a string');
+      }
+      setJoints(parseJointTargets(request.joints), request.origin as string | undefined);
+      return { joints: getJoints() };
+    case 'move': {
+      const target = parseJointTargets(request.joints);
+      return startMove(target, parseFeedRate(request.feedRate));
+    }
+    case 'stop':
+      return { stopped: stopMove() };
+    case 'status':
+      return { ...getStatus(), joints: getJoints() };
+    default:
+      throw new RemoteRobotError(`Unknown op '${String(request.op)}'; expected get-joints, set-joints, move, stop or status`);
+  }
+}
+
+// Serve one connection: events go out from now on, and every message is answered.
+// Returns the handler for incoming messages and the function to call on close.
+export function serveRemoteSocket(socket: RemoteSocket) {
+  const send = (message: RemoteEvent | RemoteReply) => socket.send(JSON.stringify(message));
+  const unsubscribe = subscribe(send);
+
+  const receive = (data: string) => {
+    let request: unknown;
+    try {
+      request = JSON.parse(data);
+    } catch {
+      send({ type: 'reply', success: false, error: 'Message must be JSON', status: 400 });
+      return;
+    }
+    if (!request || typeof request !== 'object' || Array.isArray(request)) {
+      send({ type: 'reply', success: false, error: 'Message must be a JSON object', status: 400 });
+      return;
+    }
+
+    const { requestId } = request as Record<string, unknown>;
+    try {
+      send({ type: 'reply', requestId, success: true, ...handleRequest(request as Record<string, unknown>) });
+    } catch (error) {
+      send({
+        type: 'reply',
+        requestId,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        status: error instanceof RemoteRobotError ? error.status : 500
+      });
+    }
+  };
+
+  return { receive, close: unsubscribe };
+}
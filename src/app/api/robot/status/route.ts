@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { getJoints, getStatus } from '../remote';
+
+// GET whether the arm is moving, the running move if any, and the joints
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return NextResponse.json({ success: true, ...getStatus(), joints: getJoints() });
+}
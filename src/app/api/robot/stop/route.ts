@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { getJoints, stopMove } from '../remote';
+
+// POST halts the running move where the arm is; stopped is false if it was idle
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST() {
+  const stopped = stopMove();
+  return NextResponse.json({ success: true, stopped, joints: getJoints() });
+}
@@ -0,0 +1,235 @@
+import { SerialPort } from 'serialport';
+import { VirtualElbot, VIRTUAL_PORT_PATH } from '../../utils/virtualDevice';
+import { PortSettings, getProtocolDriver } from '../../utils/protocols';
+import { RobotConfig } from '../../types/robot';
+
+// Server-side serial ports shared by the /api/serial routes. Browsers without
+// the Web Serial API talk to the arm through this bridge instead. The
+// "virtual" port is a simulated controller for testing without hardware.
+// Data is passed through as raw bytes; the browser's protocol driver frames it.
+// Data that arrives while no stream is attached (e.g. the device's greeting,
+// before the browser's first event stream connects) is held for the next one.
+// Opens of the same path run one after the other, so a second open sees the
+// port the first one opened.
+
+export interface BridgePortInfo {
+  path: string;
+  manufacturer?: string;
+  serialNumber?: string;
+  isOpen: boolean;
+}
+
+export type BridgeEvent =
+  | { type: 'data'; data: string } // base64
+  | { type: 'close'; error?: string };
+
+type BridgeListener = (event: BridgeEvent) => void;
+
+// Serial settings for opening a port; the protocol is what the virtual port
+// speaks and the config the robot it simulates
+export interface BridgeOpenOptions extends PortSettings {
+  protocol: string;
+  config?: RobotConfig;
+}
+
+interface OpenPort {
+  options: BridgeOpenOptions;
+  listeners: Set<BridgeListener>;
+  buffered: BridgeEvent[]; // data received while nobody listened
+  bufferedBytes: number;
+  write: (data: Buffer) => Promise<void>;
+  close: () => Promise<void>;
+}
+
+// Error with the HTTP status the route should answer with
+export class SerialBridgeError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'SerialBridgeError';
+  }
+}
+
+// Most data held for a stream that has not attached yet; the oldest goes first
+const MAX_BUFFERED_BYTES = 64 * 1024;
+
+// Keep open ports across module reloads in `next dev` so they are not leaked
+const globalForBridge = globalThis as typeof globalThis & {
+  serialBridgePorts?: Map<string, OpenPort>;
+  serialBridgeOpens?: Map<string, Promise<void>>;
+};
+const openPorts = globalForBridge.serialBridgePorts ?? new Map<string, OpenPort>();
+globalForBridge.serialBridgePorts = openPorts;
+// The latest open of each path, while it runs
+const pendingOpens = globalForBridge.serialBridgeOpens ?? new Map<string, Promise<void>>();
+globalForBridge.serialBridgeOpens = pendingOpens;
+
+const createEntry = (options: BridgeOpenOptions, write: OpenPort['write'], close: OpenPort['close']): OpenPort => ({
+  options,
+  listeners: new Set(),
+  buffered: [],
+  bufferedBytes: 0,
+  write,
+  close,
+});
+
+const broadcast = (entry: OpenPort, event: BridgeEvent) => {
+  entry.listeners.forEach(listener => listener(event));
+};
+
+const broadcastData = (entry: OpenPort, chunk: Uint8Array) => {
+  const event: BridgeEvent = { type: 'data', data: Buffer.from(chunk).toString('base64') };
+  if (entry.listeners.size > 0) {
+    broadcast(entry, event);
+    return;
+  }
+  entry.buffered.push(event);
+  entry.bufferedBytes += chunk.length;
+  while (entry.bufferedBytes > MAX_BUFFERED_BYTES && entry.buffered.length > 1) {
+    const dropped = entry.buffered.shift()!;
+    entry.bufferedBytes -= dropped.type === 'data' ? Buffer.byteLength(dropped.data, 'base64') : 0;
+  }
+};
+
+const getOpenPort = (path: string) => {
+  const entry = openPorts.get(path);
+  if (!entry) {
+    throw new SerialBridgeError(`Port ${path} is not open`, 404);
+  }
+  return entry;
+};
+
+export async function listPorts(): Promise<BridgePortInfo[]> {
+  const virtualPort = {
+    path: VIRTUAL_PORT_PATH,
+    manufacturer: 'Simulated controller',
+    isOpen: openPorts.has(VIRTUAL_PORT_PATH),
+  };
+
+  // Port enumeration can fail on hosts without udev; the virtual port is always there
+  let ports: Awaited<ReturnType<typeof SerialPort.list>> = [];
+  try {
+    ports = await SerialPort.list();
+  } catch (error) {
+    console.error('Failed to enumerate serial ports:', error);
+  }
+
+  return [
+    virtualPort,
+    ...ports.map(info => ({
+      path: info.path,
+      manufacturer: info.manufacturer,
+      serialNumber: info.serialNumber,
+      isOpen: openPorts.has(info.path),
+    })),
+  ];
+}
+
+function openVirtualPort(path: string, options: BridgeOpenOptions) {
+  const device = new VirtualElbot({}, getProtocolDriver(options.protocol), options.lineEnding, options.config);
+  const entry = createEntry(
+    options,
+    async (data: Buffer) => device.write(new Uint8Array(data)),
+    async () => {
+      device.close();
+      openPorts.delete(path);
+      broadcast(entry, { type: 'close' });
+      entry.listeners.clear();
+    }
+  );
+
+  device.onData(chunk => broadcastData(entry, chunk));
+  openPorts.set(path, entry);
+}
+
+export function openPort(path: string, options: BridgeOpenOptions): Promise<void> {
+  const previous = pendingOpens.get(path)?.catch(() => undefined) ?? Promise.resolve();
+  const opening = previous.then(() => openPortNow(path, options));
+  pendingOpens.set(path, opening);
+  const done = () => {
+    if (pendingOpens.get(path) === opening) pendingOpens.delete(path);
+  };
+  opening.then(done, done);
+  return opening;
+}
+
+async function openPortNow(path: string, options: BridgeOpenOptions): Promise<void> {
+  const existing = openPorts.get(path);
+  if (existing) {
+    const { baudRate, parity, protocol } = existing.options;
+    if (baudRate !== options.baudRate || parity !== options.parity || protocol !== options.protocol) {
+      throw new SerialBridgeError(`Port ${path} is already open at ${baudRate} baud, parity ${parity} (${protocol})`, 409);
+    }
+    return;
+  }
+
+  if (path === VIRTUAL_PORT_PATH) {
+    openVirtualPort(path, options);
+    return;
+  }
+
+  const port = new SerialPort({
+    path,
+    baudRate: options.baudRate,
+    dataBits: 8,
+    stopBits: 1,
+    parity: options.parity,
+    autoOpen: false
+  });
+  await new Promise<void>((resolve, reject) => {
+    port.open(error => (error ? reject(new SerialBridgeError(error.message, 500)) : resolve()));
+  });
+
+  const entry = createEntry(
+    options,
+    data => new Promise<void>((resolve, reject) => {
+      port.write(data, error => {
+        if (error) {
+          reject(new SerialBridgeError(error.message, 500));
+          return;
+        }
+        port.drain(drainError => (drainError ? reject(new SerialBridgeError(drainError.message, 500)) : resolve()));
+      });
+    }),
+    () => new Promise<void>((resolve, reject) => {
+      port.close(error => (error ? reject(new SerialBridgeError(error.message, 500)) : resolve()));
+    })
+  );
+  openPorts.set(path, entry);
+
+  port.on('data', (chunk: Buffer) => broadcastData(entry, chunk));
+
+  port.on('error', error => {
+    console.error(`Serial bridge error on ${path}:`, error);
+  });
+  port.on('close', (error?: Error | null) => {
+    openPorts.delete(path);
+    broadcast(entry, { type: 'close', error: error?.message });
+    entry.listeners.clear();
+  });
+}
+
+export async function closePort(path: string): Promise<void> {
+  await getOpenPort(path).close();
+}
+
+export async function writePort(path: string, data: Buffer): Promise<void> {
+  await getOpenPort(path).write(data);
+}
+
+export function isPortOpen(path: string): boolean {
+  return openPorts.has(path);
+}
+
+// Register for incoming data on an open port, starting with any data held while
+// nobody listened; returns the unsubscribe function
+export function subscribe(path: string, listener: BridgeListener): () => void {
+  const entry = getOpenPort(path);
+  const buffered = entry.buffered;
+  entry.buffered = [];
+  entry.bufferedBytes = 0;
+  entry.listeners.add(listener);
+  buffered.forEach(listener);
+  return () => {
+    entry.listeners.delete(listener);
+  };
+}
@@ -1,33 +1,93 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { closePort, listPorts, openPort, writePort, SerialBridgeError } from './bridge';
+import { DEFAULT_PORT_SETTINGS, DEFAULT_PROTOCOL_ID, LINE_ENDINGS, PROTOCOL_DRIVERS } from '../../utils/protocols';
+import { parseRobotConfig } from '../../utils/robotConfig';
+import { RobotConfig } from '../../types/robot';
 
-// This is a placeholder API route for serial communication
-// In a production environment, you might want to implement server-side serial communication
-// using Node.js serialport library for cases where Web Serial API is not available
+// Server-side serial bridge for browsers without the Web Serial API.
+// GET lists the ports, POST opens/closes/writes a port (data as base64);
+// incoming data is streamed from /api/serial/stream as Server-Sent Events.
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const errorResponse = (error: unknown) => {
+  const status = error instanceof SerialBridgeError ? error.status : 500;
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json({ success: false, error: message }, { status });
+};
 
 export async function GET() {
-  return NextResponse.json({
-    message: 'Serial API endpoint',
-    note: 'This application primarily uses Web Serial API for direct browser-to-device communication'
-  });
+  try {
+    const ports = await listPorts();
+    return NextResponse.json({ success: true, ports });
+  } catch (error) {
+    console.error('Failed to list serial ports:', error);
+    return errorResponse(error);
+  }
 }
 
 export async function POST(request: NextRequest) {
+  let body;
   try {
-    const body = await request.json();
-    
-    // Here you could implement server-side serial communication
-    // For now, we'll just return the received data
-    console.log('Received joint states:', body);
-    
-    return NextResponse.json({
-      success: true,
-      message: 'Joint states received',
-      data: body
-    });
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid request' }, { status: 400 });
+  }
+
+  const { action, path } = body ?? {};
+  if (typeof path !== 'string' || !path) {
+    return NextResponse.json({ success: false, error: 'Missing port path' }, { status: 400 });
+  }
+
+  try {
+    switch (action) {
+      case 'open': {
+        const baudRate = Number(body.baudRate ?? DEFAULT_PORT_SETTINGS.baudRate);
+        if (!Number.isInteger(baudRate) || baudRate <= 0) {
+          return NextResponse.json({ success: false, error: 'Invalid baud rate' }, { status: 400 });
+        }
+        const parity = body.parity ?? DEFAULT_PORT_SETTINGS.parity;
+        if (!['none', 'even', 'odd'].includes(parity)) {
+          return NextResponse.json({ success: false, error: 'Invalid parity' }, { status: 400 });
+        }
+        const lineEnding = body.lineEnding ?? DEFAULT_PORT_SETTINGS.lineEnding;
+        if (!LINE_ENDINGS.some(entry => entry.value === lineEnding)) {
+          return NextResponse.json({ success: false, error: 'Invalid line ending' }, { status: 400 });
+        }
+        const protocol = body.protocol ?? DEFAULT_PROTOCOL_ID;
+        if (!PROTOCOL_DRIVERS.some(driver => driver.id === protocol)) {
+          return NextResponse.json({ success: false, error: `Unknown protocol '${protocol}'` }, { status: 400 });
+        }
+        let config: RobotConfig | undefined;
+        if (body.config !== undefined) {
+          try {
+            config = parseRobotConfig(body.config);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : 'Invalid robot configuration';
+            return NextResponse.json({ success: false, error: message }, { status: 400 });
+          }
+        }
+        await openPort(path, { baudRate, parity, lineEnding, protocol, config });
+        return NextResponse.json({ success: true, message: `Opened ${path} at ${baudRate} baud` });
+      }
+
+      case 'close':
+        await closePort(path);
+        return NextResponse.json({ success: true, message: `Closed ${path}` });
+
+      case 'write':
+        if (typeof body.data !== 'string') {
+          return NextResponse.json({ success: false, error: 'Missing data to write' }, { status: 400 });
+        }
+        await writePort(path, Buffer.from(body.data, 'base64'));
+        return NextResponse.json({ success: true });
+
+      default:
+        return NextResponse.json({ success: false, error: `Unknown action '${action}'` }, { status: 400 });
+    }
   } catch (error) {
-    return NextResponse.json(
-      { success: false, error: 'Invalid request' },
-      { status: 400 }
-    );
+    console.error(`Serial bridge ${action} failed:`, error);
+    return errorResponse(error);
   }
 }
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isPortOpen, subscribe, BridgeEvent } from '../bridge';
+
+// Server-Sent Events stream of the data received on an open bridge port (base64 chunks)
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const path = request.nextUrl.searchParams.get('path');
+  if (!path) {
+    return NextResponse.json({ success: false, error: 'Missing port path' }, { status: 400 });
+  }
+  if (!isPortOpen(path)) {
+    return NextResponse.json({ success: false, error: `Port ${path} is not open` }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (event: BridgeEvent) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        if (event.type === 'close') {
+          unsubscribe?.();
+          controller.close();
+        }
+      };
+
+      unsubscribe = subscribe(path, send);
+      request.signal.addEventListener('abort', () => {
+        unsubscribe?.();
+      });
+    },
+    cancel() {
+      unsubscribe?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,255 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { JointState, RobotConfig } from '../types/robot';
+import {
+  KinematicChain,
+  forwardKinematics,
+  matrixToPose,
+  poseToMatrix,
+  poseToDisplay,
+  displayToPose,
+  Pose
+} from '../utils/kinematics';
+import { IKSolution, solveAllIK } from '../utils/inverseKinematics';
+import { getJointLimits } from '../utils/robotConfig';
+import { CARTESIAN_AXES as AXES, JogFrame, solveCartesianJog } from '../utils/jogging';
+
+interface CartesianJogPanelProps {
+  config: RobotConfig;
+  chain: KinematicChain | null;
+  jointStates: JointState;
+  onJointChange: (jointName: string, value: number) => void;
+  toolOffset: Pose;
+  onToolOffsetChange: (toolOffset: Pose) => void;
+}
+
+const LINEAR_STEPS = [0.1, 1, 5, 10, 50]; // mm
+const ANGULAR_STEPS = [0.1, 1, 5, 15]; // degrees
+
+const radToDeg = (rad: number) => (rad * 180) / Math.PI;
+const degToRad = (deg: number) => (deg * Math.PI) / 180;
+
+export default function CartesianJogPanel({
+  config,
+  chain,
+  jointStates,
+  onJointChange,
+  toolOffset,
+  onToolOffsetChange
+}: CartesianJogPanelProps) {
+  const [frame, setFrame] = useState<JogFrame>('world');
+  const [linearStep, setLinearStep] = useState(5);
+  const [angularStep, setAngularStep] = useState(5);
+  const [targetPose, setTargetPose] = useState<number[]>([0, 0, 0, 0, 0, 0]);
+  const [solutions, setSolutions] = useState<IKSolution[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const limits = useMemo(() => getJointLimits(config), [config]);
+
+  const currentPose = useMemo<Pose | null>(
+    () => (chain ? matrixToPose(forwardKinematics(chain, jointStates)) : null),
+    [chain, jointStates]
+  );
+
+  const toolDisplay = useMemo(
+    () => poseToDisplay(toolOffset).map(value => Math.round(value * 1000) / 1000),
+    [toolOffset]
+  );
+
+  const applySolution = (joints: JointState) => {
+    Object.entries(joints).forEach(([jointName, value]) => {
+      onJointChange(jointName, value);
+    });
+  };
+
+  const handleJog = (axis: number, sign: number) => {
+    if (!chain) return;
+
+    const amount = axis < 3 ? sign * linearStep / 1000 : sign * degToRad(angularStep);
+    const joints = solveCartesianJog(chain, config, jointStates, [{ axis, amount }], frame);
+
+    if (!joints) {
+      setStatus(`Cannot jog ${sign > 0 ? '+' : '-'}${AXES[axis]}: target is out of reach or outside joint limits`);
+      return;
+    }
+
+    setStatus(null);
+    applySolution(joints);
+  };
+
+  const handleUseCurrent = () => {
+    if (!currentPose) return;
+    setTargetPose(poseToDisplay(currentPose));
+  };
+
+  const handleSolve = () => {
+    if (!chain) return;
+
+    const target = poseToMatrix(displayToPose(targetPose));
+    const found = solveAllIK(chain, target, { seed: jointStates, limits });
+
+    setSolutions(found);
+    setStatus(found.length === 0 ? 'No solution inside the joint limits' : null);
+  };
+
+  if (!chain || !currentPose) {
+    return (
+      <div className="p-4 bg-white rounded-lg shadow-lg">
+        <h3 className="text-lg font-semibold mb-4 text-gray-800">Cartesian Jog</h3>
+        <div className="text-gray-500">Waiting for robot model...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow-lg">
+      <h3 className="text-lg font-semibold mb-4 text-gray-800">Cartesian Jog</h3>
+
+      <div className="space-y-4">
+        {/* Frame and step selection */}
+        <div className="flex items-center justify-between text-sm">
+          <div className="flex space-x-2">
+            {(['world', 'tool'] as JogFrame[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setFrame(option)}
+                className={`px-3 py-1 rounded-lg transition-colors ${
+                  frame === option
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                {option === 'world' ? 'World' : 'Tool'}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center space-x-2">
+            <select
+              value={linearStep}
+              onChange={(e) => setLinearStep(parseFloat(e.target.value))}
+              className="px-2 py-1 border border-gray-300 rounded"
+            >
+              {LINEAR_STEPS.map(step => <option key={step} value={step}>{step} mm</option>)}
+            </select>
+            <select
+              value={angularStep}
+              onChange={(e) => setAngularStep(parseFloat(e.target.value))}
+              className="px-2 py-1 border border-gray-300 rounded"
+            >
+              {ANGULAR_STEPS.map(step => <option key={step} value={step}>{step}°</option>)}
+            </select>
+          </div>
+        </div>
+
+        {/* Jog buttons */}
+        <div className="grid grid-cols-3 gap-2">
+          {AXES.map((axis, index) => (
+            <div key={axis} className="flex space-x-1">
+              <button
+                onClick={() => handleJog(index, -1)}
+                className="flex-1 px-2 py-1 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+              >
+                -{axis}
+              </button>
+              <button
+                onClick={() => handleJog(index, 1)}
+                className="flex-1 px-2 py-1 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+              >
+                +{axis}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {status && (
+          <div className="p-2 text-xs text-red-600 bg-red-50 border border-red-200 rounded-lg">
+            {status}
+          </div>
+        )}
+
+        {/* Target pose */}
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <h4 className="text-sm font-medium text-gray-700">Target Pose (mm / degrees)</h4>
+            <button
+              onClick={handleUseCurrent}
+              className="text-xs text-gray-500 hover:text-gray-700 underline"
+            >
+              Use current
+            </button>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {AXES.map((axis, index) => (
+              <label key={axis} className="flex items-center space-x-1 text-xs text-gray-600">
+                <span className="w-5">{axis}</span>
+                <input
+                  type="number"
+                  step={index < 3 ? 1 : 0.1}
+                  value={targetPose[index]}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (!isNaN(value)) {
+                      setTargetPose(prev => prev.map((v, i) => (i === index ? value : v)));
+                    }
+                  }}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={handleSolve}
+            className="w-full mt-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+          >
+            Solve IK
+          </button>
+        </div>
+
+        {/* Tool centre point relative to the tip link */}
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Tool Offset (mm / degrees)</h4>
+          <div className="grid grid-cols-3 gap-2">
+            {AXES.map((axis, index) => (
+              <label key={axis} className="flex items-center space-x-1 text-xs text-gray-600">
+                <span className="w-5">{axis}</span>
+                <input
+                  type="number"
+                  step={index < 3 ? 1 : 0.1}
+                  value={toolDisplay[index]}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (!isNaN(value)) {
+                      onToolOffsetChange(displayToPose(toolDisplay.map((v, i) => (i === index ? value : v))));
+                    }
+                  }}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Solution branches */}
+        {solutions.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium text-gray-700">Solutions ({solutions.length})</h4>
+            {solutions.map((solution, index) => (
+              <div key={index} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
+                <span className="text-xs text-gray-600 font-mono">
+                  {Object.values(solution.joints).map(value => radToDeg(value).toFixed(1)).join(' ')}
+                </span>
+                <button
+                  onClick={() => applySolution(solution.joints)}
+                  className="ml-2 px-2 py-1 text-xs bg-green-500 text-white rounded hover:bg-green-600 transition-colors"
+                >
+                  Apply
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
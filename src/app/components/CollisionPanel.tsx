@@ -0,0 +1,197 @@
+'use client';
+
+import React, { useState } from 'react';
+import { displayToPose, poseToDisplay } from '../utils/kinematics';
+import {
+  BoxObstacle,
+  CollisionReport,
+  DEFAULT_FLOOR,
+  Obstacle,
+  createBoxObstacle,
+  describeCollision,
+  loadStlObstacle
+} from '../utils/collision';
+import NumberGrid from './NumberGrid';
+
+interface CollisionPanelProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  ready: boolean; // collision shapes of the current robot are loaded
+  report: CollisionReport | null; // contacts in the current pose
+  obstacles: Obstacle[];
+  onObstaclesChange: (obstacles: Obstacle[]) => void;
+}
+
+const AXES = ['X', 'Y', 'Z', 'Rx', 'Ry', 'Rz'];
+const SIZE_AXES = ['L', 'W', 'H'];
+
+// Collision checking switch, live status and the obstacles around the robot (mm / degrees)
+export default function CollisionPanel({
+  enabled,
+  onEnabledChange,
+  ready,
+  report,
+  obstacles,
+  onObstaclesChange
+}: CollisionPanelProps) {
+  const [stlUnits, setStlUnits] = useState(0.001);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const floor = obstacles.find(obstacle => obstacle.type === 'floor');
+
+  const updateObstacle = (id: string, changes: Partial<Obstacle>) => {
+    onObstaclesChange(obstacles.map(obstacle =>
+      obstacle.id === id ? ({ ...obstacle, ...changes } as Obstacle) : obstacle
+    ));
+  };
+
+  const removeObstacle = (id: string) => {
+    onObstaclesChange(obstacles.filter(obstacle => obstacle.id !== id));
+  };
+
+  const setFloorEnabled = (checked: boolean) => {
+    onObstaclesChange(checked
+      ? [DEFAULT_FLOOR, ...obstacles]
+      : obstacles.filter(obstacle => obstacle.type !== 'floor'));
+  };
+
+  const addBox = () => {
+    const count = obstacles.filter(obstacle => obstacle.type === 'box').length;
+    onObstaclesChange([...obstacles, createBoxObstacle(`Box ${count + 1}`)]);
+  };
+
+  const importStl = async (file: File) => {
+    try {
+      onObstaclesChange([...obstacles, await loadStlObstacle(file, stlUnits)]);
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Failed to read STL file');
+    }
+  };
+
+  let status: React.ReactNode;
+  if (!enabled) {
+    status = <span className="text-gray-500">Collision checking is off</span>;
+  } else if (!ready) {
+    status = <span className="text-gray-500">Waiting for the collision meshes…</span>;
+  } else if (report && report.contacts.length > 0) {
+    status = <span className="text-red-600">Collision: {describeCollision(report)}</span>;
+  } else {
+    status = <span className="text-green-600">No collisions</span>;
+  }
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Collisions</h3>
+        <label className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => onEnabledChange(e.target.checked)}
+            className="w-4 h-4"
+          />
+          <span>Check</span>
+        </label>
+      </div>
+
+      <div className="space-y-3">
+        <div className="p-2 text-xs bg-gray-50 border border-gray-200 rounded">{status}</div>
+
+        <div className="flex items-center justify-between text-xs text-gray-600">
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!floor}
+              onChange={(e) => setFloorEnabled(e.target.checked)}
+              className="w-3 h-3"
+            />
+            <span>Floor</span>
+          </label>
+          {floor && (
+            <label className="flex items-center space-x-1">
+              <span>Height (mm)</span>
+              <input
+                type="number"
+                value={Math.round(floor.height * 1000)}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (!isNaN(value)) updateObstacle(floor.id, { height: value / 1000 });
+                }}
+                className="w-16 px-1 py-0.5 border border-gray-300 rounded"
+              />
+            </label>
+          )}
+        </div>
+
+        {obstacles.filter(obstacle => obstacle.type !== 'floor').map(obstacle => (
+          <div key={obstacle.id} className="p-2 space-y-1 bg-gray-50 border border-gray-200 rounded">
+            <div className="flex items-center justify-between">
+              <input
+                value={obstacle.name}
+                onChange={(e) => updateObstacle(obstacle.id, { name: e.target.value })}
+                className="flex-1 mr-2 px-1 py-0.5 text-xs border border-gray-300 rounded"
+              />
+              <button
+                onClick={() => removeObstacle(obstacle.id)}
+                className="text-xs text-red-500 hover:text-red-700"
+              >
+                Remove
+              </button>
+            </div>
+            {obstacle.type === 'box' && (
+              <NumberGrid
+                labels={SIZE_AXES}
+                values={obstacle.size.map(value => value * 1000)}
+                onChange={(values) => updateObstacle(obstacle.id, {
+                  size: values.map(value => Math.max(1, value) / 1000) as BoxObstacle['size']
+                })}
+              />
+            )}
+            <NumberGrid
+              labels={AXES}
+              values={poseToDisplay(obstacle.pose)}
+              onChange={(values) => updateObstacle(obstacle.id, { pose: displayToPose(values) })}
+            />
+          </div>
+        ))}
+
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={addBox}
+            className="flex-1 px-3 py-1 text-xs bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+          >
+            Add box
+          </button>
+          <label className="flex-1 px-3 py-1 text-xs text-center bg-gray-200 text-gray-700 rounded hover:bg-gray-300 cursor-pointer transition-colors">
+            Import STL…
+            <input
+              type="file"
+              accept=".stl"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importStl(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <select
+            value={stlUnits}
+            onChange={(e) => setStlUnits(parseFloat(e.target.value))}
+            className="px-1 py-1 text-xs border border-gray-300 rounded"
+            title="Units of the STL file"
+          >
+            <option value={0.001}>mm</option>
+            <option value={1}>m</option>
+          </select>
+        </div>
+        {importError && <p className="text-xs text-red-600">{importError}</p>}
+
+        <p className="text-xs text-gray-500">
+          Colliding links turn red. Moves whose planned path collides are refused before anything is sent.
+        </p>
+      </div>
+    </div>
+  );
+}
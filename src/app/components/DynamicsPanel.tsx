@@ -0,0 +1,138 @@
+'use client';
+
+import React from 'react';
+import { JointState, RobotConfig } from '../types/robot';
+import { DynamicModel, DynamicsSettings } from '../utils/dynamics';
+import NumberGrid from './NumberGrid';
+
+interface DynamicsPanelProps {
+  config: RobotConfig;
+  model: DynamicModel | null; // null until the robot has loaded
+  torques: JointState | null; // gravity load at the displayed pose
+  ratings: JointState;
+  settings: DynamicsSettings;
+  onSettingsChange: (settings: DynamicsSettings) => void;
+}
+
+const unit = (config: RobotConfig, name: string) =>
+  config.joints.find(joint => joint.name === name)?.type === 'prismatic' ? 'N' : 'N·m';
+
+// Gravity load of every joint at the displayed pose against its motor rating,
+// and the payload carried at the TCP
+export default function DynamicsPanel({ config, model, torques, ratings, settings, onSettingsChange }: DynamicsPanelProps) {
+  const { payload } = settings;
+  const massless = model ? model.bodies.every(body => !body) : false;
+  const overloaded = config.joints.filter(joint =>
+    ratings[joint.name] > 0 && Math.abs(torques?.[joint.name] ?? 0) > ratings[joint.name]);
+
+  const setRating = (name: string, value: number | null) => {
+    const next = { ...settings.ratings };
+    if (value === null) delete next[name];
+    else next[name] = value;
+    onSettingsChange({ ...settings, ratings: next });
+  };
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Dynamics</h3>
+        {torques && (
+          <span className={`text-xs ${overloaded.length > 0 ? 'text-orange-600 font-medium' : 'text-green-700'}`}>
+            {overloaded.length > 0 ? `${overloaded.length} over rating` : 'Within ratings'}
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+            <span>Payload at the TCP</span>
+            <label className="flex items-center space-x-1">
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={payload.mass}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (!isNaN(value) && value >= 0) onSettingsChange({ ...settings, payload: { ...payload, mass: value } });
+                }}
+                className="w-16 px-1 py-0.5 border border-gray-300 rounded"
+              />
+              <span>kg</span>
+            </label>
+          </div>
+          <NumberGrid
+            labels={['X', 'Y', 'Z']}
+            values={payload.com.map(value => value * 1000)}
+            onChange={(values) => onSettingsChange({
+              ...settings,
+              payload: { ...payload, com: [values[0] / 1000, values[1] / 1000, values[2] / 1000] }
+            })}
+          />
+          <p className="text-xs text-gray-500 mt-1">Centre of mass in mm from the TCP, in the tool frame.</p>
+        </div>
+
+        {!model || !torques ? (
+          <p className="text-xs text-gray-500 italic">Waiting for the robot model</p>
+        ) : (
+          <>
+            {massless && (
+              <p className="text-xs text-yellow-700">The URDF has no inertial data for this arm; only the payload is counted.</p>
+            )}
+            <div className="space-y-1 text-xs">
+              <div className="grid grid-cols-[4rem_1fr_5rem] gap-2 text-gray-500">
+                <span>Joint</span>
+                <span>Gravity load</span>
+                <span>Rating</span>
+              </div>
+              {config.joints.map(joint => {
+                const torque = torques[joint.name] ?? 0;
+                const rating = ratings[joint.name];
+                const ratio = rating > 0 ? Math.abs(torque) / rating : 0;
+                return (
+                  <div key={joint.name} className="grid grid-cols-[4rem_1fr_5rem] gap-2 items-center">
+                    <span className="text-gray-700">{joint.name}</span>
+                    <div className="relative h-4 bg-gray-100 rounded overflow-hidden">
+                      <div
+                        className={`absolute inset-y-0 left-0 ${ratio > 1 ? 'bg-orange-400' : ratio > 0.8 ? 'bg-yellow-300' : 'bg-blue-200'}`}
+                        style={{ width: `${Math.min(1, ratio) * 100}%` }}
+                      />
+                      <span className="relative px-1 font-mono text-gray-700">
+                        {torque.toFixed(2)} {unit(config, joint.name)}
+                      </span>
+                    </div>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={rating ?? ''}
+                      placeholder="none"
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        setRating(joint.name, !isNaN(value) && value > 0 ? value : null);
+                      }}
+                      className={`w-full px-1 py-0.5 border rounded ${settings.ratings[joint.name] ? 'border-blue-300' : 'border-gray-300'}`}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex justify-between items-center text-xs text-gray-500">
+              <span>Ratings default to the URDF effort limits.</span>
+              {Object.keys(settings.ratings).length > 0 && (
+                <button onClick={() => onSettingsChange({ ...settings, ratings: {} })} className="text-blue-600 hover:text-blue-800">
+                  Reset ratings
+                </button>
+              )}
+            </div>
+            <p className="text-xs text-gray-500">
+              Links whose joint is over its rating turn orange in the 3D view. The Teach Pendant plot shows
+              the torque along a program.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import React from 'react';
+import { RobotConfig } from '../types/robot';
+import { FollowingError } from '../utils/robotConfig';
+
+interface FollowingErrorPanelProps {
+  config: RobotConfig;
+  errors: FollowingError[] | null; // null until the arm reports its position
+  threshold: number; // degrees (mm for prismatic joints)
+  onThresholdChange: (threshold: number) => void;
+}
+
+// Commanded vs. reported position of each joint, with an alarm past the threshold
+export default function FollowingErrorPanel({
+  config,
+  errors,
+  threshold,
+  onThresholdChange
+}: FollowingErrorPanelProps) {
+  const alarm = errors?.some(entry => entry.exceeded) ?? false;
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Following Error</h3>
+        <label className="flex items-center space-x-1 text-xs text-gray-600">
+          <span>Alarm above</span>
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={threshold}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              if (!isNaN(value) && value >= 0) onThresholdChange(value);
+            }}
+            className="w-16 px-1 py-0.5 border border-gray-300 rounded"
+          />
+          <span>° / mm</span>
+        </label>
+      </div>
+
+      {!errors ? (
+        <p className="text-xs text-gray-500 italic">
+          Enable position polling on the serial connection to compare the arm with the commanded pose
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {alarm && (
+            <div className="p-2 text-xs font-medium text-red-700 bg-red-50 border border-red-200 rounded animate-pulse">
+              Following error alarm: the arm is not where it was commanded
+            </div>
+          )}
+          <div className="grid grid-cols-3 gap-2 text-xs font-mono">
+            {errors.map(entry => {
+              const joint = config.joints.find(item => item.name === entry.joint);
+              return (
+                <div
+                  key={entry.joint}
+                  className={`px-2 py-1 rounded ${entry.exceeded ? 'bg-red-100 text-red-700' : 'bg-gray-50 text-gray-700'}`}
+                >
+                  <div className="text-gray-500">{entry.joint}</div>
+                  <div>
+                    {entry.error >= 0 ? '+' : ''}{entry.error.toFixed(2)}{joint?.type === 'prismatic' ? ' mm' : '°'}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-xs text-gray-500">The green ghost in the 3D view shows the reported position.</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,327 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { JointState, RobotConfig } from '../types/robot';
+import { KinematicChain } from '../utils/kinematics';
+import { SerialLink } from '../utils/serialTransport';
+import { GCodeLineError, GCodeParseError, GCodeProgram, parseGCodeProgram } from '../utils/gcode';
+import { GCodeStreamer, StreamStatus } from '../utils/gcodeStreamer';
+import { animateMove, sampleTcpPath } from '../utils/motion';
+import { ProfileType, planMove } from '../utils/trajectory';
+import { CollisionGuard, describeCollision } from '../utils/collision';
+import { SyncStart } from '../utils/workcell';
+import { PathPreview } from './RobotViewer';
+
+interface GCodeRunnerProps {
+  config: RobotConfig;
+  chain: KinematicChain | null;
+  jointStates: JointState;
+  onJointStatesChange: (states: JointState) => void;
+  link?: SerialLink | null;
+  onPathPreviewChange?: (preview: PathPreview | null) => void;
+  motionProfile?: ProfileType;
+  collisionGuard?: CollisionGuard | null;
+  estop?: boolean; // emergency stop latched
+  syncStart?: SyncStart | null; // joined while a program is ready, to start with the other robots
+  robotId?: string;
+  robotName?: string;
+}
+
+interface LoadedProgram {
+  fileName: string;
+  program: GCodeProgram;
+  start: JointState; // position the moves were resolved from
+}
+
+const SAMPLES_PER_MOVE = 8;
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export default function GCodeRunner({
+  config,
+  chain,
+  jointStates,
+  onJointStatesChange,
+  link = null,
+  onPathPreviewChange,
+  motionProfile = 'trapezoidal',
+  collisionGuard = null,
+  estop = false,
+  syncStart = null,
+  robotId = '',
+  robotName = 'Robot'
+}: GCodeRunnerProps) {
+  const [loaded, setLoaded] = useState<LoadedProgram | null>(null);
+  const [parseErrors, setParseErrors] = useState<GCodeLineError[]>([]);
+  const [queueDepth, setQueueDepth] = useState(2);
+  const [followInSimulator, setFollowInSimulator] = useState(true);
+  const [status, setStatus] = useState<StreamStatus | null>(null);
+  const [refusal, setRefusal] = useState<string | null>(null);
+  const streamerRef = useRef<GCodeStreamer | null>(null);
+  const animationRef = useRef<AbortController | null>(null);
+
+  const jointStatesRef = useRef(jointStates);
+  jointStatesRef.current = jointStates;
+
+  const isActive = status?.state === 'running' || status?.state === 'paused';
+
+  const plannedMoves = useMemo(() => loaded?.program.moves.map((move, index) => planMove(
+    index > 0 ? loaded.program.moves[index - 1].joints : loaded.start,
+    move.joints,
+    config,
+    { feedRate: move.feedRate, profile: motionProfile }
+  )) ?? null, [loaded, config, motionProfile]);
+
+  const pathPoints = useMemo(
+    () => (plannedMoves && chain ? sampleTcpPath(chain, plannedMoves, SAMPLES_PER_MOVE) : null),
+    [plannedMoves, chain]
+  );
+
+  useEffect(() => {
+    onPathPreviewChange?.(pathPoints
+      ? { points: pathPoints, completed: (status?.acknowledged ?? 0) * SAMPLES_PER_MOVE }
+      : null);
+  }, [pathPoints, status?.acknowledged, onPathPreviewChange]);
+
+  // Keep the ETA ticking between acknowledgements
+  useEffect(() => {
+    if (!isActive) return;
+    const interval = setInterval(() => {
+      if (streamerRef.current) setStatus(streamerRef.current.status);
+    }, 500);
+    return () => clearInterval(interval);
+  }, [isActive]);
+
+  useEffect(() => () => {
+    streamerRef.current?.abort();
+    animationRef.current?.abort();
+    onPathPreviewChange?.(null);
+  }, [onPathPreviewChange]);
+
+  useEffect(() => {
+    if (!estop) return;
+    streamerRef.current?.abort();
+    animationRef.current?.abort();
+  }, [estop]);
+
+  const loadFile = async (file: File) => {
+    try {
+      const program = parseGCodeProgram(await file.text(), config, jointStatesRef.current, motionProfile);
+      setLoaded({ fileName: file.name, program, start: { ...jointStatesRef.current } });
+      setParseErrors([]);
+      setStatus(null);
+      setRefusal(null);
+    } catch (error) {
+      setLoaded(null);
+      setParseErrors(error instanceof GCodeParseError
+        ? error.errors
+        : [{ lineNumber: 0, message: error instanceof Error ? error.message : 'Failed to read file' }]);
+    }
+  };
+
+  // Nothing is sent if any move of the program would collide
+  const check = (guard = collisionGuard) => {
+    if (!loaded) return null;
+    for (const [index, trajectory] of (plannedMoves ?? []).entries()) {
+      const hit = guard?.checkTrajectory(trajectory);
+      if (hit) return `Line ${loaded.program.moves[index].lineNumber} would collide (${describeCollision(hit.report)})`;
+    }
+    return null;
+  };
+
+  const start = () => {
+    if (!loaded || !link || isActive || estop) return;
+    const reason = check();
+    setRefusal(reason);
+    if (!reason) run();
+  };
+
+  const run = async () => {
+    if (!loaded || !link) return;
+    const { program } = loaded;
+    setRefusal(null);
+
+    const streamer = new GCodeStreamer(program, link, {
+      queueDepth,
+      onStatus: setStatus,
+      onMoveStarted: (move, index) => {
+        if (!followInSimulator) return;
+        animationRef.current?.abort();
+        const controller = new AbortController();
+        animationRef.current = controller;
+        const from = index > 0 ? program.moves[index - 1].joints : jointStatesRef.current;
+        animateMove(from, move.joints, config, onJointStatesChange, {
+          feedRate: move.feedRate,
+          profile: motionProfile,
+          signal: controller.signal
+        });
+      }
+    });
+    streamerRef.current = streamer;
+    await streamer.run();
+    streamerRef.current = null;
+  };
+
+  // The synchronized start reads the latest checks and program through a ref
+  const syncRef = useRef({ check, run, plannedMoves });
+  syncRef.current = { check, run, plannedMoves };
+  const ready = !!loaded && !!link && !isActive && !estop;
+
+  // The other robots starting along are not where they stand now, so the
+  // synchronized start hands in a guard without them and checks them itself
+  useEffect(() => {
+    if (!syncStart || !ready) return;
+    return syncStart.join({
+      robotId,
+      name: robotName,
+      check: guard => {
+        const reason = syncRef.current.check(guard);
+        setRefusal(reason);
+        return reason;
+      },
+      plan: () => syncRef.current.plannedMoves ?? [],
+      start: () => syncRef.current.run()
+    });
+  }, [syncStart, ready, robotId, robotName]);
+
+  const abort = () => {
+    streamerRef.current?.abort();
+    animationRef.current?.abort();
+  };
+
+  const progress = status && status.total > 0 ? status.acknowledged / status.total : 0;
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">G-code Program</h3>
+        <label className={`text-xs underline ${isActive ? 'text-gray-300' : 'text-gray-500 hover:text-gray-700 cursor-pointer'}`}>
+          Open…
+          <input
+            type="file"
+            accept=".gcode,.nc,.txt"
+            disabled={isActive}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) loadFile(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+
+      <div className="space-y-3">
+        {loaded ? (
+          <div className="text-xs text-gray-600">
+            <div className="font-medium text-gray-800 truncate">{loaded.fileName}</div>
+            <div>
+              {loaded.program.moves.length} moves, about {formatDuration(loaded.program.durationMs)} at the programmed feed rates
+            </div>
+          </div>
+        ) : parseErrors.length === 0 && (
+          <p className="text-xs text-gray-500 italic">Open a .gcode or .nc file of G06 moves to preview and run it</p>
+        )}
+
+        {parseErrors.length > 0 && (
+          <div className="p-2 bg-red-50 border border-red-200 rounded text-xs text-red-700">
+            <div className="font-medium mb-1">Program rejected:</div>
+            <ul className="max-h-24 overflow-y-auto font-mono">
+              {parseErrors.slice(0, 20).map((error, index) => (
+                <li key={index}>{error.lineNumber > 0 ? `Line ${error.lineNumber}: ` : ''}{error.message}</li>
+              ))}
+              {parseErrors.length > 20 && <li>…and {parseErrors.length - 20} more</li>}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between text-xs text-gray-600">
+          <label className="flex items-center space-x-2">
+            <span>Queue depth</span>
+            <input
+              type="number"
+              min={1}
+              max={32}
+              value={queueDepth}
+              disabled={isActive}
+              onChange={(e) => {
+                const value = parseInt(e.target.value, 10);
+                if (value >= 1) setQueueDepth(Math.min(32, value));
+              }}
+              className="w-14 px-2 py-1 border border-gray-300 rounded"
+            />
+          </label>
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={followInSimulator}
+              disabled={isActive}
+              onChange={(e) => setFollowInSimulator(e.target.checked)}
+              className="w-3 h-3"
+            />
+            <span>Follow in simulator</span>
+          </label>
+        </div>
+
+        <div className="flex space-x-2">
+          {!isActive ? (
+            <button
+              onClick={start}
+              disabled={!loaded || !link || estop}
+              className="flex-1 px-3 py-2 text-sm bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+            >
+              Start
+            </button>
+          ) : (
+            <button
+              onClick={() => (status?.state === 'paused' ? streamerRef.current?.resume() : streamerRef.current?.pause())}
+              className="flex-1 px-3 py-2 text-sm bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 transition-colors"
+            >
+              {status?.state === 'paused' ? 'Resume' : 'Pause'}
+            </button>
+          )}
+          <button
+            onClick={abort}
+            disabled={!isActive}
+            className="flex-1 px-3 py-2 text-sm bg-red-500 text-white rounded-lg hover:bg-red-600 disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+          >
+            Abort
+          </button>
+        </div>
+        {refusal && (
+          <div className="p-2 bg-red-50 border border-red-200 rounded text-xs text-red-700">
+            Program refused: {refusal}
+          </div>
+        )}
+        {loaded && !link && (
+          <p className="text-xs text-yellow-700">Connect a serial port to stream the program.</p>
+        )}
+        {syncStart && ready && (
+          <p className="text-xs text-gray-500">Ready to start together with the other robots from the Workcell panel.</p>
+        )}
+
+        {status && (
+          <div className="space-y-1 text-xs text-gray-600">
+            <div className="h-2 bg-gray-200 rounded">
+              <div className="h-2 bg-green-500 rounded" style={{ width: `${progress * 100}%` }} />
+            </div>
+            <div className="flex justify-between">
+              <span className="capitalize">{status.state}</span>
+              <span>{status.acknowledged}/{status.total} done, {status.sent - status.acknowledged} queued</span>
+              {isActive && <span>ETA {formatDuration(status.etaMs)}</span>}
+            </div>
+            {status.currentMove && isActive && (
+              <div className="font-mono truncate" title={status.currentMove.source}>
+                Line {status.currentMove.lineNumber}: {status.currentMove.source}
+              </div>
+            )}
+            {status.error && <div className="text-red-600">{status.error}</div>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
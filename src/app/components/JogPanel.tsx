@@ -0,0 +1,406 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { JointState, RobotConfig } from '../types/robot';
+import { KinematicChain } from '../utils/kinematics';
+import { toDisplayUnits } from '../utils/robotConfig';
+import {
+  CARTESIAN_AXES,
+  DEFAULT_JOG_BINDINGS,
+  GAMEPAD_DEADZONE,
+  JOG_AXIS_COUNT,
+  JogBindings,
+  JogFrame,
+  JogMode,
+  MAX_ANGULAR_SPEED,
+  MAX_LINEAR_SPEED,
+  jogJoint,
+  keyLabel,
+  loadJogBindings,
+  saveJogBindings,
+  solveCartesianJog
+} from '../utils/jogging';
+
+interface JogPanelProps {
+  config: RobotConfig;
+  chain: KinematicChain | null;
+  jointStates: JointState;
+  onJointChange: (jointName: string, value: number) => void;
+  estop?: boolean; // no jogging while the emergency stop is latched
+}
+
+type JogType = 'step' | 'continuous';
+
+// Which binding the next key press is assigned to
+type Capture = { axis: number; direction: 0 | 1 } | 'deadman' | null;
+
+const STEPS = [0.1, 0.5, 1, 5, 10]; // degrees, or mm for translations and prismatic joints
+const GAMEPAD_AXES = 8;
+const GAMEPAD_BUTTONS = 16;
+// Stick deflection that counts as one press in step mode
+const STEP_THRESHOLD = 0.5;
+
+const degToRad = (deg: number) => (deg * Math.PI) / 180;
+
+// Keys typed into form fields are not jog commands
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Keyboard and gamepad jogging in joint or Cartesian mode. Steps move once per
+// press; continuous jog moves at a share of the maximum speed only while the
+// deadman key or button is held, and stops the moment it is let go.
+export default function JogPanel({ config, chain, jointStates, onJointChange, estop = false }: JogPanelProps) {
+  const [enabled, setEnabled] = useState(false);
+  const [mode, setMode] = useState<JogMode>('joint');
+  const [jogType, setJogType] = useState<JogType>('step');
+  const [step, setStep] = useState(1);
+  const [speed, setSpeed] = useState(25); // percent
+  const [frame, setFrame] = useState<JogFrame>('world');
+  const [bindings, setBindings] = useState<JogBindings>(DEFAULT_JOG_BINDINGS);
+  const [bindingsLoaded, setBindingsLoaded] = useState(false);
+  const [capture, setCapture] = useState<Capture>(null);
+  const [deadmanHeld, setDeadmanHeld] = useState(false);
+  const [gamepadName, setGamepadName] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  // The key and animation frame handlers live across renders; they read everything through here
+  const jointStatesRef = useRef(jointStates);
+  jointStatesRef.current = jointStates;
+  const settingsRef = useRef({ config, chain, onJointChange, estop, mode, jogType, step, speed, frame, bindings });
+  settingsRef.current = { config, chain, onJointChange, estop, mode, jogType, step, speed, frame, bindings };
+  const pressedRef = useRef(new Set<string>());
+  const captureRef = useRef(capture);
+  captureRef.current = capture;
+
+  // localStorage is only available after hydration
+  useEffect(() => {
+    setBindings(loadJogBindings());
+    setBindingsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (bindingsLoaded) saveJogBindings(bindings);
+  }, [bindings, bindingsLoaded]);
+
+  const axisCount = mode === 'joint' ? Math.min(JOG_AXIS_COUNT, config.joints.length) : JOG_AXIS_COUNT;
+  const axisLabel = (axis: number) => (mode === 'joint' ? config.joints[axis]?.name : CARTESIAN_AXES[axis]);
+
+  // Move by the given amount per axis: display units for joints, meters/radians in Cartesian mode.
+  // Applied to the latest pose right away so the next frame builds on it before the page re-renders.
+  const jogRef = useRef((amounts: number[]) => {
+    const { config, chain, onJointChange, estop, mode, frame } = settingsRef.current;
+    if (estop) return;
+    const current = jointStatesRef.current;
+
+    let changes: JointState | null = {};
+    if (mode === 'joint') {
+      amounts.forEach((amount, axis) => {
+        if (amount !== 0) Object.assign(changes!, jogJoint(config, { ...current, ...changes }, axis, amount));
+      });
+    } else if (chain) {
+      const moves = amounts.map((amount, axis) => ({ axis, amount })).filter(move => move.amount !== 0);
+      changes = solveCartesianJog(chain, config, current, moves, frame);
+    }
+
+    if (!changes) {
+      setStatus('Target is out of reach or outside the joint limits');
+      return;
+    }
+    setStatus(null);
+    jointStatesRef.current = { ...current, ...changes };
+    Object.entries(changes).forEach(([jointName, value]) => onJointChange(jointName, value));
+  });
+
+  // One step along an axis in the jog direction
+  const stepRef = useRef((axis: number, sign: number) => {
+    const { mode, step } = settingsRef.current;
+    const amounts = new Array(JOG_AXIS_COUNT).fill(0);
+    amounts[axis] = mode === 'joint' ? sign * step : sign * (axis < 3 ? step / 1000 : degToRad(step));
+    jogRef.current(amounts);
+  });
+
+  // Keyboard: record held keys, take steps on fresh presses, and capture new bindings
+  useEffect(() => {
+    const pressed = pressedRef.current;
+    const onKeyDown = (event: KeyboardEvent) => {
+      const pending = captureRef.current;
+      if (pending) {
+        event.preventDefault();
+        setBindings(prev => {
+          if (pending === 'deadman') return { ...prev, deadmanKey: event.code };
+          const keys = prev.keys.map(pair => [...pair] as [string, string]);
+          keys[pending.axis][pending.direction] = event.code;
+          return { ...prev, keys };
+        });
+        setCapture(null);
+        return;
+      }
+      if (!enabled || isEditable(event.target)) return;
+
+      const { keys, deadmanKey } = settingsRef.current.bindings;
+      const axis = keys.findIndex(pair => pair.includes(event.code));
+      if (axis === -1 && event.code !== deadmanKey) return;
+      event.preventDefault();
+      pressed.add(event.code);
+
+      if (axis !== -1 && settingsRef.current.jogType === 'step' && !event.repeat) {
+        stepRef.current(axis, keys[axis][0] === event.code ? 1 : -1);
+      }
+    };
+    const onKeyUp = (event: KeyboardEvent) => pressed.delete(event.code);
+    // Keys released while the window has no focus never report it; let go of everything
+    const onBlur = () => pressed.clear();
+
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+      pressed.clear();
+    };
+  }, [enabled]);
+
+  // Poll the gamepad and run continuous jog once per animation frame
+  useEffect(() => {
+    if (!enabled) return;
+
+    let frameId = 0;
+    let last = performance.now();
+    let lastDeadman = false;
+    let lastPad: string | null = null;
+    const stickSigns = new Array(JOG_AXIS_COUNT).fill(0);
+
+    const tick = (now: number) => {
+      const dt = Math.min(0.1, (now - last) / 1000); // a stalled tab must not cause a jump
+      last = now;
+      const { config, mode, jogType, speed, bindings } = settingsRef.current;
+      const pressed = pressedRef.current;
+
+      const pad = typeof navigator.getGamepads === 'function'
+        ? navigator.getGamepads().find(entry => !!entry) ?? null
+        : null;
+      const padName = pad?.id ?? null;
+      if (padName !== lastPad) setGamepadName(lastPad = padName);
+
+      const inputs = bindings.keys.map(([plus, minus], axis) => {
+        let value = (pressed.has(plus) ? 1 : 0) - (pressed.has(minus) ? 1 : 0);
+        const binding = bindings.gamepadAxes[axis];
+        const raw = pad && binding.index >= 0 ? pad.axes[binding.index] ?? 0 : 0;
+        if (Math.abs(raw) > GAMEPAD_DEADZONE) value += binding.invert ? -raw : raw;
+        return Math.max(-1, Math.min(1, value));
+      });
+
+      const deadman = pressed.has(bindings.deadmanKey) || !!pad?.buttons[bindings.deadmanButton]?.pressed;
+      if (deadman !== lastDeadman) setDeadmanHeld(lastDeadman = deadman);
+
+      if (jogType === 'continuous') {
+        if (deadman && inputs.some(value => value !== 0)) {
+          const scale = (speed / 100) * dt;
+          jogRef.current(inputs.map((value, axis) => {
+            if (value === 0) return 0;
+            if (mode === 'cartesian') return value * scale * (axis < 3 ? MAX_LINEAR_SPEED : MAX_ANGULAR_SPEED);
+            const joint = config.joints[axis];
+            return joint ? value * scale * toDisplayUnits(joint, joint.maxVelocity) : 0;
+          }));
+        }
+      } else if (pad) {
+        // A stick pushed past the threshold is one step, like a key press
+        bindings.gamepadAxes.forEach((binding, axis) => {
+          const raw = binding.index >= 0 ? pad.axes[binding.index] ?? 0 : 0;
+          const value = binding.invert ? -raw : raw;
+          const sign = Math.abs(value) > STEP_THRESHOLD ? Math.sign(value) : 0;
+          if (sign !== 0 && sign !== stickSigns[axis]) stepRef.current(axis, sign);
+          stickSigns[axis] = sign;
+        });
+      }
+
+      frameId = requestAnimationFrame(tick);
+    };
+
+    frameId = requestAnimationFrame(tick);
+    return () => {
+      cancelAnimationFrame(frameId);
+      setDeadmanHeld(false);
+    };
+  }, [enabled]);
+
+  const updateAxisBinding = (axis: number, changes: Partial<JogBindings['gamepadAxes'][number]>) => {
+    setBindings(prev => ({
+      ...prev,
+      gamepadAxes: prev.gamepadAxes.map((binding, index) => (index === axis ? { ...binding, ...changes } : binding))
+    }));
+  };
+
+  const captureButton = (target: Capture, label: string) => {
+    const active = JSON.stringify(capture) === JSON.stringify(target);
+    return (
+      <button
+        onClick={() => setCapture(active ? null : target)}
+        className={`px-1.5 py-0.5 font-mono border rounded ${active ? 'border-blue-500 text-blue-600' : 'border-gray-300 hover:border-gray-400'}`}
+      >
+        {active ? '…' : label}
+      </button>
+    );
+  };
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Keyboard &amp; Gamepad Jog</h3>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+          <span>Enabled</span>
+        </label>
+      </div>
+
+      <div className="space-y-3 text-sm">
+        <div className="flex justify-between">
+          <div className="flex space-x-2">
+            {(['joint', 'cartesian'] as JogMode[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                disabled={option === 'cartesian' && !chain}
+                className={`px-3 py-1 rounded-lg transition-colors disabled:opacity-50 ${
+                  mode === option ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                {option === 'joint' ? 'Joint' : 'Cartesian'}
+              </button>
+            ))}
+          </div>
+          {mode === 'cartesian' && (
+            <select
+              value={frame}
+              onChange={(e) => setFrame(e.target.value as JogFrame)}
+              className="px-2 py-1 border border-gray-300 rounded"
+            >
+              <option value="world">World frame</option>
+              <option value="tool">Tool frame</option>
+            </select>
+          )}
+        </div>
+
+        <div className="flex justify-between items-center">
+          <select
+            value={jogType}
+            onChange={(e) => setJogType(e.target.value as JogType)}
+            className="px-2 py-1 border border-gray-300 rounded"
+          >
+            <option value="step">Step per press</option>
+            <option value="continuous">Continuous (hold deadman)</option>
+          </select>
+          {jogType === 'step' ? (
+            <label className="flex items-center space-x-2 text-gray-700">
+              <span>Step</span>
+              <select
+                value={step}
+                onChange={(e) => setStep(Number(e.target.value))}
+                className="px-2 py-1 border border-gray-300 rounded"
+              >
+                {STEPS.map(value => (
+                  <option key={value} value={value}>{value} ° / mm</option>
+                ))}
+              </select>
+            </label>
+          ) : (
+            <label className="flex items-center space-x-2 text-gray-700">
+              <span>Speed</span>
+              <input
+                type="range"
+                min={5}
+                max={100}
+                step={5}
+                value={speed}
+                onChange={(e) => setSpeed(Number(e.target.value))}
+                className="w-20"
+              />
+              <span className="w-9 text-right font-mono text-xs">{speed}%</span>
+            </label>
+          )}
+        </div>
+
+        <div className="flex justify-between text-xs text-gray-500">
+          <span>{gamepadName ? `Gamepad: ${gamepadName}` : 'No gamepad (press a button to connect one)'}</span>
+          {jogType === 'continuous' && (
+            <span className={deadmanHeld ? 'text-green-600 font-medium' : ''}>
+              Deadman {deadmanHeld ? 'held' : 'released'}
+            </span>
+          )}
+        </div>
+
+        {estop && <p className="text-xs text-red-600">Jogging is blocked by the emergency stop</p>}
+        {status && <p className="text-xs text-red-600">{status}</p>}
+
+        <details className="text-xs text-gray-700">
+          <summary className="cursor-pointer text-gray-600">Bindings</summary>
+          <table className="mt-2 w-full">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-left font-normal">Axis</th>
+                <th className="font-normal">+</th>
+                <th className="font-normal">−</th>
+                <th className="font-normal">Stick axis</th>
+                <th className="font-normal">Invert</th>
+              </tr>
+            </thead>
+            <tbody>
+              {bindings.keys.slice(0, axisCount).map(([plus, minus], axis) => (
+                <tr key={axis}>
+                  <td className="py-0.5">{axisLabel(axis)}</td>
+                  <td className="text-center">{captureButton({ axis, direction: 0 }, keyLabel(plus))}</td>
+                  <td className="text-center">{captureButton({ axis, direction: 1 }, keyLabel(minus))}</td>
+                  <td className="text-center">
+                    <select
+                      value={bindings.gamepadAxes[axis].index}
+                      onChange={(e) => updateAxisBinding(axis, { index: Number(e.target.value) })}
+                      className="px-1 py-0.5 border border-gray-300 rounded"
+                    >
+                      <option value={-1}>None</option>
+                      {Array.from({ length: GAMEPAD_AXES }, (_, index) => (
+                        <option key={index} value={index}>Axis {index}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="text-center">
+                    <input
+                      type="checkbox"
+                      checked={bindings.gamepadAxes[axis].invert}
+                      onChange={(e) => updateAxisBinding(axis, { invert: e.target.checked })}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="mt-2 flex items-center justify-between">
+            <span className="flex items-center space-x-2">
+              <span>Deadman</span>
+              {captureButton('deadman', keyLabel(bindings.deadmanKey))}
+              <select
+                value={bindings.deadmanButton}
+                onChange={(e) => setBindings(prev => ({ ...prev, deadmanButton: Number(e.target.value) }))}
+                className="px-1 py-0.5 border border-gray-300 rounded"
+              >
+                {Array.from({ length: GAMEPAD_BUTTONS }, (_, index) => (
+                  <option key={index} value={index}>Button {index}</option>
+                ))}
+              </select>
+            </span>
+            <button onClick={() => setBindings(DEFAULT_JOG_BINDINGS)} className="text-blue-600 hover:underline">
+              Defaults
+            </button>
+          </div>
+          {capture && <p className="mt-1 text-blue-600">Press the key to bind</p>}
+        </details>
+
+        <p className="text-xs text-gray-500">
+          Jog moves stay inside the joint limits and reach the robot through auto-send, at its rate.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -1,58 +1,101 @@
 'use client';
 
 import React from 'react';
-import { JointState } from '../types/robot';
+import { JointConfig, JointState, RobotConfig, URDFMimicJoint, URDFRobot } from '../types/robot';
+import { Pose } from '../utils/kinematics';
+
+export type ConfigSource = 'file' | 'urdf';
 
 interface JointControlsProps {
+  config: RobotConfig;
+  configSource?: ConfigSource;
+  onConfigSourceChange?: (source: ConfigSource) => void;
+  onConfigFileSelected?: (file: File) => void;
   jointStates: JointState;
   onJointChange: (jointName: string, value: number) => void;
   onSendToSerial?: () => void;
   isConnected?: boolean;
+  tcpPose?: Pose | null;
+  robot?: URDFRobot | null; // used to list mimic joints
 }
 
 export default function JointControls({
+  config,
+  configSource = 'file',
+  onConfigSourceChange,
+  onConfigFileSelected,
   jointStates,
   onJointChange,
   onSendToSerial,
-  isConnected = false
+  isConnected = false,
+  tcpPose = null,
+  robot = null
 }: JointControlsProps) {
-  const jointNames = [
-    'theta1',
-    'theta2', 
-    'theta3',
-    'theta4',
-    'theta5',
-    'theta6'
-  ];
-
-  // Joint limits based on robot specifications
-  const jointLimits = {
-    theta1: { min: -170, max: 170 },
-    theta2: { min: -100, max: 130 },
-    theta3: { min: -90, max: 75 },
-    theta4: { min: -180, max: 180 },
-    theta5: { min: -120, max: 120 },
-    theta6: { min: -360, max: 360 }
-  };
+  const jointNames = config.joints.map(joint => joint.name);
 
   const handleReset = () => {
-    jointNames.forEach(jointName => {
-      onJointChange(jointName, 0);
+    config.joints.forEach(joint => {
+      onJointChange(joint.name, joint.home);
     });
   };
 
   const radToDeg = (rad: number) => (rad * 180) / Math.PI;
-  const degToRad = (deg: number) => (deg * Math.PI) / 180;
+
+  // Sliders show degrees for angular joints and millimeters for prismatic ones
+  const toDisplay = (joint: JointConfig, value: number) =>
+    joint.type === 'prismatic' ? value * 1000 : radToDeg(value);
+  const fromDisplay = (joint: JointConfig, value: number) =>
+    joint.type === 'prismatic' ? value / 1000 : (value * Math.PI) / 180;
+
+  // Joints driven by another joint through a <mimic> tag
+  const mimicJoints = robot
+    ? Object.values(robot.joints).filter(joint => (joint as URDFMimicJoint).mimicJoint) as URDFMimicJoint[]
+    : [];
 
   return (
     <div className="p-4 bg-white rounded-lg shadow-lg">
-      <h3 className="text-lg font-semibold mb-4 text-gray-800">Joint Controls</h3>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Joint Controls</h3>
+        {onConfigSourceChange && (
+          <div className="flex items-center space-x-2">
+            <select
+              value={configSource}
+              onChange={(e) => onConfigSourceChange(e.target.value as ConfigSource)}
+              className="px-2 py-1 text-xs border border-gray-300 rounded"
+              title="Where the joint limits come from"
+            >
+              <option value="file">Config file</option>
+              <option value="urdf">URDF limits</option>
+            </select>
+            {onConfigFileSelected && (
+              <label className="text-xs text-gray-500 hover:text-gray-700 underline cursor-pointer">
+                Load…
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) onConfigFileSelected(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            )}
+          </div>
+        )}
+      </div>
       
       <div className="space-y-4">
-        {jointNames.map((jointName) => {
+        {config.joints.map((joint) => {
+          const jointName = joint.name;
           const currentValue = jointStates[jointName] || 0;
-          const currentDegrees = radToDeg(currentValue);
-          const limits = jointLimits[jointName as keyof typeof jointLimits];
+          const currentDisplay = toDisplay(joint, currentValue);
+          const unit = joint.type === 'prismatic' ? ' mm' : '°';
+          const limits = {
+            min: Math.round(toDisplay(joint, joint.min) * 10) / 10,
+            max: Math.round(toDisplay(joint, joint.max) * 10) / 10
+          };
           
           return (
             <div key={jointName} className="flex items-center space-x-4">
@@ -66,18 +109,16 @@ export default function JointControls({
                   min={limits.min}
                   max={limits.max}
                   step="1"
-                  value={Math.max(limits.min, Math.min(limits.max, currentDegrees))}
+                  value={Math.max(limits.min, Math.min(limits.max, currentDisplay))}
                   onChange={(e) => {
-                    const degrees = parseFloat(e.target.value);
-                    const radians = degToRad(degrees);
-                    onJointChange(jointName, radians);
+                    onJointChange(jointName, fromDisplay(joint, parseFloat(e.target.value)));
                   }}
                   className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
                 />
                 <div className="flex justify-between text-xs text-gray-500 mt-1">
-                  <span>{limits.min}°</span>
-                  <span>0°</span>
-                  <span>{limits.max}°</span>
+                  <span>{limits.min}{unit}</span>
+                  <span>0{unit}</span>
+                  <span>{limits.max}{unit}</span>
                 </div>
               </div>
               
@@ -87,24 +128,51 @@ export default function JointControls({
                   min={limits.min}
                   max={limits.max}
                   step="0.1"
-                  value={currentDegrees.toFixed(1)}
+                  value={currentDisplay.toFixed(1)}
                   onChange={(e) => {
-                    const degrees = parseFloat(e.target.value);
-                    if (!isNaN(degrees)) {
-                      const clampedDegrees = Math.max(limits.min, Math.min(limits.max, degrees));
-                      const radians = degToRad(clampedDegrees);
-                      onJointChange(jointName, radians);
+                    const value = parseFloat(e.target.value);
+                    if (!isNaN(value)) {
+                      const clamped = Math.max(limits.min, Math.min(limits.max, value));
+                      onJointChange(jointName, fromDisplay(joint, clamped));
                     }
                   }}
                   className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
                 />
-                <div className="text-xs text-gray-500 text-center">degrees</div>
+                <div className="text-xs text-gray-500 text-center">
+                  {joint.type === 'prismatic' ? 'mm' : 'degrees'}
+                </div>
               </div>
             </div>
           );
         })}
       </div>
 
+      {mimicJoints.length > 0 && (
+        <div className="mt-4">
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Mimic Joints:</h4>
+          <div className="space-y-1 text-xs text-gray-600">
+            {mimicJoints.map(joint => {
+              const multiplier = Number(joint.multiplier);
+              const offset = Number(joint.offset);
+              const value = (jointStates[String(joint.mimicJoint)] || 0) * multiplier + offset;
+              return (
+                <div key={joint.urdfName} className="flex justify-between">
+                  <span>
+                    {joint.urdfName} = {String(joint.mimicJoint)} × {multiplier}
+                    {offset !== 0 && ` ${offset > 0 ? '+' : '−'} ${Math.abs(offset)}`}
+                  </span>
+                  <span className="font-mono">
+                    {joint.jointType === 'prismatic'
+                      ? `${(value * 1000).toFixed(1)} mm`
+                      : `${radToDeg(value).toFixed(1)}°`}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       <div className="mt-6 flex space-x-3">
         <button
           onClick={handleReset}
@@ -128,15 +196,39 @@ export default function JointControls({
         )}
       </div>
 
-      <div className="mt-4 p-3 bg-gray-50 rounded-lg">
-        <h4 className="text-sm font-medium text-gray-700 mb-2">Current Joint Values (Radians):</h4>
-        <div className="text-xs text-gray-600 font-mono">
-          {jointNames.map(jointName => (
-            <div key={jointName} className="flex justify-between">
-              <span>{jointName}:</span>
-              <span>{(jointStates[jointName] || 0).toFixed(3)}</span>
+      <div className="mt-4 p-3 bg-gray-50 rounded-lg grid grid-cols-2 gap-4">
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Current Joint Values (rad / m):</h4>
+          <div className="text-xs text-gray-600 font-mono">
+            {jointNames.map(jointName => (
+              <div key={jointName} className="flex justify-between">
+                <span>{jointName}:</span>
+                <span>{(jointStates[jointName] || 0).toFixed(3)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">TCP Pose (mm / °):</h4>
+          {tcpPose ? (
+            <div className="text-xs text-gray-600 font-mono">
+              {['X', 'Y', 'Z'].map((axis, index) => (
+                <div key={axis} className="flex justify-between">
+                  <span>{axis}:</span>
+                  <span>{(tcpPose.position[index] * 1000).toFixed(1)}</span>
+                </div>
+              ))}
+              {['Roll', 'Pitch', 'Yaw'].map((axis, index) => (
+                <div key={axis} className="flex justify-between">
+                  <span>{axis}:</span>
+                  <span>{radToDeg(tcpPose.rpy[index]).toFixed(1)}</span>
+                </div>
+              ))}
             </div>
-          ))}
+          ) : (
+            <p className="text-xs text-gray-500 italic">Waiting for robot model...</p>
+          )}
         </div>
       </div>
 
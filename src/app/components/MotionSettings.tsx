@@ -0,0 +1,56 @@
+'use client';
+
+import React from 'react';
+import { ProfileType } from '../utils/trajectory';
+
+interface MotionSettingsProps {
+  profile: ProfileType;
+  onProfileChange: (profile: ProfileType) => void;
+  speedOverride: number; // percent of the programmed feed rate
+  onSpeedOverrideChange: (percent: number) => void;
+}
+
+// Settings shared by everything that plans motion: incoming G06 moves, program replay and the G-code runner
+export default function MotionSettings({
+  profile,
+  onProfileChange,
+  speedOverride,
+  onSpeedOverrideChange
+}: MotionSettingsProps) {
+  return (
+    <div className="p-4 bg-white rounded-lg shadow-lg">
+      <h3 className="text-lg font-semibold mb-4 text-gray-800">Motion</h3>
+
+      <label className="flex items-center justify-between text-sm text-gray-700">
+        <span>Velocity profile</span>
+        <select
+          value={profile}
+          onChange={(e) => onProfileChange(e.target.value as ProfileType)}
+          className="px-2 py-1 text-sm border border-gray-300 rounded"
+        >
+          <option value="trapezoidal">Trapezoidal</option>
+          <option value="s-curve">S-curve (jerk limited)</option>
+        </select>
+      </label>
+      <label className="mt-3 flex items-center justify-between text-sm text-gray-700">
+        <span>Speed override</span>
+        <span className="flex items-center gap-2">
+          <input
+            type="range"
+            min={10}
+            max={100}
+            step={5}
+            value={speedOverride}
+            onChange={(e) => onSpeedOverrideChange(Number(e.target.value))}
+            className="w-28"
+          />
+          <span className="w-10 text-right font-mono text-xs">{speedOverride}%</span>
+        </span>
+      </label>
+      <p className="mt-2 text-xs text-gray-500">
+        Moves are planned from the per-joint velocity and acceleration limits of the robot configuration.
+        The override scales the feed rate of every move sent to the robot.
+      </p>
+    </div>
+  );
+}
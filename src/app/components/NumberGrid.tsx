@@ -0,0 +1,34 @@
+'use client';
+
+import React from 'react';
+
+interface NumberGridProps {
+  labels: string[];
+  values: number[];
+  step?: number;
+  onChange: (values: number[]) => void;
+}
+
+// Compact grid of labelled number inputs, three to a row (positions, sizes, poses)
+export default function NumberGrid({ labels, values, step = 1, onChange }: NumberGridProps) {
+  return (
+    <div className="grid grid-cols-3 gap-1">
+      {labels.map((label, index) => (
+        <label key={label} className="flex items-center space-x-1 text-xs text-gray-600">
+          <span className="w-5">{label}</span>
+          <input
+            type="number"
+            step={step}
+            value={Math.round(values[index] * 10) / 10}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              if (!isNaN(value)) onChange(values.map((v, i) => (i === index ? value : v)));
+            }}
+            className="w-full px-1 py-0.5 text-xs border border-gray-300 rounded"
+          />
+        </label>
+      ))}
+    </div>
+  );
+}
+
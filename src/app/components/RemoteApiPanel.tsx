@@ -0,0 +1,226 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { JointState, RobotConfig } from '../types/robot';
+import { SerialLink } from '../utils/serialTransport';
+import { formatG06 } from '../utils/g06';
+import { SessionRecorder } from '../utils/sessionLog';
+import { createId } from '../utils/teachPendant';
+import { CollisionGuard, describeCollision } from '../utils/collision';
+import { planMove } from '../utils/trajectory';
+import {
+  fromApiUnits,
+  putRemoteConfig,
+  putRemoteJoints,
+  stopRemoteMove,
+  subscribeRemoteEvents,
+  toApiUnits
+} from '../utils/remoteApi';
+
+interface RemoteApiPanelProps {
+  config: RobotConfig;
+  jointStates: JointState;
+  onJointStatesChange: (update: JointState | ((prev: JointState) => JointState)) => void;
+  link?: SerialLink | null; // API moves are sent over it when enabled
+  collisionGuard?: CollisionGuard | null;
+  estop?: boolean; // emergency stop latched
+  recorder?: SessionRecorder | null;
+}
+
+// Poses set in the page are reported at most this often
+const REPORT_INTERVAL_MS = 100;
+
+const samePose = (a: JointState, b: JointState) =>
+  Object.keys({ ...a, ...b }).every(name => Math.abs((a[name] ?? 0) - (b[name] ?? 0)) < 1e-6);
+
+// Mirrors the arm behind the /api/robot routes into the selected robot: moves
+// scripts start play in the viewer and, if asked, go to the robot over serial.
+// The robot's configuration is pushed to the server first, so requests are
+// checked against its joints and limits. Moves that would collide are stopped
+// and poses that collide are not taken over; either way the server is put back
+// to the pose shown here. Poses set here are reported back so scripts read what
+// the viewer shows.
+export default function RemoteApiPanel({
+  config,
+  jointStates,
+  onJointStatesChange,
+  link = null,
+  collisionGuard = null,
+  estop = false,
+  recorder = null
+}: RemoteApiPanelProps) {
+  const [mirror, setMirror] = useState(true);
+  const [sendToRobot, setSendToRobot] = useState(false);
+  const [connected, setConnected] = useState(false);
+  const [moving, setMoving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [origin] = useState(() => createId());
+  // Configuration the server has from this page, null until it is pushed
+  const [pushedConfig, setPushedConfig] = useState<RobotConfig | null>(null);
+
+  // Last pose that came from the server, so it is not reported straight back
+  const remotePoseRef = useRef<JointState | null>(null);
+  const lastReportRef = useRef(0);
+  // Move stopped because it would collide; its states are not taken over
+  const refusedMoveRef = useRef<number | null>(null);
+
+  const latest = useRef({ config, jointStates, onJointStatesChange, link, collisionGuard, sendToRobot, estop, recorder });
+  latest.current = { config, jointStates, onJointStatesChange, link, collisionGuard, sendToRobot, estop, recorder };
+
+  useEffect(() => {
+    if (!mirror) return;
+    const unsubscribe = subscribeRemoteEvents({
+      onConnectionChange: setConnected,
+      onEvent: (event) => {
+        const { config: current, link: serialLink, collisionGuard: guard } = latest.current;
+        // Put the server back to the pose the page shows
+        const restore = () => putRemoteJoints(toApiUnits(latest.current.jointStates, current), origin)
+          .catch(() => undefined);
+
+        switch (event.type) {
+          case 'state': {
+            setMoving(event.moving);
+            if (event.origin === origin || latest.current.estop || refusedMoveRef.current !== null) return;
+            const states = fromApiUnits(event.joints, current);
+            const collision = guard?.checkPose({ ...latest.current.jointStates, ...states });
+            if (collision) {
+              setMessage(`Remote pose refused: it collides (${describeCollision(collision)})`);
+              if (event.moving) stopRemoteMove().catch(() => undefined);
+              else restore();
+              return;
+            }
+            latest.current.onJointStatesChange(prev => {
+              const next = { ...prev, ...states };
+              remotePoseRef.current = next;
+              return next;
+            });
+            break;
+          }
+          case 'move': {
+            const from = latest.current.jointStates;
+            const trajectory = planMove(from, { ...from, ...fromApiUnits(event.target, current) }, current, {
+              feedRate: event.feedRate
+            });
+            const hit = guard?.checkTrajectory(trajectory);
+            if (hit) {
+              refusedMoveRef.current = event.id;
+              stopRemoteMove().catch(() => undefined);
+              const refusal = `Remote move ${event.id} refused: it would collide (${describeCollision(hit.report)})`;
+              setMessage(refusal);
+              latest.current.recorder?.recordLine('info', refusal);
+              return;
+            }
+            const description = `Remote move ${event.id} at F${event.feedRate}, ${(event.durationMs / 1000).toFixed(1)} s`;
+            setMessage(description);
+            latest.current.recorder?.recordLine('info', description);
+            if (latest.current.sendToRobot && serialLink && !latest.current.estop) {
+              serialLink.sendAndWaitOk(formatG06(fromApiUnits(event.target, current), event.feedRate, current))
+                .catch(error => setMessage(`Remote move ${event.id} was not sent: ${error instanceof Error ? error.message : 'Unknown error'}`));
+            }
+            break;
+          }
+          case 'idle':
+            if (refusedMoveRef.current === event.id) {
+              refusedMoveRef.current = null;
+              restore();
+              return;
+            }
+            setMessage(`Remote move ${event.id} ${event.reason}`);
+            break;
+        }
+      }
+    });
+    return () => {
+      unsubscribe();
+      setConnected(false);
+      setMoving(false);
+    };
+  }, [mirror, origin]);
+
+  // Push the selected robot's configuration on connect and when it changes; the
+  // server refuses it while a move runs, so it is pushed again once idle
+  useEffect(() => {
+    if (!connected) {
+      setPushedConfig(null);
+      return;
+    }
+    if (moving || pushedConfig === config) return;
+    let cancelled = false;
+    putRemoteConfig(config, origin)
+      .then(() => {
+        if (!cancelled) setPushedConfig(config);
+      })
+      .catch(error => {
+        if (!cancelled) setMessage(`Configuration not sent: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [connected, moving, config, pushedConfig, origin]);
+
+  // Report poses set in the page, throttled; the server refuses them while it moves the arm
+  useEffect(() => {
+    if (!mirror || !connected || moving || pushedConfig !== config) return;
+    if (remotePoseRef.current && samePose(remotePoseRef.current, jointStates)) return;
+    const delay = Math.max(0, lastReportRef.current + REPORT_INTERVAL_MS - Date.now());
+    const timeoutId = setTimeout(() => {
+      lastReportRef.current = Date.now();
+      remotePoseRef.current = jointStates;
+      putRemoteJoints(toApiUnits(jointStates, config), origin)
+        .catch(error => setMessage(`Pose not reported: ${error instanceof Error ? error.message : 'Unknown error'}`));
+    }, delay);
+    return () => clearTimeout(timeoutId);
+  }, [mirror, connected, moving, pushedConfig, jointStates, config, origin]);
+
+  // The emergency stop halts scripted moves too
+  useEffect(() => {
+    if (estop && mirror) stopRemoteMove().catch(() => undefined);
+  }, [estop, mirror]);
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Remote API</h3>
+        <div className="flex items-center space-x-2 text-xs text-gray-600">
+          <div className={`w-2 h-2 rounded-full ${connected ? 'bg-green-500' : 'bg-gray-300'}`} />
+          <span>{connected ? (moving ? 'Moving' : 'Idle') : 'Not mirrored'}</span>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between text-xs text-gray-600">
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={mirror}
+              onChange={(e) => setMirror(e.target.checked)}
+              className="w-3 h-3"
+            />
+            <span>Mirror /api/robot</span>
+          </label>
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={sendToRobot}
+              onChange={(e) => setSendToRobot(e.target.checked)}
+              disabled={!mirror}
+              className="w-3 h-3"
+            />
+            <span>Send moves over serial</span>
+          </label>
+        </div>
+        {sendToRobot && !link && (
+          <p className="text-xs text-yellow-700">Connect a serial port to send remote moves to the robot.</p>
+        )}
+        {message && <p className="text-xs text-gray-600">{message}</p>}
+        <p className="text-xs text-gray-500 font-mono">
+          PUT /api/robot/joints, POST /api/robot/move, GET /api/robot/status, GET /api/robot/events, PUT /api/robot/config, WebSocket /api/robot/ws
+        </p>
+        <p className="text-xs text-gray-500">
+          Scripts drive the selected robot through these routes, in degrees and mm. See the README
+          for the request and event formats.
+        </p>
+      </div>
+    </div>
+  );
+}
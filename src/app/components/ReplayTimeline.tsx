@@ -0,0 +1,246 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { JointState, RobotConfig } from '../types/robot';
+import { KinematicChain } from '../utils/kinematics';
+import { GCodeParseError, parseGCodeProgram } from '../utils/gcode';
+import { ProfileType } from '../utils/trajectory';
+import { SessionRecorder, StateKind, parseSessionEntries, sessionRobots } from '../utils/sessionLog';
+import {
+  ReplayFrame,
+  frameIndexAt,
+  framesFromProgram,
+  framesFromSession,
+  replayDuration,
+  statesAt,
+  tcpTrace
+} from '../utils/replay';
+import { PathPreview } from './RobotViewer';
+
+interface ReplayTimelineProps {
+  config: RobotConfig;
+  chain: KinematicChain | null;
+  recorder: SessionRecorder;
+  robotId: string; // whose recorded states a session replays
+  jointStates: JointState; // start of a planned program
+  motionProfile?: ProfileType;
+  onStatesChange: (states: JointState | null) => void; // pose to show instead of the live one
+  onTraceChange: (trace: PathPreview | null) => void;
+}
+
+interface LoadedReplay {
+  label: string;
+  frames: ReplayFrame[];
+}
+
+const SPEEDS = [0.1, 0.25, 0.5, 1, 2, 4];
+
+// Plays a recorded session or a planned program back in the viewer. It only
+// drives the displayed pose: the live joint states, and with them the serial
+// connection, are left alone.
+export default function ReplayTimeline({
+  config,
+  chain,
+  recorder,
+  robotId,
+  jointStates,
+  motionProfile = 'trapezoidal',
+  onStatesChange,
+  onTraceChange
+}: ReplayTimelineProps) {
+  const [replay, setReplay] = useState<LoadedReplay | null>(null);
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [loop, setLoop] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const timeRef = useRef(0);
+  timeRef.current = time;
+
+  const jointStatesRef = useRef(jointStates);
+  jointStatesRef.current = jointStates;
+
+  const frames = replay?.frames ?? null;
+  const duration = frames ? replayDuration(frames) : 0;
+  const trace = useMemo(() => (frames && chain ? tcpTrace(chain, frames) : null), [frames, chain]);
+
+  const open = (label: string, loaded: ReplayFrame[]) => {
+    if (loaded.length < 2) {
+      setError(`${label}: nothing to replay`);
+      return;
+    }
+    setError(null);
+    setReplay({ label, frames: loaded });
+    setTime(0);
+    setPlaying(true);
+  };
+
+  const close = () => {
+    setReplay(null);
+    setPlaying(false);
+    setTime(0);
+  };
+
+  const openSession = (kind: StateKind) => {
+    open(kind === 'commanded' ? 'Session (commanded)' : 'Session (actual)', framesFromSession(recorder.entries, kind, robotId));
+  };
+
+  // A session export (.json) or a G-code program, planned from the current pose
+  const openFile = async (file: File) => {
+    try {
+      const text = await file.text();
+      if (file.name.toLowerCase().endsWith('.json')) {
+        const entries = parseSessionEntries(JSON.parse(text));
+        // A file from another session may not know this robot; then its first robot plays
+        const robots = sessionRobots(entries);
+        const robot = robots.includes(robotId) ? robotId : robots[0] ?? robotId;
+        const commanded = framesFromSession(entries, 'commanded', robot);
+        open(file.name, commanded.length >= 2 ? commanded : framesFromSession(entries, 'actual', robot));
+      } else {
+        const program = parseGCodeProgram(text, config, jointStatesRef.current, motionProfile);
+        open(file.name, framesFromProgram(program, jointStatesRef.current, config, motionProfile));
+      }
+    } catch (error) {
+      setError(error instanceof GCodeParseError
+        ? `${file.name}: line ${error.errors[0]?.lineNumber}: ${error.errors[0]?.message}`
+        : `${file.name}: ${error instanceof Error ? error.message : 'Failed to read file'}`);
+    }
+  };
+
+  // Advance in real time scaled by the speed; stop or wrap at the end
+  useEffect(() => {
+    if (!playing || duration <= 0) return;
+    let last = performance.now();
+    let frameId = 0;
+    const step = (now: number) => {
+      let next = timeRef.current + ((now - last) / 1000) * speed;
+      last = now;
+      if (next >= duration) {
+        if (!loop) {
+          setTime(duration);
+          setPlaying(false);
+          return;
+        }
+        next %= duration;
+      }
+      setTime(next);
+      frameId = requestAnimationFrame(step);
+    };
+    frameId = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frameId);
+  }, [playing, duration, speed, loop]);
+
+  useEffect(() => {
+    onStatesChange(frames ? statesAt(frames, time) : null);
+  }, [frames, time, onStatesChange]);
+
+  useEffect(() => {
+    onTraceChange(frames && trace
+      ? { points: trace.points, completed: Math.floor(frameIndexAt(frames, time) / trace.stride) }
+      : null);
+  }, [frames, trace, time, onTraceChange]);
+
+  // Hand the viewer back to the live pose when the timeline goes away
+  useEffect(() => () => {
+    onStatesChange(null);
+    onTraceChange(null);
+  }, [onStatesChange, onTraceChange]);
+
+  const stepFrame = (offset: number) => {
+    if (!frames) return;
+    setPlaying(false);
+    const index = frameIndexAt(frames, time);
+    // Stepping back from between two frames lands on the earlier one first
+    const target = offset < 0 && time > frames[index].time ? index : index + offset;
+    setTime(frames[Math.max(0, Math.min(frames.length - 1, target))].time);
+  };
+
+  const togglePlaying = () => {
+    if (!playing && time >= duration) setTime(0);
+    setPlaying(!playing);
+  };
+
+  return (
+    <div className="px-6 py-3 bg-gray-50 border-t border-gray-200 space-y-2">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h3 className="text-sm font-semibold text-gray-800">
+          Replay{replay && <span className="ml-2 font-normal text-gray-600">{replay.label}</span>}
+        </h3>
+        <div className="flex space-x-3 text-xs">
+          <button onClick={() => openSession('commanded')} className="text-gray-500 hover:text-gray-700 underline">
+            Session
+          </button>
+          <button onClick={() => openSession('actual')} className="text-gray-500 hover:text-gray-700 underline">
+            Reported
+          </button>
+          <label className="text-gray-500 hover:text-gray-700 underline cursor-pointer">
+            Open…
+            <input
+              type="file"
+              accept=".json,.gcode,.nc,.txt"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) openFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          {replay && (
+            <button onClick={close} className="text-red-500 hover:text-red-700 underline">
+              Close
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {replay && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-700">
+          <button onClick={() => stepFrame(-1)} className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300" title="Previous frame">
+            ◀◀
+          </button>
+          <button onClick={togglePlaying} className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600">
+            {playing ? 'Pause' : 'Play'}
+          </button>
+          <button onClick={() => stepFrame(1)} className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300" title="Next frame">
+            ▶▶
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step="any"
+            value={time}
+            onChange={(e) => {
+              setPlaying(false);
+              setTime(Number(e.target.value));
+            }}
+            className="flex-1 min-w-32"
+          />
+          <span className="font-mono w-24 text-right">{time.toFixed(2)} / {duration.toFixed(2)} s</span>
+          <select
+            value={speed}
+            onChange={(e) => setSpeed(Number(e.target.value))}
+            className="px-1 py-0.5 border border-gray-300 rounded"
+          >
+            {SPEEDS.map(value => (
+              <option key={value} value={value}>{value}×</option>
+            ))}
+          </select>
+          <label className="flex items-center space-x-1">
+            <input type="checkbox" checked={loop} onChange={(e) => setLoop(e.target.checked)} />
+            <span>Loop</span>
+          </label>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        {replay
+          ? `Frame ${frameIndexAt(replay.frames, time) + 1} of ${replay.frames.length}. Replay only moves the model; nothing is sent to the robot.`
+          : 'Play back the recorded session, or open a session export or G-code program.'}
+      </p>
+    </div>
+  );
+}
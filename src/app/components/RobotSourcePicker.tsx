@@ -0,0 +1,60 @@
+'use client';
+
+import React from 'react';
+import { DEFAULT_ROBOT_SOURCE, RobotSource } from '../utils/robotPackage';
+import { UrdfReport } from '../utils/urdfValidator';
+
+interface RobotSourcePickerProps {
+  source: RobotSource;
+  onFilesSelected: (files: FileList) => void;
+  onReset: () => void;
+  error?: string | null;
+  report?: UrdfReport | null; // validation of the loaded URDF, once it has run
+  onShowReport?: () => void;
+}
+
+// Choose which robot description the viewer shows: the bundled Elbot, or a
+// URDF picked from disk together with its meshes (or a zip holding both)
+export default function RobotSourcePicker({ source, onFilesSelected, onReset, error = null, report = null, onShowReport }: RobotSourcePickerProps) {
+  const errorCount = report?.issues.filter(issue => issue.severity === 'error').length ?? 0;
+
+  return (
+    <div className="flex flex-col items-end">
+      <div className="flex items-center space-x-2 text-sm">
+        <span className="text-gray-600 truncate max-w-[12rem]" title={source.label}>
+          {source.label}
+        </span>
+        {report && (
+          <button
+            onClick={onShowReport}
+            className={`text-xs underline ${errorCount > 0 ? 'text-red-600' : report.issues.length > 0 ? 'text-yellow-700' : 'text-green-700'}`}
+          >
+            {report.issues.length === 0 ? 'URDF OK' : `${report.issues.length} issue${report.issues.length === 1 ? '' : 's'}`}
+          </button>
+        )}
+        {source !== DEFAULT_ROBOT_SOURCE && (
+          <button
+            onClick={onReset}
+            className="px-2 py-1 text-xs text-gray-600 border border-gray-300 rounded hover:bg-gray-100"
+          >
+            Built-in Elbot
+          </button>
+        )}
+        <label className="px-2 py-1 text-xs text-white bg-blue-500 rounded cursor-pointer hover:bg-blue-600">
+          Open URDF / ZIP…
+          <input
+            type="file"
+            multiple
+            accept=".urdf,.zip,.stl,.dae,.png,.jpg,.jpeg"
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files && e.target.files.length > 0) onFilesSelected(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -1,18 +1,47 @@
 'use client';
 
-import React, { useEffect, useRef, useState } from 'react';
-import { Canvas, useFrame } from '@react-three/fiber';
-import { OrbitControls, Grid } from '@react-three/drei';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Canvas, ThreeEvent, useFrame, useThree, createPortal } from '@react-three/fiber';
+import { OrbitControls, Grid, Line, TransformControls } from '@react-three/drei';
 import * as THREE from 'three';
-import { JointState } from '../types/robot';
+import { JointState, RobotConfig, URDFJoint, URDFLink, URDFMimicJoint, URDFRobot } from '../types/robot';
 import URDFLoader from '../utils/urdf_loaders/URDFLoader.js';
+import { PointerURDFDragControls } from '../utils/urdf_loaders/URDFDragControls.js';
+import { clampJointValue } from '../utils/robotConfig';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+import { ColladaLoader } from 'three/examples/jsm/loaders/ColladaLoader.js';
+import { findTipLink, poseToMatrix, IDENTITY_POSE, Pose } from '../utils/kinematics';
+import { Obstacle, linkMeshes } from '../utils/collision';
+import { KeepOutZone } from '../utils/safety';
+import { SceneLayout } from '../utils/scene';
+import { WorkspaceCloud } from '../utils/workspace';
+import SceneObjects from './SceneObjects';
+import { RobotSource, describePackageUrl, resolvePackageUrl } from '../utils/robotPackage';
 
 interface RobotMeshProps {
-  robotModel: any; // URDFRobot from URDFClasses
+  robotModel: URDFRobot;
   jointStates: JointState;
+  linkColors: Record<string, string>;
 }
 
-function RobotMesh({ robotModel, jointStates }: RobotMeshProps) {
+const tintMaterials = new Map<string, THREE.Material>();
+
+// Swap the visual meshes of a link to a flat tint, or back to their own materials
+function tintLink(link: URDFLink, color: string | undefined) {
+  linkMeshes(link, 'isURDFVisual').forEach(mesh => {
+    if (!mesh.userData.originalMaterial) mesh.userData.originalMaterial = mesh.material;
+    if (!color) {
+      mesh.material = mesh.userData.originalMaterial;
+      return;
+    }
+    if (!tintMaterials.has(color)) {
+      tintMaterials.set(color, new THREE.MeshPhongMaterial({ color, emissive: color, emissiveIntensity: 0.3 }));
+    }
+    mesh.material = tintMaterials.get(color)!;
+  });
+}
+
+function RobotMesh({ robotModel, jointStates, linkColors }: RobotMeshProps) {
   const groupRef = useRef<THREE.Group>(null);
 
   // Update joint transformations
@@ -23,6 +52,11 @@ function RobotMesh({ robotModel, jointStates }: RobotMeshProps) {
     Object.entries(jointStates).forEach(([jointName, angle]) => {
       robotModel.setJointValue(jointName, angle);
     });
+
+    // Meshes arrive after the model itself, so keep the tints applied as they load
+    Object.entries(robotModel.links as Record<string, URDFLink>).forEach(([linkName, link]) => {
+      tintLink(link, linkColors[linkName]);
+    });
   });
 
   if (!robotModel) return null;
@@ -34,82 +68,673 @@ function RobotMesh({ robotModel, jointStates }: RobotMeshProps) {
   );
 }
 
-interface RobotViewerProps {
+interface GhostRobotProps {
+  robotModel: URDFRobot;
   jointStates: JointState;
+  alarm: boolean;
 }
 
-export default function RobotViewer({ jointStates }: RobotViewerProps) {
-  const [robotModel, setRobotModel] = useState<any>(null); // URDFRobot
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+// Semi-transparent copy of the robot at the position the real arm reports
+function GhostRobot({ robotModel, jointStates, alarm }: GhostRobotProps) {
+  const ghost = useMemo(() => {
+    const copy = robotModel.clone() as URDFRobot;
+    // Keep the URDF tree and its visuals; drop collision shapes and whatever the viewer attached
+    const prune = (object: THREE.Object3D) => {
+      [...object.children].forEach(child => {
+        if ('isURDFVisual' in child) return;
+        if ('isURDFJoint' in child || 'isURDFLink' in child) {
+          prune(child);
+        } else {
+          object.remove(child);
+        }
+      });
+    };
+    prune(copy);
+    return copy;
+  }, [robotModel]);
+
+  const material = useMemo(
+    () => new THREE.MeshPhongMaterial({ transparent: true, opacity: 0.35, depthWrite: false }),
+    []
+  );
+
+  useEffect(() => {
+    material.color.set(alarm ? '#ef4444' : '#22c55e');
+  }, [material, alarm]);
 
   useEffect(() => {
-    const loadRobot = () => {
-      try {
-        setLoading(true);
-        const loader = new URDFLoader();
-        
-        // Set up the working path for mesh files
-        loader.workingPath = '/';
-        
-        loader.load(
-          '/elbot_ros.urdf',
-          (model: any) => {
-            setRobotModel(model);
-            setError(null);
-            setLoading(false);
-
-            model.rotation.set(-90 * Math.PI / 180, 0, 0);
-            model.position.set(0, -0.5, 0);
-            
-            console.log('Robot loaded:', model);
-            console.log('Available joints:', Object.keys(model.joints));
-          },
-          (progress: any) => {
-            // Progress callback - optional
-          },
-          (err: any) => {
-            console.error('Failed to load robot model:', err);
-            setError(err instanceof Error ? err.message : 'Failed to load robot model');
-            setLoading(false);
-          }
+    ghost.traverse(child => {
+      const mesh = child as THREE.Mesh;
+      if (mesh.isMesh) mesh.material = material;
+    });
+    return () => material.dispose();
+  }, [ghost, material]);
+
+  useFrame(() => {
+    Object.entries(jointStates).forEach(([jointName, value]) => {
+      ghost.setJointValue(jointName, value);
+    });
+  });
+
+  return <primitive object={ghost} />;
+}
+
+interface FrameGizmosProps {
+  robotModel: URDFRobot;
+  toolOffset: Pose;
+  showLinkFrames: boolean;
+}
+
+// Axis gizmos parented to the link frames and to the tool centre point
+function FrameGizmos({ robotModel, toolOffset, showLinkFrames }: FrameGizmosProps) {
+  const tipLink = useMemo(() => robotModel.links[findTipLink(robotModel)], [robotModel]);
+  const toolMatrix = useMemo(() => poseToMatrix(toolOffset), [toolOffset]);
+
+  return (
+    <>
+      {showLinkFrames && Object.entries(robotModel.links).map(([linkName, link]) => (
+        <React.Fragment key={linkName}>
+          {createPortal(<axesHelper args={[0.08]} />, link)}
+        </React.Fragment>
+      ))}
+      {createPortal(
+        <group matrix={toolMatrix} matrixAutoUpdate={false}>
+          <axesHelper args={[0.15]} />
+          <mesh>
+            <sphereGeometry args={[0.008, 16, 16]} />
+            <meshBasicMaterial color="#f59e0b" />
+          </mesh>
+        </group>,
+        tipLink
+      )}
+    </>
+  );
+}
+
+// Planned TCP path in the base link frame; the first `completed` points are drawn as done
+export interface PathPreview {
+  points: [number, number, number][];
+  completed?: number;
+}
+
+interface PathPreviewLineProps {
+  robotModel: URDFRobot;
+  preview: PathPreview;
+}
+
+function PathPreviewLine({ robotModel, preview }: PathPreviewLineProps) {
+  const { points, completed = 0 } = preview;
+  if (points.length < 2) return null;
+
+  const done = points.slice(0, Math.min(points.length, completed + 1));
+  const remaining = points.slice(Math.max(0, completed));
+
+  return createPortal(
+    <>
+      {remaining.length >= 2 && <Line points={remaining} color="#2563eb" lineWidth={2} />}
+      {done.length >= 2 && <Line points={done} color="#16a34a" lineWidth={3} />}
+    </>,
+    robotModel
+  );
+}
+
+interface WorkspacePointsProps {
+  robotModel: URDFRobot;
+  cloud: WorkspaceCloud;
+}
+
+// Reachable TCP positions, red where the measure is lowest and green where it is highest
+function WorkspacePoints({ robotModel, cloud }: WorkspacePointsProps) {
+  const geometry = useMemo(() => {
+    const colors = new Float32Array(cloud.count * 3);
+    const color = new THREE.Color();
+    cloud.values.forEach((value, index) => {
+      color.setHSL((cloud.maxValue > 0 ? value / cloud.maxValue : 0) / 3, 0.9, 0.45);
+      colors.set([color.r, color.g, color.b], index * 3);
+    });
+    const points = new THREE.BufferGeometry();
+    points.setAttribute('position', new THREE.BufferAttribute(cloud.positions, 3));
+    points.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    return points;
+  }, [cloud]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  // Not pickable, so reach tests go to whatever is behind the cloud
+  return createPortal(
+    <points geometry={geometry} raycast={() => null}>
+      <pointsMaterial size={0.006} vertexColors transparent opacity={0.7} depthWrite={false} />
+    </points>,
+    robotModel
+  );
+}
+
+// Point being tested for reach, in the base link frame
+export interface ReachMarker {
+  point: [number, number, number];
+  reachable: boolean;
+}
+
+interface ReachTargetProps {
+  robotModel: URDFRobot;
+  marker: ReachMarker;
+}
+
+function ReachTarget({ robotModel, marker }: ReachTargetProps) {
+  return createPortal(
+    <mesh position={marker.point} raycast={() => null}>
+      <sphereGeometry args={[0.012, 16, 16]} />
+      <meshBasicMaterial color={marker.reachable ? '#16a34a' : '#dc2626'} />
+    </mesh>,
+    robotModel
+  );
+}
+
+interface JointDragControlsProps {
+  robotModel: URDFRobot;
+  config?: RobotConfig;
+  onJointChange: (jointName: string, value: number) => void;
+  onHoverChange: (linkName: string | null) => void;
+}
+
+// Grab a link and drag to turn (or slide) the joint that moves it. Mimic joints
+// drive their master joint; values are clamped into the configured limits.
+function JointDragControls({ robotModel, config, onJointChange, onHoverChange }: JointDragControlsProps) {
+  const camera = useThree(state => state.camera);
+  const gl = useThree(state => state.gl);
+  const controls = useThree(state => state.controls) as unknown as { enabled: boolean } | null;
+
+  // The drag controls live across renders; read the latest props through a ref
+  const propsRef = useRef({ config, onJointChange, onHoverChange });
+  propsRef.current = { config, onJointChange, onHoverChange };
+
+  useEffect(() => {
+    const dragControls = new PointerURDFDragControls(robotModel, camera, gl.domElement);
+    // Line gizmos under the robot need the camera to be raycast
+    dragControls.raycaster.camera = camera;
+
+    dragControls.updateJoint = (joint: URDFJoint, angle: number) => {
+      const mimic = joint as URDFMimicJoint;
+      const name = mimic.mimicJoint ? String(mimic.mimicJoint) : joint.urdfName;
+      const raw = mimic.mimicJoint ? (angle - Number(mimic.offset)) / Number(mimic.multiplier) : angle;
+      const value = propsRef.current.config ? clampJointValue(propsRef.current.config, name, raw) : raw;
+      // Apply right away so the next pointer move continues from this angle
+      robotModel.setJointValue(name, value);
+      propsRef.current.onJointChange(name, value);
+    };
+    dragControls.onDragStart = () => {
+      if (controls) controls.enabled = false;
+    };
+    dragControls.onDragEnd = () => {
+      if (controls) controls.enabled = true;
+    };
+    dragControls.onHover = (joint: URDFJoint) => {
+      const link = joint.children.find(child => (child as URDFLink).isURDFLink) as URDFLink | undefined;
+      propsRef.current.onHoverChange(link?.urdfName ?? null);
+    };
+    dragControls.onUnhover = () => propsRef.current.onHoverChange(null);
+
+    return () => {
+      dragControls.dispose();
+      if (controls) controls.enabled = true;
+      propsRef.current.onHoverChange(null);
+    };
+  }, [robotModel, camera, gl, controls]);
+
+  return null;
+}
+
+interface TcpGizmoProps {
+  robotModel: URDFRobot;
+  toolOffset: Pose;
+  mode: 'translate' | 'rotate';
+  onTcpDrag: (target: THREE.Matrix4) => void;
+}
+
+// Transform gizmo that follows the tool centre point; dragging it asks for the
+// matching pose in the base link frame
+function TcpGizmo({ robotModel, toolOffset, mode, onTcpDrag }: TcpGizmoProps) {
+  const tipLink = useMemo(() => robotModel.links[findTipLink(robotModel)], [robotModel]);
+  const toolMatrix = useMemo(() => poseToMatrix(toolOffset), [toolOffset]);
+  const [anchor, setAnchor] = useState<THREE.Group | null>(null);
+  const draggingRef = useRef(false);
+
+  useFrame(() => {
+    if (!anchor || draggingRef.current) return;
+    new THREE.Matrix4()
+      .copy(robotModel.matrixWorld)
+      .invert()
+      .multiply(tipLink.matrixWorld)
+      .multiply(toolMatrix)
+      .decompose(anchor.position, anchor.quaternion, anchor.scale);
+  });
+
+  return (
+    <>
+      {createPortal(<group ref={setAnchor} />, robotModel)}
+      {anchor && (
+        <TransformControls
+          object={anchor}
+          mode={mode}
+          size={0.6}
+          onMouseDown={() => {
+            draggingRef.current = true;
+          }}
+          onMouseUp={() => {
+            draggingRef.current = false;
+          }}
+          onObjectChange={() => {
+            anchor.updateMatrix();
+            onTcpDrag(anchor.matrix.clone());
+          }}
+        />
+      )}
+    </>
+  );
+}
+
+export type ManipulationMode = 'view' | 'joints' | 'tcp' | 'scene' | 'reach';
+
+const HOVER_COLOR = '#60a5fa';
+
+interface ObstacleMeshesProps {
+  obstacles: Obstacle[];
+}
+
+// Obstacles drawn in the cell frame; the floor at height 0 is the grid itself
+function ObstacleMeshes({ obstacles }: ObstacleMeshesProps) {
+  return (
+    <>
+      {obstacles.map(obstacle => {
+        if (obstacle.type === 'floor') {
+          return obstacle.height === 0 ? null : (
+            <mesh key={obstacle.id} position={[0, 0, obstacle.height]}>
+              <planeGeometry args={[4, 4]} />
+              <meshBasicMaterial color="#9ca3af" transparent opacity={0.25} side={THREE.DoubleSide} />
+            </mesh>
+          );
+        }
+        return (
+          <group key={obstacle.id} matrix={poseToMatrix(obstacle.pose)} matrixAutoUpdate={false}>
+            {obstacle.type === 'box' ? (
+              <mesh>
+                <boxGeometry args={obstacle.size} />
+                <meshPhongMaterial color="#f59e0b" transparent opacity={0.6} />
+              </mesh>
+            ) : (
+              <mesh geometry={obstacle.geometry}>
+                <meshPhongMaterial color="#f59e0b" transparent opacity={0.6} />
+              </mesh>
+            )}
+          </group>
         );
-      } catch (err) {
-        console.error('Failed to load robot model:', err);
-        setError(err instanceof Error ? err.message : 'Failed to load robot model');
-        setLoading(false);
+      })}
+    </>
+  );
+}
+
+interface KeepOutMeshesProps {
+  zones: KeepOutZone[];
+}
+
+// Keep-out zones as translucent red boxes in the cell frame
+function KeepOutMeshes({ zones }: KeepOutMeshesProps) {
+  return (
+    <>
+      {zones.map(zone => (
+        <mesh key={zone.id} position={zone.center}>
+          <boxGeometry args={zone.size} />
+          <meshBasicMaterial color="#ef4444" transparent opacity={0.2} depthWrite={false} />
+        </mesh>
+      ))}
+    </>
+  );
+}
+
+interface MeshError {
+  path: string;
+  message: string;
+}
+
+interface LoadProgress {
+  loaded: number;
+  total: number;
+}
+
+interface ModelLoadHandlers {
+  onLoad: (model: URDFRobot) => void;
+  onError: (message: string) => void;
+  onProgress: (progress: LoadProgress | null) => void;
+  onMeshError: (error: MeshError) => void;
+  onMeshesLoaded: (model: URDFRobot) => void; // every mesh has loaded (or failed to)
+}
+
+// Load a URDF and its meshes. The returned function stops any further reports,
+// for when the robot is replaced or removed before loading finishes.
+function loadRobotModel(source: RobotSource, handlers: ModelLoadHandlers): () => void {
+  let cancelled = false;
+  let loadedModel: URDFRobot | null = null;
+
+  const reportMeshError = (path: string, message: string) => {
+    if (!cancelled) handlers.onMeshError({ path, message });
+  };
+
+  try {
+    // Uploaded packages are served from object URLs via the URL modifier
+    const manager = new THREE.LoadingManager();
+    manager.setURLModifier(url => resolvePackageUrl(source, url));
+    manager.onProgress = (_url, loaded, total) => {
+      if (!cancelled) handlers.onProgress({ loaded, total });
+    };
+    manager.onLoad = () => {
+      if (cancelled) return;
+      handlers.onProgress(null);
+      if (loadedModel) handlers.onMeshesLoaded(loadedModel);
+    };
+    manager.onError = (url) => {
+      if (url !== resolvePackageUrl(source, source.url)) {
+        reportMeshError(describePackageUrl(source, url), 'Failed to load file');
       }
     };
 
-    loadRobot();
-  }, []);
+    const loader = new URDFLoader(manager);
+    loader.workingPath = source.workingPath;
+    loader.packages = source.packages;
+    // Collision shapes are loaded for the collision checks but never drawn
+    loader.parseCollision = true;
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center h-full">
-        <div className="text-lg">Loading robot model...</div>
-      </div>
-    );
-  }
+    loader.loadMeshCb = (path, meshManager, done) => {
+      const name = describePackageUrl(source, path);
+      const fail = (err: unknown) => {
+        const message = err instanceof Error ? err.message : 'Failed to load mesh';
+        reportMeshError(name, message);
+        done(new THREE.Object3D(), new Error(`${name}: ${message}`));
+      };
 
-  if (error) {
-    return (
-      <div className="flex items-center justify-center h-full">
-        <div className="text-red-500">Error: {error}</div>
-      </div>
-    );
-  }
+      if (/\.stl$/i.test(path)) {
+        new STLLoader(meshManager).load(
+          path,
+          geometry => done(new THREE.Mesh(geometry, new THREE.MeshPhongMaterial())),
+          undefined,
+          fail
+        );
+      } else if (/\.dae$/i.test(path)) {
+        new ColladaLoader(meshManager).load(path, dae => done(dae.scene), undefined, fail);
+      } else {
+        fail(new Error('Unsupported mesh format (only STL and DAE are supported)'));
+      }
+    };
 
-  if (!robotModel) {
-    return (
-      <div className="flex items-center justify-center h-full">
-        <div className="text-gray-500">No robot model loaded</div>
-      </div>
+    loader.load(
+      source.url,
+      (model: URDFRobot) => {
+        if (cancelled) return;
+        model.traverse((child: THREE.Object3D) => {
+          if ('isURDFCollider' in child) child.visible = false;
+        });
+        loadedModel = model;
+        handlers.onLoad(model);
+      },
+      undefined,
+      (err: unknown) => {
+        if (cancelled) return;
+        console.error('Failed to load robot model:', err);
+        handlers.onError(err instanceof Error ? err.message : 'Failed to load robot model');
+      }
     );
+  } catch (err) {
+    console.error('Failed to load robot model:', err);
+    handlers.onError(err instanceof Error ? err.message : 'Failed to load robot model');
   }
 
+  return () => {
+    cancelled = true;
+  };
+}
+
+// A robot of the cell as the viewer draws it
+export interface ViewerRobot {
+  id: string;
+  source: RobotSource;
+  base: Pose; // base link in the cell frame
+  jointStates: JointState;
+}
+
+interface RobotLoadState {
+  model: URDFRobot | null;
+  loading: boolean;
+  error: string | null;
+  progress: LoadProgress | null;
+  meshErrors: MeshError[];
+  meshesLoaded: boolean;
+}
+
+const INITIAL_LOAD_STATE: RobotLoadState = {
+  model: null,
+  loading: true,
+  error: null,
+  progress: null,
+  meshErrors: [],
+  meshesLoaded: false
+};
+
+// Load every robot of the cell, each once per source: selecting another robot
+// or moving one leaves the loaded models alone
+function useRobotModels(
+  robots: ViewerRobot[],
+  onRobotLoaded?: (id: string, robot: URDFRobot) => void,
+  onMeshesLoaded?: (id: string, robot: URDFRobot) => void
+): Record<string, RobotLoadState> {
+  const [loads, setLoads] = useState<Record<string, RobotLoadState>>({});
+  const runningRef = useRef(new Map<string, { source: RobotSource; cancel: () => void }>());
+
+  // The loads outlive renders; read the latest callbacks through a ref
+  const callbacksRef = useRef({ onRobotLoaded, onMeshesLoaded });
+  callbacksRef.current = { onRobotLoaded, onMeshesLoaded };
+
+  useEffect(() => {
+    const running = runningRef.current;
+    const update = (id: string, changes: (state: RobotLoadState) => Partial<RobotLoadState>) => {
+      setLoads(prev => (prev[id] ? { ...prev, [id]: { ...prev[id], ...changes(prev[id]) } } : prev));
+    };
+
+    robots.forEach(({ id, source }) => {
+      const current = running.get(id);
+      if (current?.source === source) return;
+      current?.cancel();
+      setLoads(prev => ({ ...prev, [id]: INITIAL_LOAD_STATE }));
+      const cancel = loadRobotModel(source, {
+        onLoad: model => {
+          update(id, () => ({ model, loading: false, error: null }));
+          callbacksRef.current.onRobotLoaded?.(id, model);
+        },
+        onError: error => update(id, () => ({ error, loading: false })),
+        onProgress: progress => update(id, () => ({ progress })),
+        onMeshError: error => update(id, state => ({
+          meshErrors: state.meshErrors.some(entry => entry.path === error.path)
+            ? state.meshErrors
+            : [...state.meshErrors, error]
+        })),
+        onMeshesLoaded: model => {
+          update(id, () => ({ meshesLoaded: true }));
+          callbacksRef.current.onMeshesLoaded?.(id, model);
+        }
+      });
+      running.set(id, { source, cancel });
+    });
+
+    running.forEach((entry, id) => {
+      if (robots.some(robot => robot.id === id)) return;
+      entry.cancel();
+      running.delete(id);
+      setLoads(prev => Object.fromEntries(Object.entries(prev).filter(([key]) => key !== id)));
+    });
+  }, [robots]);
+
+  useEffect(() => {
+    const running = runningRef.current;
+    return () => {
+      running.forEach(entry => entry.cancel());
+      running.clear();
+    };
+  }, []);
+
+  return loads;
+}
+
+interface RobotViewerProps {
+  robots: ViewerRobot[];
+  activeId: string; // robot the panels act on; the options below apply to it
+  onRobotLoaded?: (id: string, robot: URDFRobot) => void;
+  toolOffset?: Pose;
+  pathPreview?: PathPreview | null;
+  onMeshesLoaded?: (id: string, robot: URDFRobot) => void; // every mesh has loaded (or failed to)
+  linkColors?: Record<string, string>; // tint per link name, e.g. colliding links in red
+  obstacles?: Obstacle[]; // cell frame
+  keepOutZones?: KeepOutZone[]; // cell frame
+  config?: RobotConfig; // limits applied while dragging joints
+  onJointChange?: (jointName: string, value: number) => void;
+  onTcpDrag?: (target: THREE.Matrix4) => void; // TCP pose requested with the gizmo, base link frame
+  ghostStates?: JointState | null; // reported position of the real arm
+  ghostAlarm?: boolean;
+  scene?: SceneLayout;
+  selectedSceneId?: string | null; // scene object or work-object frame
+  onSceneSelect?: (id: string | null) => void;
+  onScenePoseChange?: (id: string, pose: Pose) => void; // set when the scene can be edited in the view
+  workspace?: WorkspaceCloud | null; // reachable volume of the selected robot
+  reachMarker?: ReachMarker | null;
+  onReachPick?: (point: THREE.Vector3) => void; // point clicked in Test reach mode, base link frame
+}
+
+const NO_LINK_COLORS: Record<string, string> = {};
+
+// URDF is z-up; the cell frame is turned upright and stood on the grid
+const CELL_ROTATION: [number, number, number] = [-Math.PI / 2, 0, 0];
+const CELL_POSITION: [number, number, number] = [0, -0.5, 0];
+
+export default function RobotViewer({
+  robots,
+  activeId,
+  onRobotLoaded,
+  toolOffset = IDENTITY_POSE,
+  pathPreview = null,
+  onMeshesLoaded,
+  linkColors = NO_LINK_COLORS,
+  obstacles = [],
+  keepOutZones = [],
+  config,
+  onJointChange,
+  onTcpDrag,
+  ghostStates = null,
+  ghostAlarm = false,
+  scene,
+  selectedSceneId = null,
+  onSceneSelect,
+  onScenePoseChange,
+  workspace = null,
+  reachMarker = null,
+  onReachPick
+}: RobotViewerProps) {
+  const loads = useRobotModels(robots, onRobotLoaded, onMeshesLoaded);
+  const [showLinkFrames, setShowLinkFrames] = useState(false);
+  const [showMeshErrors, setShowMeshErrors] = useState(false);
+  const [mode, setMode] = useState<ManipulationMode>('joints');
+  const [gizmoMode, setGizmoMode] = useState<'translate' | 'rotate'>('translate');
+  const [hoveredLink, setHoveredLink] = useState<string | null>(null);
+
+  const { model: robotModel, loading, error, progress, meshErrors } =
+    loads[activeId] ?? INITIAL_LOAD_STATE;
+
+  // Hover highlight under whatever the caller tints (collisions stay red)
+  const tints = useMemo(
+    () => (hoveredLink ? { [hoveredLink]: HOVER_COLOR, ...linkColors } : linkColors),
+    [hoveredLink, linkColors]
+  );
+
   return (
-    <div className="w-full h-full">
+    <div className="relative w-full h-full">
+      {(loading || error) && (
+        <div className="absolute inset-0 z-10 flex items-center justify-center pointer-events-none">
+          {error
+            ? <div className="text-red-500">Error: {error}</div>
+            : <div className="text-lg">Loading robot model...</div>}
+        </div>
+      )}
+
+      <div className="absolute top-2 left-2 z-10 flex items-center space-x-3 px-2 py-1 bg-white bg-opacity-80 rounded text-xs text-gray-700">
+        <label className="flex items-center space-x-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={showLinkFrames}
+            onChange={(e) => setShowLinkFrames(e.target.checked)}
+            className="w-3 h-3"
+          />
+          <span>Show link frames</span>
+        </label>
+        <div className="flex space-x-1">
+          {([
+            ['view', 'View'],
+            ['joints', 'Drag joints'],
+            ['tcp', 'Drag TCP'],
+            ...(onScenePoseChange ? [['scene', 'Edit scene']] : []),
+            ...(onReachPick ? [['reach', 'Test reach']] : [])
+          ] as [ManipulationMode, string][]).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setMode(value)}
+              className={`px-2 py-0.5 rounded ${mode === value ? 'bg-blue-500 text-white' : 'bg-gray-200 hover:bg-gray-300'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {(mode === 'tcp' || mode === 'scene') && (
+          <select
+            value={gizmoMode}
+            onChange={(e) => setGizmoMode(e.target.value as 'translate' | 'rotate')}
+            className="px-1 py-0.5 border border-gray-300 rounded"
+          >
+            <option value="translate">Move</option>
+            <option value="rotate">Rotate</option>
+          </select>
+        )}
+      </div>
+
+      {progress && progress.loaded < progress.total && (
+        <div className="absolute top-2 right-2 z-10 w-48 px-2 py-1 bg-white bg-opacity-80 rounded text-xs text-gray-700">
+          <div className="flex justify-between mb-1">
+            <span>Loading meshes</span>
+            <span>{progress.loaded}/{progress.total}</span>
+          </div>
+          <div className="h-1 bg-gray-200 rounded">
+            <div
+              className="h-1 bg-blue-500 rounded"
+              style={{ width: `${(progress.loaded / progress.total) * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {meshErrors.length > 0 && (
+        <div className="absolute bottom-2 left-2 z-10 max-w-md px-2 py-1 bg-red-50 bg-opacity-90 border border-red-200 rounded text-xs text-red-700">
+          <button
+            onClick={() => setShowMeshErrors(prev => !prev)}
+            className="font-medium hover:underline"
+          >
+            {meshErrors.length} mesh{meshErrors.length === 1 ? '' : 'es'} failed to load {showMeshErrors ? '▾' : '▸'}
+          </button>
+          {showMeshErrors && (
+            <ul className="mt-1 max-h-32 overflow-y-auto font-mono">
+              {meshErrors.map(entry => (
+                <li key={entry.path} className="break-all">
+                  {entry.path}: {entry.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       <Canvas
         camera={{ position: [2, 2, 2], fov: 50 }}
         style={{ background: '#f0f0f0' }}
@@ -118,7 +743,70 @@ export default function RobotViewer({ jointStates }: RobotViewerProps) {
         <directionalLight position={[10, 10, 5]} intensity={1} />
         <pointLight position={[-10, -10, -10]} intensity={0.5} />
         
-        <RobotMesh robotModel={robotModel} jointStates={jointStates} />
+        <group
+          rotation={CELL_ROTATION}
+          position={CELL_POSITION}
+          onClick={mode === 'reach' && onReachPick && robotModel
+            ? (event: ThreeEvent<MouseEvent>) => {
+              event.stopPropagation();
+              onReachPick(robotModel.worldToLocal(event.point.clone()));
+            }
+            : undefined}
+        >
+          {mode === 'reach' && (
+            // The floor, so points on it can be picked too
+            <mesh>
+              <planeGeometry args={[4, 4]} />
+              <meshBasicMaterial transparent opacity={0} depthWrite={false} side={THREE.DoubleSide} />
+            </mesh>
+          )}
+          {robots.map(robot => {
+            const load = loads[robot.id];
+            if (!load?.model) return null;
+            const active = robot.id === activeId;
+            return (
+              <group key={robot.id} matrix={poseToMatrix(robot.base)} matrixAutoUpdate={false}>
+                <RobotMesh
+                  robotModel={load.model}
+                  jointStates={robot.jointStates}
+                  linkColors={active ? tints : NO_LINK_COLORS}
+                />
+                {active && ghostStates && load.meshesLoaded && (
+                  <GhostRobot robotModel={load.model} jointStates={ghostStates} alarm={ghostAlarm} />
+                )}
+              </group>
+            );
+          })}
+          {obstacles.length > 0 && <ObstacleMeshes obstacles={obstacles} />}
+          {keepOutZones.length > 0 && <KeepOutMeshes zones={keepOutZones} />}
+          {scene && (
+            <SceneObjects
+              scene={scene}
+              selectedId={selectedSceneId}
+              editing={mode === 'scene' && !!onScenePoseChange}
+              gizmoMode={gizmoMode}
+              onSelect={onSceneSelect}
+              onPoseChange={onScenePoseChange}
+            />
+          )}
+        </group>
+        {robotModel && (
+          <FrameGizmos robotModel={robotModel} toolOffset={toolOffset} showLinkFrames={showLinkFrames} />
+        )}
+        {robotModel && pathPreview && <PathPreviewLine robotModel={robotModel} preview={pathPreview} />}
+        {robotModel && workspace && <WorkspacePoints robotModel={robotModel} cloud={workspace} />}
+        {robotModel && reachMarker && <ReachTarget robotModel={robotModel} marker={reachMarker} />}
+        {robotModel && mode === 'joints' && onJointChange && (
+          <JointDragControls
+            robotModel={robotModel}
+            config={config}
+            onJointChange={onJointChange}
+            onHoverChange={setHoveredLink}
+          />
+        )}
+        {robotModel && mode === 'tcp' && onTcpDrag && (
+          <TcpGizmo robotModel={robotModel} toolOffset={toolOffset} mode={gizmoMode} onTcpDrag={onTcpDrag} />
+        )}
         
         <Grid
           position={[0, -0.5, 0]}
@@ -136,6 +824,7 @@ export default function RobotViewer({ jointStates }: RobotViewerProps) {
         />
         
         <OrbitControls
+          makeDefault
           enablePan={true}
           enableZoom={true}
           enableRotate={true}
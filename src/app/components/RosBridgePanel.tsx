@@ -0,0 +1,378 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { JointState, RobotConfig } from '../types/robot';
+import { SerialLink } from '../utils/serialTransport';
+import { streamTrajectory } from '../utils/gcodeStreamer';
+import { animateTrajectory } from '../utils/motion';
+import { ProfileType, planTrajectory } from '../utils/trajectory';
+import { CollisionGuard, describeCollision } from '../utils/collision';
+import { SessionRecorder } from '../utils/sessionLog';
+import { MockRosbridge } from '../utils/mockRosbridge';
+import {
+  DEFAULT_JOINT_STATES_TOPIC,
+  DEFAULT_ROSBRIDGE_URL,
+  DEFAULT_TRAJECTORY_TOPIC,
+  JOINT_STATE_TYPE,
+  JOINT_TRAJECTORY_TYPE,
+  MOCK_ROSBRIDGE_URL,
+  RosVersion,
+  RosbridgeClient,
+  jointStateMessage,
+  openRosbridge,
+  parseJointStateMessage,
+  parseTrajectoryGoal
+} from '../utils/rosbridge';
+
+interface RosBridgePanelProps {
+  config: RobotConfig;
+  jointStates: JointState;
+  onJointStatesChange: (states: JointState) => void;
+  link?: SerialLink | null; // goals are streamed over it when connected
+  motionProfile?: ProfileType;
+  collisionGuard?: CollisionGuard | null;
+  estop?: boolean; // emergency stop latched
+  recorder?: SessionRecorder | null;
+  robotName?: string;
+}
+
+type ConnectionState = 'disconnected' | 'connecting' | 'connected';
+
+// What happens on the joint states topic: the arm is published, or an external
+// source such as a ROS driver drives the viewer
+type JointStatesMode = 'publish' | 'follow' | 'off';
+
+const PUBLISH_INTERVAL_MS = 50;
+
+const CONNECTION_LABEL: Record<ConnectionState, string> = {
+  disconnected: 'Disconnected',
+  connecting: 'Connecting...',
+  connected: 'Connected'
+};
+
+const CONNECTION_DOT: Record<ConnectionState, string> = {
+  disconnected: 'bg-red-500',
+  connecting: 'bg-yellow-400',
+  connected: 'bg-green-500'
+};
+
+export default function RosBridgePanel({
+  config,
+  jointStates,
+  onJointStatesChange,
+  link = null,
+  motionProfile = 'trapezoidal',
+  collisionGuard = null,
+  estop = false,
+  recorder = null,
+  robotName
+}: RosBridgePanelProps) {
+  const [url, setUrl] = useState(DEFAULT_ROSBRIDGE_URL);
+  const [rosVersion, setRosVersion] = useState<RosVersion>(2);
+  const [jointStatesTopic, setJointStatesTopic] = useState(DEFAULT_JOINT_STATES_TOPIC);
+  const [trajectoryTopic, setTrajectoryTopic] = useState(DEFAULT_TRAJECTORY_TOPIC);
+  const [mode, setMode] = useState<JointStatesMode>('publish');
+  const [acceptGoals, setAcceptGoals] = useState(true);
+  const [connectionState, setConnectionState] = useState<ConnectionState>('disconnected');
+  const [client, setClient] = useState<RosbridgeClient | null>(null);
+  const [goalRunning, setGoalRunning] = useState(false);
+  const [mockPublishing, setMockPublishing] = useState(false);
+  const [log, setLog] = useState<string[]>([]);
+  const mockRef = useRef<MockRosbridge | null>(null);
+  const goalRef = useRef<AbortController | null>(null);
+
+  // Latest props for the subscription handlers, which outlive renders
+  const latest = useRef({ config, jointStates, onJointStatesChange, link, motionProfile, collisionGuard, estop, mode });
+  latest.current = { config, jointStates, onJointStatesChange, link, motionProfile, collisionGuard, estop, mode };
+
+  const recorderRef = useRef(recorder);
+  recorderRef.current = recorder;
+  const robotNameRef = useRef(robotName);
+  robotNameRef.current = robotName;
+
+  const addToLog = useCallback((message: string) => {
+    const timestamp = new Date().toLocaleTimeString();
+    setLog(prev => [...prev.slice(-9), `[${timestamp}] ${message}`]);
+    const line = `ROS: ${message}`;
+    recorderRef.current?.recordLine('info', robotNameRef.current ? `${robotNameRef.current}: ${line}` : line);
+  }, []);
+
+  const isMock = url.trim() === MOCK_ROSBRIDGE_URL;
+  const isConnected = connectionState === 'connected' && !!client;
+
+  const connect = async () => {
+    setConnectionState('connecting');
+    const handlers = {
+      onClose: (error?: Error) => {
+        goalRef.current?.abort();
+        setClient(null);
+        setConnectionState('disconnected');
+        addToLog(error ? `Disconnected: ${error.message}` : 'Disconnected');
+      },
+      onStatus: (level: string, message: string) => addToLog(`rosbridge ${level}: ${message}`)
+    };
+    try {
+      let opened: RosbridgeClient;
+      if (isMock) {
+        mockRef.current?.close();
+        mockRef.current = new MockRosbridge();
+        opened = mockRef.current.connect(handlers);
+      } else {
+        opened = await openRosbridge(url.trim(), handlers);
+      }
+      setClient(opened);
+      setConnectionState('connected');
+      addToLog(`Connected to ${isMock ? 'the mock rosbridge' : opened.label}`);
+    } catch (error) {
+      setConnectionState('disconnected');
+      addToLog(`Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const disconnect = () => {
+    client?.close();
+    mockRef.current?.close();
+    mockRef.current = null;
+    setMockPublishing(false);
+  };
+
+  useEffect(() => () => {
+    goalRef.current?.abort();
+    mockRef.current?.close();
+  }, []);
+
+  useEffect(() => () => client?.close(), [client]);
+
+  // Publish the arm at a steady rate, as a ROS driver would
+  useEffect(() => {
+    if (!client || mode !== 'publish') return;
+    const interval = setInterval(() => {
+      const { config: current, jointStates: states } = latest.current;
+      client.publish(jointStatesTopic, JOINT_STATE_TYPE, jointStateMessage(states, current, rosVersion));
+    }, PUBLISH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [client, mode, jointStatesTopic, rosVersion]);
+
+  // Drive the viewer from joint states published elsewhere
+  useEffect(() => {
+    if (!client || mode !== 'follow') return;
+    let warned = false;
+    return client.subscribe(jointStatesTopic, JOINT_STATE_TYPE, (msg) => {
+      try {
+        const states = parseJointStateMessage(msg, latest.current.config);
+        latest.current.onJointStatesChange({ ...latest.current.jointStates, ...states });
+      } catch (error) {
+        if (!warned) addToLog(`Ignoring ${jointStatesTopic}: ${error instanceof Error ? error.message : 'bad message'}`);
+        warned = true;
+      }
+    }, PUBLISH_INTERVAL_MS);
+  }, [client, mode, jointStatesTopic, addToLog]);
+
+  // Run a JointTrajectory like a taught program: refused as a whole if any part
+  // of it would collide, played in the simulator and streamed over the serial link
+  const runGoal = useCallback(async (msg: unknown) => {
+    const { config: current, jointStates: start, link: serialLink, motionProfile: profile, collisionGuard: guard } = latest.current;
+    if (latest.current.estop) {
+      addToLog('Goal refused: emergency stop is latched');
+      return;
+    }
+    if (latest.current.mode === 'follow') {
+      addToLog('Goal refused: the arm is following joint states from ROS');
+      return;
+    }
+    if (goalRef.current) {
+      addToLog('Goal refused: another goal is running');
+      return;
+    }
+
+    let trajectory;
+    try {
+      const goal = parseTrajectoryGoal(msg, current, start);
+      trajectory = planTrajectory([start, ...goal.waypoints], current, { profile, feedRate: goal.feedRates });
+      const hit = guard?.checkTrajectory(trajectory);
+      if (hit) {
+        addToLog(`Goal refused: it would collide (${describeCollision(hit.report)})`);
+        return;
+      }
+    } catch (error) {
+      addToLog(`Goal refused: ${error instanceof Error ? error.message : 'invalid trajectory'}`);
+      return;
+    }
+
+    const controller = new AbortController();
+    goalRef.current = controller;
+    setGoalRunning(true);
+    addToLog(`Goal accepted: ${trajectory.waypoints.length - 1} points, ${trajectory.duration.toFixed(1)} s${serialLink ? '' : ' (simulator only)'}`);
+    try {
+      const moves: Promise<unknown>[] = [
+        animateTrajectory(trajectory, latest.current.onJointStatesChange, controller.signal)
+      ];
+      if (serialLink) moves.push(streamTrajectory(trajectory, current, serialLink, controller.signal));
+      await Promise.all(moves);
+      addToLog(controller.signal.aborted ? 'Goal stopped' : 'Goal finished');
+    } catch (error) {
+      const stopped = controller.signal.aborted;
+      controller.abort();
+      addToLog(stopped ? 'Goal stopped' : `Goal failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      goalRef.current = null;
+      setGoalRunning(false);
+    }
+  }, [addToLog]);
+
+  useEffect(() => {
+    if (!client || !acceptGoals) return;
+    return client.subscribe(trajectoryTopic, JOINT_TRAJECTORY_TYPE, runGoal);
+  }, [client, acceptGoals, trajectoryTopic, runGoal]);
+
+  useEffect(() => {
+    if (estop) goalRef.current?.abort();
+  }, [estop]);
+
+  const toggleMockPublisher = () => {
+    const mock = mockRef.current;
+    if (!mock) return;
+    if (mock.publishingJointStates) {
+      mock.stopJointStatePublisher();
+    } else {
+      mock.startJointStatePublisher(config, jointStates, rosVersion, jointStatesTopic);
+    }
+    setMockPublishing(mock.publishingJointStates);
+  };
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow-lg">
+      <h3 className="text-lg font-semibold mb-4 text-gray-800">ROS Bridge{robotName && <span className="ml-2 text-sm font-normal text-gray-600">{robotName}</span>}</h3>
+
+      <div className="space-y-3">
+        <div className="flex items-center space-x-2">
+          <input
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            disabled={connectionState !== 'disconnected'}
+            placeholder={DEFAULT_ROSBRIDGE_URL}
+            className="flex-1 px-2 py-1 text-sm font-mono border border-gray-300 rounded"
+            title={`rosbridge WebSocket URL, or ${MOCK_ROSBRIDGE_URL} for the in-page mock server`}
+          />
+          <select
+            value={rosVersion}
+            onChange={(e) => setRosVersion(parseInt(e.target.value, 10) as RosVersion)}
+            className="px-2 py-1 text-sm border border-gray-300 rounded"
+          >
+            <option value={1}>ROS 1</option>
+            <option value={2}>ROS 2</option>
+          </select>
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <div className={`w-3 h-3 rounded-full ${CONNECTION_DOT[connectionState]}`} />
+          <span className="flex-1 text-sm font-medium">{CONNECTION_LABEL[connectionState]}</span>
+          {connectionState === 'connected' ? (
+            <button
+              onClick={disconnect}
+              className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
+            >
+              Disconnect
+            </button>
+          ) : (
+            <button
+              onClick={connect}
+              disabled={connectionState === 'connecting' || !url.trim()}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Connect
+            </button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 text-xs text-gray-600">
+          <label className="flex flex-col">
+            <span>Joint states topic</span>
+            <input
+              value={jointStatesTopic}
+              onChange={(e) => setJointStatesTopic(e.target.value)}
+              className="px-2 py-1 font-mono border border-gray-300 rounded"
+            />
+          </label>
+          <label className="flex flex-col">
+            <span>Joint states</span>
+            <select
+              value={mode}
+              onChange={(e) => setMode(e.target.value as JointStatesMode)}
+              disabled={goalRunning}
+              className="px-2 py-1 border border-gray-300 rounded"
+            >
+              <option value="publish">Publish the arm</option>
+              <option value="follow">Follow ROS</option>
+              <option value="off">Off</option>
+            </select>
+          </label>
+          <label className="flex flex-col">
+            <span>Trajectory topic</span>
+            <input
+              value={trajectoryTopic}
+              onChange={(e) => setTrajectoryTopic(e.target.value)}
+              className="px-2 py-1 font-mono border border-gray-300 rounded"
+            />
+          </label>
+          <label className="flex items-end space-x-2 pb-1 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={acceptGoals}
+              onChange={(e) => setAcceptGoals(e.target.checked)}
+              className="w-3 h-3"
+            />
+            <span>Accept trajectory goals</span>
+          </label>
+        </div>
+
+        {goalRunning && (
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-orange-600 font-medium">Running a trajectory goal...</span>
+            <button
+              onClick={() => goalRef.current?.abort()}
+              className="px-3 py-1 bg-red-500 text-white rounded hover:bg-red-600 transition-colors"
+            >
+              Stop
+            </button>
+          </div>
+        )}
+
+        {isMock && isConnected && (
+          <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg grid grid-cols-2 gap-2">
+            <button
+              onClick={toggleMockPublisher}
+              className="px-3 py-1 text-xs bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+            >
+              {mockPublishing ? 'Stop ROS joint states' : 'Publish joint states from ROS'}
+            </button>
+            <button
+              onClick={() => mockRef.current?.sendTestTrajectory(config, jointStates, rosVersion, trajectoryTopic)}
+              className="px-3 py-1 text-xs bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+            >
+              Send test trajectory
+            </button>
+          </div>
+        )}
+
+        <div className="h-24 p-2 bg-gray-50 border border-gray-200 rounded-lg overflow-y-auto">
+          {log.length === 0 ? (
+            <p className="text-xs text-gray-500 italic">No ROS traffic yet...</p>
+          ) : (
+            log.map((entry, index) => (
+              <div key={index} className="text-xs text-gray-600 font-mono mb-1">
+                {entry}
+              </div>
+            ))
+          )}
+        </div>
+
+        <p className="text-xs text-gray-500">
+          Run rosbridge_server (rosbridge_websocket) next to ROS and connect to its port, or use
+          the URL {MOCK_ROSBRIDGE_URL} to try the bridge without ROS. Goals are checked for
+          collisions and keep-out zones first and go to the robot over the serial connection.
+        </p>
+      </div>
+    </div>
+  );
+}
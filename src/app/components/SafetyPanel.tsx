@@ -0,0 +1,125 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { CollisionReport, describeCollision } from '../utils/collision';
+import { KeepOutZone, createKeepOutZone } from '../utils/safety';
+import NumberGrid from './NumberGrid';
+
+interface SafetyPanelProps {
+  estop: boolean; // latched until reset
+  onEstop: () => void;
+  onReset: () => void;
+  zones: KeepOutZone[];
+  onZonesChange: (zones: KeepOutZone[]) => void;
+  keepOutReport: CollisionReport | null; // zones the TCP is in right now
+}
+
+// Key that triggers the E-stop from anywhere on the page, text fields included
+export const ESTOP_KEY = 'Escape';
+
+const CENTER_AXES = ['X', 'Y', 'Z'];
+const SIZE_AXES = ['L', 'W', 'H'];
+
+const toMm = (values: number[]) => values.map(value => value * 1000);
+
+// E-stop button and latch, plus the Cartesian keep-out zones (mm)
+export default function SafetyPanel({
+  estop,
+  onEstop,
+  onReset,
+  zones,
+  onZonesChange,
+  keepOutReport
+}: SafetyPanelProps) {
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === ESTOP_KEY) onEstop();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onEstop]);
+
+  const updateZone = (id: string, changes: Partial<KeepOutZone>) => {
+    onZonesChange(zones.map(zone => (zone.id === id ? { ...zone, ...changes } : zone)));
+  };
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow-lg">
+      <h3 className="text-lg font-semibold mb-4 text-gray-800">Safety</h3>
+
+      <div className="space-y-3">
+        <button
+          onClick={onEstop}
+          className="w-full px-4 py-3 text-lg font-bold text-white bg-red-600 rounded-lg hover:bg-red-700 focus:outline-none focus:ring-4 focus:ring-red-300 transition-colors"
+        >
+          EMERGENCY STOP
+        </button>
+        <p className="text-xs text-gray-500 text-center">Shortcut: Esc</p>
+
+        {estop && (
+          <div className="p-2 flex items-center justify-between text-xs font-medium text-red-700 bg-red-50 border border-red-200 rounded">
+            <span>Stopped. Nothing is sent to the robot until reset.</span>
+            <button
+              onClick={onReset}
+              className="ml-2 px-2 py-1 text-xs text-white bg-gray-600 rounded hover:bg-gray-700"
+            >
+              Reset
+            </button>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium text-gray-700">Keep-out zones</h4>
+          <button
+            onClick={() => onZonesChange([...zones, createKeepOutZone(`Zone ${zones.length + 1}`)])}
+            className="text-xs text-blue-600 hover:underline"
+          >
+            Add zone
+          </button>
+        </div>
+
+        {keepOutReport && (
+          <div className="p-2 text-xs text-red-600 bg-red-50 border border-red-200 rounded">
+            TCP inside {describeCollision(keepOutReport)}
+          </div>
+        )}
+
+        {zones.map(zone => (
+          <div key={zone.id} className="p-2 space-y-1 bg-gray-50 border border-gray-200 rounded">
+            <div className="flex items-center justify-between">
+              <input
+                value={zone.name}
+                onChange={(e) => updateZone(zone.id, { name: e.target.value })}
+                className="flex-1 mr-2 px-1 py-0.5 text-xs border border-gray-300 rounded"
+              />
+              <button
+                onClick={() => onZonesChange(zones.filter(entry => entry.id !== zone.id))}
+                className="text-xs text-red-500 hover:text-red-700"
+              >
+                Remove
+              </button>
+            </div>
+            <NumberGrid
+              labels={CENTER_AXES}
+              values={toMm(zone.center)}
+              onChange={(values) => updateZone(zone.id, {
+                center: values.map(value => value / 1000) as KeepOutZone['center']
+              })}
+            />
+            <NumberGrid
+              labels={SIZE_AXES}
+              values={toMm(zone.size)}
+              onChange={(values) => updateZone(zone.id, {
+                size: values.map(value => Math.max(1, value) / 1000) as KeepOutZone['size']
+              })}
+            />
+          </div>
+        ))}
+
+        <p className="text-xs text-gray-500">
+          Moves that would take the tool into a zone are refused before they are sent.
+        </p>
+      </div>
+    </div>
+  );
+}
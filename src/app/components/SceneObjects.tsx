@@ -0,0 +1,162 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { ThreeEvent } from '@react-three/fiber';
+import { Html, TransformControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { Pose, matrixToPose, poseToMatrix } from '../utils/kinematics';
+import { SceneLayout, SceneObject, WorkObjectFrame, cylinderGeometry, tableParts } from '../utils/scene';
+
+interface SceneObjectsProps {
+  scene: SceneLayout;
+  selectedId?: string | null; // object or frame
+  editing: boolean; // click to select, drag the gizmo to move
+  gizmoMode: 'translate' | 'rotate';
+  onSelect?: (id: string | null) => void;
+  onPoseChange?: (id: string, pose: Pose) => void; // objects in the cell frame, frames relative to their parent
+}
+
+const SELECTED_EMISSIVE = '#2563eb';
+
+// Position and orientation props for a group placed at a pose
+function usePoseProps(pose: Pose) {
+  return useMemo(() => {
+    const position = new THREE.Vector3();
+    const quaternion = new THREE.Quaternion();
+    poseToMatrix(pose).decompose(position, quaternion, new THREE.Vector3());
+    return { position, quaternion };
+  }, [pose]);
+}
+
+function ObjectShape({ object, selected }: { object: SceneObject; selected: boolean }) {
+  const material = (
+    <meshPhongMaterial
+      color={object.color}
+      emissive={selected ? SELECTED_EMISSIVE : '#000000'}
+      emissiveIntensity={selected ? 0.35 : 0}
+      transparent={!object.obstacle}
+      opacity={object.obstacle ? 1 : 0.5}
+    />
+  );
+
+  switch (object.shape) {
+    case 'table':
+      return (
+        <>
+          {tableParts(object.size).map((part, index) => (
+            <mesh key={index} position={part.position}>
+              <boxGeometry args={part.size} />
+              {material}
+            </mesh>
+          ))}
+        </>
+      );
+    case 'box':
+      return (
+        <mesh>
+          <boxGeometry args={object.size} />
+          {material}
+        </mesh>
+      );
+    case 'cylinder':
+      return <mesh geometry={cylinderGeometry(object.size)}>{material}</mesh>;
+    case 'part':
+      return <mesh geometry={object.geometry}>{material}</mesh>;
+  }
+}
+
+interface FrameMarkerProps {
+  frame: WorkObjectFrame;
+  selected: boolean;
+  groupRef?: (group: THREE.Group | null) => void;
+}
+
+function FrameMarker({ frame, selected, groupRef }: FrameMarkerProps) {
+  const { position, quaternion } = usePoseProps(frame.pose);
+  return (
+    <group ref={groupRef} position={position} quaternion={quaternion}>
+      <axesHelper args={[selected ? 0.15 : 0.1]} />
+      <Html position={[0, 0, 0.02]} className="pointer-events-none select-none">
+        <div className={`px-1 text-xs whitespace-nowrap rounded ${selected ? 'bg-blue-500 text-white' : 'bg-white bg-opacity-80 text-gray-700'}`}>
+          {frame.name}
+        </div>
+      </Html>
+    </group>
+  );
+}
+
+interface PlacedObjectProps {
+  object: SceneObject;
+  frames: WorkObjectFrame[]; // frames sitting on this object
+  selectedId: string | null;
+  onClick?: (event: ThreeEvent<MouseEvent>) => void;
+  groupRef: (id: string) => ((group: THREE.Group | null) => void) | undefined;
+}
+
+function PlacedObject({ object, frames, selectedId, onClick, groupRef }: PlacedObjectProps) {
+  const { position, quaternion } = usePoseProps(object.pose);
+  return (
+    <group ref={groupRef(object.id)} position={position} quaternion={quaternion} onClick={onClick}>
+      <ObjectShape object={object} selected={object.id === selectedId} />
+      {frames.map(frame => (
+        <FrameMarker key={frame.id} frame={frame} selected={frame.id === selectedId} groupRef={groupRef(frame.id)} />
+      ))}
+    </group>
+  );
+}
+
+// Fixtures and work-object frames of the cell, drawn in the cell frame. While
+// editing, clicking an object selects it and the gizmo moves whatever is selected.
+export default function SceneObjects({
+  scene,
+  selectedId = null,
+  editing,
+  gizmoMode,
+  onSelect,
+  onPoseChange
+}: SceneObjectsProps) {
+  const [selectedGroup, setSelectedGroup] = useState<THREE.Group | null>(null);
+  const objectIds = new Set(scene.objects.map(object => object.id));
+
+  const groupRef = (id: string) => (id === selectedId ? setSelectedGroup : undefined);
+
+  const select = (id: string) => (event: ThreeEvent<MouseEvent>) => {
+    if (!editing) return;
+    event.stopPropagation();
+    onSelect?.(id);
+  };
+
+  return (
+    <>
+      {scene.objects.map(object => (
+        <PlacedObject
+          key={object.id}
+          object={object}
+          frames={scene.frames.filter(frame => frame.parentId === object.id)}
+          selectedId={selectedId}
+          onClick={editing ? select(object.id) : undefined}
+          groupRef={groupRef}
+        />
+      ))}
+      {scene.frames.filter(frame => !frame.parentId || !objectIds.has(frame.parentId)).map(frame => (
+        <FrameMarker
+          key={frame.id}
+          frame={frame}
+          selected={frame.id === selectedId}
+          groupRef={groupRef(frame.id)}
+        />
+      ))}
+      {editing && selectedId && selectedGroup && (
+        <TransformControls
+          object={selectedGroup}
+          mode={gizmoMode}
+          size={0.6}
+          onObjectChange={() => {
+            selectedGroup.updateMatrix();
+            onPoseChange?.(selectedId, matrixToPose(selectedGroup.matrix));
+          }}
+        />
+      )}
+    </>
+  );
+}
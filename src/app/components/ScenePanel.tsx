@@ -0,0 +1,291 @@
+'use client';
+
+import React, { useState } from 'react';
+import { displayToPose, matrixToPose, poseToDisplay } from '../utils/kinematics';
+import {
+  PART_ACCEPT,
+  PrimitiveObject,
+  PrimitiveShape,
+  SceneLayout,
+  SceneObject,
+  WorkObjectFrame,
+  createPrimitiveObject,
+  createWorkObjectFrame,
+  frameMatrix,
+  loadPartObject,
+  parseScene,
+  serializeScene
+} from '../utils/scene';
+import NumberGrid from './NumberGrid';
+
+interface ScenePanelProps {
+  scene: SceneLayout;
+  onSceneChange: (scene: SceneLayout) => void;
+  selectedId: string | null; // object or frame, also selected in the viewer
+  onSelect: (id: string | null) => void;
+}
+
+const AXES = ['X', 'Y', 'Z', 'Rx', 'Ry', 'Rz'];
+const SIZE_AXES = ['L', 'W', 'H'];
+
+const SHAPE_LABELS: Record<SceneObject['shape'], string> = {
+  table: 'Table',
+  box: 'Box',
+  cylinder: 'Cylinder',
+  part: 'Part'
+};
+
+// Fixtures and work-object frames of the cell (mm / degrees, cell frame). Frames
+// on an object are placed relative to it and move with it.
+export default function ScenePanel({ scene, onSceneChange, selectedId, onSelect }: ScenePanelProps) {
+  const [partUnits, setPartUnits] = useState(0.001);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const updateObject = (id: string, changes: Partial<SceneObject>) => {
+    onSceneChange({
+      ...scene,
+      objects: scene.objects.map(object => (object.id === id ? ({ ...object, ...changes } as SceneObject) : object))
+    });
+  };
+
+  const updateFrame = (id: string, changes: Partial<WorkObjectFrame>) => {
+    onSceneChange({
+      ...scene,
+      frames: scene.frames.map(frame => (frame.id === id ? { ...frame, ...changes } : frame))
+    });
+  };
+
+  // Frames on a removed object stay where they were, now relative to the cell
+  const removeObject = (object: SceneObject) => {
+    onSceneChange({
+      objects: scene.objects.filter(entry => entry.id !== object.id),
+      frames: scene.frames.map(frame => (frame.parentId === object.id
+        ? { ...frame, parentId: null, pose: matrixToPose(frameMatrix(frame, scene.objects)) }
+        : frame))
+    });
+    if (selectedId === object.id) onSelect(null);
+  };
+
+  const addPrimitive = (shape: PrimitiveShape) => {
+    const count = scene.objects.filter(object => object.shape === shape).length;
+    const object = createPrimitiveObject(shape, `${SHAPE_LABELS[shape]} ${count + 1}`);
+    onSceneChange({ ...scene, objects: [...scene.objects, object] });
+    onSelect(object.id);
+  };
+
+  // New frames sit on the selected object, if any
+  const addFrame = () => {
+    const parent = scene.objects.find(object => object.id === selectedId);
+    const frame = createWorkObjectFrame(`W${scene.frames.length + 1}`, parent ?? null);
+    onSceneChange({ ...scene, frames: [...scene.frames, frame] });
+    onSelect(frame.id);
+  };
+
+  const importPart = async (file: File) => {
+    try {
+      const part = await loadPartObject(file, partUnits);
+      onSceneChange({ ...scene, objects: [...scene.objects, part] });
+      onSelect(part.id);
+      setMessage(null);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to read the part');
+    }
+  };
+
+  const exportScene = () => {
+    const blob = new Blob([serializeScene(scene)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = 'elbot-scene.json';
+    anchor.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importScene = async (file: File) => {
+    try {
+      const imported = parseScene(JSON.parse(await file.text()));
+      onSceneChange(imported);
+      onSelect(null);
+      setMessage(`Loaded ${imported.objects.length} objects and ${imported.frames.length} frames`);
+    } catch (error) {
+      setMessage(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const rowClass = (id: string) =>
+    `p-2 space-y-1 border rounded ${id === selectedId ? 'bg-blue-50 border-blue-300' : 'bg-gray-50 border-gray-200'}`;
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Scene</h3>
+        <div className="flex items-center space-x-3 text-xs">
+          <label className="text-gray-500 hover:text-gray-700 underline cursor-pointer">
+            Open
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importScene(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <button onClick={exportScene} className="text-gray-500 hover:text-gray-700 underline">
+            Save
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="max-h-96 overflow-y-auto space-y-2">
+          {scene.objects.map(object => (
+            <div key={object.id} className={rowClass(object.id)} onClick={() => onSelect(object.id)}>
+              <div className="flex items-center justify-between space-x-2">
+                <span className="text-xs text-gray-500">{SHAPE_LABELS[object.shape]}</span>
+                <input
+                  value={object.name}
+                  onChange={(e) => updateObject(object.id, { name: e.target.value })}
+                  className="flex-1 px-1 py-0.5 text-xs border border-gray-300 rounded"
+                />
+                <input
+                  type="color"
+                  value={object.color}
+                  onChange={(e) => updateObject(object.id, { color: e.target.value })}
+                  className="w-6 h-5"
+                  title="Colour"
+                />
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    removeObject(object);
+                  }}
+                  className="text-xs text-red-500 hover:text-red-700"
+                >
+                  Remove
+                </button>
+              </div>
+              {object.shape !== 'part' && (
+                <NumberGrid
+                  labels={SIZE_AXES}
+                  values={object.size.map(value => value * 1000)}
+                  onChange={(values) => updateObject(object.id, {
+                    size: values.map(value => Math.max(1, value) / 1000) as PrimitiveObject['size']
+                  })}
+                />
+              )}
+              <NumberGrid
+                labels={AXES}
+                values={poseToDisplay(object.pose)}
+                onChange={(values) => updateObject(object.id, { pose: displayToPose(values) })}
+              />
+              <label className="flex items-center space-x-2 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={object.obstacle}
+                  onChange={(e) => updateObject(object.id, { obstacle: e.target.checked })}
+                  className="w-3 h-3"
+                />
+                <span>Obstacle</span>
+              </label>
+            </div>
+          ))}
+
+          {scene.frames.map(frame => (
+            <div key={frame.id} className={rowClass(frame.id)} onClick={() => onSelect(frame.id)}>
+              <div className="flex items-center justify-between space-x-2">
+                <span className="text-xs text-gray-500">Frame</span>
+                <input
+                  value={frame.name}
+                  onChange={(e) => updateFrame(frame.id, { name: e.target.value })}
+                  className="flex-1 px-1 py-0.5 text-xs border border-gray-300 rounded"
+                />
+                <select
+                  value={frame.parentId ?? ''}
+                  onChange={(e) => updateFrame(frame.id, { parentId: e.target.value || null })}
+                  className="px-1 py-0.5 text-xs border border-gray-300 rounded"
+                  title="What the frame is placed on"
+                >
+                  <option value="">Cell</option>
+                  {scene.objects.map(object => (
+                    <option key={object.id} value={object.id}>{object.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onSceneChange({ ...scene, frames: scene.frames.filter(entry => entry.id !== frame.id) });
+                    if (selectedId === frame.id) onSelect(null);
+                  }}
+                  className="text-xs text-red-500 hover:text-red-700"
+                >
+                  Remove
+                </button>
+              </div>
+              <NumberGrid
+                labels={AXES}
+                values={poseToDisplay(frame.pose)}
+                onChange={(values) => updateFrame(frame.id, { pose: displayToPose(values) })}
+              />
+            </div>
+          ))}
+
+          {scene.objects.length === 0 && scene.frames.length === 0 && (
+            <p className="text-xs text-gray-500 italic">The cell is empty</p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-4 gap-1">
+          {(['table', 'box', 'cylinder'] as PrimitiveShape[]).map(shape => (
+            <button
+              key={shape}
+              onClick={() => addPrimitive(shape)}
+              className="px-2 py-1 text-xs bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+            >
+              {SHAPE_LABELS[shape]}
+            </button>
+          ))}
+          <button
+            onClick={addFrame}
+            className="px-2 py-1 text-xs bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+          >
+            Frame
+          </button>
+        </div>
+        <div className="flex items-center space-x-2">
+          <label className="flex-1 px-3 py-1 text-xs text-center bg-gray-200 text-gray-700 rounded hover:bg-gray-300 cursor-pointer transition-colors">
+            Import part (STL, OBJ, GLB)…
+            <input
+              type="file"
+              accept={PART_ACCEPT}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importPart(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <select
+            value={partUnits}
+            onChange={(e) => setPartUnits(parseFloat(e.target.value))}
+            className="px-1 py-1 text-xs border border-gray-300 rounded"
+            title="Units of the part file"
+          >
+            <option value={0.001}>mm</option>
+            <option value={1}>m</option>
+          </select>
+        </div>
+        {message && <p className="text-xs text-gray-600">{message}</p>}
+
+        <p className="text-xs text-gray-500">
+          Use Edit scene in the 3D view to click objects and move them with the gizmo. Objects marked
+          as obstacles take part in the collision checks; waypoints taught in a frame follow it.
+        </p>
+      </div>
+    </div>
+  );
+}
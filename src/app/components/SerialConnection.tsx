@@ -1,269 +1,449 @@
 'use client';
 
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { JointState } from '../types/robot';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { JointState, RobotConfig } from '../types/robot';
+import {
+  SerialTransport,
+  SerialLink,
+  BridgePortInfo,
+  isWebSerialAvailable,
+  openWebSerialTransport,
+  openBridgeTransport,
+  listBridgePorts,
+  openVirtualTransport,
+  findGrantedPort,
+  webSerial,
+  WebSerialPort
+} from '../utils/serialTransport';
+import { VirtualElbot, VirtualDeviceOptions, DEFAULT_VIRTUAL_DEVICE_OPTIONS } from '../utils/virtualDevice';
+import { DEFAULT_FEED_RATE, formatG06, moveDurationMs } from '../utils/g06';
+import { CommandQueue, CommandQueueOptions, CommandQueueStatus, DEFAULT_COMMAND_QUEUE_OPTIONS } from '../utils/commandQueue';
+import {
+  DecodedFrame,
+  DEFAULT_PORT_SETTINGS,
+  DEFAULT_PROTOCOL_ID,
+  LINE_ENDINGS,
+  Parity,
+  PortSettings,
+  PROTOCOL_DRIVERS,
+  ProtocolMessage,
+  describeFrame,
+  getProtocolDriver,
+  messageFromG06Line
+} from '../utils/protocols';
+import { homeState } from '../utils/robotConfig';
+import { animateMove } from '../utils/motion';
+import { ProfileType } from '../utils/trajectory';
+import { CollisionGuard, describeCollision } from '../utils/collision';
+import { LineKind, SessionRecorder } from '../utils/sessionLog';
+
+type PortSource = 'web-serial' | 'bridge' | 'virtual';
+
+type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+// What was connected last, so a lost connection can be opened again
+interface ConnectionTarget {
+  source: PortSource;
+  path?: string; // bridge port
+  port?: WebSerialPort;
+}
+
+const RECONNECT_INTERVAL_MS = 2000;
+// Auto-send sends the latest pose at most this often, however fast it changes
+const AUTO_SEND_INTERVAL_MS = 100;
+
+const CONNECTION_LABEL: Record<ConnectionState, string> = {
+  disconnected: 'Disconnected',
+  connecting: 'Connecting...',
+  connected: 'Connected',
+  reconnecting: 'Reconnecting...'
+};
+
+const CONNECTION_DOT: Record<ConnectionState, string> = {
+  disconnected: 'bg-red-500',
+  connecting: 'bg-yellow-400',
+  connected: 'bg-green-500',
+  reconnecting: 'bg-orange-500 animate-pulse'
+};
 
 interface SerialConnectionProps {
+  config: RobotConfig;
   jointStates: JointState;
   onDataReceived?: (data: JointState) => void;
+  onLinkChange?: (link: SerialLink | null) => void;
+  onActualStatesChange?: (states: JointState | null) => void; // position reported by the arm
+  motionProfile?: ProfileType;
+  collisionGuard?: CollisionGuard | null;
+  estop?: boolean; // emergency stop latched: halt the arm and refuse to send
+  speedOverride?: number; // percent applied to the feed rate of outgoing moves
+  recorder?: SessionRecorder | null; // keeps every log line beyond the last ten shown here
+  robotName?: string; // set when the cell has several robots, to tell their connections apart
 }
 
-export default function SerialConnection({ jointStates, onDataReceived }: SerialConnectionProps) {
-  const [port, setPort] = useState<any>(null); // SerialPort type
-  const [isConnected, setIsConnected] = useState(false);
-  const [isConnecting, setIsConnecting] = useState(false);
-  const [reader, setReader] = useState<ReadableStreamDefaultReader | null>(null);
-  const [writer, setWriter] = useState<WritableStreamDefaultWriter | null>(null);
+const ESTOP_MESSAGE = 'Emergency stop is latched';
+
+// Feed rate actually sent for a move, after the speed override
+const overrideFeed = (feedRate: number, percent: number) => Math.max(1, Math.round(feedRate * percent / 100));
+
+export default function SerialConnection({
+  config,
+  jointStates,
+  onDataReceived,
+  onLinkChange,
+  onActualStatesChange,
+  motionProfile = 'trapezoidal',
+  collisionGuard = null,
+  estop = false,
+  speedOverride = 100,
+  recorder = null,
+  robotName
+}: SerialConnectionProps) {
+  const transportRef = useRef<SerialTransport | null>(null);
+  const decodeRef = useRef<((chunk: Uint8Array) => DecodedFrame[]) | null>(null);
+  const targetRef = useRef<ConnectionTarget | null>(null);
+  const [connectionState, setConnectionState] = useState<ConnectionState>('disconnected');
+  const isConnected = connectionState === 'connected';
+  const isOffline = connectionState === 'disconnected';
+  const [reconnectAttempts, setReconnectAttempts] = useState(0);
+  const [autoReconnect, setAutoReconnect] = useState(true);
   const [log, setLog] = useState<string[]>([]);
   const [autoSend, setAutoSend] = useState(false);
   const [commandBuffer, setCommandBuffer] = useState<string>('');
   const [isMoving, setIsMoving] = useState(false);
-  const currentPositionRef = useRef<JointState>({
-    theta1: 0, theta2: 0, theta3: 0, theta4: 0, theta5: 0, theta6: 0
-  });
+  const currentPositionRef = useRef<JointState>(homeState(config));
+
+  // Read at send time, so the link handed out below stays the same object
+  const collisionGuardRef = useRef(collisionGuard);
+  collisionGuardRef.current = collisionGuard;
+  const configRef = useRef(config);
+  configRef.current = config;
 
   // Check if Web Serial API is supported - use state to avoid hydration mismatch
   const [isWebSerialSupported, setIsWebSerialSupported] = useState(false);
+  const [portSource, setPortSource] = useState<PortSource>('web-serial');
+  const virtualDeviceRef = useRef<VirtualElbot | null>(null);
+  const [virtualOptions, setVirtualOptions] = useState<VirtualDeviceOptions>(DEFAULT_VIRTUAL_DEVICE_OPTIONS);
+  const [bridgePorts, setBridgePorts] = useState<BridgePortInfo[]>([]);
+  const [selectedBridgePort, setSelectedBridgePort] = useState('');
+  const [protocolId, setProtocolId] = useState(DEFAULT_PROTOCOL_ID);
+  const [portSettings, setPortSettings] = useState<PortSettings>(DEFAULT_PORT_SETTINGS);
+  const [pollPosition, setPollPosition] = useState(false);
+  const [pollIntervalMs, setPollIntervalMs] = useState(250);
+
+  // Read at send time too, like the collision guard
+  const driver = getProtocolDriver(protocolId);
+  const driverRef = useRef(driver);
+  driverRef.current = driver;
+  const lineEndingRef = useRef(portSettings.lineEnding);
+  lineEndingRef.current = portSettings.lineEnding;
+  const [sequenceNumbers, setSequenceNumbers] = useState(false);
+  const sequenceNumbersRef = useRef(sequenceNumbers);
+  sequenceNumbersRef.current = sequenceNumbers;
+  const autoReconnectRef = useRef(autoReconnect);
+  autoReconnectRef.current = autoReconnect;
+  const motionProfileRef = useRef(motionProfile);
+  motionProfileRef.current = motionProfile;
+  const estopRef = useRef(estop);
+  estopRef.current = estop;
+  const speedOverrideRef = useRef(speedOverride);
+  speedOverrideRef.current = speedOverride;
+  const moveAbortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
-    // Check for Web Serial API support on client side only
-    setIsWebSerialSupported(typeof navigator !== 'undefined' && 'serial' in navigator);
+    // Check for Web Serial API support on client side only; fall back to the server bridge
+    const supported = isWebSerialAvailable();
+    setIsWebSerialSupported(supported);
+    setPortSource(supported ? 'web-serial' : 'bridge');
   }, []);
 
-  const addToLog = useCallback((message: string) => {
+  const recorderRef = useRef(recorder);
+  recorderRef.current = recorder;
+  const robotNameRef = useRef(robotName);
+  robotNameRef.current = robotName;
+
+  const addToLog = useCallback((message: string, kind: LineKind = 'info') => {
     const timestamp = new Date().toLocaleTimeString();
     setLog(prev => [...prev.slice(-9), `[${timestamp}] ${message}`]);
+    recorderRef.current?.recordLine(kind, robotNameRef.current ? `${robotNameRef.current}: ${message}` : message);
   }, []);
 
-  const connectToSerial = async () => {
-    if (!isWebSerialSupported) {
-      addToLog('Web Serial API is not supported in this browser');
-      return;
+  // Encode a message with the selected driver and write it; returns the log text
+  const writeMessage = useCallback(async (transport: SerialTransport, message: ProtocolMessage) => {
+    const bytes = driverRef.current.encode(message, configRef.current, lineEndingRef.current);
+    await transport.write(bytes);
+    return describeFrame(driverRef.current, bytes);
+  }, []);
+
+  // Every command that expects an "Ok" goes through the queue
+  const [queueOptions, setQueueOptions] = useState<CommandQueueOptions>(DEFAULT_COMMAND_QUEUE_OPTIONS);
+  const [queueStatus, setQueueStatus] = useState<CommandQueueStatus | null>(null);
+  const queueRef = useRef<CommandQueue | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = new CommandQueue(async (message, seq, attempt) => {
+      const transport = transportRef.current;
+      if (!transport) throw new Error('Not connected to serial port');
+      if (estopRef.current) throw new Error(ESTOP_MESSAGE);
+      const outgoing = message.type === 'move'
+        ? { ...message, feedRate: overrideFeed(message.feedRate, speedOverrideRef.current), ...(sequenceNumbersRef.current ? { seq } : {}) }
+        : message;
+      const sent = await writeMessage(transport, outgoing);
+      addToLog(attempt > 1 ? `Resent #${seq} (attempt ${attempt}): ${sent}` : `Sent: ${sent}`, 'sent');
+    }, DEFAULT_COMMAND_QUEUE_OPTIONS, setQueueStatus);
+  }
+  const queue = queueRef.current;
+  // Commands queued through the link by other panels; auto-send stays out of their way
+  const linkCommandsRef = useRef(0);
+  const lastQueuedTargetRef = useRef<JointState>({});
+
+  useEffect(() => {
+    queue.setOptions({ ...queueOptions, sequenceNumbers });
+  }, [queue, queueOptions, sequenceNumbers]);
+
+  // Expected duration of a queued move, starting where the previous queued move ends
+  const estimateMoveMs = useCallback((joints: JointState, feedRate: number) => {
+    const from = queue.idle ? currentPositionRef.current : lastQueuedTargetRef.current;
+    lastQueuedTargetRef.current = { ...from, ...joints };
+    return moveDurationMs(
+      from,
+      lastQueuedTargetRef.current,
+      overrideFeed(feedRate, speedOverrideRef.current),
+      configRef.current,
+      motionProfileRef.current
+    );
+  }, [queue]);
+
+  const refreshBridgePorts = useCallback(async () => {
+    try {
+      const ports = await listBridgePorts();
+      setBridgePorts(ports);
+      setSelectedBridgePort(prev => prev || ports[0]?.path || '');
+    } catch (error) {
+      addToLog(`Bridge error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, [addToLog]);
+
+  useEffect(() => {
+    if (portSource === 'bridge') {
+      refreshBridgePorts();
     }
+  }, [portSource, refreshBridgePorts]);
 
+  useEffect(() => {
+    virtualDeviceRef.current?.setOptions(virtualOptions);
+  }, [virtualOptions]);
+
+  useEffect(() => {
+    virtualDeviceRef.current?.setConfig(config);
+  }, [config]);
+
+  const handleTransportClose = (error?: Error) => {
+    transportRef.current = null;
+    queue.clear('Connection closed');
+    const message = error ? `Connection lost: ${error.message}` : 'Serial port closed';
+
+    // The virtual device never goes away on its own; real ports are retried
+    if (autoReconnectRef.current && targetRef.current && targetRef.current.source !== 'virtual') {
+      setReconnectAttempts(0);
+      setConnectionState('reconnecting');
+      addToLog(`${message}; reconnecting…`);
+    } else {
+      setConnectionState('disconnected');
+      addToLog(message);
+    }
+  };
+
+  // Route through refs so incoming data and closes always see the latest render's state
+  const transportCloseRef = useRef(handleTransportClose);
+  transportCloseRef.current = handleTransportClose;
+
+  const openTarget = async (target: ConnectionTarget) => {
+    decodeRef.current = driver.createDecoder(config);
+    const handlers = {
+      onData: (chunk: Uint8Array) => incomingDataRef.current(chunk),
+      onClose: (error?: Error) => transportCloseRef.current(error)
+    };
+
+    if (target.source === 'virtual') {
+      virtualDeviceRef.current?.close();
+      virtualDeviceRef.current = new VirtualElbot(virtualOptions, driver, portSettings.lineEnding, config);
+      transportRef.current = await openVirtualTransport(virtualDeviceRef.current, handlers);
+    } else if (target.source === 'bridge') {
+      transportRef.current = await openBridgeTransport(target.path!, portSettings, driver.id, config, handlers);
+    } else {
+      transportRef.current = await openWebSerialTransport(target.port!, portSettings, handlers);
+    }
+    targetRef.current = target;
+  };
+
+  const connectToSerial = async () => {
     try {
-      setIsConnecting(true);
-      
-      // Request a port and open a connection
-      const selectedPort = await (navigator as any).serial.requestPort();
-      await selectedPort.open({ 
-        baudRate: 115200,
-        dataBits: 8,
-        stopBits: 1,
-        parity: 'none'
-      });
-
-      setPort(selectedPort);
-      setIsConnected(true);
-      addToLog('Connected to serial port');
-
-      // Set up reader for incoming data
-      const textDecoder = new TextDecoderStream();
-      const readableStreamClosed = selectedPort.readable.pipeTo(textDecoder.writable);
-      const portReader = textDecoder.readable.getReader();
-      setReader(portReader);
-
-      // Set up writer for outgoing data
-      const textEncoder = new TextEncoderStream();
-      const writableStreamClosed = textEncoder.readable.pipeTo(selectedPort.writable);
-      const portWriter = textEncoder.writable.getWriter();
-      setWriter(portWriter);
-
-      // Start reading data
-      readSerialData(portReader);
+      setConnectionState('connecting');
+      let target: ConnectionTarget;
+
+      if (portSource === 'virtual') {
+        target = { source: 'virtual' };
+      } else if (portSource === 'bridge') {
+        if (!selectedBridgePort) {
+          addToLog('No serial port selected');
+          setConnectionState('disconnected');
+          return;
+        }
+        target = { source: 'bridge', path: selectedBridgePort };
+      } else {
+        // Request a port and open a connection
+        const serial = webSerial();
+        if (!serial) throw new Error('Web Serial API is not available');
+        target = { source: 'web-serial', port: await serial.requestPort() };
+      }
 
+      await openTarget(target);
+      addToLog(target.source === 'virtual'
+        ? 'Connected to virtual device'
+        : target.source === 'bridge' ? `Connected to ${target.path} via server bridge` : 'Connected to serial port');
+      setConnectionState('connected');
     } catch (error) {
       console.error('Error connecting to serial port:', error);
       addToLog(`Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    } finally {
-      setIsConnecting(false);
+      setConnectionState('disconnected');
     }
   };
 
-  const smoothMoveTo = (targetStates: JointState, feedRate: number) => {
-    if (isMoving || !onDataReceived) return;
+  // One reconnection attempt to the last target; a Web Serial port must be plugged in again first
+  const tryReconnect = async () => {
+    const target = targetRef.current;
+    if (!target || transportRef.current) return;
 
-    setIsMoving(true);
-    // Use current position from ref (most up-to-date)
-    const startStates = { ...currentPositionRef.current };
-    const startTime = Date.now();
+    if (target.source === 'web-serial') {
+      const port = await findGrantedPort(target.port!);
+      if (!port) return;
+      target.port = port;
+    }
 
-    // Calculate movement duration based on feed rate and maximum angle difference
-    const maxAngleDiffDeg = Math.max(
-      ...Object.keys(targetStates).map(joint => {
-        const startRad = startStates[joint] || 0;
-        const targetRad = targetStates[joint] || 0;
-        return Math.abs((targetRad - startRad) * 180 / Math.PI); // Convert to degrees
-      })
-    );
-    
-    // Duration calculation: feedRate is degrees/minute
-    const durationMinutes = maxAngleDiffDeg / feedRate;
-    const duration = Math.max(100, durationMinutes * 60 * 1000); // Minimum 100ms
+    setReconnectAttempts(count => count + 1);
+    try {
+      await openTarget(target);
+      setConnectionState('connected');
+      addToLog('Reconnected');
+    } catch {
+      // Try again on the next tick
+    }
+  };
+  const reconnectRef = useRef(tryReconnect);
+  reconnectRef.current = tryReconnect;
 
-    const animate = () => {
-      const elapsed = Date.now() - startTime;
-      const progress = Math.min(elapsed / duration, 1);
+  useEffect(() => {
+    if (connectionState !== 'reconnecting') return;
+
+    let busy = false;
+    const attempt = async () => {
+      if (busy) return;
+      busy = true;
+      await reconnectRef.current().catch(() => undefined);
+      busy = false;
+    };
 
-      // Linear movement with joint limits check
-      const currentStates: JointState = {};
-      
-      // Joint limits in radians
-      const jointLimits = {
-        theta1: { min: -170 * Math.PI / 180, max: 170 * Math.PI / 180 },
-        theta2: { min: -100 * Math.PI / 180, max: 130 * Math.PI / 180 },
-        theta3: { min: -90 * Math.PI / 180, max: 75 * Math.PI / 180 },
-        theta4: { min: -180 * Math.PI / 180, max: 180 * Math.PI / 180 },
-        theta5: { min: -120 * Math.PI / 180, max: 120 * Math.PI / 180 },
-        theta6: { min: -360 * Math.PI / 180, max: 360 * Math.PI / 180 }
-      };
-      
-      Object.keys(targetStates).forEach(joint => {
-        const start = startStates[joint] || 0;
-        const target = targetStates[joint] || 0;
-        const limits = jointLimits[joint as keyof typeof jointLimits];
-        
-        if (limits) {
-          // Calculate direct path
-          let directPath = start + (target - start) * progress;
-          
-          // Check if direct path violates limits
-          if (directPath < limits.min || directPath > limits.max) {
-            // Try alternative path (going the other way around)
-            let altTarget = target;
-            if (target - start > Math.PI) {
-              altTarget = target - 2 * Math.PI;
-            } else if (start - target > Math.PI) {
-              altTarget = target + 2 * Math.PI;
-            }
-            
-            let altPath = start + (altTarget - start) * progress;
-            
-            // Use alternative path if it's within limits
-            if (altPath >= limits.min && altPath <= limits.max) {
-              currentStates[joint] = altPath;
-            } else {
-              // Clamp to limits if both paths violate
-              currentStates[joint] = Math.max(limits.min, Math.min(limits.max, directPath));
-            }
-          } else {
-            currentStates[joint] = directPath;
-          }
-        } else {
-          currentStates[joint] = start + (target - start) * progress;
-        }
-      });
+    const interval = setInterval(attempt, RECONNECT_INTERVAL_MS);
+    // Plugging the device back in is worth an immediate try
+    const serial = webSerial();
+    serial?.addEventListener('connect', attempt);
+    return () => {
+      clearInterval(interval);
+      serial?.removeEventListener('connect', attempt);
+    };
+  }, [connectionState]);
 
-      // Update ref immediately for next animation
-      currentPositionRef.current = currentStates;
-      onDataReceived(currentStates);
+  const smoothMoveTo = async (targetStates: JointState, feedRate: number, seq?: number) => {
+    if (isMoving || !onDataReceived) return;
 
-      if (progress < 1) {
-        requestAnimationFrame(animate);
-      } else {
-        // Update final position
-        currentPositionRef.current = targetStates;
-        onDataReceived(targetStates);
-        setIsMoving(false);
-        addToLog('Movement completed');
-        
-        // Send Ok response immediately
-        if (writer && isConnected) {
-          sendOkResponse();
-        } else {
-          addToLog('Warning: Cannot send Ok response - connection issue');
-        }
-      }
-    };
+    setIsMoving(true);
+    const controller = new AbortController();
+    moveAbortRef.current = controller;
+    // Use current position from ref (most up-to-date)
+    const completed = await animateMove(currentPositionRef.current, targetStates, config, states => {
+      // Update ref immediately for next animation frame
+      currentPositionRef.current = states;
+      onDataReceived(states);
+    }, { feedRate, profile: motionProfile, signal: controller.signal });
+
+    moveAbortRef.current = null;
+    setIsMoving(false);
+    // A halted move is never acknowledged
+    if (!completed) {
+      addToLog('Movement stopped');
+      return;
+    }
+    addToLog('Movement completed');
 
-    requestAnimationFrame(animate);
+    // Send Ok response immediately
+    if (transportRef.current) {
+      sendOkResponse(seq);
+    } else {
+      addToLog('Warning: Cannot send Ok response - connection issue');
+    }
   };
 
-  const processCommand = (command: string) => {
-    const trimmedCommand = command.trim();
-    if (!trimmedCommand) return;
+  const processFrame = ({ message, raw, error }: DecodedFrame) => {
+    // Position reports arrive several times a second while polling; keep them out of the log
+    if (message?.type === 'position') {
+      onActualStatesChange?.(message.joints);
+      return;
+    }
 
-    addToLog(`Received: ${trimmedCommand}`);
+    addToLog(`Received: ${raw}`, 'received');
 
-    // Parse incoming G06 commands
-    // Expected format: "G06 X45.0 Y-30.0 Z60.0 W0.0 U90.0 V-180.0 F500"
-    if (trimmedCommand.startsWith('G06')) {
-      try {
-        const degToRad = (deg: number) => (deg * Math.PI) / 180;
-        const newJointStates: JointState = {};
-        
-        // Extract joint values and feed rate using regex
-        const xMatch = trimmedCommand.match(/X([-+]?\d*\.?\d+)/);
-        const yMatch = trimmedCommand.match(/Y([-+]?\d*\.?\d+)/);
-        const zMatch = trimmedCommand.match(/Z([-+]?\d*\.?\d+)/);
-        const wMatch = trimmedCommand.match(/W([-+]?\d*\.?\d+)/);
-        const uMatch = trimmedCommand.match(/U([-+]?\d*\.?\d+)/);
-        const vMatch = trimmedCommand.match(/V([-+]?\d*\.?\d+)/);
-        const fMatch = trimmedCommand.match(/F([-+]?\d*\.?\d+)/);
-        
-        if (xMatch) newJointStates.theta1 = degToRad(parseFloat(xMatch[1]));
-        if (yMatch) newJointStates.theta2 = degToRad(parseFloat(yMatch[1]));
-        if (zMatch) newJointStates.theta3 = degToRad(parseFloat(zMatch[1]));
-        if (wMatch) newJointStates.theta4 = degToRad(parseFloat(wMatch[1]));
-        if (uMatch) newJointStates.theta5 = degToRad(parseFloat(uMatch[1]));
-        if (vMatch) newJointStates.theta6 = degToRad(parseFloat(vMatch[1]));
-
-        const feedRate = fMatch ? parseFloat(fMatch[1]) : 500; // Default 500 deg/min
-
-        if (Object.keys(newJointStates).length > 0) {
-          addToLog(`Moving to: X=${xMatch?.[1] || '0'} Y=${yMatch?.[1] || '0'} Z=${zMatch?.[1] || '0'} W=${wMatch?.[1] || '0'} U=${uMatch?.[1] || '0'} V=${vMatch?.[1] || '0'} F${feedRate}`);
-          
-          // Start smooth movement
-          smoothMoveTo(newJointStates, feedRate);
-        }
-      } catch (parseError) {
-        addToLog(`Parse error: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
+    if (!message) {
+      addToLog(`Parse error: ${error ?? 'Unknown error'}`);
+      return;
+    }
+
+    // Acknowledgement of a queued command
+    if (message.type === 'ok') {
+      if (!queue.acknowledge(message.seq) && message.seq !== undefined) {
+        addToLog(`Ignored duplicate Ok for #${message.seq}`);
       }
+      return;
     }
-  };
 
-  const readSerialData = async (portReader: ReadableStreamDefaultReader) => {
-    try {
-      let buffer = '';
-      
-      while (true) {
-        const { value, done } = await portReader.read();
-        if (done) break;
-
-        // Add received data to buffer
-        buffer += value;
-
-        // Process complete commands (ending with \n)
-        let newlineIndex;
-        while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
-          const command = buffer.substring(0, newlineIndex);
-          buffer = buffer.substring(newlineIndex + 1);
-          
-          // Process the complete command
-          processCommand(command);
-        }
+    // The firmware answers a command it could not execute with an error instead of Ok
+    if (message.type === 'error') {
+      queue.reject(raw);
+      return;
+    }
+
+    // Incoming moves, e.g. "G06 X45.0 Y-30.0 Z60.0 W0.0 U90.0 V-180.0 F500"
+    if (message.type === 'move') {
+      if (estopRef.current) {
+        addToLog(`Ignored move: ${ESTOP_MESSAGE.toLowerCase()}`);
+        return;
       }
-    } catch (error) {
-      console.error('Error reading serial data:', error);
-      addToLog(`Read error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      const { joints, feedRate, seq } = message;
+      addToLog(`Moving to: ${formatG06(joints, feedRate, config).substring(4)}`);
+
+      // Start smooth movement
+      smoothMoveTo(joints, feedRate, seq);
     }
   };
 
+  const handleIncomingData = (chunk: Uint8Array) => {
+    // The driver buffers partial lines or frames between chunks
+    decodeRef.current?.(chunk).forEach(processFrame);
+  };
+
+  const incomingDataRef = useRef(handleIncomingData);
+  incomingDataRef.current = handleIncomingData;
+
   const disconnectSerial = async () => {
     try {
-      if (reader) {
-        await reader.cancel();
-        setReader(null);
+      const transport = transportRef.current;
+      transportRef.current = null;
+      targetRef.current = null;
+      queue.clear('Disconnected');
+      setConnectionState('disconnected');
+      if (transport) {
+        await transport.close();
       }
-      if (writer) {
-        await writer.close();
-        setWriter(null);
-      }
-      if (port) {
-        await port.close();
-        setPort(null);
-      }
-      setIsConnected(false);
+      virtualDeviceRef.current?.close();
+      virtualDeviceRef.current = null;
       addToLog('Disconnected from serial port');
     } catch (error) {
       console.error('Error disconnecting:', error);
@@ -271,43 +451,136 @@ export default function SerialConnection({ jointStates, onDataReceived }: Serial
     }
   };
 
-  const sendOkResponse = async () => {
-    if (!writer || !isConnected) {
+  // Have the virtual device act as the host and push a random move through processFrame
+  const sendVirtualTestCommand = async () => {
+    const device = virtualDeviceRef.current;
+    if (!device) return;
+
+    const joints: JointState = {};
+    config.joints.forEach(joint => {
+      joints[joint.name] = joint.min + Math.random() * (joint.max - joint.min);
+    });
+
+    const startTime = Date.now();
+    await device.sendMove(joints, 1500);
+    addToLog(`Virtual device handshake complete in ${Date.now() - startTime} ms`);
+  };
+
+  const sendOkResponse = async (seq?: number) => {
+    const transport = transportRef.current;
+    if (!transport) {
       addToLog('Cannot send Ok: Not connected or writer not available');
       return;
     }
 
     try {
-      await writer.write('Ok\n');
-      addToLog('Sent: Ok');
+      addToLog(`Sent: ${await writeMessage(transport, seq === undefined ? { type: 'ok' } : { type: 'ok', seq })}`, 'sent');
     } catch (error) {
       console.error('Error sending Ok response:', error);
       addToLog(`Send error: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
-  const sendJointStates = async () => {
-    if (!writer || !isConnected) {
+  // Queue the current pose; auto-send passes a key so only its latest pose waits in the queue
+  const sendJointStates = async (key?: string) => {
+    if (!transportRef.current) {
       addToLog('Not connected to serial port');
       return;
     }
+    if (estop) {
+      addToLog(ESTOP_MESSAGE);
+      return;
+    }
+
+    const collision = collisionGuard?.checkPose(jointStates);
+    if (collision) {
+      addToLog(`Refused: pose collides (${describeCollision(collision)})`);
+      return;
+    }
 
     try {
-      // Convert radians to degrees for robot command
-      const radToDeg = (rad: number) => (rad * 180) / Math.PI;
-      
-      // Format: G06 X100.0 Y100.0 Z100.0 W100.0 U100.0 V100.0 F500
-      // Order: theta1(X), theta2(Y), theta3(Z), theta4(W), theta5(U), theta6(V)
-      const command = `G06 X${radToDeg(jointStates.theta1 || 0).toFixed(1)} Y${radToDeg(jointStates.theta2 || 0).toFixed(1)} Z${radToDeg(jointStates.theta3 || 0).toFixed(1)} W${radToDeg(jointStates.theta4 || 0).toFixed(1)} U${radToDeg(jointStates.theta5 || 0).toFixed(1)} V${radToDeg(jointStates.theta6 || 0).toFixed(1)} F500\n`;
-      
-      await writer.write(command);
-      addToLog(`Sent: ${command.trim()}`);
+      // G06 format: G06 X100.0 Y100.0 Z100.0 W100.0 U100.0 V100.0 F500
+      await queue.enqueue(
+        { type: 'move', joints: jointStates, feedRate: DEFAULT_FEED_RATE },
+        { key, durationMs: estimateMoveMs(jointStates, DEFAULT_FEED_RATE) }
+      );
     } catch (error) {
       console.error('Error sending data:', error);
       addToLog(`Send error: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
+  // Handed to the page so other panels can stream lines over this connection
+  const link = useMemo<SerialLink>(() => {
+    const enqueueLine = async (line: string, signal?: AbortSignal) => {
+      if (!transportRef.current) throw new Error('Not connected to serial port');
+      if (estopRef.current) throw new Error(ESTOP_MESSAGE);
+
+      const message = messageFromG06Line(line, configRef.current);
+
+      // Last line of defence for every panel streaming moves over this link
+      let durationMs = 0;
+      if (message.type === 'move') {
+        const collision = collisionGuardRef.current?.checkPose({ ...currentPositionRef.current, ...message.joints });
+        if (collision) {
+          addToLog(`Refused: ${line}`);
+          throw new Error(`Move collides (${describeCollision(collision)})`);
+        }
+        durationMs = estimateMoveMs(message.joints, message.feedRate);
+      }
+
+      linkCommandsRef.current++;
+      try {
+        await queue.enqueue(message, { durationMs, signal });
+      } finally {
+        linkCommandsRef.current--;
+      }
+    };
+
+    return {
+      label: 'Serial connection',
+      sendLine: async (line: string) => {
+        if (!transportRef.current) throw new Error('Not connected to serial port');
+        enqueueLine(line).catch(error => {
+          addToLog(`Send error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        });
+      },
+      sendAndWaitOk: enqueueLine
+    };
+  }, [addToLog, queue, estimateMoveMs]);
+
+  // Emergency stop: end the local move, drop everything queued and halt the firmware
+  useEffect(() => {
+    if (!estop) return;
+    moveAbortRef.current?.abort();
+    queue.clear('Emergency stop');
+    const transport = transportRef.current;
+    if (transport) {
+      writeMessage(transport, { type: 'halt' })
+        .then(sent => addToLog(`Emergency stop sent: ${sent}`, 'sent'))
+        .catch(error => addToLog(`Halt failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
+    } else {
+      addToLog('Emergency stop');
+    }
+  }, [estop, queue, writeMessage, addToLog]);
+
+  useEffect(() => {
+    onLinkChange?.(isConnected ? link : null);
+  }, [isConnected, link, onLinkChange]);
+
+  // Ask the arm where it is; the reports come back through processFrame
+  useEffect(() => {
+    if (!isConnected || !pollPosition) return;
+    const interval = setInterval(() => {
+      const transport = transportRef.current;
+      if (transport) writeMessage(transport, { type: 'query-position' }).catch(() => undefined);
+    }, pollIntervalMs);
+    return () => {
+      clearInterval(interval);
+      onActualStatesChange?.(null);
+    };
+  }, [isConnected, pollPosition, pollIntervalMs, onActualStatesChange, writeMessage]);
+
   // Sync ref with manual joint control changes
   useEffect(() => {
     if (!isMoving) {
@@ -315,16 +588,29 @@ export default function SerialConnection({ jointStates, onDataReceived }: Serial
     }
   }, [jointStates, isMoving]);
 
-  // Auto-send joint states when they change (if enabled)
+  // Auto-send joint states when they change (if enabled). Throttled rather than
+  // debounced, so a pose that keeps changing (dragging, jogging) still goes out.
+  const lastAutoSendRef = useRef(0);
+  const sendJointStatesRef = useRef(sendJointStates);
+  sendJointStatesRef.current = sendJointStates;
   useEffect(() => {
-    if (autoSend && isConnected) {
+    if (autoSend && isConnected && !estop) {
+      const delay = Math.max(0, lastAutoSendRef.current + AUTO_SEND_INTERVAL_MS - Date.now());
       const timeoutId = setTimeout(() => {
-        sendJointStates();
-      }, 100); // Debounce sends
-      
+        // Streamed programs own the connection until their lines are acknowledged
+        if (linkCommandsRef.current === 0) {
+          lastAutoSendRef.current = Date.now();
+          sendJointStatesRef.current('auto-send');
+        }
+      }, delay);
+
       return () => clearTimeout(timeoutId);
     }
-  }, [jointStates, autoSend, isConnected]);
+  }, [jointStates, autoSend, isConnected, estop]);
+
+  // How a message looks on the wire with the selected driver
+  const protocolExample = (message: ProtocolMessage) =>
+    describeFrame(driver, driver.encode(message, config, portSettings.lineEnding));
 
   const clearLog = () => {
     setLog([]);
@@ -346,27 +632,165 @@ export default function SerialConnection({ jointStates, onDataReceived }: Serial
     );
   }
 
-  if (!isWebSerialSupported) {
-    return (
-      <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
-        <h3 className="text-lg font-semibold mb-2 text-red-800">Serial Connection</h3>
-        <p className="text-red-600">
-          Web Serial API is not supported in this browser. Please use Chrome, Edge, or Opera.
-        </p>
-      </div>
-    );
-  }
-
   return (
     <div className="p-4 bg-white rounded-lg shadow-lg">
-      <h3 className="text-lg font-semibold mb-4 text-gray-800">Serial Connection</h3>
+      <h3 className="text-lg font-semibold mb-4 text-gray-800">Serial Connection{robotName && <span className="ml-2 text-sm font-normal text-gray-600">{robotName}</span>}</h3>
       
       <div className="space-y-4">
+        {!isWebSerialSupported && (
+          <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-xs text-yellow-700">
+            Web Serial API is not supported in this browser. Using the server-side serial bridge instead.
+          </div>
+        )}
+
+        {/* Port Selection */}
+        <div className="space-y-2">
+          <select
+            value={portSource}
+            onChange={(e) => setPortSource(e.target.value as PortSource)}
+            disabled={!isOffline}
+            className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+          >
+            {isWebSerialSupported && <option value="web-serial">Web Serial (this computer)</option>}
+            <option value="bridge">Server-side serial bridge</option>
+            <option value="virtual">Virtual device (simulated firmware)</option>
+          </select>
+
+          <div className="flex items-center space-x-2">
+            {portSource === 'bridge' && (
+              <>
+                <select
+                  value={selectedBridgePort}
+                  onChange={(e) => setSelectedBridgePort(e.target.value)}
+                  disabled={!isOffline}
+                  className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded"
+                >
+                  {bridgePorts.length === 0 && <option value="">No ports found</option>}
+                  {bridgePorts.map(info => (
+                    <option key={info.path} value={info.path}>
+                      {info.path}{info.manufacturer ? ` (${info.manufacturer})` : ''}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={refreshBridgePorts}
+                  disabled={!isOffline}
+                  className="text-xs text-gray-500 hover:text-gray-700 underline disabled:opacity-50"
+                >
+                  Refresh
+                </button>
+              </>
+            )}
+          </div>
+
+          {/* Protocol driver and port settings */}
+          <select
+            value={protocolId}
+            onChange={(e) => {
+              setProtocolId(e.target.value);
+              setPortSettings(getProtocolDriver(e.target.value).defaultSettings);
+            }}
+            disabled={!isOffline}
+            className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+          >
+            {PROTOCOL_DRIVERS.map(entry => (
+              <option key={entry.id} value={entry.id}>{entry.label}</option>
+            ))}
+          </select>
+          <div className="flex items-center space-x-2">
+            <select
+              value={portSettings.baudRate}
+              onChange={(e) => setPortSettings(prev => ({ ...prev, baudRate: parseInt(e.target.value, 10) }))}
+              disabled={!isOffline}
+              className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded"
+            >
+              {[9600, 19200, 38400, 57600, 115200, 230400, 250000].map(rate => (
+                <option key={rate} value={rate}>{rate} baud</option>
+              ))}
+            </select>
+            <select
+              value={portSettings.parity}
+              onChange={(e) => setPortSettings(prev => ({ ...prev, parity: e.target.value as Parity }))}
+              disabled={!isOffline}
+              className="px-2 py-1 text-sm border border-gray-300 rounded"
+              title="Parity"
+            >
+              <option value="none">8N1</option>
+              <option value="even">8E1</option>
+              <option value="odd">8O1</option>
+            </select>
+            <select
+              value={LINE_ENDINGS.findIndex(entry => entry.value === portSettings.lineEnding)}
+              onChange={(e) => setPortSettings(prev => ({
+                ...prev,
+                lineEnding: LINE_ENDINGS[parseInt(e.target.value, 10)].value
+              }))}
+              disabled={!isOffline || driver.binary}
+              className="px-2 py-1 text-sm border border-gray-300 rounded"
+              title="Line ending"
+            >
+              {LINE_ENDINGS.map((entry, index) => (
+                <option key={entry.label} value={index}>{entry.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Virtual device fault injection */}
+        {portSource === 'virtual' && (
+          <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              {([
+                ['latencyMs', 'Latency (ms)', 1, 1],
+                ['dropRate', 'Drop (%)', 100, 1],
+                ['garbleRate', 'Garble (%)', 100, 1],
+                ['errorRate', 'Error (%)', 100, 1]
+              ] as [keyof VirtualDeviceOptions, string, number, number][]).map(([key, label, scale, step]) => (
+                <label key={key} className="flex items-center justify-between text-xs text-gray-600">
+                  <span>{label}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={key === 'latencyMs' ? undefined : 100}
+                    step={step}
+                    value={Math.round((virtualOptions[key] as number) * scale)}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value);
+                      if (!isNaN(value)) {
+                        setVirtualOptions(prev => ({ ...prev, [key]: Math.max(0, value) / scale }));
+                      }
+                    }}
+                    className="w-16 px-2 py-1 text-xs border border-gray-300 rounded"
+                  />
+                </label>
+              ))}
+            </div>
+            <label className="flex items-center space-x-2 text-xs text-gray-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={virtualOptions.simulateMotion}
+                onChange={(e) => setVirtualOptions(prev => ({ ...prev, simulateMotion: e.target.checked }))}
+                className="w-3 h-3"
+              />
+              <span>Hold Ok until the simulated move completes</span>
+            </label>
+            <button
+              onClick={sendVirtualTestCommand}
+              disabled={!isConnected}
+              className="w-full px-3 py-1 text-xs bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Send test move from device
+            </button>
+          </div>
+        )}
+
         {/* Connection Controls */}
         <div className="flex items-center space-x-3">
-          <div className={`w-3 h-3 rounded-full ${isConnected ? 'bg-green-500' : 'bg-red-500'}`} />
+          <div className={`w-3 h-3 rounded-full ${CONNECTION_DOT[connectionState]}`} />
           <span className="text-sm font-medium">
-            {isConnected ? 'Connected' : 'Disconnected'}
+            {connectionState === 'reconnecting'
+              ? `Reconnecting${reconnectAttempts > 0 ? ` (attempt ${reconnectAttempts})` : ''}...`
+              : CONNECTION_LABEL[connectionState]}
           </span>
           
           {isMoving && (
@@ -376,24 +800,84 @@ export default function SerialConnection({ jointStates, onDataReceived }: Serial
             </div>
           )}
           
-          {!isConnected ? (
+          {isOffline || connectionState === 'connecting' ? (
             <button
               onClick={connectToSerial}
-              disabled={isConnecting}
+              disabled={connectionState === 'connecting'}
               className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
-              {isConnecting ? 'Connecting...' : 'Connect'}
+              {connectionState === 'connecting' ? 'Connecting...' : 'Connect'}
             </button>
           ) : (
             <button
               onClick={disconnectSerial}
               className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-500 transition-colors"
             >
-              Disconnect
+              {connectionState === 'reconnecting' ? 'Stop' : 'Disconnect'}
             </button>
           )}
         </div>
 
+        {/* Command queue and link recovery */}
+        <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+            {([
+              ['timeoutMs', 'Timeout (ms)', 100],
+              ['retries', 'Retries', 1],
+              ['maxInFlight', 'Outstanding', 1]
+            ] as [Exclude<keyof CommandQueueOptions, 'sequenceNumbers'>, string, number][]).map(([key, label, step]) => (
+              <label key={key} className="flex flex-col text-xs text-gray-600">
+                <span>{label}</span>
+                <input
+                  type="number"
+                  min={key === 'retries' ? 0 : 1}
+                  step={step}
+                  value={queueOptions[key]}
+                  disabled={key !== 'timeoutMs' && !sequenceNumbers}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    if (!isNaN(value)) {
+                      setQueueOptions(prev => ({ ...prev, [key]: Math.max(key === 'retries' ? 0 : 1, value) }));
+                    }
+                  }}
+                  className="w-full px-2 py-1 text-xs border border-gray-300 rounded disabled:opacity-50"
+                />
+              </label>
+            ))}
+          </div>
+          {!sequenceNumbers && (
+            <p className="text-xs text-gray-500">
+              Without sequence numbers one command is outstanding at a time and none is resent.
+            </p>
+          )}
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={sequenceNumbers}
+                onChange={(e) => setSequenceNumbers(e.target.checked)}
+                className="w-3 h-3"
+              />
+              <span>Sequence numbers on the wire</span>
+            </label>
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={autoReconnect}
+                onChange={(e) => setAutoReconnect(e.target.checked)}
+                className="w-3 h-3"
+              />
+              <span>Auto-reconnect</span>
+            </label>
+          </div>
+          {queueStatus && (
+            <div className="text-xs text-gray-500">
+              Queue: {queueStatus.queued} waiting, {queueStatus.inFlight} unacknowledged
+              {' · '}{queueStatus.retransmissions} resent, {queueStatus.timeouts} timed out
+            </div>
+          )}
+        </div>
+
         {/* Auto-send Toggle */}
         <div className="flex items-center space-x-3">
           <label className="flex items-center space-x-2 cursor-pointer">
@@ -408,12 +892,35 @@ export default function SerialConnection({ jointStates, onDataReceived }: Serial
           </label>
         </div>
 
+        {/* Position feedback */}
+        <div className="flex items-center justify-between">
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={pollPosition}
+              onChange={(e) => setPollPosition(e.target.checked)}
+              disabled={!isConnected}
+              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <span className="text-sm text-gray-700">Poll actual position</span>
+          </label>
+          <select
+            value={pollIntervalMs}
+            onChange={(e) => setPollIntervalMs(parseInt(e.target.value, 10))}
+            className="px-2 py-1 text-sm border border-gray-300 rounded"
+          >
+            {[100, 250, 500, 1000].map(interval => (
+              <option key={interval} value={interval}>every {interval} ms</option>
+            ))}
+          </select>
+        </div>
+
         {/* Manual Send Button */}
         <button
-          onClick={sendJointStates}
-          disabled={!isConnected}
+          onClick={() => sendJointStates()}
+          disabled={!isConnected || estop}
           className={`w-full px-4 py-2 rounded-lg focus:outline-none focus:ring-2 transition-colors ${
-            isConnected
+            isConnected && !estop
               ? 'bg-green-500 text-white hover:bg-green-600 focus:ring-green-500'
               : 'bg-gray-300 text-gray-500 cursor-not-allowed'
           }`}
@@ -450,10 +957,14 @@ export default function SerialConnection({ jointStates, onDataReceived }: Serial
         <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
           <h4 className="text-sm font-medium text-blue-800 mb-1">Communication Protocol</h4>
           <div className="text-xs text-blue-600 space-y-1">
-            <div><strong>Baud Rate:</strong> 115200</div>
-            <div><strong>Receive Format:</strong> G06 X100.0 Y100.0 Z100.0 W100.0 U100.0 V100.0 F500</div>
-            <div><strong>Send Response:</strong> Ok (after movement complete)</div>
-            <div><strong>Joint Mapping:</strong> X=θ1, Y=θ2, Z=θ3, W=θ4, U=θ5, V=θ6</div>
+            <div><strong>Driver:</strong> {driver.label}, {portSettings.baudRate} baud, parity {portSettings.parity}</div>
+            <div className="break-all"><strong>Move:</strong> {protocolExample({ type: 'move', joints: jointStates, feedRate: DEFAULT_FEED_RATE })}</div>
+            <div><strong>Send Response:</strong> {protocolExample({ type: 'ok' })} (after movement complete)</div>
+            <div className="break-all"><strong>Position Query:</strong> {protocolExample({ type: 'query-position' })} → {protocolExample({ type: 'position', joints: jointStates })} (no Ok)</div>
+            <div>
+              <strong>Joint Mapping:</strong>{' '}
+              {config.joints.map(joint => `${joint.letter}=${joint.name}`).join(', ')}
+            </div>
           </div>
         </div>
       </div>
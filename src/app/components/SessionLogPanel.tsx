@@ -0,0 +1,151 @@
+'use client';
+
+import React, { useMemo, useState, useSyncExternalStore } from 'react';
+import { RobotConfig } from '../types/robot';
+import {
+  SESSION_ENTRY_KINDS,
+  SessionEntry,
+  SessionEntryKind,
+  SessionRecorder,
+  displayValue,
+  filterSessionEntries,
+  serializeSession,
+  sessionToCsv
+} from '../utils/sessionLog';
+
+interface SessionLogPanelProps {
+  config: RobotConfig;
+  recorder: SessionRecorder;
+  robotNames?: Record<string, string>; // by id; states are labelled when given
+}
+
+// Newest matching entries shown; exports always contain every match
+const VISIBLE_ENTRIES = 200;
+
+const KIND_COLOR: Record<SessionEntryKind, string> = {
+  sent: 'text-blue-600',
+  received: 'text-green-600',
+  info: 'text-gray-500',
+  commanded: 'text-purple-600',
+  actual: 'text-orange-600'
+};
+
+const download = (content: string, type: string, fileName: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  URL.revokeObjectURL(url);
+};
+
+// Persistent record of the serial traffic and joint states, with filters and export
+export default function SessionLogPanel({ config, recorder, robotNames }: SessionLogPanelProps) {
+  const entries = useSyncExternalStore(recorder.subscribe, recorder.getEntries, recorder.getEntries);
+  const [kinds, setKinds] = useState<Set<SessionEntryKind>>(() => new Set(['sent', 'received', 'info']));
+  const [search, setSearch] = useState('');
+  const [paused, setPaused] = useState(recorder.paused);
+
+  const matches = useMemo(
+    () => filterSessionEntries(entries, { kinds, search }),
+    [entries, kinds, search]
+  );
+
+  const toggleKind = (kind: SessionEntryKind) => {
+    setKinds(prev => {
+      const next = new Set(prev);
+      if (next.has(kind)) next.delete(kind);
+      else next.add(kind);
+      return next;
+    });
+  };
+
+  const togglePaused = () => {
+    recorder.paused = !paused;
+    setPaused(!paused);
+  };
+
+  const describe = (entry: SessionEntry) => {
+    if (entry.text !== undefined) return entry.text;
+    const joints = Object.entries(entry.joints ?? {})
+      .map(([name, value]) => `${name}=${displayValue(config, name, value).toFixed(1)}`)
+      .join(' ');
+    const robotName = robotNames && entry.robot ? robotNames[entry.robot] ?? entry.robot : null;
+    return robotName ? `${robotName}: ${joints}` : joints;
+  };
+
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Session Log</h3>
+        <div className="flex space-x-2 text-xs">
+          <button
+            onClick={() => download(sessionToCsv(matches, config), 'text/csv', `elbot-session-${stamp}.csv`)}
+            disabled={matches.length === 0}
+            className="text-gray-500 hover:text-gray-700 underline disabled:opacity-50"
+          >
+            CSV
+          </button>
+          <button
+            onClick={() => download(serializeSession(matches), 'application/json', `elbot-session-${stamp}.json`)}
+            disabled={matches.length === 0}
+            className="text-gray-500 hover:text-gray-700 underline disabled:opacity-50"
+          >
+            JSON
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-700">
+          {SESSION_ENTRY_KINDS.map(({ kind, label }) => (
+            <label key={kind} className="flex items-center space-x-1">
+              <input type="checkbox" checked={kinds.has(kind)} onChange={() => toggleKind(kind)} />
+              <span className={KIND_COLOR[kind]}>{label}</span>
+            </label>
+          ))}
+        </div>
+
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search lines and messages"
+          className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+        />
+
+        <div className="bg-gray-50 border border-gray-200 rounded p-2 h-48 overflow-y-auto">
+          {matches.length === 0 ? (
+            <p className="text-xs text-gray-500">Nothing recorded</p>
+          ) : (
+            matches.slice(-VISIBLE_ENTRIES).map((entry, index) => (
+              <div key={`${entry.time}-${index}`} className="text-xs font-mono break-all">
+                <span className="text-gray-400">{new Date(entry.time).toLocaleTimeString()}</span>{' '}
+                <span className={KIND_COLOR[entry.kind]}>{entry.kind}</span>{' '}
+                <span className="text-gray-700">{describe(entry)}</span>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="flex justify-between items-center text-xs text-gray-500">
+          <span>
+            {matches.length} of {entries.length} entries
+            {matches.length > VISIBLE_ENTRIES ? `, newest ${VISIBLE_ENTRIES} shown` : ''}
+          </span>
+          <span className="flex space-x-2">
+            <button onClick={togglePaused} className="hover:text-gray-700 underline">
+              {paused ? 'Resume' : 'Pause'}
+            </button>
+            <button onClick={() => recorder.clear()} className="text-red-500 hover:text-red-700 underline">
+              Clear
+            </button>
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+'use client';
+
+import React, { useMemo, useState, useSyncExternalStore } from 'react';
+import { RobotConfig } from '../types/robot';
+import { SessionRecorder, StateKind, displayValue, stateSamples } from '../utils/sessionLog';
+import TrajectoryPlot from './TrajectoryPlot';
+
+interface SessionPlotPanelProps {
+  config: RobotConfig;
+  recorder: SessionRecorder;
+  robotId: string; // only this robot's states are plotted
+}
+
+const WINDOWS = [
+  { label: '10 s', ms: 10000 },
+  { label: '30 s', ms: 30000 },
+  { label: '2 min', ms: 120000 },
+  { label: 'All', ms: Infinity }
+];
+
+const WIDTH = 300;
+const HEIGHT = 120;
+const COMMANDED_COLOR = '#8b5cf6';
+const ACTUAL_COLOR = '#f97316';
+
+// Recorded joint data over time: angles and velocities of either source, and one
+// joint commanded against actual, for tuning after a run
+export default function SessionPlotPanel({ config, recorder, robotId }: SessionPlotPanelProps) {
+  const entries = useSyncExternalStore(recorder.subscribe, recorder.getEntries, recorder.getEntries);
+  const [source, setSource] = useState<StateKind>('commanded');
+  const [windowMs, setWindowMs] = useState(WINDOWS[1].ms);
+  const [selectedJoint, setJointName] = useState(config.joints[0]?.name ?? '');
+  // Fall back to the first joint when another robot is loaded
+  const jointName = config.joints.some(joint => joint.name === selectedJoint)
+    ? selectedJoint
+    : config.joints[0]?.name ?? '';
+
+  // The window ends at the newest state, so a finished run stays on screen
+  const states = useMemo(() => {
+    const all = entries.filter(entry =>
+      (entry.kind === 'commanded' || entry.kind === 'actual') && entry.robot === robotId);
+    const end = all[all.length - 1]?.time ?? 0;
+    return all.filter(entry => entry.time >= end - windowMs);
+  }, [entries, robotId, windowMs]);
+
+  const samples = useMemo(() => stateSamples(states, source, robotId), [states, source, robotId]);
+
+  const comparison = useMemo(() => {
+    const start = states[0]?.time ?? 0;
+    const series = (kind: StateKind) => states
+      .filter(entry => entry.kind === kind && entry.joints![jointName] !== undefined)
+      .map(entry => ({
+        time: (entry.time - start) / 1000,
+        value: displayValue(config, jointName, entry.joints![jointName])
+      }));
+    return { commanded: series('commanded'), actual: series('actual') };
+  }, [states, config, jointName]);
+
+  const comparePoints = [...comparison.commanded, ...comparison.actual];
+  const duration = Math.max(0.001, ...comparePoints.map(point => point.time));
+  const min = Math.min(...comparePoints.map(point => point.value));
+  const max = Math.max(...comparePoints.map(point => point.value));
+  const range = max - min || 1;
+  const x = (time: number) => (time / duration) * WIDTH;
+  const y = (value: number) => HEIGHT - ((value - min) / range) * HEIGHT;
+  const polyline = (points: { time: number; value: number }[], color: string) => (
+    <polyline
+      fill="none"
+      stroke={color}
+      strokeWidth={1.5}
+      vectorEffect="non-scaling-stroke"
+      points={points.map(point => `${x(point.time)},${y(point.value)}`).join(' ')}
+    />
+  );
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Joint Plots</h3>
+        <select
+          value={windowMs}
+          onChange={(e) => setWindowMs(Number(e.target.value))}
+          className="px-2 py-1 text-xs border border-gray-300 rounded"
+        >
+          {WINDOWS.map(entry => (
+            <option key={entry.label} value={entry.ms}>{entry.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <div className="flex space-x-2 mb-1 text-xs">
+            {(['commanded', 'actual'] as StateKind[]).map(kind => (
+              <button
+                key={kind}
+                onClick={() => setSource(kind)}
+                className={source === kind ? 'text-blue-600 font-medium' : 'text-gray-500 hover:text-gray-700'}
+              >
+                {kind === 'commanded' ? 'Commanded' : 'Actual'}
+              </button>
+            ))}
+          </div>
+          {samples.length >= 2 ? (
+            <TrajectoryPlot config={config} samples={samples} />
+          ) : (
+            <p className="text-xs text-gray-500">
+              {source === 'actual'
+                ? 'No reported positions yet - poll the position in the serial connection.'
+                : 'Move the arm to record joint states.'}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <span className="text-xs font-medium text-gray-700">Commanded vs. actual</span>
+            <select
+              value={jointName}
+              onChange={(e) => setJointName(e.target.value)}
+              className="px-2 py-0.5 text-xs border border-gray-300 rounded"
+            >
+              {config.joints.map(joint => (
+                <option key={joint.name} value={joint.name}>{joint.name}</option>
+              ))}
+            </select>
+          </div>
+          {comparePoints.length >= 2 ? (
+            <>
+              <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-28 bg-gray-50 border border-gray-200 rounded" preserveAspectRatio="none">
+                {polyline(comparison.commanded, COMMANDED_COLOR)}
+                {polyline(comparison.actual, ACTUAL_COLOR)}
+              </svg>
+              <div className="flex justify-between text-xs text-gray-500 mt-1">
+                <span>{max.toFixed(1)} / {min.toFixed(1)}</span>
+                <span className="space-x-2">
+                  <span style={{ color: COMMANDED_COLOR }}>commanded</span>
+                  <span style={{ color: ACTUAL_COLOR }}>actual</span>
+                  <span>{duration.toFixed(1)} s</span>
+                </span>
+              </div>
+            </>
+          ) : (
+            <p className="text-xs text-gray-500">Not enough samples in this window.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
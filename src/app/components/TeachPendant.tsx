@@ -0,0 +1,588 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { JointState, RobotConfig } from '../types/robot';
+import { SerialLink } from '../utils/serialTransport';
+import { formatG06 } from '../utils/g06';
+import { animateTrajectory, wait } from '../utils/motion';
+import { ProfileType, Trajectory, planTrajectory, sampleSequence } from '../utils/trajectory';
+import { streamTrajectory } from '../utils/gcodeStreamer';
+import { CollisionGuard, describeCollision } from '../utils/collision';
+import { KinematicChain } from '../utils/kinematics';
+import { DynamicsSetup, overloadedJoints, peakTorques, trajectoryTorques } from '../utils/dynamics';
+import TrajectoryPlot from './TrajectoryPlot';
+import {
+  EMPTY_TEACH_PENDANT_DATA,
+  ProgramStep,
+  TeachFrame,
+  TeachPendantData,
+  WaypointProgram,
+  createId,
+  createStep,
+  createWaypoint,
+  loadTeachPendantData,
+  mergeTeachPendantData,
+  parseTeachPendantData,
+  saveTeachPendantData,
+  serializeTeachPendantData,
+  waypointTarget
+} from '../utils/teachPendant';
+
+interface TeachPendantProps {
+  config: RobotConfig;
+  jointStates: JointState;
+  onJointStatesChange: (states: JointState) => void;
+  link?: SerialLink | null; // open serial connection, if any
+  motionProfile?: ProfileType;
+  collisionGuard?: CollisionGuard | null;
+  estop?: boolean; // emergency stop latched
+  chain?: KinematicChain | null;
+  frames?: TeachFrame[]; // work-object frames waypoints can be taught in
+  dynamics?: DynamicsSetup | null; // adds torque curves to the program plot
+}
+
+interface PlannedRun {
+  steps: ProgramStep[];
+  trajectory: Trajectory;
+}
+
+interface RunState {
+  label: string;
+  stepIndex: number;
+  stepCount: number;
+  dwelling: boolean;
+}
+
+export default function TeachPendant({
+  config,
+  jointStates,
+  onJointStatesChange,
+  link = null,
+  motionProfile = 'trapezoidal',
+  collisionGuard = null,
+  estop = false,
+  chain = null,
+  frames = [],
+  dynamics = null
+}: TeachPendantProps) {
+  const [data, setData] = useState<TeachPendantData>(EMPTY_TEACH_PENDANT_DATA);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [waypointName, setWaypointName] = useState('');
+  const [teachFrameId, setTeachFrameId] = useState('');
+  const [selectedProgramId, setSelectedProgramId] = useState('');
+  const [streamToRobot, setStreamToRobot] = useState(false);
+  const [blend, setBlend] = useState(false);
+  const [runState, setRunState] = useState<RunState | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Replay starts from wherever the arm is at that moment
+  const jointStatesRef = useRef(jointStates);
+  jointStatesRef.current = jointStates;
+
+  // localStorage is only available after hydration
+  useEffect(() => {
+    const stored = loadTeachPendantData();
+    setData(stored);
+    setSelectedProgramId(stored.programs[0]?.id ?? '');
+    setIsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (isLoaded) saveTeachPendantData(data);
+  }, [data, isLoaded]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (estop) abortRef.current?.abort();
+  }, [estop]);
+
+  const program = data.programs.find(entry => entry.id === selectedProgramId) ?? null;
+  const waypointLabel = (id: string) => data.waypoints.find(waypoint => waypoint.id === id)?.name ?? '(missing)';
+  const frameLabel = (id: string) => frames.find(frame => frame.id === id)?.name ?? '(deleted frame)';
+  const teachFrame = frames.find(frame => frame.id === teachFrameId) ?? null;
+  const canStream = streamToRobot && !!link;
+
+  const updateProgram = (id: string, update: (program: WaypointProgram) => WaypointProgram) => {
+    setData(prev => ({
+      ...prev,
+      programs: prev.programs.map(entry => (entry.id === id ? update(entry) : entry))
+    }));
+  };
+
+  const updateStep = (index: number, changes: Partial<ProgramStep>) => {
+    if (!program) return;
+    updateProgram(program.id, entry => ({
+      ...entry,
+      steps: entry.steps.map((step, stepIndex) => (stepIndex === index ? { ...step, ...changes } : step))
+    }));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    if (!program) return;
+    const target = index + offset;
+    if (target < 0 || target >= program.steps.length) return;
+    updateProgram(program.id, entry => {
+      const steps = [...entry.steps];
+      [steps[index], steps[target]] = [steps[target], steps[index]];
+      return { ...entry, steps };
+    });
+  };
+
+  const saveWaypoint = () => {
+    const name = waypointName.trim() || `P${data.waypoints.length + 1}`;
+    setData(prev => ({
+      ...prev,
+      waypoints: [...prev.waypoints, createWaypoint(name, jointStatesRef.current, teachFrame, chain)]
+    }));
+    setWaypointName('');
+  };
+
+  const deleteWaypoint = (id: string) => {
+    const used = data.programs.some(entry => entry.steps.some(step => step.waypointId === id));
+    if (used && !confirm('This waypoint is used by a program. Delete it and its steps?')) return;
+    setData(prev => ({
+      waypoints: prev.waypoints.filter(waypoint => waypoint.id !== id),
+      programs: prev.programs.map(entry => ({
+        ...entry,
+        steps: entry.steps.filter(step => step.waypointId !== id)
+      }))
+    }));
+  };
+
+  const createProgram = () => {
+    const newProgram: WaypointProgram = {
+      id: createId(),
+      name: `Program ${data.programs.length + 1}`,
+      steps: []
+    };
+    setData(prev => ({ ...prev, programs: [...prev.programs, newProgram] }));
+    setSelectedProgramId(newProgram.id);
+  };
+
+  const deleteProgram = () => {
+    if (!program || !confirm(`Delete program '${program.name}'?`)) return;
+    const remaining = data.programs.filter(entry => entry.id !== program.id);
+    setData(prev => ({ ...prev, programs: prev.programs.filter(entry => entry.id !== program.id) }));
+    setSelectedProgramId(remaining[0]?.id ?? '');
+  };
+
+  const addStep = (waypointId: string) => {
+    if (!program) return;
+    updateProgram(program.id, entry => ({ ...entry, steps: [...entry.steps, createStep(waypointId)] }));
+  };
+
+  // Split steps into runs planned as one trajectory: every step on its own, or with
+  // blending, consecutive steps up to the next dwell
+  const planSteps = useCallback((start: JointState, steps: ProgramStep[]): PlannedRun[] => {
+    const runs: PlannedRun[] = [];
+    let position = start;
+    let pending: { step: ProgramStep; target: JointState }[] = [];
+
+    const flush = () => {
+      if (pending.length === 0) return;
+      const trajectory = planTrajectory(
+        [position, ...pending.map(entry => entry.target)],
+        config,
+        { profile: motionProfile, feedRate: pending.map(entry => entry.step.feedRate) }
+      );
+      runs.push({ steps: pending.map(entry => entry.step), trajectory });
+      position = trajectory.waypoints[trajectory.waypoints.length - 1];
+      pending = [];
+    };
+
+    steps.forEach((step, index) => {
+      const waypoint = data.waypoints.find(entry => entry.id === step.waypointId);
+      if (!waypoint) throw new Error(`Step ${index + 1} refers to a deleted waypoint`);
+      const previous = pending.length > 0 ? pending[pending.length - 1].target : position;
+      pending.push({ step, target: { ...previous, ...waypointTarget(waypoint, frames, chain, config) } });
+      if (!blend || step.dwellMs > 0) flush();
+    });
+    flush();
+
+    return runs;
+  }, [data.waypoints, frames, chain, config, motionProfile, blend]);
+
+  // Play the runs in the simulator and, when streaming, on the robot as well; each run
+  // waits for both the animation and the robot's acknowledgements before its dwell starts.
+  // A single move goes out as one G06, a blended run as the resampled trajectory.
+  const runSteps = async (label: string, steps: ProgramStep[]) => {
+    if (runState || estop || steps.length === 0) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const streamLink = canStream ? link : null;
+    setMessage(null);
+
+    try {
+      const runs = planSteps({ ...jointStatesRef.current }, steps);
+
+      // Refuse the whole run up front rather than stopping part-way into it
+      let checkedSteps = 0;
+      for (const run of runs) {
+        const hit = collisionGuard?.checkTrajectory(run.trajectory);
+        if (hit) {
+          // Waypoint i + 1 of a run is the target of its step i
+          const reached = run.trajectory.waypointTimes.findIndex(time => time >= hit.time);
+          const step = checkedSteps + Math.min(run.steps.length, Math.max(1, reached));
+          setMessage(`${label} refused: step ${step} would collide (${describeCollision(hit.report)})`);
+          return;
+        }
+        checkedSteps += run.steps.length;
+      }
+
+      let stepIndex = 0;
+
+      for (const run of runs) {
+        setRunState({ label, stepIndex, stepCount: steps.length, dwelling: false });
+
+        const moves: Promise<unknown>[] = [
+          animateTrajectory(run.trajectory, onJointStatesChange, controller.signal)
+        ];
+        if (streamLink) {
+          moves.push(run.steps.length === 1
+            ? streamLink.sendAndWaitOk(
+              formatG06(run.trajectory.waypoints[run.trajectory.waypoints.length - 1], run.steps[0].feedRate, config),
+              controller.signal
+            )
+            : streamTrajectory(run.trajectory, config, streamLink, controller.signal));
+        }
+        await Promise.all(moves);
+        if (controller.signal.aborted) break;
+
+        stepIndex += run.steps.length;
+        const dwellMs = run.steps[run.steps.length - 1].dwellMs;
+        if (dwellMs > 0) {
+          setRunState({ label, stepIndex: stepIndex - 1, stepCount: steps.length, dwelling: true });
+          if (!(await wait(dwellMs, controller.signal))) break;
+        }
+      }
+      setMessage(controller.signal.aborted ? `${label} stopped` : `${label} finished`);
+    } catch (error) {
+      const stoppedByUser = controller.signal.aborted;
+      controller.abort();
+      setMessage(stoppedByUser
+        ? `${label} stopped`
+        : `${label} stopped: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      abortRef.current = null;
+      setRunState(null);
+    }
+  };
+
+  // Planned curves of the selected program, starting at its first waypoint
+  const programSamples = useMemo(() => {
+    if (!program || program.steps.length < 2) return [];
+    try {
+      const first = data.waypoints.find(entry => entry.id === program.steps[0].waypointId);
+      if (!first) return [];
+      const runs = planSteps(waypointTarget(first, frames, chain, config), program.steps.slice(1));
+      return sampleSequence(
+        runs.map(run => run.trajectory),
+        runs.map(run => run.steps[run.steps.length - 1].dwellMs / 1000)
+      );
+    } catch {
+      return [];
+    }
+  }, [program, data.waypoints, frames, chain, config, planSteps]);
+
+  const programTorques = useMemo(
+    () => (dynamics && programSamples.length > 1 ? trajectoryTorques(dynamics.model, programSamples, dynamics.options) : null),
+    [dynamics, programSamples]
+  );
+
+  const torquePeaks = useMemo(() => (programTorques ? peakTorques(programTorques) : null), [programTorques]);
+  const overloaded = torquePeaks && dynamics ? overloadedJoints(torquePeaks, dynamics.ratings) : [];
+
+  const stop = () => abortRef.current?.abort();
+
+  const exportData = () => {
+    const blob = new Blob([serializeTeachPendantData(data)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = 'elbot-programs.json';
+    anchor.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importData = async (file: File) => {
+    try {
+      const imported = parseTeachPendantData(JSON.parse(await file.text()));
+      setData(prev => mergeTeachPendantData(prev, imported));
+      if (!selectedProgramId && imported.programs[0]) setSelectedProgramId(imported.programs[0].id);
+      setMessage(`Imported ${imported.waypoints.length} waypoints and ${imported.programs.length} programs`);
+    } catch (error) {
+      setMessage(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const isRunning = runState !== null;
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Teach Pendant</h3>
+        <div className="flex items-center space-x-3 text-xs">
+          <label className="text-gray-500 hover:text-gray-700 underline cursor-pointer">
+            Import
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importData(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <button onClick={exportData} className="text-gray-500 hover:text-gray-700 underline">
+            Export
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {/* Waypoints */}
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Waypoints</h4>
+          <div className="flex space-x-2 mb-2">
+            <input
+              type="text"
+              value={waypointName}
+              onChange={(e) => setWaypointName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && saveWaypoint()}
+              placeholder={`P${data.waypoints.length + 1}`}
+              className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded"
+            />
+            <button
+              onClick={saveWaypoint}
+              className="px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
+            >
+              Save current pose
+            </button>
+          </div>
+          {frames.length > 0 && (
+            <label className="flex items-center space-x-2 mb-2 text-xs text-gray-600">
+              <span>Teach in</span>
+              <select
+                value={teachFrame?.id ?? ''}
+                onChange={(e) => setTeachFrameId(e.target.value)}
+                className="flex-1 px-2 py-1 border border-gray-300 rounded"
+              >
+                <option value="">Joint values</option>
+                {frames.map(frame => (
+                  <option key={frame.id} value={frame.id}>Frame {frame.name}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          {data.waypoints.length === 0 ? (
+            <p className="text-xs text-gray-500 italic">No waypoints saved yet</p>
+          ) : (
+            <div className="max-h-40 overflow-y-auto space-y-1">
+              {data.waypoints.map(waypoint => (
+                <div key={waypoint.id} className="flex items-center space-x-2 text-xs">
+                  <input
+                    type="text"
+                    value={waypoint.name}
+                    onChange={(e) => setData(prev => ({
+                      ...prev,
+                      waypoints: prev.waypoints.map(entry =>
+                        entry.id === waypoint.id ? { ...entry, name: e.target.value } : entry
+                      )
+                    }))}
+                    className="flex-1 px-1 py-0.5 border border-transparent hover:border-gray-300 rounded"
+                  />
+                  {waypoint.frame && (
+                    <span className="text-gray-500" title="Taught relative to this work-object frame">
+                      @ {frameLabel(waypoint.frame.id)}
+                    </span>
+                  )}
+                  <button
+                    onClick={() => runSteps(waypoint.name, [createStep(waypoint.id)])}
+                    disabled={isRunning || estop}
+                    className="text-blue-600 hover:underline disabled:opacity-50"
+                  >
+                    Go
+                  </button>
+                  <button
+                    onClick={() => addStep(waypoint.id)}
+                    disabled={!program || isRunning}
+                    className="text-green-600 hover:underline disabled:opacity-50"
+                  >
+                    + Step
+                  </button>
+                  <button
+                    onClick={() => deleteWaypoint(waypoint.id)}
+                    disabled={isRunning}
+                    className="text-red-600 hover:underline disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Program */}
+        <div>
+          <div className="flex items-center space-x-2 mb-2">
+            <h4 className="text-sm font-medium text-gray-700">Program</h4>
+            <select
+              value={selectedProgramId}
+              onChange={(e) => setSelectedProgramId(e.target.value)}
+              disabled={isRunning}
+              className="flex-1 px-2 py-1 text-xs border border-gray-300 rounded"
+            >
+              {data.programs.length === 0 && <option value="">No programs</option>}
+              {data.programs.map(entry => (
+                <option key={entry.id} value={entry.id}>{entry.name}</option>
+              ))}
+            </select>
+            <button onClick={createProgram} disabled={isRunning} className="text-xs text-blue-600 hover:underline disabled:opacity-50">
+              New
+            </button>
+            <button onClick={deleteProgram} disabled={!program || isRunning} className="text-xs text-red-600 hover:underline disabled:opacity-50">
+              Delete
+            </button>
+          </div>
+
+          {program && (
+            <>
+              <input
+                type="text"
+                value={program.name}
+                onChange={(e) => updateProgram(program.id, entry => ({ ...entry, name: e.target.value }))}
+                className="w-full mb-2 px-2 py-1 text-sm border border-gray-300 rounded"
+              />
+
+              {program.steps.length === 0 ? (
+                <p className="text-xs text-gray-500 italic">Add steps with &quot;+ Step&quot; next to a waypoint</p>
+              ) : (
+                <div className="space-y-1">
+                  <div className="grid grid-cols-12 gap-1 text-xs text-gray-500">
+                    <span className="col-span-4">Waypoint</span>
+                    <span className="col-span-3">Feed (°/min)</span>
+                    <span className="col-span-2">Dwell (ms)</span>
+                  </div>
+                  {program.steps.map((step, index) => (
+                    <div
+                      key={index}
+                      className={`grid grid-cols-12 gap-1 items-center text-xs rounded ${
+                        runState?.label === program.name && runState.stepIndex === index ? 'bg-orange-100' : ''
+                      }`}
+                    >
+                      <span className="col-span-4 truncate">{index + 1}. {waypointLabel(step.waypointId)}</span>
+                      <input
+                        type="number"
+                        min={1}
+                        value={step.feedRate}
+                        onChange={(e) => {
+                          const value = parseFloat(e.target.value);
+                          if (value > 0) updateStep(index, { feedRate: value });
+                        }}
+                        className="col-span-3 px-1 py-0.5 border border-gray-300 rounded"
+                      />
+                      <input
+                        type="number"
+                        min={0}
+                        step={100}
+                        value={step.dwellMs}
+                        onChange={(e) => {
+                          const value = parseFloat(e.target.value);
+                          if (value >= 0) updateStep(index, { dwellMs: value });
+                        }}
+                        className="col-span-2 px-1 py-0.5 border border-gray-300 rounded"
+                      />
+                      <div className="col-span-3 flex justify-end space-x-1 text-gray-500">
+                        <button onClick={() => moveStep(index, -1)} disabled={isRunning} className="hover:text-gray-800 disabled:opacity-50">↑</button>
+                        <button onClick={() => moveStep(index, 1)} disabled={isRunning} className="hover:text-gray-800 disabled:opacity-50">↓</button>
+                        <button
+                          onClick={() => updateProgram(program.id, entry => ({
+                            ...entry,
+                            steps: entry.steps.filter((_, stepIndex) => stepIndex !== index)
+                          }))}
+                          disabled={isRunning}
+                          className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {programSamples.length > 1 && (
+          <TrajectoryPlot config={config} samples={programSamples} torques={programTorques} />
+        )}
+        {overloaded.length > 0 && (
+          <p className="text-xs text-orange-600">
+            Peak torque over rating: {overloaded.map(name =>
+              `${name} ${torquePeaks![name].toFixed(1)} of ${dynamics!.ratings[name]}`).join(', ')}
+          </p>
+        )}
+
+        {/* Replay */}
+        <div className="space-y-2">
+          <label className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={blend}
+              onChange={(e) => setBlend(e.target.checked)}
+              disabled={isRunning}
+              className="w-4 h-4"
+            />
+            <span>Blend through waypoints (stop only at dwells)</span>
+          </label>
+          <label className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={streamToRobot}
+              onChange={(e) => setStreamToRobot(e.target.checked)}
+              disabled={isRunning}
+              className="w-4 h-4"
+            />
+            <span>Stream to robot (wait for Ok after each move)</span>
+          </label>
+          {streamToRobot && !link && (
+            <p className="text-xs text-yellow-700">Not connected - the program will only run in the simulator.</p>
+          )}
+
+          {!isRunning ? (
+            <button
+              onClick={() => program && runSteps(program.name, program.steps)}
+              disabled={!program || program.steps.length === 0 || estop}
+              className="w-full px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+            >
+              Run Program
+            </button>
+          ) : (
+            <button
+              onClick={stop}
+              className="w-full px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
+            >
+              Stop
+            </button>
+          )}
+
+          {runState && (
+            <p className="text-xs text-orange-600">
+              {runState.label}: step {runState.stepIndex + 1}/{runState.stepCount}
+              {runState.dwelling ? ' (dwell)' : ''}
+            </p>
+          )}
+          {message && !runState && <p className="text-xs text-gray-600">{message}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { RobotConfig } from '../types/robot';
+import { TrajectorySample } from '../utils/trajectory';
+import { TorqueSample } from '../utils/dynamics';
+
+type Quantity = 'positions' | 'velocities' | 'accelerations' | 'torques';
+
+const QUANTITIES: { key: Quantity; label: string; unit: string }[] = [
+  { key: 'positions', label: 'Position', unit: '°' },
+  { key: 'velocities', label: 'Velocity', unit: '°/s' },
+  { key: 'accelerations', label: 'Acceleration', unit: '°/s²' },
+  { key: 'torques', label: 'Torque', unit: 'N·m' }
+];
+
+const COLORS = ['#ef4444', '#f59e0b', '#10b981', '#3b82f6', '#8b5cf6', '#ec4899', '#6b7280', '#14b8a6', '#84cc16'];
+
+const WIDTH = 300;
+const HEIGHT = 120;
+
+interface TrajectoryPlotProps {
+  config: RobotConfig;
+  samples: TrajectorySample[];
+  torques?: TorqueSample[] | null; // joint torques at each sample, when the dynamics are known
+}
+
+// Planned position/velocity/acceleration (and torque) of every joint over time
+export default function TrajectoryPlot({ config, samples, torques = null }: TrajectoryPlotProps) {
+  const [selected, setSelected] = useState<Quantity>('velocities');
+  const quantity = selected === 'torques' && !torques ? 'velocities' : selected;
+
+  // Angular joints in degrees, prismatic joints in mm; torques in N·m (N for prismatic joints)
+  const series = useMemo(() => config.joints.map(joint => {
+    const scale = joint.type === 'prismatic' ? 1000 : 180 / Math.PI;
+    return {
+      name: joint.name,
+      values: quantity === 'torques'
+        ? (torques ?? []).map(sample => sample.torques[joint.name] ?? 0)
+        : samples.map(sample => (sample[quantity][joint.name] ?? 0) * scale)
+    };
+  }), [config, samples, torques, quantity]);
+
+  if (samples.length < 2) return null;
+
+  const duration = samples[samples.length - 1].time || 1;
+  const allValues = series.flatMap(entry => entry.values);
+  const min = Math.min(0, ...allValues);
+  const max = Math.max(0, ...allValues);
+  const range = max - min || 1;
+
+  const x = (time: number) => (time / duration) * WIDTH;
+  const y = (value: number) => HEIGHT - ((value - min) / range) * HEIGHT;
+  const unit = QUANTITIES.find(entry => entry.key === quantity)!.unit;
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-1">
+        <div className="flex space-x-2 text-xs">
+          {QUANTITIES.filter(entry => entry.key !== 'torques' || torques).map(entry => (
+            <button
+              key={entry.key}
+              onClick={() => setSelected(entry.key)}
+              className={quantity === entry.key ? 'text-blue-600 font-medium' : 'text-gray-500 hover:text-gray-700'}
+            >
+              {entry.label}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs text-gray-500">{duration.toFixed(2)} s</span>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-28 bg-gray-50 border border-gray-200 rounded" preserveAspectRatio="none">
+        <line x1={0} x2={WIDTH} y1={y(0)} y2={y(0)} stroke="#d1d5db" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+        {series.map((entry, index) => (
+          <polyline
+            key={entry.name}
+            fill="none"
+            stroke={COLORS[index % COLORS.length]}
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+            points={entry.values.map((value, sampleIndex) => `${x(samples[sampleIndex].time)},${y(value)}`).join(' ')}
+          />
+        ))}
+      </svg>
+
+      <div className="flex flex-wrap justify-between text-xs text-gray-500 mt-1">
+        <span>{max.toFixed(1)} / {min.toFixed(1)} {unit}</span>
+        <span className="flex flex-wrap space-x-2">
+          {series.map((entry, index) => (
+            <span key={entry.name} style={{ color: COLORS[index % COLORS.length] }}>{entry.name}</span>
+          ))}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import React from 'react';
+import { UrdfReport as Report } from '../utils/urdfValidator';
+
+interface UrdfReportProps {
+  report: Report;
+  fileName: string;
+  onClose: () => void;
+}
+
+// Issues found in the loaded URDF, each with the line it concerns
+export default function UrdfReport({ report, fileName, onClose }: UrdfReportProps) {
+  const errors = report.issues.filter(issue => issue.severity === 'error').length;
+  const warnings = report.issues.length - errors;
+
+  return (
+    <div className="px-6 py-3 bg-white border-b border-gray-200 text-xs">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-gray-700">
+          {fileName}: {report.linkCount} links, {report.jointCount} joints, {errors} errors, {warnings} warnings
+        </span>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+          Close
+        </button>
+      </div>
+      {report.issues.length === 0 ? (
+        <p className="text-green-700">No issues found.</p>
+      ) : (
+        <ul className="max-h-48 overflow-y-auto space-y-1 font-mono">
+          {report.issues.map((issue, index) => (
+            <li key={index} className="flex space-x-2">
+              <span className="w-12 shrink-0 text-right text-gray-400">
+                {issue.line !== null ? `:${issue.line}` : ''}
+              </span>
+              <span className={issue.severity === 'error' ? 'text-red-600' : 'text-yellow-700'}>
+                {issue.severity}
+              </span>
+              <span className="text-gray-700">{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import React, { useState, useSyncExternalStore } from 'react';
+import { displayToPose, poseToDisplay } from '../utils/kinematics';
+import { RobotInstance, SyncCheck, SyncStart } from '../utils/workcell';
+import NumberGrid from './NumberGrid';
+
+interface WorkcellPanelProps {
+  robots: RobotInstance[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onRemove: (id: string) => void;
+  onRobotChange: (id: string, changes: Partial<RobotInstance>) => void;
+  syncStart: SyncStart;
+  checkSync: SyncCheck; // run over the ready programs before any of them starts
+  estop?: boolean;
+}
+
+const AXES = ['X', 'Y', 'Z', 'Rx', 'Ry', 'Rz'];
+
+// The robots of the cell: which one the panels below act on, where each base
+// stands (mm / degrees, cell frame) and a common start for their G-code programs
+export default function WorkcellPanel({
+  robots,
+  activeId,
+  onSelect,
+  onAdd,
+  onRemove,
+  onRobotChange,
+  syncStart,
+  checkSync,
+  estop = false
+}: WorkcellPanelProps) {
+  const [refusals, setRefusals] = useState<string[]>([]);
+  const [started, setStarted] = useState<string | null>(null);
+
+  useSyncExternalStore(syncStart.subscribe, syncStart.getVersion, syncStart.getVersion);
+  const ready = syncStart.participants;
+
+  const active = robots.find(robot => robot.id === activeId);
+
+  const startTogether = () => {
+    const names = ready.map(participant => participant.name).join(', ');
+    const result = syncStart.start(checkSync);
+    setRefusals(result);
+    setStarted(result.length === 0 ? names : null);
+  };
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Workcell</h3>
+        <button onClick={onAdd} className="text-xs text-gray-500 hover:text-gray-700 underline">
+          Add robot
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex flex-wrap gap-1">
+          {robots.map(robot => (
+            <button
+              key={robot.id}
+              onClick={() => onSelect(robot.id)}
+              className={`px-2 py-1 text-xs rounded ${robot.id === activeId ? 'bg-blue-500 text-white' : 'bg-gray-200 hover:bg-gray-300'}`}
+            >
+              {robot.name}
+            </button>
+          ))}
+        </div>
+
+        {active && (
+          <div className="p-2 space-y-1 bg-gray-50 border border-gray-200 rounded">
+            <div className="flex justify-between items-center">
+              <input
+                value={active.name}
+                onChange={(e) => onRobotChange(active.id, { name: e.target.value })}
+                className="px-1 py-0.5 text-xs font-medium border border-gray-300 rounded"
+              />
+              <button
+                onClick={() => onRemove(active.id)}
+                disabled={robots.length < 2}
+                className="text-xs text-red-500 hover:text-red-700 disabled:text-gray-300"
+              >
+                Remove
+              </button>
+            </div>
+            <div className="text-xs text-gray-500">{active.source.label}, base in the cell</div>
+            <NumberGrid
+              labels={AXES}
+              values={poseToDisplay(active.base)}
+              onChange={(values) => onRobotChange(active.id, { base: displayToPose(values) })}
+            />
+          </div>
+        )}
+
+        {robots.length > 1 && (
+          <div className="space-y-1 text-xs text-gray-600">
+            <div className="flex justify-between items-center">
+              <span>
+                Programs ready: {ready.length === 0 ? 'none' : ready.map(participant => participant.name).join(', ')}
+              </span>
+              <button
+                onClick={startTogether}
+                disabled={ready.length === 0 || estop}
+                className="px-3 py-1 text-xs bg-green-500 text-white rounded hover:bg-green-600 disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+              >
+                Start together
+              </button>
+            </div>
+            {refusals.length > 0 && (
+              <div className="p-2 bg-red-50 border border-red-200 rounded text-red-700">
+                Nothing was started:
+                <ul>
+                  {refusals.map(refusal => <li key={refusal}>{refusal}</li>)}
+                </ul>
+              </div>
+            )}
+            {started && <div className="text-green-600">Started {started}</div>}
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500">
+          Panels below act on the selected robot. Each robot checks the others for collisions where
+          they stand now, not where their programs will take them. A program is ready once it is
+          open in the G-code panel of its robot with the serial port connected.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { JointState, RobotConfig } from '../types/robot';
+import { KinematicChain, forwardKinematics } from '../utils/kinematics';
+import { CollisionGuard, describeCollision } from '../utils/collision';
+import { toDisplayUnits } from '../utils/robotConfig';
+import {
+  DEFAULT_WORKSPACE_SAMPLES,
+  ReachConfiguration,
+  WorkspaceCloud,
+  WorkspaceMeasure,
+  sampleWorkspace,
+  testReach
+} from '../utils/workspace';
+import { ReachMarker } from './RobotViewer';
+import NumberGrid from './NumberGrid';
+
+interface WorkspacePanelProps {
+  config: RobotConfig;
+  chain: KinematicChain | null;
+  jointStates: JointState;
+  onJointStatesChange: (states: JointState) => void;
+  collisionGuard?: CollisionGuard | null;
+  estop?: boolean; // emergency stop latched
+  cloud: WorkspaceCloud | null;
+  onCloudChange: (cloud: WorkspaceCloud | null) => void;
+  pickedPoint?: THREE.Vector3 | null; // clicked in the 3D view, base link frame
+  onMarkerChange: (marker: ReachMarker | null) => void;
+}
+
+const SAMPLE_COUNTS = [5000, DEFAULT_WORKSPACE_SAMPLES, 50000];
+
+const MEASURES: { value: WorkspaceMeasure; label: string }[] = [
+  { value: 'manipulability', label: 'Manipulability' },
+  { value: 'singularity', label: 'Distance to singularity' }
+];
+
+// Sample the reachable TCP volume of the selected robot for the 3D view, and
+// test single points: whether the arm reaches them, and in which configurations
+export default function WorkspacePanel({
+  config,
+  chain,
+  jointStates,
+  onJointStatesChange,
+  collisionGuard = null,
+  estop = false,
+  cloud,
+  onCloudChange,
+  pickedPoint = null,
+  onMarkerChange
+}: WorkspacePanelProps) {
+  const [samples, setSamples] = useState(DEFAULT_WORKSPACE_SAMPLES);
+  const [measure, setMeasure] = useState<WorkspaceMeasure>('manipulability');
+  const [skipCollisions, setSkipCollisions] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [point, setPoint] = useState<[number, number, number]>([300, 0, 300]); // mm
+  const [keepOrientation, setKeepOrientation] = useState(false);
+  const [results, setResults] = useState<ReachConfiguration[] | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const latest = useRef({ chain, config, jointStates, collisionGuard, keepOrientation, onMarkerChange });
+  latest.current = { chain, config, jointStates, collisionGuard, keepOrientation, onMarkerChange };
+
+  // A different robot or tool makes the cloud and the results stale
+  useEffect(() => {
+    abortRef.current?.abort();
+    onCloudChange(null);
+    setResults(null);
+    latest.current.onMarkerChange(null);
+  }, [chain, config, onCloudChange]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const sample = async () => {
+    if (!chain) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    const result = await sampleWorkspace(
+      chain,
+      config,
+      { samples, measure, guard: skipCollisions ? collisionGuard : null },
+      controller.signal,
+      (done, total) => setProgress(done / total)
+    );
+    if (abortRef.current === controller) {
+      abortRef.current = null;
+      setProgress(null);
+    }
+    if (result) onCloudChange(result);
+  };
+
+  const cancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setProgress(null);
+  };
+
+  // Solve for every configuration reaching the point, given in mm in the base frame
+  const test = (target: [number, number, number]) => {
+    const { chain, config, jointStates, collisionGuard, keepOrientation, onMarkerChange } = latest.current;
+    if (!chain) return;
+    const orientation = keepOrientation
+      ? new THREE.Quaternion().setFromRotationMatrix(forwardKinematics(chain, jointStates))
+      : null;
+    const found = testReach(chain, config, new THREE.Vector3(...target).divideScalar(1000), {
+      orientation,
+      seed: jointStates,
+      guard: collisionGuard
+    });
+    setResults(found);
+    onMarkerChange({ point: target.map(value => value / 1000) as [number, number, number], reachable: found.length > 0 });
+  };
+
+  useEffect(() => {
+    if (!pickedPoint) return;
+    const target = pickedPoint.toArray().map(value => Math.round(value * 1000)) as [number, number, number];
+    setPoint(target);
+    test(target);
+  }, [pickedPoint]);
+
+  const legend = cloud
+    ? cloud.measure === 'singularity'
+      ? ['singular', `${cloud.maxValue.toFixed(2)} (well-conditioned)`]
+      : ['0', cloud.maxValue.toPrecision(2)]
+    : null;
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Workspace</h3>
+        {cloud && (
+          <button onClick={() => onCloudChange(null)} className="text-xs text-gray-600 hover:text-gray-800">
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        {/* Sampling */}
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2 text-xs text-gray-600">
+            <select
+              value={samples}
+              onChange={(e) => setSamples(parseInt(e.target.value, 10))}
+              className="px-1 py-0.5 border border-gray-300 rounded"
+            >
+              {SAMPLE_COUNTS.map(count => (
+                <option key={count} value={count}>{count.toLocaleString()} poses</option>
+              ))}
+            </select>
+            <select
+              value={measure}
+              onChange={(e) => setMeasure(e.target.value as WorkspaceMeasure)}
+              className="px-1 py-0.5 border border-gray-300 rounded"
+            >
+              {MEASURES.map(entry => (
+                <option key={entry.value} value={entry.value}>{entry.label}</option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center space-x-2 text-xs text-gray-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={skipCollisions}
+              onChange={(e) => setSkipCollisions(e.target.checked)}
+              disabled={!collisionGuard}
+              className="w-3 h-3"
+            />
+            <span>Leave out poses that collide (slower)</span>
+          </label>
+          {progress === null ? (
+            <button
+              onClick={sample}
+              disabled={!chain}
+              className="w-full px-3 py-1 text-sm text-white bg-blue-500 rounded hover:bg-blue-600 disabled:bg-gray-300"
+            >
+              Sample workspace
+            </button>
+          ) : (
+            <div className="flex items-center space-x-2">
+              <div className="flex-1 h-2 bg-gray-200 rounded">
+                <div className="h-2 bg-blue-500 rounded" style={{ width: `${progress * 100}%` }} />
+              </div>
+              <button onClick={cancel} className="text-xs text-red-600 hover:text-red-800">Cancel</button>
+            </div>
+          )}
+          {cloud && legend && (
+            <div className="text-xs text-gray-600">
+              <div className="h-2 rounded" style={{ background: 'linear-gradient(to right, hsl(0, 90%, 45%), hsl(60, 90%, 45%), hsl(120, 90%, 45%))' }} />
+              <div className="flex justify-between mt-1">
+                <span>{legend[0]}</span>
+                <span>{legend[1]}</span>
+              </div>
+              <p className="mt-1 text-gray-500">
+                {cloud.count.toLocaleString()} reachable TCP positions
+                {cloud.rejected > 0 && `, ${cloud.rejected.toLocaleString()} colliding poses left out`}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Reach test */}
+        <div className="space-y-2 border-t border-gray-200 pt-3">
+          <div className="text-xs text-gray-600">Point in the base frame, mm</div>
+          <NumberGrid labels={['X', 'Y', 'Z']} values={point} onChange={(values) => setPoint(values as [number, number, number])} />
+          <div className="flex items-center justify-between">
+            <label className="flex items-center space-x-2 text-xs text-gray-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={keepOrientation}
+                onChange={(e) => setKeepOrientation(e.target.checked)}
+                className="w-3 h-3"
+              />
+              <span>Keep the current tool orientation</span>
+            </label>
+            <button
+              onClick={() => test(point)}
+              disabled={!chain}
+              className="px-3 py-1 text-xs text-white bg-blue-500 rounded hover:bg-blue-600 disabled:bg-gray-300"
+            >
+              Test reach
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">Or switch the 3D view to Test reach and click a point.</p>
+
+          {results && (
+            results.length === 0 ? (
+              <p className="text-xs text-red-600">Out of reach{keepOrientation ? ' with this tool orientation' : ''}.</p>
+            ) : (
+              <div className="space-y-1">
+                <p className="text-xs text-green-700">
+                  Reachable in {results.length} configuration{results.length === 1 ? '' : 's'}
+                  {results.some(result => result.collision) && ', some of them colliding'}
+                </p>
+                {results.map((result, index) => (
+                  <div
+                    key={index}
+                    className={`flex items-center justify-between px-2 py-1 text-xs rounded ${result.collision ? 'bg-red-50' : 'bg-gray-50'}`}
+                  >
+                    <div className="min-w-0">
+                      <div className="font-mono text-gray-700 truncate">
+                        {config.joints.map(joint => toDisplayUnits(joint, result.joints[joint.name] ?? 0).toFixed(0)).join(' ')}
+                      </div>
+                      {result.collision && (
+                        <div className="text-red-600 truncate">Collides: {describeCollision(result.collision)}</div>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => onJointStatesChange({ ...jointStates, ...result.joints })}
+                      disabled={estop}
+                      className="ml-2 px-2 py-0.5 text-blue-600 border border-blue-300 rounded hover:bg-blue-50 disabled:opacity-50"
+                    >
+                      Go
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
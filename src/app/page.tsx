@@ -1,32 +1,462 @@
 'use client';
 
-import React, { useState, useCallback } from 'react';
-import RobotViewer from './components/RobotViewer';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import RobotViewer, { PathPreview, ReachMarker } from './components/RobotViewer';
 import JointControls from './components/JointControls';
 import SerialConnection from './components/SerialConnection';
-import { JointState } from './types/robot';
+import CartesianJogPanel from './components/CartesianJogPanel';
+import JogPanel from './components/JogPanel';
+import RobotSourcePicker from './components/RobotSourcePicker';
+import TeachPendant from './components/TeachPendant';
+import GCodeRunner from './components/GCodeRunner';
+import MotionSettings from './components/MotionSettings';
+import CollisionPanel from './components/CollisionPanel';
+import FollowingErrorPanel from './components/FollowingErrorPanel';
+import SafetyPanel from './components/SafetyPanel';
+import SessionLogPanel from './components/SessionLogPanel';
+import SessionPlotPanel from './components/SessionPlotPanel';
+import ReplayTimeline from './components/ReplayTimeline';
+import WorkcellPanel from './components/WorkcellPanel';
+import ScenePanel from './components/ScenePanel';
+import RosBridgePanel from './components/RosBridgePanel';
+import RemoteApiPanel from './components/RemoteApiPanel';
+import UrdfReportView from './components/UrdfReport';
+import DynamicsPanel from './components/DynamicsPanel';
+import WorkspacePanel from './components/WorkspacePanel';
+import { JointState, URDFRobot } from './types/robot';
+import {
+  Pose,
+  buildKinematicChain,
+  forwardKinematics,
+  matrixToPose,
+  poseToMatrix,
+  withToolOffset
+} from './utils/kinematics';
+import {
+  DEFAULT_ROBOT_CONFIG,
+  configFromURDF,
+  followingErrors,
+  getJointLimits,
+  homeState,
+  parseRobotConfig
+} from './utils/robotConfig';
+import { solveIK } from './utils/inverseKinematics';
+import {
+  DEFAULT_ROBOT_SOURCE,
+  RobotSource,
+  releaseRobotSource,
+  robotSourceFromFiles
+} from './utils/robotPackage';
+import { SerialLink } from './utils/serialTransport';
+import { UrdfReport, validateRobotSource } from './utils/urdfValidator';
+import {
+  DEFAULT_DYNAMICS_SETTINGS,
+  DynamicsSettings,
+  DynamicsSetup,
+  STANDARD_GRAVITY,
+  buildDynamicModel,
+  gravityTorques,
+  loadDynamicsSettings,
+  overloadedJoints,
+  saveDynamicsSettings,
+  torqueRatings
+} from './utils/dynamics';
+import { WorkspaceCloud } from './utils/workspace';
+import { ProfileType } from './utils/trajectory';
+import {
+  CollisionModel,
+  DEFAULT_FLOOR,
+  Obstacle,
+  buildCollisionModel,
+  createCollisionGuard
+} from './utils/collision';
+import { KeepOutZone, checkKeepOut, createSafetyGuard } from './utils/safety';
+import { SessionRecorder } from './utils/sessionLog';
+import {
+  FIRST_ROBOT,
+  RobotInstance,
+  SyncCheck,
+  SyncMotion,
+  SyncStart,
+  checkSynchronizedMotion,
+  neighboursOf,
+  nextRobot,
+  obstaclesInBase
+} from './utils/workcell';
+import { EMPTY_SCENE, SceneLayout, frameMatrix, loadScene, saveScene, sceneObstacles } from './utils/scene';
+import { TeachFrame } from './utils/teachPendant';
+
+type RobotRecord<T> = Record<string, T>;
+
+// Setter for one robot's entry of a per-robot record
+const entrySetter = <T,>(setRecord: React.Dispatch<React.SetStateAction<RobotRecord<T>>>, id: string) =>
+  (value: T) => setRecord(prev => ({ ...prev, [id]: value }));
+
+const withoutEntry = <T,>(record: RobotRecord<T>, id: string) =>
+  Object.fromEntries(Object.entries(record).filter(([key]) => key !== id));
+
+// Setters bound to one robot. They stay the same for the life of the robot, so a
+// program started on it keeps driving it after another robot is selected.
+interface RobotHandlers {
+  setJointStates: (update: JointState | ((prev: JointState) => JointState)) => void;
+  setLink: (link: SerialLink | null) => void;
+  setActualStates: (states: JointState | null) => void;
+  setPathPreview: (preview: PathPreview | null) => void;
+}
+
+const NO_JOINT_STATES: JointState = {};
 
 export default function Home() {
-  const [jointStates, setJointStates] = useState<JointState>({
-    theta1: 0,
-    theta2: 0,
-    theta3: 0,
-    theta4: 0,
-    theta5: 0,
-    theta6: 0,
-  });
+  const [robots, setRobots] = useState<RobotInstance[]>([FIRST_ROBOT]);
+  const [activeId, setActiveId] = useState(FIRST_ROBOT.id);
+  const [jointStatesById, setJointStatesById] = useState<RobotRecord<JointState>>(
+    () => ({ [FIRST_ROBOT.id]: homeState(DEFAULT_ROBOT_CONFIG) })
+  );
+  const [models, setModels] = useState<RobotRecord<URDFRobot | null>>({});
+  const [collisionModels, setCollisionModels] = useState<RobotRecord<CollisionModel | null>>({});
+  const [links, setLinks] = useState<RobotRecord<SerialLink | null>>({});
+  const [actualStatesById, setActualStatesById] = useState<RobotRecord<JointState | null>>({});
+  const [pathPreviews, setPathPreviews] = useState<RobotRecord<PathPreview | null>>({});
+  const [robotSourceError, setRobotSourceError] = useState<string | null>(null);
+  const [urdfReport, setUrdfReport] = useState<UrdfReport | null>(null);
+  const [showUrdfReport, setShowUrdfReport] = useState(false);
+  const [dynamicsSettings, setDynamicsSettings] = useState<DynamicsSettings>(DEFAULT_DYNAMICS_SETTINGS);
+  const [dynamicsLoaded, setDynamicsLoaded] = useState(false);
+  const [workspace, setWorkspace] = useState<WorkspaceCloud | null>(null);
+  const [reachPick, setReachPick] = useState<THREE.Vector3 | null>(null);
+  const [reachMarker, setReachMarker] = useState<ReachMarker | null>(null);
+  const [motionProfile, setMotionProfile] = useState<ProfileType>('trapezoidal');
+  const [collisionEnabled, setCollisionEnabled] = useState(true);
+  const [obstacles, setObstacles] = useState<Obstacle[]>([DEFAULT_FLOOR]);
+  const [errorThreshold, setErrorThreshold] = useState(2);
+  const [estop, setEstop] = useState(false);
+  const [keepOutZones, setKeepOutZones] = useState<KeepOutZone[]>([]);
+  const [speedOverride, setSpeedOverride] = useState(100);
+  const [recorder] = useState(() => new SessionRecorder());
+  const [syncStart] = useState(() => new SyncStart());
+  const [handlerCache] = useState(() => new Map<string, RobotHandlers>());
+  // Pose and TCP trace of the replay timeline; shown instead of the live pose while set
+  const [replayStates, setReplayStates] = useState<JointState | null>(null);
+  const [replayTrace, setReplayTrace] = useState<PathPreview | null>(null);
+  const [scene, setScene] = useState<SceneLayout>(EMPTY_SCENE);
+  const [sceneLoaded, setSceneLoaded] = useState(false);
+  const [selectedSceneId, setSelectedSceneId] = useState<string | null>(null);
+
+  const handlersFor = (id: string): RobotHandlers => {
+    let handlers = handlerCache.get(id);
+    if (!handlers) {
+      handlers = {
+        setJointStates: update => setJointStatesById(prev => ({
+          ...prev,
+          [id]: typeof update === 'function' ? update(prev[id] ?? NO_JOINT_STATES) : update
+        })),
+        setLink: entrySetter(setLinks, id),
+        setActualStates: entrySetter(setActualStatesById, id),
+        setPathPreview: entrySetter(setPathPreviews, id)
+      };
+      handlerCache.set(id, handlers);
+    }
+    return handlers;
+  };
+
+  const updateRobot = useCallback((id: string, changes: Partial<RobotInstance>) => {
+    setRobots(prev => prev.map(robot => (robot.id === id ? { ...robot, ...changes } : robot)));
+  }, []);
+
+  // The selected robot; every panel but the workcell and the serial connections acts on it
+  const activeRobot = robots.find(robot => robot.id === activeId) ?? robots[0];
+  const { setJointStates } = handlersFor(activeRobot.id);
+  const jointStates = jointStatesById[activeRobot.id] ?? NO_JOINT_STATES;
+  const robot = models[activeRobot.id] ?? null;
+  const collisionModel = collisionModels[activeRobot.id] ?? null;
+  const actualStates = actualStatesById[activeRobot.id] ?? null;
+  const serialLink = links[activeRobot.id] ?? null;
+  const pathPreview = pathPreviews[activeRobot.id] ?? null;
+  const { source: robotSource, configSource, toolOffset } = activeRobot;
+
+  // Restore the recorded session once hydrated, and write it out before the page goes away
+  useEffect(() => {
+    recorder.load();
+    const flush = () => recorder.flush();
+    window.addEventListener('pagehide', flush);
+    return () => window.removeEventListener('pagehide', flush);
+  }, [recorder]);
+
+  useEffect(() => {
+    setScene(loadScene());
+    setSceneLoaded(true);
+  }, []);
+
+  // Dragging an object changes the scene every frame; store it once the drag settles
+  useEffect(() => {
+    if (!sceneLoaded) return;
+    const timer = setTimeout(() => saveScene(scene), 500);
+    return () => clearTimeout(timer);
+  }, [scene, sceneLoaded]);
+
+  useEffect(() => {
+    setDynamicsSettings(loadDynamicsSettings());
+    setDynamicsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (dynamicsLoaded) saveDynamicsSettings(dynamicsSettings);
+  }, [dynamicsSettings, dynamicsLoaded]);
+
+  // Every robot's states are recorded, each tagged with its id; unchanged ones are skipped
+  useEffect(() => {
+    Object.entries(jointStatesById).forEach(([id, states]) => recorder.recordState('commanded', states, id));
+  }, [recorder, jointStatesById]);
+
+  useEffect(() => {
+    Object.entries(actualStatesById).forEach(([id, states]) => {
+      if (states) recorder.recordState('actual', states, id);
+    });
+  }, [recorder, actualStatesById]);
+
+  // Joint configuration of every robot, which the panels read from
+  const configs = useMemo(() => Object.fromEntries(robots.map(entry => {
+    const model = models[entry.id];
+    return [entry.id, entry.configSource === 'urdf' && model ? configFromURDF(model, entry.fileConfig) : entry.fileConfig];
+  })), [robots, models]);
+  const robotConfig = configs[activeRobot.id];
+
+  // Labels for the session log; a single robot needs none
+  const robotNames = useMemo(
+    () => (robots.length > 1 ? Object.fromEntries(robots.map(entry => [entry.id, entry.name])) : undefined),
+    [robots]
+  );
+
+  const chains = useMemo(() => Object.fromEntries(robots.map(entry => {
+    const model = models[entry.id];
+    return [entry.id, model ? withToolOffset(buildKinematicChain(model), entry.toolOffset) : null];
+  })), [robots, models]);
+  const chain = chains[activeRobot.id];
+
+  const handleConfigFileSelected = useCallback(async (file: File) => {
+    try {
+      updateRobot(activeRobot.id, { fileConfig: parseRobotConfig(JSON.parse(await file.text())), configSource: 'file' });
+    } catch (error) {
+      alert(`Invalid robot configuration: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, [activeRobot.id, updateRobot]);
+
+  // Switching robots drops the old model; the new one starts at its home position
+  const changeRobotSource = useCallback((source: RobotSource) => {
+    if (source !== robotSource) releaseRobotSource(robotSource);
+    // Only the Elbot has a matching config file; other robots take their limits from the URDF
+    updateRobot(activeRobot.id, { source, configSource: source === DEFAULT_ROBOT_SOURCE ? 'file' : 'urdf' });
+    entrySetter(setModels, activeRobot.id)(null);
+    entrySetter(setCollisionModels, activeRobot.id)(null);
+    setRobotSourceError(null);
+  }, [activeRobot.id, robotSource, updateRobot]);
+
+  // Check the selected robot's URDF whenever it changes
+  useEffect(() => {
+    let cancelled = false;
+    setUrdfReport(null);
+    validateRobotSource(robotSource)
+      .then(report => {
+        if (!cancelled) setUrdfReport(report);
+      })
+      .catch(error => console.error('URDF validation failed:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [robotSource]);
+
+  const handleRobotFiles = useCallback(async (files: FileList) => {
+    try {
+      changeRobotSource(await robotSourceFromFiles(files));
+    } catch (error) {
+      setRobotSourceError(error instanceof Error ? error.message : 'Failed to read robot files');
+    }
+  }, [changeRobotSource]);
+
+  const handleRobotLoaded = useCallback((id: string, model: URDFRobot) => {
+    setModels(prev => ({ ...prev, [id]: model }));
+    setJointStatesById(prev => ({ ...prev, [id]: homeState(configFromURDF(model)) }));
+  }, []);
+
+  const handleMeshesLoaded = useCallback((id: string, model: URDFRobot) => {
+    setCollisionModels(prev => ({ ...prev, [id]: buildCollisionModel(model) }));
+  }, []);
+
+  const addRobot = () => {
+    const added = nextRobot(robots);
+    setRobots(prev => [...prev, added]);
+    setJointStatesById(prev => ({ ...prev, [added.id]: homeState(DEFAULT_ROBOT_CONFIG) }));
+    setActiveId(added.id);
+  };
+
+  const removeRobot = (id: string) => {
+    const removed = robots.find(entry => entry.id === id);
+    if (!removed || robots.length < 2) return;
+    releaseRobotSource(removed.source);
+    setRobots(prev => prev.filter(entry => entry.id !== id));
+    setJointStatesById(prev => withoutEntry(prev, id));
+    setModels(prev => withoutEntry(prev, id));
+    setCollisionModels(prev => withoutEntry(prev, id));
+    setLinks(prev => withoutEntry(prev, id));
+    setActualStatesById(prev => withoutEntry(prev, id));
+    setPathPreviews(prev => withoutEntry(prev, id));
+    handlerCache.delete(id);
+    if (id === activeId) setActiveId(robots.find(entry => entry.id !== id)!.id);
+  };
+
+  // Obstacles of the Collisions panel plus the scene objects marked as obstacles
+  const cellObstacles = useMemo(() => [...obstacles, ...sceneObstacles(scene)], [obstacles, scene]);
+
+  // Collisions with the cell, in each robot's own base frame, and with the other robots
+  const collisionGuards = useMemo(() => Object.fromEntries(robots.map(entry => {
+    const model = collisionModels[entry.id];
+    return [entry.id, collisionEnabled && model
+      ? createCollisionGuard(
+        model,
+        obstaclesInBase(cellObstacles, entry.base),
+        neighboursOf(entry, robots, collisionModels, jointStatesById)
+      )
+      : null];
+  })), [robots, collisionEnabled, collisionModels, cellObstacles, jointStatesById]);
+
+  // What every panel that moves an arm checks against: collisions plus keep-out zones
+  const safetyGuards = useMemo(() => Object.fromEntries(robots.map(entry => [
+    entry.id,
+    createSafetyGuard(collisionGuards[entry.id], chains[entry.id], keepOutZones, poseToMatrix(entry.base))
+  ])), [robots, collisionGuards, chains, keepOutZones]);
+  const safetyGuard = safetyGuards[activeRobot.id];
+
+  // Programs started together: each is checked against the cell and the robots
+  // standing still, then against the others moving along on a shared clock
+  const checkSync = useCallback<SyncCheck>(participants => {
+    const moving = new Set(participants.map(participant => participant.robotId));
+    const still = robots.filter(entry => !moving.has(entry.id));
+    const motions: SyncMotion[] = [];
+
+    const refusals = participants.flatMap(participant => {
+      const entry = robots.find(robot => robot.id === participant.robotId);
+      if (!entry) return [];
+      const model = collisionModels[entry.id];
+      const collisionGuard = collisionEnabled && model
+        ? createCollisionGuard(
+          model,
+          obstaclesInBase(cellObstacles, entry.base),
+          neighboursOf(entry, still, collisionModels, jointStatesById)
+        )
+        : null;
+      if (collisionEnabled && model) {
+        motions.push({
+          robot: entry,
+          model,
+          trajectories: participant.plan(),
+          start: jointStatesById[entry.id] ?? NO_JOINT_STATES
+        });
+      }
+      const guard = createSafetyGuard(collisionGuard, chains[entry.id], keepOutZones, poseToMatrix(entry.base));
+      const reason = participant.check(guard);
+      return reason ? [`${participant.name}: ${reason}`] : [];
+    });
+    if (refusals.length > 0) return refusals;
+
+    const clash = checkSynchronizedMotion(motions);
+    return clash ? [clash] : [];
+  }, [robots, collisionModels, collisionEnabled, cellObstacles, jointStatesById, chains, keepOutZones]);
+
+  const collisionReport = useMemo(
+    () => collisionGuards[activeRobot.id]?.checkPose(jointStates) ?? null,
+    [collisionGuards, activeRobot.id, jointStates]
+  );
+
+  // Inertia of the selected arm, with the payload and gravity as its base sees them
+  const dynamics = useMemo<DynamicsSetup | null>(() => {
+    if (!robot || !chain) return null;
+    const model = buildDynamicModel(robot, chain);
+    const toBase = new THREE.Matrix3().setFromMatrix4(poseToMatrix(activeRobot.base)).transpose();
+    return {
+      model,
+      options: { payload: dynamicsSettings.payload, gravity: STANDARD_GRAVITY.clone().applyMatrix3(toBase) },
+      ratings: torqueRatings(model, dynamicsSettings)
+    };
+  }, [robot, chain, activeRobot.base, dynamicsSettings]);
+
+  const gravityLoad = useMemo(
+    () => (dynamics ? gravityTorques(dynamics.model, jointStates, dynamics.options) : null),
+    [dynamics, jointStates]
+  );
+
+  // Colliding links in red; links whose joint is loaded past its rating in orange
+  const linkColors = useMemo(() => {
+    const colors: Record<string, string> = {};
+    if (dynamics && gravityLoad) {
+      const overloaded = overloadedJoints(gravityLoad, dynamics.ratings);
+      dynamics.model.chain.joints.forEach((joint, index) => {
+        if (overloaded.includes(joint.name)) colors[dynamics.model.links[index]] = '#f97316';
+      });
+    }
+    (collisionReport?.links ?? []).forEach(link => {
+      colors[link] = '#ef4444';
+    });
+    return colors;
+  }, [dynamics, gravityLoad, collisionReport]);
+
+  const jointErrors = useMemo(
+    () => (actualStates ? followingErrors(robotConfig, jointStates, actualStates, errorThreshold) : null),
+    [robotConfig, jointStates, actualStates, errorThreshold]
+  );
+
+  const keepOutReport = useMemo(
+    () => (chain ? checkKeepOut(chain, keepOutZones, jointStates, poseToMatrix(activeRobot.base)) : null),
+    [chain, keepOutZones, jointStates, activeRobot.base]
+  );
+
+  const triggerEstop = useCallback(() => setEstop(true), []);
+
+  const tcpPose = useMemo(
+    () => (chain ? matrixToPose(forwardKinematics(chain, jointStates)) : null),
+    [chain, jointStates]
+  );
 
   const handleJointChange = useCallback((jointName: string, value: number) => {
     setJointStates(prev => ({
       ...prev,
       [jointName]: value
     }));
-  }, []);
+  }, [setJointStates]);
 
-  const handleSerialDataReceived = useCallback((newJointStates: JointState) => {
-    setJointStates(newJointStates);
+  // Follow the TCP gizmo with IK on the current branch; unreachable targets leave the arm where it is
+  const handleTcpDrag = useCallback((target: THREE.Matrix4) => {
+    if (!chain) return;
+    setJointStates(prev => {
+      const solution = solveIK(chain, target, { seed: prev, limits: getJointLimits(robotConfig) });
+      return solution ? { ...prev, ...solution.joints } : prev;
+    });
+  }, [chain, robotConfig, setJointStates]);
+
+  // Work-object frames of the scene as the selected robot sees them
+  const teachFrames = useMemo<TeachFrame[]>(() => {
+    const inverse = poseToMatrix(activeRobot.base).invert();
+    return scene.frames.map(frame => ({
+      id: frame.id,
+      name: frame.name,
+      matrix: inverse.clone().multiply(frameMatrix(frame, scene.objects))
+    }));
+  }, [scene, activeRobot.base]);
+
+  // Gizmo moves in the viewer: objects in the cell frame, frames relative to their parent
+  const handleScenePoseChange = useCallback((id: string, pose: Pose) => {
+    setScene(prev => ({
+      objects: prev.objects.map(object => (object.id === id ? { ...object, pose } : object)),
+      frames: prev.frames.map(frame => (frame.id === id ? { ...frame, pose } : frame))
+    }));
   }, []);
 
+  // Every robot as the viewer draws it; the selected one shows the replay while it runs
+  const viewerRobots = useMemo(() => robots.map(entry => ({
+    ...entry,
+    jointStates: (entry.id === activeRobot.id ? replayStates : null) ?? jointStatesById[entry.id] ?? NO_JOINT_STATES
+  })), [robots, activeRobot.id, replayStates, jointStatesById]);
+
   return (
     <div className="min-h-screen bg-gray-100">
       {/* Header */}
@@ -52,31 +482,274 @@ export default function Home() {
           {/* 3D Robot Viewer - Takes up 2 columns on large screens */}
           <div className="lg:col-span-2">
             <div className="bg-white rounded-lg shadow-lg overflow-hidden">
-              <div className="px-6 py-4 bg-gray-50 border-b border-gray-200">
-                <h2 className="text-lg font-semibold text-gray-800">3D Robot Model</h2>
-                <p className="text-sm text-gray-600 mt-1">
-                  Interactive visualization of the Elbot robotic arm
-                </p>
+              <div className="px-6 py-4 bg-gray-50 border-b border-gray-200 flex justify-between items-start">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-800">3D Robot Model</h2>
+                  <p className="text-sm text-gray-600 mt-1">
+                    Interactive visualization of the robot arm
+                  </p>
+                </div>
+                <RobotSourcePicker
+                  source={robotSource}
+                  onFilesSelected={handleRobotFiles}
+                  onReset={() => changeRobotSource(DEFAULT_ROBOT_SOURCE)}
+                  error={robotSourceError}
+                  report={urdfReport}
+                  onShowReport={() => setShowUrdfReport(show => !show)}
+                />
               </div>
-              <div className="h-96 lg:h-[600px]">
-                <RobotViewer jointStates={jointStates} />
+              {showUrdfReport && urdfReport && (
+                <UrdfReportView
+                  report={urdfReport}
+                  fileName={robotSource.url.split('/').pop() ?? robotSource.label}
+                  onClose={() => setShowUrdfReport(false)}
+                />
+              )}
+              <div
+                className="h-96 lg:h-[600px]"
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  if (e.dataTransfer.files.length > 0) handleRobotFiles(e.dataTransfer.files);
+                }}
+              >
+                <RobotViewer
+                  robots={viewerRobots}
+                  activeId={activeRobot.id}
+                  onRobotLoaded={handleRobotLoaded}
+                  toolOffset={toolOffset}
+                  pathPreview={replayTrace ?? pathPreview}
+                  onMeshesLoaded={handleMeshesLoaded}
+                  linkColors={replayStates ? undefined : linkColors}
+                  obstacles={obstacles}
+                  keepOutZones={keepOutZones}
+                  config={robotConfig}
+                  onJointChange={replayStates ? undefined : handleJointChange}
+                  onTcpDrag={replayStates ? undefined : handleTcpDrag}
+                  ghostStates={replayStates ? null : actualStates}
+                  ghostAlarm={jointErrors?.some(entry => entry.exceeded)}
+                  scene={scene}
+                  selectedSceneId={selectedSceneId}
+                  onSceneSelect={setSelectedSceneId}
+                  onScenePoseChange={replayStates ? undefined : handleScenePoseChange}
+                  workspace={workspace}
+                  reachMarker={reachMarker}
+                  onReachPick={setReachPick}
+                />
               </div>
+              <ReplayTimeline
+                config={robotConfig}
+                chain={chain}
+                recorder={recorder}
+                robotId={activeRobot.id}
+                jointStates={jointStates}
+                motionProfile={motionProfile}
+                onStatesChange={setReplayStates}
+                onTraceChange={setReplayTrace}
+              />
             </div>
           </div>
 
           {/* Control Panel - Takes up 1 column */}
           <div className="space-y-6">
+            {/* Workcell */}
+            <WorkcellPanel
+              robots={robots}
+              activeId={activeRobot.id}
+              onSelect={setActiveId}
+              onAdd={addRobot}
+              onRemove={removeRobot}
+              onRobotChange={updateRobot}
+              syncStart={syncStart}
+              checkSync={checkSync}
+              estop={estop}
+            />
+
+            {/* Safety */}
+            <SafetyPanel
+              estop={estop}
+              onEstop={triggerEstop}
+              onReset={() => setEstop(false)}
+              zones={keepOutZones}
+              onZonesChange={setKeepOutZones}
+              keepOutReport={keepOutReport}
+            />
+
             {/* Joint Controls */}
             <JointControls
+              config={robotConfig}
+              configSource={configSource}
+              onConfigSourceChange={(source) => updateRobot(activeRobot.id, { configSource: source })}
+              onConfigFileSelected={handleConfigFileSelected}
+              jointStates={jointStates}
+              onJointChange={handleJointChange}
+              tcpPose={tcpPose}
+              robot={robot}
+            />
+
+            {/* Cartesian Jog */}
+            <CartesianJogPanel
+              config={robotConfig}
+              chain={chain}
               jointStates={jointStates}
               onJointChange={handleJointChange}
+              toolOffset={toolOffset}
+              onToolOffsetChange={(offset) => updateRobot(activeRobot.id, { toolOffset: offset })}
             />
 
-            {/* Serial Connection */}
-            <SerialConnection
+            {/* Keyboard and Gamepad Jog */}
+            <JogPanel
+              config={robotConfig}
+              chain={chain}
               jointStates={jointStates}
-              onDataReceived={handleSerialDataReceived}
+              onJointChange={handleJointChange}
+              estop={estop}
+            />
+
+            {/* Motion Settings */}
+            <MotionSettings
+              profile={motionProfile}
+              onProfileChange={setMotionProfile}
+              speedOverride={speedOverride}
+              onSpeedOverrideChange={setSpeedOverride}
+            />
+
+            {/* Collisions */}
+            <CollisionPanel
+              enabled={collisionEnabled}
+              onEnabledChange={setCollisionEnabled}
+              ready={!!collisionModel}
+              report={collisionReport}
+              obstacles={obstacles}
+              onObstaclesChange={setObstacles}
             />
+
+            {/* Dynamics */}
+            <DynamicsPanel
+              config={robotConfig}
+              model={dynamics?.model ?? null}
+              torques={gravityLoad}
+              ratings={dynamics?.ratings ?? {}}
+              settings={dynamicsSettings}
+              onSettingsChange={setDynamicsSettings}
+            />
+
+            {/* Workspace */}
+            <WorkspacePanel
+              config={robotConfig}
+              chain={chain}
+              jointStates={jointStates}
+              onJointStatesChange={setJointStates}
+              collisionGuard={safetyGuard}
+              estop={estop}
+              cloud={workspace}
+              onCloudChange={setWorkspace}
+              pickedPoint={reachPick}
+              onMarkerChange={setReachMarker}
+            />
+
+            {/* Scene */}
+            <ScenePanel
+              scene={scene}
+              onSceneChange={setScene}
+              selectedId={selectedSceneId}
+              onSelect={setSelectedSceneId}
+            />
+
+            {/* Teach Pendant */}
+            <TeachPendant
+              config={robotConfig}
+              jointStates={jointStates}
+              onJointStatesChange={setJointStates}
+              link={serialLink}
+              motionProfile={motionProfile}
+              collisionGuard={safetyGuard}
+              estop={estop}
+              chain={chain}
+              frames={teachFrames}
+              dynamics={dynamics}
+            />
+
+            {/* G-code Program: one runner per robot, so programs keep running on robots not selected */}
+            {robots.map(entry => (
+              <div key={entry.id} className={entry.id === activeRobot.id ? undefined : 'hidden'}>
+                <GCodeRunner
+                  config={configs[entry.id]}
+                  chain={chains[entry.id]}
+                  jointStates={jointStatesById[entry.id] ?? NO_JOINT_STATES}
+                  onJointStatesChange={handlersFor(entry.id).setJointStates}
+                  link={links[entry.id] ?? null}
+                  onPathPreviewChange={handlersFor(entry.id).setPathPreview}
+                  motionProfile={motionProfile}
+                  collisionGuard={safetyGuards[entry.id]}
+                  estop={estop}
+                  syncStart={robots.length > 1 ? syncStart : null}
+                  robotId={entry.id}
+                  robotName={entry.name}
+                />
+              </div>
+            ))}
+
+            {/* Following Error */}
+            <FollowingErrorPanel
+              config={robotConfig}
+              errors={jointErrors}
+              threshold={errorThreshold}
+              onThresholdChange={setErrorThreshold}
+            />
+
+            {/* Serial Connection: one per robot, kept open while another robot is selected */}
+            {robots.map(entry => (
+              <div key={entry.id} className={entry.id === activeRobot.id ? undefined : 'hidden'}>
+                <SerialConnection
+                  config={configs[entry.id]}
+                  jointStates={jointStatesById[entry.id] ?? NO_JOINT_STATES}
+                  onDataReceived={handlersFor(entry.id).setJointStates}
+                  onLinkChange={handlersFor(entry.id).setLink}
+                  onActualStatesChange={handlersFor(entry.id).setActualStates}
+                  motionProfile={motionProfile}
+                  collisionGuard={safetyGuards[entry.id]}
+                  estop={estop}
+                  speedOverride={speedOverride}
+                  recorder={recorder}
+                  robotName={robots.length > 1 ? entry.name : undefined}
+                />
+              </div>
+            ))}
+
+            {/* ROS Bridge: one per robot, like the serial connections */}
+            {robots.map(entry => (
+              <div key={entry.id} className={entry.id === activeRobot.id ? undefined : 'hidden'}>
+                <RosBridgePanel
+                  config={configs[entry.id]}
+                  jointStates={jointStatesById[entry.id] ?? NO_JOINT_STATES}
+                  onJointStatesChange={handlersFor(entry.id).setJointStates}
+                  link={links[entry.id] ?? null}
+                  motionProfile={motionProfile}
+                  collisionGuard={safetyGuards[entry.id]}
+                  estop={estop}
+                  recorder={recorder}
+                  robotName={robots.length > 1 ? entry.name : undefined}
+                />
+              </div>
+            ))}
+
+            {/* Remote API */}
+            <RemoteApiPanel
+              config={robotConfig}
+              jointStates={jointStates}
+              onJointStatesChange={setJointStates}
+              link={serialLink}
+              collisionGuard={safetyGuard}
+              estop={estop}
+              recorder={recorder}
+            />
+
+            {/* Session Log */}
+            <SessionLogPanel config={robotConfig} recorder={recorder} robotNames={robotNames} />
+
+            {/* Joint Plots */}
+            <SessionPlotPanel config={robotConfig} recorder={recorder} robotId={activeRobot.id} />
           </div>
         </div>
 
@@ -88,9 +761,20 @@ export default function Home() {
               <h4 className="font-medium text-gray-700 mb-2">🎮 Manual Control</h4>
               <ul className="text-sm text-gray-600 space-y-1">
                 <li>• Use the sliders to control each joint angle</li>
+                <li>• Drag a link in the 3D view to turn its joint, or use Drag TCP mode to move the tool</li>
                 <li>• Enter precise values in the number inputs</li>
+                <li>• Jog with the keyboard or a gamepad; continuous jog moves only while the deadman is held</li>
                 <li>• Click "Reset All" to return to home position</li>
                 <li>• View real-time 3D visualization</li>
+                <li>• Drop a URDF (with its meshes) or a .zip onto the viewer to load another robot</li>
+                <li>• The issue count next to the robot name opens the URDF check, with the line of each problem</li>
+                <li>• Add boxes or STL fixtures in the Collisions panel; colliding links turn red</li>
+                <li>• Set the payload and motor ratings in the Dynamics panel; overloaded links turn orange</li>
+                <li>• Sample the workspace to see where the arm reaches, coloured by how far it is from a singularity</li>
+                <li>• Switch the 3D view to Test reach and click a point to list the configurations that reach it</li>
+                <li>• Build the cell in the Scene panel from tables, boxes, cylinders and imported parts</li>
+                <li>• Switch the 3D view to Edit scene to pick objects and move them with the gizmo</li>
+                <li>• Add robots to the cell in the Workcell panel and pick the one the other panels drive</li>
               </ul>
             </div>
             <div>
@@ -99,7 +783,18 @@ export default function Home() {
                 <li>• Click "Connect" to select a COM port</li>
                 <li>• Enable "Auto-send" for real-time updates</li>
                 <li>• Use "Send Joint States" for manual sending</li>
-                <li>• Monitor communication in the log</li>
+                <li>• Monitor communication in the log; the Session Log keeps everything across reloads</li>
+                <li>• Export the session as CSV or JSON and plot commanded against actual joint values</li>
+                <li>• Replay the session or a program under the 3D view; replay never sends to the robot</li>
+                <li>• Poll the actual position to overlay the real arm and watch its following error</li>
+                <li>• Save poses as waypoints and replay them as programs from the Teach Pendant</li>
+                <li>• Teach waypoints in a work-object frame so they follow the fixture when it moves</li>
+                <li>• Connect the ROS Bridge to rosbridge to publish /joint_states or follow the arm from ROS</li>
+                <li>• JointTrajectory goals on the trajectory topic run like programs and stream over serial</li>
+                <li>• Drive the selected robot from scripts through the /api/robot routes described in the README</li>
+                <li>• Open a .gcode/.nc file to preview its path and stream it with Ok flow control</li>
+                <li>• With several robots, open a program on each and start them all at once from the Workcell panel</li>
+                <li>• Press Esc or the emergency stop button to halt the arm; nothing is sent until you reset it</li>
               </ul>
             </div>
           </div>
@@ -107,8 +802,9 @@ export default function Home() {
           <div className="mt-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
             <h4 className="font-medium text-yellow-800 mb-2">⚠️ Requirements</h4>
             <p className="text-sm text-yellow-700">
-              Serial communication requires a Chromium-based browser (Chrome, Edge, Opera) 
-              and HTTPS connection for the Web Serial API to work properly.
+              Direct serial communication requires a Chromium-based browser (Chrome, Edge, Opera)
+              and HTTPS connection for the Web Serial API to work properly. Other browsers use the
+              server-side serial bridge, which talks to ports attached to the machine running the app.
             </p>
           </div>
         </div>
@@ -4,4 +4,22 @@ export interface JointState {
 }
 
 // Re-export types from URDFClasses if needed
-export type { URDFRobot, URDFJoint, URDFLink } from '../utils/urdf_loaders/URDFClasses.js';
+export type { URDFRobot, URDFJoint, URDFLink, URDFMimicJoint } from '../utils/urdf_loaders/URDFClasses.js';
+
+// Per-joint configuration shared by the controls, planners and serial protocol.
+// Angles are in radians (meters for prismatic joints), rates per second.
+export interface JointConfig {
+  name: string;
+  type: 'revolute' | 'continuous' | 'prismatic';
+  letter: string; // G-code axis word
+  min: number;
+  max: number;
+  maxVelocity: number;
+  maxAcceleration: number;
+  home: number;
+}
+
+export interface RobotConfig {
+  name: string;
+  joints: JointConfig[];
+}
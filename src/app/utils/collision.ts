@@ -0,0 +1,384 @@
+import * as THREE from 'three';
+import { MeshBVH } from 'three-mesh-bvh';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+import { JointState, URDFJoint, URDFLink, URDFRobot } from '../types/robot';
+import { Pose, computeLinkTransforms, poseToMatrix } from './kinematics';
+import { Trajectory } from './trajectory';
+import { createId } from './teachPendant';
+
+// Collision checking of robot poses against the robot itself and the obstacles
+// placed in its workspace. Link shapes come from the URDF <collision> meshes (the
+// visual meshes when a robot has none) and are tested triangle-exact with BVHs.
+//
+// Obstacles live in the base link frame, in meters like the rest of the kinematics.
+// Other robots in the cell are checked link against link, frozen in their current pose.
+
+// Everything below a plane. Its normal is +z unless given, so the floor is
+// every point p with normal · p <= height.
+export interface FloorObstacle {
+  id: string;
+  name: string;
+  type: 'floor';
+  height: number; // z of the floor plane
+  normal?: [number, number, number]; // unit up direction, when the base link is tilted
+}
+
+export interface BoxObstacle {
+  id: string;
+  name: string;
+  type: 'box';
+  size: [number, number, number];
+  pose: Pose; // box centre
+}
+
+export interface MeshObstacle {
+  id: string;
+  name: string;
+  type: 'mesh';
+  geometry: THREE.BufferGeometry; // already scaled to meters
+  pose: Pose;
+}
+
+export type Obstacle = FloorObstacle | BoxObstacle | MeshObstacle;
+
+// A colliding link and what it touches: another link or an obstacle name
+export interface CollisionContact {
+  link: string;
+  other: string;
+}
+
+export interface CollisionReport {
+  links: string[]; // every link involved, for highlighting
+  contacts: CollisionContact[];
+}
+
+// First colliding pose found along a trajectory
+export interface CollisionHit {
+  time: number;
+  positions: JointState;
+  report: CollisionReport;
+}
+
+interface LinkPart {
+  geometry: THREE.BufferGeometry;
+  offset: THREE.Matrix4; // mesh relative to its link
+}
+
+interface CollisionLink {
+  name: string;
+  parts: LinkPart[];
+  fixed: boolean; // no movable joint between it and the base link
+}
+
+export interface CollisionModel {
+  robot: URDFRobot;
+  links: CollisionLink[];
+  selfPairs: [number, number][]; // link pairs worth testing against each other
+}
+
+// Another robot sharing the workspace, with its link transforms already expressed
+// in the base link frame of the robot being checked
+export interface NeighbourRobot {
+  name: string;
+  model: CollisionModel;
+  transforms: Map<string, THREE.Matrix4>;
+}
+
+// Checks handed to everything that moves the robot
+export interface CollisionGuard {
+  checkPose(jointStates: JointState): CollisionReport | null;
+  checkTrajectory(trajectory: Trajectory): CollisionHit | null;
+}
+
+export const DEFAULT_FLOOR: FloorObstacle = { id: 'floor', name: 'Floor', type: 'floor', height: 0 };
+
+const isMovable = (joint: URDFJoint) =>
+  joint.jointType === 'revolute' || joint.jointType === 'continuous' || joint.jointType === 'prismatic';
+
+// Obstacle geometry needs a BVH too, so mesh-to-mesh tests can walk both trees
+export function prepareGeometry(geometry: THREE.BufferGeometry): THREE.BufferGeometry {
+  if (!geometry.boundsTree) geometry.boundsTree = new MeshBVH(geometry);
+  return geometry;
+}
+
+// Meshes of one link (not of its child links) inside collider or visual groups
+export function linkMeshes(link: URDFLink, kind: 'isURDFCollider' | 'isURDFVisual'): THREE.Mesh[] {
+  const meshes: THREE.Mesh[] = [];
+  const visit = (object: THREE.Object3D, inside: boolean) => {
+    object.children.forEach(child => {
+      if ((child as URDFJoint).isURDFJoint) return;
+      const within = inside || Boolean((child as unknown as Record<string, unknown>)[kind]);
+      const mesh = child as THREE.Mesh;
+      if (within && mesh.isMesh) meshes.push(mesh);
+      visit(child, within);
+    });
+  };
+  visit(link, false);
+  return meshes;
+}
+
+// Collect the link shapes once the meshes have loaded. Adjacent links, and pairs
+// already touching at the zero pose (a shared joint housing, say), are never
+// tested against each other; they would report a collision in every pose.
+export function buildCollisionModel(robot: URDFRobot): CollisionModel {
+  robot.updateMatrixWorld(true);
+
+  const linkEntries = Object.values(robot.links);
+  const hasColliders = linkEntries.some(link => linkMeshes(link, 'isURDFCollider').length > 0);
+  const kind = hasColliders ? 'isURDFCollider' : 'isURDFVisual';
+
+  const links: CollisionLink[] = [];
+  linkEntries.forEach(link => {
+    const inverse = link.matrixWorld.clone().invert();
+    const parts = linkMeshes(link, kind)
+      .filter(mesh => mesh.geometry.getAttribute('position'))
+      .map(mesh => ({
+        geometry: prepareGeometry(mesh.geometry),
+        offset: inverse.clone().multiply(mesh.matrixWorld)
+      }));
+    if (parts.length === 0) return;
+
+    let fixed = true;
+    let current: THREE.Object3D | null = link.parent;
+    while (current && current !== robot) {
+      const joint = current as URDFJoint;
+      if (joint.isURDFJoint && isMovable(joint)) fixed = false;
+      current = current.parent;
+    }
+    links.push({ name: link.urdfName, parts, fixed });
+  });
+
+  // Parent link of each link, across its joint
+  const parentOf = new Map<string, string>();
+  linkEntries.forEach(link => {
+    const joint = link.parent as URDFJoint | null;
+    const parent = joint?.parent as URDFLink | null;
+    if (joint?.isURDFJoint && parent?.isURDFLink) parentOf.set(link.urdfName, parent.urdfName);
+  });
+
+  const candidates: [number, number][] = [];
+  links.forEach((a, i) => {
+    links.forEach((b, j) => {
+      if (j <= i) return;
+      if (parentOf.get(a.name) === b.name || parentOf.get(b.name) === a.name) return;
+      if (a.fixed && b.fixed) return;
+      candidates.push([i, j]);
+    });
+  });
+
+  const model: CollisionModel = { robot, links, selfPairs: candidates };
+  const home = computeLinkTransforms(robot, {});
+  model.selfPairs = candidates.filter(([i, j]) => !linksIntersect(links[i], links[j], home));
+  return model;
+}
+
+const _toLocal = new THREE.Matrix4();
+const _box = new THREE.Box3();
+const _z = new THREE.Vector3(0, 0, 1);
+const _up = new THREE.Vector3();
+const _tilt = new THREE.Quaternion();
+const _floorFrame = new THREE.Matrix4();
+
+function partTransform(link: CollisionLink, part: LinkPart, transforms: Map<string, THREE.Matrix4>) {
+  return (transforms.get(link.name) ?? new THREE.Matrix4()).clone().multiply(part.offset);
+}
+
+function linksIntersectAcross(
+  a: CollisionLink,
+  transformsA: Map<string, THREE.Matrix4>,
+  b: CollisionLink,
+  transformsB: Map<string, THREE.Matrix4>
+): boolean {
+  return a.parts.some(partA => {
+    const inverseA = partTransform(a, partA, transformsA).invert();
+    return b.parts.some(partB => {
+      _toLocal.multiplyMatrices(inverseA, partTransform(b, partB, transformsB));
+      return partA.geometry.boundsTree!.intersectsGeometry(partB.geometry, _toLocal);
+    });
+  });
+}
+
+function linksIntersect(a: CollisionLink, b: CollisionLink, transforms: Map<string, THREE.Matrix4>): boolean {
+  return linksIntersectAcross(a, transforms, b, transforms);
+}
+
+function linkHitsObstacle(link: CollisionLink, obstacle: Obstacle, transforms: Map<string, THREE.Matrix4>): boolean {
+  // The links bolted to the base stand on the floor by design
+  if (obstacle.type === 'floor' && link.fixed) return false;
+
+  return link.parts.some(part => {
+    const inverse = partTransform(link, part, transforms).invert();
+    const bvh = part.geometry.boundsTree!;
+
+    if (obstacle.type === 'floor') {
+      _box.min.set(-1e3, -1e3, -1e3);
+      _box.max.set(1e3, 1e3, obstacle.height);
+      if (!obstacle.normal) return bvh.intersectsBox(_box, inverse);
+      // The same box in a frame whose z axis is the normal
+      _up.set(...obstacle.normal);
+      _floorFrame.makeRotationFromQuaternion(_tilt.setFromUnitVectors(_z, _up));
+      return bvh.intersectsBox(_box, _toLocal.multiplyMatrices(inverse, _floorFrame));
+    }
+
+    _toLocal.multiplyMatrices(inverse, poseToMatrix(obstacle.pose));
+    if (obstacle.type === 'box') {
+      const [x, y, z] = obstacle.size;
+      _box.min.set(-x / 2, -y / 2, -z / 2);
+      _box.max.set(x / 2, y / 2, z / 2);
+      return bvh.intersectsBox(_box, _toLocal);
+    }
+    return bvh.intersectsGeometry(prepareGeometry(obstacle.geometry), _toLocal);
+  });
+}
+
+// A neighbour placed at `base` (its base link in this robot's base link frame)
+export function placeNeighbour(
+  name: string,
+  model: CollisionModel,
+  jointStates: JointState,
+  base: THREE.Matrix4
+): NeighbourRobot {
+  const transforms = computeLinkTransforms(model.robot, jointStates);
+  transforms.forEach(transform => transform.premultiply(base));
+  return { name, model, transforms };
+}
+
+function linkHitsNeighbour(
+  link: CollisionLink,
+  neighbour: NeighbourRobot,
+  transforms: Map<string, THREE.Matrix4>
+): string | null {
+  const other = neighbour.model.links.find(otherLink =>
+    linksIntersectAcross(link, transforms, otherLink, neighbour.transforms)
+  );
+  return other ? `${neighbour.name} ${other.name}` : null;
+}
+
+// Every contact of the robot in the given pose
+export function checkCollisions(
+  model: CollisionModel,
+  jointStates: JointState,
+  obstacles: Obstacle[],
+  neighbours: NeighbourRobot[] = []
+): CollisionReport {
+  const transforms = computeLinkTransforms(model.robot, jointStates);
+  const contacts: CollisionContact[] = [];
+
+  model.selfPairs.forEach(([i, j]) => {
+    if (linksIntersect(model.links[i], model.links[j], transforms)) {
+      contacts.push({ link: model.links[i].name, other: model.links[j].name });
+    }
+  });
+
+  model.links.forEach(link => {
+    obstacles.forEach(obstacle => {
+      if (linkHitsObstacle(link, obstacle, transforms)) {
+        contacts.push({ link: link.name, other: obstacle.name });
+      }
+    });
+    neighbours.forEach(neighbour => {
+      const other = linkHitsNeighbour(link, neighbour, transforms);
+      if (other) contacts.push({ link: link.name, other });
+    });
+  });
+
+  const linkNames = new Set(model.links.map(link => link.name));
+  const links = Array.from(new Set(contacts.flatMap(contact =>
+    linkNames.has(contact.other) ? [contact.link, contact.other] : [contact.link]
+  )));
+  return { links, contacts };
+}
+
+// Contacts with the other robots alone, for robots that move at the same time
+export function checkNeighbours(
+  model: CollisionModel,
+  jointStates: JointState,
+  neighbours: NeighbourRobot[]
+): CollisionContact[] {
+  const transforms = computeLinkTransforms(model.robot, jointStates);
+  return model.links.flatMap(link => neighbours.flatMap(neighbour => {
+    const other = linkHitsNeighbour(link, neighbour, transforms);
+    return other ? [{ link: link.name, other }] : [];
+  }));
+}
+
+// Largest joint change between two checked poses along a trajectory (radians or meters)
+const TRAJECTORY_STEP = 0.02;
+
+// Walk a planned trajectory in small joint steps and return the first pose the check reports
+export function findInTrajectory(
+  trajectory: Trajectory,
+  check: (positions: JointState) => CollisionReport | null
+): CollisionHit | null {
+  let travel = 0;
+  trajectory.waypoints.slice(1).forEach((waypoint, index) => {
+    const previous = trajectory.waypoints[index];
+    travel += Math.max(0, ...trajectory.joints.map(name => Math.abs(waypoint[name] - previous[name])));
+  });
+
+  const count = Math.max(1, Math.ceil(travel / TRAJECTORY_STEP));
+  for (let index = 0; index <= count; index++) {
+    const time = (trajectory.duration * index) / count;
+    const positions = trajectory.sample(time).positions;
+    const report = check(positions);
+    if (report) return { time, positions, report };
+  }
+  return null;
+}
+
+// First colliding pose along a planned trajectory
+export function checkTrajectory(
+  model: CollisionModel,
+  trajectory: Trajectory,
+  obstacles: Obstacle[],
+  neighbours: NeighbourRobot[] = []
+): CollisionHit | null {
+  return findInTrajectory(trajectory, positions => {
+    const report = checkCollisions(model, positions, obstacles, neighbours);
+    return report.contacts.length > 0 ? report : null;
+  });
+}
+
+export function createCollisionGuard(
+  model: CollisionModel,
+  obstacles: Obstacle[],
+  neighbours: NeighbourRobot[] = []
+): CollisionGuard {
+  return {
+    checkPose: jointStates => {
+      const report = checkCollisions(model, jointStates, obstacles, neighbours);
+      return report.contacts.length > 0 ? report : null;
+    },
+    checkTrajectory: trajectory => checkTrajectory(model, trajectory, obstacles, neighbours)
+  };
+}
+
+// Short text for logs and status lines, e.g. "arm2_Link ↔ arm5_Link, arm3_Link ↔ Floor"
+export function describeCollision(report: CollisionReport): string {
+  return report.contacts.map(contact => `${contact.link} ↔ ${contact.other}`).join(', ');
+}
+
+// 100 mm cube in front of the robot, to be moved where it is needed
+export function createBoxObstacle(name: string): BoxObstacle {
+  return {
+    id: createId(),
+    name,
+    type: 'box',
+    size: [0.1, 0.1, 0.1],
+    pose: { position: [0.4, 0, 0.05], rpy: [0, 0, 0] }
+  };
+}
+
+// Fixture from an STL file; scale converts the file units to meters (0.001 for mm)
+export async function loadStlObstacle(file: File, scale: number): Promise<MeshObstacle> {
+  const geometry = new STLLoader().parse(await file.arrayBuffer());
+  if (!geometry.getAttribute('position')?.count) throw new Error(`${file.name} contains no triangles`);
+  geometry.scale(scale, scale, scale);
+  return {
+    id: createId(),
+    name: file.name.replace(/\.stl$/i, ''),
+    type: 'mesh',
+    geometry: prepareGeometry(geometry),
+    pose: { position: [0, 0, 0], rpy: [0, 0, 0] }
+  };
+}
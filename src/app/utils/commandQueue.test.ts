@@ -0,0 +1,109 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CommandQueue } from './commandQueue';
+import { ProtocolMessage } from './protocols';
+
+const MOVE: ProtocolMessage = { type: 'move', joints: { theta1: 0 }, feedRate: 1000 };
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('CommandQueue', () => {
+  it('settles each command on the Ok carrying its sequence number', async () => {
+    const sent: number[] = [];
+    const queue = new CommandQueue(async (_, seq) => {
+      sent.push(seq);
+    }, { sequenceNumbers: true });
+    const first = queue.enqueue(MOVE);
+    const second = queue.enqueue(MOVE);
+    assert.deepEqual(sent, [1, 2]);
+
+    assert.equal(queue.acknowledge(2), true);
+    await second;
+    assert.equal(queue.acknowledge(2), false);
+    assert.equal(queue.acknowledge(1), true);
+    await first;
+    assert.equal(queue.idle, true);
+  });
+
+  it('wraps sequence numbers after 65535, skipping 0, and still matches the acks', async () => {
+    let lastSeq = 0;
+    const queue = new CommandQueue(async (_, seq) => {
+      lastSeq = seq;
+    });
+
+    for (let count = 1; count <= 0xffff; count++) {
+      const done = queue.enqueue(MOVE);
+      assert.equal(queue.acknowledge(lastSeq), true);
+      await done;
+    }
+    assert.equal(lastSeq, 0xffff);
+
+    // The binary protocol carries 16 bits, so the next number has to be 1 again
+    const wrapped = queue.enqueue(MOVE);
+    assert.equal(lastSeq, 1);
+    assert.equal(queue.acknowledge(0), false);
+    assert.equal(queue.acknowledge(1), true);
+    await wrapped;
+    assert.equal(queue.idle, true);
+  });
+
+  it('sends a timed-out command again with the same sequence number', async () => {
+    const sent: [number, number][] = [];
+    const queue = new CommandQueue(async (_, seq, attempt) => {
+      sent.push([seq, attempt]);
+    }, { sequenceNumbers: true, timeoutMs: 20, retries: 1 });
+    const first = queue.enqueue(MOVE);
+    const second = queue.enqueue(MOVE);
+
+    await sleep(30);
+    assert.deepEqual(sent, [[1, 1], [2, 1], [1, 2]]);
+    assert.equal(queue.acknowledge(1), true);
+    assert.equal(queue.acknowledge(1), false);
+    assert.equal(queue.acknowledge(2), true);
+    await Promise.all([first, second]);
+  });
+
+  it('without sequence numbers sends one command at a time and takes a late Ok for the timed-out one', async () => {
+    const sent: [number, number][] = [];
+    const queue = new CommandQueue(async (_, seq, attempt) => {
+      sent.push([seq, attempt]);
+    }, { timeoutMs: 20, retries: 2, maxInFlight: 4 });
+    const first = queue.enqueue(MOVE);
+    const second = queue.enqueue(MOVE);
+    let secondDone = false;
+    second.then(() => {
+      secondDone = true;
+    });
+    assert.deepEqual(sent, [[1, 1]]);
+
+    // Rejected instead of resent, and the next command still waits
+    await assert.rejects(first, /No acknowledgement for command #1/);
+    assert.deepEqual(sent, [[1, 1]]);
+    assert.equal(queue.status.timeouts, 1);
+
+    // The late Ok belongs to the first command; only then does the second go out
+    assert.equal(queue.acknowledge(), true);
+    assert.deepEqual(sent, [[1, 1], [2, 1]]);
+    await sleep(0);
+    assert.equal(secondDone, false);
+
+    assert.equal(queue.acknowledge(), true);
+    await second;
+    assert.equal(queue.idle, true);
+  });
+
+  it('without sequence numbers moves on once a timed-out command has had another timeout', async () => {
+    const sent: number[] = [];
+    const queue = new CommandQueue(async (_, seq) => {
+      sent.push(seq);
+    }, { timeoutMs: 20 });
+    const first = queue.enqueue(MOVE);
+    const second = queue.enqueue(MOVE);
+    await assert.rejects(first);
+
+    await sleep(30);
+    assert.deepEqual(sent, [1, 2]);
+    assert.equal(queue.acknowledge(), true);
+    await second;
+  });
+});
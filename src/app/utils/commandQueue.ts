@@ -0,0 +1,242 @@
+import { ProtocolMessage } from './protocols';
+
+// Outgoing command queue of the serial connection. Commands go out in order,
+// at most maxInFlight of them unacknowledged on the device at once, and each
+// resolves when its "Ok" comes back. Every command gets a sequence number,
+// counting 1 to 65535 and starting over at 1 so it fits the binary protocol's
+// 16 bits; 0 is never used.
+//
+// Only the oldest outstanding command is timed: the firmware acknowledges a move
+// once it has finished, so the commands behind it are still waiting their turn.
+// Its deadline is the move's expected duration plus timeoutMs. When it passes,
+// the command is sent again (same sequence number) up to `retries` times, then
+// rejected.
+//
+// All of that needs the sequence numbers on the wire. Without them an "Ok" can
+// only be matched to the oldest command, so one command is outstanding at a
+// time and none is sent again: a resent line would run after the ones behind it,
+// and the late "Ok" of its first attempt would settle the next command. A
+// command that times out is rejected but stays outstanding for another timeout,
+// so an "Ok" still on its way is swallowed rather than taken for the next one.
+
+export interface CommandQueueOptions {
+  maxInFlight: number;
+  timeoutMs: number; // allowed on top of the expected duration
+  retries: number;
+  sequenceNumbers: boolean; // whether acknowledgements carry the sequence number
+}
+
+export const DEFAULT_COMMAND_QUEUE_OPTIONS: CommandQueueOptions = {
+  maxInFlight: 4,
+  timeoutMs: 2000,
+  retries: 2,
+  sequenceNumbers: false
+};
+
+const MAX_SEQ = 0xffff;
+
+export interface EnqueueOptions {
+  durationMs?: number; // expected execution time of the command
+  signal?: AbortSignal;
+  // A queued command with the same key that has not been sent yet is replaced
+  // (its promise resolves), so a stream of poses only keeps the latest one
+  key?: string;
+}
+
+export interface CommandQueueStatus {
+  queued: number; // waiting to be sent
+  inFlight: number; // sent, not yet acknowledged
+  retransmissions: number;
+  timeouts: number; // commands given up on
+}
+
+// Writes one attempt of a command; attempt counts from 1
+export type CommandSender = (message: ProtocolMessage, seq: number, attempt: number) => Promise<void>;
+
+interface Entry {
+  seq: number;
+  message: ProtocolMessage;
+  durationMs: number;
+  key?: string;
+  attempts: number;
+  abandoned: boolean; // aborted or timed out while on the device; its ack is swallowed
+  settle: (error?: Error) => void;
+}
+
+export class CommandQueue {
+  options: CommandQueueOptions;
+
+  private nextSeq = 1;
+  private waiting: Entry[] = [];
+  private inFlight: Entry[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private timedEntry: Entry | null = null;
+  private retransmissions = 0;
+  private timeouts = 0;
+
+  constructor(
+    private send: CommandSender,
+    options: Partial<CommandQueueOptions> = {},
+    private onChange?: (status: CommandQueueStatus) => void
+  ) {
+    this.options = { ...DEFAULT_COMMAND_QUEUE_OPTIONS, ...options };
+  }
+
+  setOptions(options: Partial<CommandQueueOptions>) {
+    this.options = { ...this.options, ...options };
+    this.pump();
+  }
+
+  get status(): CommandQueueStatus {
+    return {
+      queued: this.waiting.length,
+      inFlight: this.inFlight.filter(entry => !entry.abandoned).length,
+      retransmissions: this.retransmissions,
+      timeouts: this.timeouts
+    };
+  }
+
+  get idle(): boolean {
+    return this.waiting.length === 0 && this.inFlight.length === 0;
+  }
+
+  // Queue a command; resolves once the device acknowledges it
+  enqueue(message: ProtocolMessage, options: EnqueueOptions = {}): Promise<void> {
+    const { signal, key, durationMs = 0 } = options;
+    if (signal?.aborted) return Promise.reject(new Error('Aborted'));
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        if (this.waiting.includes(entry)) {
+          this.waiting = this.waiting.filter(item => item !== entry);
+        } else {
+          entry.abandoned = true;
+        }
+        entry.settle(new Error('Aborted'));
+        this.notify();
+      };
+
+      let settled = false;
+      const entry: Entry = {
+        seq: this.nextSeq,
+        message,
+        durationMs,
+        key,
+        attempts: 0,
+        abandoned: false,
+        settle: error => {
+          if (settled) return;
+          settled = true;
+          signal?.removeEventListener('abort', onAbort);
+          if (error) reject(error);
+          else resolve();
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.nextSeq = (this.nextSeq % MAX_SEQ) + 1;
+
+      if (key) {
+        const replaced = this.waiting.findIndex(item => item.key === key);
+        if (replaced !== -1) {
+          this.waiting[replaced].settle();
+          this.waiting.splice(replaced, 1);
+        }
+      }
+      this.waiting.push(entry);
+      this.pump();
+    });
+  }
+
+  // An "Ok" arrived. With a sequence number it settles that command and a
+  // duplicate for a command already settled is ignored; without one it settles
+  // the oldest. Returns false when the ack matched nothing.
+  acknowledge(seq?: number): boolean {
+    const index = seq === undefined ? 0 : this.inFlight.findIndex(entry => entry.seq === seq);
+    const entry = this.inFlight[index];
+    if (index === -1 || !entry) return false;
+
+    this.inFlight.splice(index, 1);
+    entry.settle();
+    this.pump();
+    return true;
+  }
+
+  // The device answered with an error; that belongs to the oldest command
+  reject(reason: string) {
+    const entry = this.inFlight.shift();
+    entry?.settle(new Error(reason));
+    this.pump();
+  }
+
+  // Fail everything, e.g. when the connection closes
+  clear(reason: string) {
+    const entries = [...this.inFlight, ...this.waiting];
+    this.inFlight = [];
+    this.waiting = [];
+    this.stopTimer();
+    entries.forEach(entry => entry.settle(new Error(reason)));
+    this.notify();
+  }
+
+  private pump() {
+    const maxInFlight = this.options.sequenceNumbers ? Math.max(1, this.options.maxInFlight) : 1;
+    while (this.waiting.length > 0 && this.inFlight.length < maxInFlight) {
+      const entry = this.waiting.shift()!;
+      this.inFlight.push(entry);
+      this.transmit(entry);
+    }
+    this.armTimer();
+    this.notify();
+  }
+
+  private transmit(entry: Entry) {
+    entry.attempts++;
+    this.send(entry.message, entry.seq, entry.attempts).catch(error => {
+      if (!this.inFlight.includes(entry)) return;
+      this.inFlight = this.inFlight.filter(item => item !== entry);
+      entry.settle(error instanceof Error ? error : new Error('Send failed'));
+      this.pump();
+    });
+  }
+
+  // Time the oldest outstanding command, restarting only when that changes
+  private armTimer() {
+    const head = this.inFlight[0] ?? null;
+    if (head === this.timedEntry && this.timer) return;
+    this.stopTimer();
+    if (!head) return;
+
+    this.timedEntry = head;
+    this.timer = setTimeout(() => this.handleTimeout(head), head.durationMs + this.options.timeoutMs);
+  }
+
+  private stopTimer() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.timedEntry = null;
+  }
+
+  private handleTimeout(entry: Entry) {
+    this.timer = null;
+    this.timedEntry = null;
+    if (this.inFlight[0] !== entry) return;
+
+    if (!entry.abandoned && this.options.sequenceNumbers && entry.attempts <= this.options.retries) {
+      this.retransmissions++;
+      this.transmit(entry);
+    } else if (!entry.abandoned && !this.options.sequenceNumbers) {
+      entry.abandoned = true;
+      this.timeouts++;
+      entry.settle(new Error(`No acknowledgement for command #${entry.seq}`));
+    } else {
+      this.inFlight.shift();
+      if (!entry.abandoned) this.timeouts++;
+      entry.settle(new Error(`No acknowledgement for command #${entry.seq} after ${entry.attempts} attempt(s)`));
+    }
+    this.pump();
+  }
+
+  private notify() {
+    this.onChange?.(this.status);
+  }
+}
@@ -0,0 +1,334 @@
+import * as THREE from 'three';
+import { JointState, URDFJoint, URDFLink, URDFRobot } from '../types/robot';
+import { ChainJoint, KinematicChain, computeJointFrames } from './kinematics';
+import { TrajectorySample } from './trajectory';
+
+// Joint torques from the <inertial> blocks of the URDF, by recursive
+// Newton-Euler: velocities and accelerations are propagated out along the
+// chain, then the forces needed to produce them are summed back towards the
+// base. Gravity enters as an upward acceleration of the base, so a pose with no
+// motion gives the static gravity load.
+//
+// Each chain link carries its own inertia plus that of links bolted to it by
+// fixed joints; moving branches off the chain (gripper fingers, say) are
+// ignored. Everything is in the base link frame: meters, kilograms, N·m for
+// revolute joints and N for prismatic ones.
+
+// Mass properties in the frame of the link they belong to
+export interface RigidBody {
+  mass: number; // kg
+  com: THREE.Vector3;
+  inertia: THREE.Matrix3; // about the centre of mass, kg·m²
+}
+
+export interface DynamicModel {
+  chain: KinematicChain;
+  bodies: (RigidBody | null)[]; // moved by each chain joint
+  links: string[]; // link moved by each chain joint
+  efforts: JointState; // <limit effort> of the joints that have one
+}
+
+// Load carried at the tool centre point
+export interface Payload {
+  mass: number; // kg
+  com: [number, number, number]; // meters in the tool frame
+}
+
+export interface DynamicsOptions {
+  payload?: Payload | null;
+  gravity?: THREE.Vector3; // in the base frame; defaults to 9.81 m/s² down the z axis
+}
+
+export interface TorqueSample {
+  time: number;
+  torques: JointState; // gravity plus what it takes to follow the planned motion
+}
+
+// What checking a planned move needs: the model, the load and the ratings
+export interface DynamicsSetup {
+  model: DynamicModel;
+  options: DynamicsOptions;
+  ratings: JointState;
+}
+
+export const STANDARD_GRAVITY = new THREE.Vector3(0, 0, -9.81);
+
+export const NO_PAYLOAD: Payload = { mass: 0, com: [0, 0, 0] };
+
+const childElement = (element: Element | null | undefined, name: string) =>
+  Array.from(element?.children ?? []).find(child => child.nodeName === name) ?? null;
+
+const numbers = (element: Element | null, attribute: string) =>
+  (element?.getAttribute(attribute) ?? '0 0 0').trim().split(/\s+/).map(Number);
+
+// Mass properties of a link from its <inertial>, moved into the link frame
+function linkBody(link: URDFLink): RigidBody | null {
+  const inertial = childElement(link.urdfNode, 'inertial');
+  const mass = Number(childElement(inertial, 'mass')?.getAttribute('value'));
+  if (!inertial || !(mass > 0)) return null;
+
+  const origin = childElement(inertial, 'origin');
+  const [x, y, z] = numbers(origin, 'xyz');
+  const [roll, pitch, yaw] = numbers(origin, 'rpy');
+  const rotation = new THREE.Matrix3().setFromMatrix4(
+    new THREE.Matrix4().makeRotationFromEuler(new THREE.Euler(roll, pitch, yaw, 'ZYX'))
+  );
+
+  const inertia = childElement(inertial, 'inertia');
+  const value = (key: string) => Number(inertia?.getAttribute(key) ?? 0) || 0;
+  const tensor = new THREE.Matrix3().set(
+    value('ixx'), value('ixy'), value('ixz'),
+    value('ixy'), value('iyy'), value('iyz'),
+    value('ixz'), value('iyz'), value('izz')
+  );
+
+  return {
+    mass,
+    com: new THREE.Vector3(x, y, z),
+    inertia: rotation.clone().multiply(tensor).multiply(rotation.clone().transpose())
+  };
+}
+
+// Body moved rigidly by transform: its centre of mass and inertia in the outer frame
+function transformBody(body: RigidBody, transform: THREE.Matrix4): RigidBody {
+  const rotation = new THREE.Matrix3().setFromMatrix4(transform);
+  return {
+    mass: body.mass,
+    com: body.com.clone().applyMatrix4(transform),
+    inertia: rotation.clone().multiply(body.inertia).multiply(rotation.clone().transpose())
+  };
+}
+
+// One body with the combined mass properties of several in the same frame (parallel axis theorem)
+export function combineBodies(bodies: RigidBody[]): RigidBody | null {
+  const mass = bodies.reduce((sum, body) => sum + body.mass, 0);
+  if (!(mass > 0)) return null;
+
+  const com = bodies.reduce((sum, body) => sum.addScaledVector(body.com, body.mass), new THREE.Vector3()).divideScalar(mass);
+  const inertia = new THREE.Matrix3().set(0, 0, 0, 0, 0, 0, 0, 0, 0);
+  bodies.forEach(body => {
+    const d = body.com.clone().sub(com);
+    const shift = new THREE.Matrix3().set(
+      d.y * d.y + d.z * d.z, -d.x * d.y, -d.x * d.z,
+      -d.x * d.y, d.x * d.x + d.z * d.z, -d.y * d.z,
+      -d.x * d.z, -d.y * d.z, d.x * d.x + d.y * d.y
+    ).multiplyScalar(body.mass);
+    inertia.elements.forEach((_, index) => {
+      inertia.elements[index] += body.inertia.elements[index] + shift.elements[index];
+    });
+  });
+  return { mass, com, inertia };
+}
+
+// Collect the inertia of the chain links, with whatever is fixed to them, from the URDF
+export function buildDynamicModel(robot: URDFRobot, chain: KinematicChain): DynamicModel {
+  const chainJoints = new Set(chain.joints.map(joint => joint.name));
+  const efforts: JointState = {};
+
+  const childLink = (joint: URDFJoint) =>
+    joint.children.find(child => (child as URDFLink).isURDFLink) as URDFLink | undefined;
+
+  // The link and links hanging off it by fixed joints that are not part of the chain
+  const attachedBodies = (link: URDFLink, transform: THREE.Matrix4): RigidBody[] => {
+    const own = linkBody(link);
+    const bodies = own ? [transformBody(own, transform)] : [];
+    link.children.forEach(child => {
+      const joint = child as URDFJoint;
+      const next = joint.isURDFJoint && joint.jointType === 'fixed' && !chainJoints.has(joint.urdfName) ? childLink(joint) : undefined;
+      if (!next) return;
+      const origin = new THREE.Matrix4().compose(
+        joint.origPosition ?? joint.position,
+        joint.origQuaternion ?? joint.quaternion,
+        new THREE.Vector3(1, 1, 1)
+      );
+      bodies.push(...attachedBodies(next, transform.clone().multiply(origin)));
+    });
+    return bodies;
+  };
+
+  const links = chain.joints.map(joint => {
+    const urdfJoint = robot.joints[joint.name];
+    const effort = parseFloat(childElement(urdfJoint?.urdfNode, 'limit')?.getAttribute('effort') ?? '');
+    if (effort > 0) efforts[joint.name] = effort;
+    return urdfJoint ? childLink(urdfJoint) ?? null : null;
+  });
+
+  return {
+    chain,
+    bodies: links.map(link => (link ? combineBodies(attachedBodies(link, new THREE.Matrix4())) : null)),
+    links: links.map(link => link?.urdfName ?? ''),
+    efforts
+  };
+}
+
+// Velocity or acceleration of a chain joint; mimic joints scale their master's
+const jointRate = (joint: ChainJoint, rates: JointState) =>
+  joint.mimic ? (rates[joint.mimic.joint] || 0) * joint.mimic.multiplier : rates[joint.name] || 0;
+
+const isRevolute = (joint: ChainJoint) => joint.type === 'revolute' || joint.type === 'continuous';
+
+// Torque (force for prismatic joints) each driven joint needs to follow the
+// given positions, velocities and accelerations. Mimic joints add their share
+// to the joint that drives them.
+export function inverseDynamics(
+  model: DynamicModel,
+  positions: JointState,
+  velocities: JointState = {},
+  accelerations: JointState = {},
+  { payload = null, gravity = STANDARD_GRAVITY }: DynamicsOptions = {}
+): JointState {
+  const { chain } = model;
+  const frames = computeJointFrames(chain, positions);
+  const last = chain.joints.length - 1;
+
+  // Payload as a point mass on the last link
+  const bodies = model.bodies.map((body, index) => {
+    if (index !== last || !payload || !(payload.mass > 0)) return body;
+    const load: RigidBody = {
+      mass: payload.mass,
+      com: new THREE.Vector3(...payload.com).applyMatrix4(chain.tool),
+      inertia: new THREE.Matrix3().set(0, 0, 0, 0, 0, 0, 0, 0, 0)
+    };
+    return combineBodies(body ? [body, load] : [load]);
+  });
+
+  // Outward: motion of every joint frame, then the force and moment on its link
+  let omega = new THREE.Vector3();
+  let alpha = new THREE.Vector3();
+  let accel = gravity.clone().negate();
+  let origin = new THREE.Vector3();
+  const links = chain.joints.map((joint, index) => {
+    const frame = frames[index];
+    const position = new THREE.Vector3().setFromMatrixPosition(frame);
+    const rotation = new THREE.Matrix3().setFromMatrix4(frame);
+    const axis = joint.axis.clone().applyMatrix3(rotation).normalize();
+    const qd = jointRate(joint, velocities);
+    const qdd = jointRate(joint, accelerations);
+
+    // Acceleration of the joint origin as a point of the parent link
+    const r = position.clone().sub(origin);
+    accel = accel.clone().add(alpha.clone().cross(r)).add(omega.clone().cross(omega.clone().cross(r)));
+    if (isRevolute(joint)) {
+      alpha = alpha.clone().addScaledVector(axis, qdd).add(omega.clone().cross(axis).multiplyScalar(qd));
+      omega = omega.clone().addScaledVector(axis, qd);
+    } else if (joint.type === 'prismatic') {
+      accel.addScaledVector(axis, qdd).add(omega.clone().cross(axis).multiplyScalar(2 * qd));
+    }
+    origin = position;
+
+    const body = bodies[index];
+    if (!body) return { joint, position, axis, com: position, force: new THREE.Vector3(), moment: new THREE.Vector3() };
+
+    const com = body.com.clone().applyMatrix3(rotation).add(position);
+    const inertia = rotation.clone().multiply(body.inertia).multiply(rotation.clone().transpose());
+    const c = com.clone().sub(position);
+    const comAccel = accel.clone().add(alpha.clone().cross(c)).add(omega.clone().cross(omega.clone().cross(c)));
+    return {
+      joint,
+      position,
+      axis,
+      com,
+      force: comAccel.multiplyScalar(body.mass),
+      moment: alpha.clone().applyMatrix3(inertia).add(omega.clone().cross(omega.clone().applyMatrix3(inertia)))
+    };
+  });
+
+  // Inward: force and moment each joint transmits to the links beyond it
+  const torques: JointState = {};
+  let force = new THREE.Vector3();
+  let moment = new THREE.Vector3(); // about the next joint origin
+  let next = new THREE.Vector3();
+  for (let index = last; index >= 0; index--) {
+    const link = links[index];
+    moment = moment.clone()
+      .add(link.moment)
+      .add(link.com.clone().sub(link.position).cross(link.force))
+      .add(next.clone().sub(link.position).cross(force));
+    force = force.clone().add(link.force);
+    next = link.position;
+
+    const { joint } = link;
+    if (!isRevolute(joint) && joint.type !== 'prismatic') continue;
+    const torque = link.axis.dot(isRevolute(joint) ? moment : force);
+    const driver = joint.mimic?.joint ?? joint.name;
+    torques[driver] = (torques[driver] ?? 0) + torque * (joint.mimic?.multiplier ?? 1);
+  }
+  return torques;
+}
+
+// Static load of holding the arm still at a pose
+export function gravityTorques(model: DynamicModel, positions: JointState, options: DynamicsOptions = {}): JointState {
+  return inverseDynamics(model, positions, {}, {}, options);
+}
+
+// Torques along a planned trajectory, from its sampled positions, velocities and accelerations
+export function trajectoryTorques(
+  model: DynamicModel,
+  samples: TrajectorySample[],
+  options: DynamicsOptions = {}
+): TorqueSample[] {
+  return samples.map(sample => ({
+    time: sample.time,
+    torques: inverseDynamics(model, sample.positions, sample.velocities, sample.accelerations, options)
+  }));
+}
+
+// Largest absolute torque each joint sees over the samples
+export function peakTorques(samples: TorqueSample[]): JointState {
+  const peaks: JointState = {};
+  samples.forEach(sample => Object.entries(sample.torques).forEach(([name, torque]) => {
+    peaks[name] = Math.max(peaks[name] ?? 0, Math.abs(torque));
+  }));
+  return peaks;
+}
+
+// Joints whose torque exceeds their rating; joints without a rating are never flagged
+export function overloadedJoints(torques: JointState, ratings: JointState): string[] {
+  return Object.entries(torques)
+    .filter(([name, torque]) => ratings[name] > 0 && Math.abs(torque) > ratings[name])
+    .map(([name]) => name);
+}
+
+// Payload and motor ratings set by the user. Ratings given here override the
+// URDF effort limits for joints of the same name.
+export interface DynamicsSettings {
+  payload: Payload;
+  ratings: JointState;
+}
+
+export const DEFAULT_DYNAMICS_SETTINGS: DynamicsSettings = { payload: NO_PAYLOAD, ratings: {} };
+
+const STORAGE_KEY = 'elbot.dynamics';
+
+export function parseDynamicsSettings(json: unknown): DynamicsSettings {
+  const data = json as Partial<DynamicsSettings> | null;
+  const payload = data?.payload;
+  if (!payload || !(payload.mass >= 0) || !Array.isArray(payload.com) || payload.com.length !== 3 ||
+      !payload.com.every(Number.isFinite)) {
+    throw new Error('Payload needs a mass of zero or more and a centre of mass [x, y, z]');
+  }
+  const ratings = data.ratings ?? {};
+  if (typeof ratings !== 'object' || !Object.values(ratings).every(value => typeof value === 'number' && value > 0)) {
+    throw new Error('Torque ratings must be positive numbers');
+  }
+  return { payload: { mass: payload.mass, com: [payload.com[0], payload.com[1], payload.com[2]] }, ratings: { ...ratings } };
+}
+
+export function loadDynamicsSettings(): DynamicsSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseDynamicsSettings(JSON.parse(stored)) : DEFAULT_DYNAMICS_SETTINGS;
+  } catch (error) {
+    console.error('Ignoring stored dynamics settings:', error);
+    return DEFAULT_DYNAMICS_SETTINGS;
+  }
+}
+
+export function saveDynamicsSettings(settings: DynamicsSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+// Rated torque of every joint: the user's value, else the URDF effort limit
+export function torqueRatings(model: DynamicModel, settings: DynamicsSettings): JointState {
+  return { ...model.efforts, ...settings.ratings };
+}
@@ -0,0 +1,101 @@
+import { JointConfig, JointState, RobotConfig } from '../types/robot';
+import { DEFAULT_ROBOT_CONFIG } from './robotConfig';
+import { ProfileType, planMove } from './trajectory';
+
+// G06 joint-move line protocol spoken by the Elbot firmware:
+//   "G06 X45.0 Y-30.0 Z60.0 W0.0 U90.0 V-180.0 F500"
+// Angles are in degrees (prismatic joints in mm), F is the feed rate in
+// degrees/minute. The receiver answers "Ok" once the move has completed.
+// The axis letter of each joint comes from the robot configuration.
+//
+// "M114" asks for the position the arm has actually reached. The answer is a
+// single report line, "X:45.00 Y:-30.00 Z:60.00 W:0.00 U:90.00 V:-180.00", in the
+// same units, and no "Ok" follows it so it never pairs with a pending move.
+//
+// "M112" is the emergency stop: the arm halts where it is, drops its queued
+// moves and acknowledges none of them.
+
+export const DEFAULT_FEED_RATE = 500; // degrees/minute
+
+export interface G06Command {
+  joints: JointState; // radians
+  feedRate: number; // degrees/minute
+}
+
+// Joint value (radians or meters) to and from the units on the wire (degrees or mm)
+export const toWire = (joint: JointConfig, value: number) =>
+  joint.type === 'prismatic' ? value * 1000 : (value * 180) / Math.PI;
+export const fromWire = (joint: JointConfig, value: number) =>
+  joint.type === 'prismatic' ? value / 1000 : (value * Math.PI) / 180;
+
+export const isG06 = (line: string) => line.trim().startsWith('G06');
+
+export const isOk = (line: string) => line.trim().toLowerCase() === 'ok';
+
+export const POSITION_QUERY = 'M114';
+
+export const HALT_COMMAND = 'M112';
+
+export const isPositionQuery = (line: string) => line.trim().toUpperCase() === POSITION_QUERY;
+
+// Position report line (without the trailing newline)
+export function formatPositionReport(joints: JointState, config: RobotConfig = DEFAULT_ROBOT_CONFIG): string {
+  return config.joints
+    .map(joint => `${joint.letter}:${toWire(joint, joints[joint.name] || 0).toFixed(2)}`)
+    .join(' ');
+}
+
+// Parse a position report; returns null for anything else, including reports
+// that leave out a joint of the configuration
+export function parsePositionReport(line: string, config: RobotConfig = DEFAULT_ROBOT_CONFIG): JointState | null {
+  const trimmed = line.trim();
+  if (!/^[A-Z]:/.test(trimmed)) return null;
+
+  const joints: JointState = {};
+  for (const joint of config.joints) {
+    const match = trimmed.match(new RegExp(`(?:^|\\s)${joint.letter}:([-+]?\\d*\\.?\\d+)`));
+    if (!match) return null;
+    joints[joint.name] = fromWire(joint, parseFloat(match[1]));
+  }
+  return joints;
+}
+
+// Parse a G06 line; returns null when the line is not a G06 command or carries no joint words
+export function parseG06(line: string, config: RobotConfig = DEFAULT_ROBOT_CONFIG): G06Command | null {
+  const trimmed = line.trim();
+  if (!isG06(trimmed)) return null;
+
+  const joints: JointState = {};
+  config.joints.forEach(joint => {
+    const match = trimmed.match(new RegExp(`${joint.letter}([-+]?\\d*\\.?\\d+)`));
+    if (match) joints[joint.name] = fromWire(joint, parseFloat(match[1]));
+  });
+
+  const feedMatch = trimmed.match(/F([-+]?\d*\.?\d+)/);
+  const feedRate = feedMatch ? parseFloat(feedMatch[1]) : DEFAULT_FEED_RATE;
+
+  return Object.keys(joints).length > 0 ? { joints, feedRate } : null;
+}
+
+// Format a G06 line (without the trailing newline)
+export function formatG06(
+  joints: JointState,
+  feedRate = DEFAULT_FEED_RATE,
+  config: RobotConfig = DEFAULT_ROBOT_CONFIG
+): string {
+  const words = config.joints.map(
+    joint => `${joint.letter}${toWire(joint, joints[joint.name] || 0).toFixed(1)}`
+  );
+  return `G06 ${words.join(' ')} F${feedRate}`;
+}
+
+// Time a move takes at the given feed rate, following the planned velocity profile
+export function moveDurationMs(
+  from: JointState,
+  to: JointState,
+  feedRate: number,
+  config: RobotConfig = DEFAULT_ROBOT_CONFIG,
+  profile?: ProfileType
+): number {
+  return planMove(from, to, config, { feedRate, profile }).duration * 1000;
+}
@@ -0,0 +1,177 @@
+import { JointState, RobotConfig } from '../types/robot';
+import { DEFAULT_FEED_RATE, G06Command, formatG06, moveDurationMs } from './g06';
+import { ProfileType, Trajectory } from './trajectory';
+
+// Strict parser for G-code program files (.gcode/.nc) made of G06 joint moves.
+// Unlike the firmware, which skips whatever it does not understand, every word
+// must be known here: a typo in a program should stop it before it reaches the arm.
+//
+// Accepted per line: an optional N line number, G06 (or G6), one word per joint
+// letter of the robot configuration, and F. Comments in parentheses or after ';'
+// and '%' tape markers are ignored. Joints left out of a line keep their value.
+
+export interface GCodeMove {
+  lineNumber: number; // 1-based line in the source file
+  source: string; // line as written, for display
+  joints: JointState; // absolute target, radians
+  feedRate: number; // degrees/minute
+  command: string; // normalized G06 line sent to the robot
+  durationMs: number; // estimated time at the feed rate
+}
+
+export interface GCodeProgram {
+  moves: GCodeMove[];
+  durationMs: number;
+}
+
+export interface GCodeLineError {
+  lineNumber: number;
+  message: string;
+}
+
+export class GCodeParseError extends Error {
+  errors: GCodeLineError[];
+
+  constructor(errors: GCodeLineError[]) {
+    const first = errors[0];
+    super(`Line ${first.lineNumber}: ${first.message}${errors.length > 1 ? ` (and ${errors.length - 1} more)` : ''}`);
+    this.name = 'GCodeParseError';
+    this.errors = errors;
+  }
+}
+
+const WORD = /^([A-Z])\s*([-+]?(?:\d+\.?\d*|\.\d+))/;
+
+const stripComments = (line: string) =>
+  line.replace(/\([^)]*\)/g, ' ').replace(/;.*$/, '').trim();
+
+// Parse one line; returns null for blank and comment-only lines and throws on anything it does not understand
+export function parseGCodeLine(line: string, config: RobotConfig): G06Command | null {
+  let rest = stripComments(line).toUpperCase();
+  if (!rest || rest === '%') return null;
+  if (rest.includes('(')) throw new Error('Unclosed comment');
+
+  const joints: JointState = {};
+  const seen = new Set<string>();
+  let feedRate = DEFAULT_FEED_RATE;
+  let hasG06 = false;
+
+  while (rest) {
+    const match = rest.match(WORD);
+    if (!match) {
+      throw new Error(`Unexpected '${rest.split(/\s+/)[0]}'`);
+    }
+    const [text, letter, valueText] = match;
+    const value = parseFloat(valueText);
+    rest = rest.slice(text.length).trim();
+
+    if (seen.has(letter)) throw new Error(`Word ${letter} appears more than once`);
+    seen.add(letter);
+
+    const joint = config.joints.find(entry => entry.letter === letter);
+    if (letter === 'N' && seen.size === 1) {
+      continue;
+    } else if (letter === 'G') {
+      if (value !== 6) throw new Error(`Unsupported command G${valueText}`);
+      hasG06 = true;
+    } else if (letter === 'F') {
+      if (value <= 0) throw new Error('Feed rate must be positive');
+      feedRate = value;
+    } else if (joint) {
+      joints[joint.name] = joint.type === 'prismatic' ? value / 1000 : (value * Math.PI) / 180;
+    } else {
+      throw new Error(`Unknown word '${text}'`);
+    }
+  }
+
+  if (!hasG06) throw new Error('Missing G06');
+  if (Object.keys(joints).length === 0) throw new Error('G06 without any joint words');
+  return { joints, feedRate };
+}
+
+// Parse a whole file into absolute moves starting from the given position.
+// All problems are collected and thrown together as a GCodeParseError.
+export function parseGCodeProgram(
+  text: string,
+  config: RobotConfig,
+  start: JointState,
+  profile?: ProfileType
+): GCodeProgram {
+  const moves: GCodeMove[] = [];
+  const errors: GCodeLineError[] = [];
+  let position = { ...start };
+
+  text.split(/\r?\n/).forEach((source, index) => {
+    const lineNumber = index + 1;
+    try {
+      const parsed = parseGCodeLine(source, config);
+      if (!parsed) return;
+
+      const target = { ...position, ...parsed.joints };
+      config.joints.forEach(joint => {
+        const value = parsed.joints[joint.name];
+        if (value !== undefined && (value < joint.min - 1e-9 || value > joint.max + 1e-9)) {
+          const scale = joint.type === 'prismatic' ? 1000 : 180 / Math.PI;
+          throw new Error(
+            `${joint.letter}${(value * scale).toFixed(1)} is outside the ${joint.name} limits ` +
+            `(${(joint.min * scale).toFixed(1)} to ${(joint.max * scale).toFixed(1)})`
+          );
+        }
+      });
+
+      moves.push({
+        lineNumber,
+        source: source.trim(),
+        joints: target,
+        feedRate: parsed.feedRate,
+        command: formatG06(target, parsed.feedRate, config),
+        durationMs: moveDurationMs(position, target, parsed.feedRate, config, profile)
+      });
+      position = target;
+    } catch (error) {
+      errors.push({ lineNumber, message: error instanceof Error ? error.message : 'Invalid line' });
+    }
+  });
+
+  if (errors.length > 0) throw new GCodeParseError(errors);
+  if (moves.length === 0) throw new GCodeParseError([{ lineNumber: 1, message: 'Program contains no moves' }]);
+
+  return { moves, durationMs: moves.reduce((sum, move) => sum + move.durationMs, 0) };
+}
+
+// Resample a planned trajectory into G06 lines a fixed time apart, so blended
+// motion reaches the firmware as short moves whose feed rates follow the plan
+export function programFromTrajectory(
+  trajectory: Trajectory,
+  config: RobotConfig,
+  interval = 0.1
+): GCodeProgram {
+  const moves: GCodeMove[] = [];
+  const count = Math.max(1, Math.ceil(trajectory.duration / interval));
+  let previous = trajectory.sample(0).positions;
+
+  for (let index = 1; index <= count; index++) {
+    const time = Math.min(trajectory.duration, index * interval);
+    const step = time - Math.min(trajectory.duration, (index - 1) * interval);
+    const target = trajectory.sample(time).positions;
+
+    // Feed rate that covers the largest angular change in exactly one interval
+    const maxDeltaDeg = Math.max(0, ...config.joints
+      .filter(joint => joint.type !== 'prismatic')
+      .map(joint => Math.abs(((target[joint.name] ?? 0) - (previous[joint.name] ?? 0)) * 180 / Math.PI)));
+    const feedRate = Math.max(1, Math.round((maxDeltaDeg / step) * 60));
+
+    const command = formatG06(target, feedRate, config);
+    moves.push({
+      lineNumber: index,
+      source: command,
+      joints: target,
+      feedRate,
+      command,
+      durationMs: step * 1000
+    });
+    previous = target;
+  }
+
+  return { moves, durationMs: trajectory.duration * 1000 };
+}
@@ -0,0 +1,177 @@
+import { RobotConfig } from '../types/robot';
+import { GCodeMove, GCodeProgram, programFromTrajectory } from './gcode';
+import { SerialLink } from './serialTransport';
+import { Trajectory } from './trajectory';
+
+// Streams a parsed program over a SerialLink with "Ok"-based flow control: at
+// most queueDepth lines are outstanding on the device at once, and the next
+// line goes out as soon as the oldest one is acknowledged. Since the firmware
+// answers a move once it has finished, the oldest unacknowledged line is the
+// move the arm is executing.
+
+export type StreamState = 'idle' | 'running' | 'paused' | 'finished' | 'aborted' | 'failed';
+
+export interface StreamStatus {
+  state: StreamState;
+  sent: number;
+  acknowledged: number;
+  total: number;
+  currentMove: GCodeMove | null; // move the arm is executing
+  etaMs: number;
+  error?: string;
+}
+
+export interface StreamerOptions {
+  queueDepth: number;
+  onStatus: (status: StreamStatus) => void;
+  onMoveStarted?: (move: GCodeMove, index: number) => void;
+}
+
+export class GCodeStreamer {
+  private state: StreamState = 'idle';
+  private sent = 0;
+  private acknowledged = 0;
+  private moveStartedAt = 0;
+  private error?: string;
+  private controller = new AbortController();
+  private wake: (() => void) | null = null;
+  private dirty = false;
+
+  constructor(
+    private program: GCodeProgram,
+    private link: SerialLink,
+    private options: StreamerOptions
+  ) {}
+
+  // Stream the whole program; resolves once it has finished, been aborted or failed
+  async run(): Promise<void> {
+    if (this.state !== 'idle') return;
+    this.setState('running');
+    const total = this.program.moves.length;
+    // Read through a function: pause/abort change the state while run() is suspended
+    const state = (): StreamState => this.state;
+
+    while (this.acknowledged < total && state() !== 'aborted' && state() !== 'failed') {
+      while (state() === 'running' && this.sent < total &&
+             this.sent - this.acknowledged < Math.max(1, this.options.queueDepth)) {
+        this.sendNext();
+      }
+      await this.waitForChange();
+    }
+
+    if (state() === 'running' || state() === 'paused') this.setState('finished');
+  }
+
+  // Stop sending new lines; lines already on the device still complete
+  pause() {
+    if (this.state === 'running') this.setState('paused');
+  }
+
+  resume() {
+    if (this.state === 'paused') this.setState('running');
+  }
+
+  // Give up on outstanding acknowledgements. Moves already queued on the
+  // firmware are not cancelled; that needs a halt command.
+  abort() {
+    if (this.state === 'running' || this.state === 'paused' || this.state === 'idle') {
+      this.controller.abort();
+      this.setState('aborted');
+    }
+  }
+
+  get status(): StreamStatus {
+    const moves = this.program.moves;
+    const remainingMs = moves
+      .slice(this.acknowledged)
+      .reduce((sum, move) => sum + move.durationMs, 0);
+    const executing = this.acknowledged < this.sent;
+    const elapsedMs = executing ? Date.now() - this.moveStartedAt : 0;
+
+    return {
+      state: this.state,
+      sent: this.sent,
+      acknowledged: this.acknowledged,
+      total: moves.length,
+      currentMove: executing ? moves[this.acknowledged] : null,
+      etaMs: Math.max(0, remainingMs - Math.min(elapsedMs, moves[this.acknowledged]?.durationMs ?? 0)),
+      error: this.error
+    };
+  }
+
+  private sendNext() {
+    const index = this.sent++;
+    const move = this.program.moves[index];
+    if (index === this.acknowledged) this.startMove(index);
+
+    this.link.sendAndWaitOk(move.command, this.controller.signal).then(
+      () => {
+        if (this.state === 'aborted' || this.state === 'failed') return;
+        this.acknowledged++;
+        if (this.acknowledged < this.sent) this.startMove(this.acknowledged);
+        this.notify();
+      },
+      error => {
+        if (this.state === 'aborted' || this.state === 'failed') return;
+        this.error = `Line ${move.lineNumber}: ${error instanceof Error ? error.message : 'Send failed'}`;
+        this.controller.abort();
+        this.setState('failed');
+      }
+    );
+    this.notify();
+  }
+
+  private startMove(index: number) {
+    this.moveStartedAt = Date.now();
+    this.options.onMoveStarted?.(this.program.moves[index], index);
+  }
+
+  private setState(state: StreamState) {
+    this.state = state;
+    this.notify();
+  }
+
+  private notify() {
+    this.options.onStatus(this.status);
+    this.dirty = true;
+    const wake = this.wake;
+    this.wake = null;
+    wake?.();
+  }
+
+  private waitForChange(): Promise<void> {
+    if (this.dirty) {
+      this.dirty = false;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => {
+      this.wake = () => {
+        this.dirty = false;
+        resolve();
+      };
+    });
+  }
+}
+
+// Stream a blended trajectory as short G06 moves, keeping a few lines queued on the
+// device. Nothing is sent if the signal has already aborted.
+export async function streamTrajectory(
+  trajectory: Trajectory,
+  config: RobotConfig,
+  link: SerialLink,
+  signal: AbortSignal
+) {
+  if (signal.aborted) return;
+  const streamer = new GCodeStreamer(programFromTrajectory(trajectory, config), link, {
+    queueDepth: 4,
+    onStatus: () => undefined
+  });
+  const onAbort = () => streamer.abort();
+  signal.addEventListener('abort', onAbort, { once: true });
+  try {
+    await streamer.run();
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+  }
+  if (streamer.status.state === 'failed') throw new Error(streamer.status.error);
+}
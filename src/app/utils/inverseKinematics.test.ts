@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as THREE from 'three';
+import { JointState } from '../types/robot';
+import { KinematicChain, forwardKinematics, poseToMatrix } from './kinematics';
+import { JointLimits, solveAllIK, solveIK } from './inverseKinematics';
+
+// The Elbot arm from public/elbot_ros.urdf: joint origins (xyz, rpy), axes and limits
+const ELBOT_JOINTS: [string, [number, number, number], [number, number, number], [number, number, number], number, number][] = [
+  ['theta1', [0.0069442, 0, 0.28692], [-0.024206, 0, -1.5708], [0, 0, 1], -2.96706, 2.96706],
+  ['theta2', [-0.025, 0.091, 0.1005], [1.5708, -0.0024813, -3.1416], [0, 0, 1], -1.74533, 2.26893],
+  ['theta3', [0, 0.6, 0], [3.1415, -7.7002e-5, 3.1412], [-9.0662e-5, -0.00012137, 1], -1.5708, 1.309],
+  ['theta4', [-0.139328, 0.10000005, 0.0930033], [Math.PI, Math.PI / 2, 0], [0, 0, 1], -3.14159, 3.14159],
+  ['theta5', [0.0360031, 0, 0.4577468], [1.1965849, 1.5707788, -1.9450078], [0, 0, 1], -2.0944, 2.0944],
+  ['theta6', [-0.0919195, -1.2637e-5, 0.035799], [Math.PI / 2, 0, -Math.PI / 2], [0, 0, 1], -6.28319, 6.28319]
+];
+
+const chain: KinematicChain = {
+  baseLink: 'base_link',
+  tipLink: 'arm6_Link',
+  joints: ELBOT_JOINTS.map(([name, position, rpy, axis]) => ({
+    name,
+    type: 'revolute',
+    origin: poseToMatrix({ position, rpy }),
+    axis: new THREE.Vector3(...axis).normalize()
+  })),
+  tool: new THREE.Matrix4()
+};
+
+const limits: JointLimits = Object.fromEntries(ELBOT_JOINTS.map(([name, , , , min, max]) => [name, { min, max }]));
+
+// Distance between two tool poses: meters plus radians
+function poseDistance(a: THREE.Matrix4, b: THREE.Matrix4) {
+  const position = new THREE.Vector3().setFromMatrixPosition(a).distanceTo(new THREE.Vector3().setFromMatrixPosition(b));
+  const angle = new THREE.Quaternion().setFromRotationMatrix(a).angleTo(new THREE.Quaternion().setFromRotationMatrix(b));
+  return { position, angle };
+}
+
+const POSES: JointState[] = [
+  { theta1: 0.3, theta2: 0.4, theta3: -0.5, theta4: 0.2, theta5: 0.7, theta6: -0.4 },
+  { theta1: -1.2, theta2: 1.0, theta3: 0.3, theta4: -1.0, theta5: -0.6, theta6: 1.5 },
+  { theta1: 2.0, theta2: -0.6, theta3: -1.0, theta4: 2.5, theta5: 1.2, theta6: 0 }
+];
+
+describe('inverse kinematics', () => {
+  it('solves back to the pose forward kinematics gives, from a nearby seed', () => {
+    POSES.forEach(pose => {
+      const target = forwardKinematics(chain, pose);
+      const seed = Object.fromEntries(Object.entries(pose).map(([name, value]) => [name, value + 0.1]));
+      const solution = solveIK(chain, target, { seed, limits });
+      assert.ok(solution, `no solution for ${JSON.stringify(pose)}`);
+
+      const reached = poseDistance(forwardKinematics(chain, solution.joints), target);
+      assert.ok(reached.position < 1e-4, `${reached.position} m off`);
+      assert.ok(reached.angle < 1e-3, `${reached.angle} rad off`);
+    });
+  });
+
+  it('finds the original joints among all solutions, each inside the limits and reaching the target', () => {
+    POSES.forEach(pose => {
+      const target = forwardKinematics(chain, pose);
+      const solutions = solveAllIK(chain, target, { limits });
+      assert.ok(solutions.length > 1, 'expected more than one arm configuration');
+
+      solutions.forEach(solution => {
+        const reached = poseDistance(forwardKinematics(chain, solution.joints), target);
+        assert.ok(reached.position < 1e-4 && reached.angle < 1e-3);
+        Object.entries(solution.joints).forEach(([name, value]) => {
+          assert.ok(value >= limits[name].min - 1e-9 && value <= limits[name].max + 1e-9, `${name} = ${value} outside its limits`);
+        });
+      });
+      assert.ok(
+        solutions.some(solution => Object.keys(pose).every(name => Math.abs(solution.joints[name] - pose[name]) < 1e-2)),
+        `the original joints ${JSON.stringify(pose)} were not found`
+      );
+    });
+  });
+
+  it('returns solutions closest to the seed first', () => {
+    const pose = POSES[0];
+    const solutions = solveAllIK(chain, forwardKinematics(chain, pose), { seed: pose, limits });
+    for (let index = 1; index < solutions.length; index++) {
+      assert.ok(solutions[index - 1].distance <= solutions[index].distance);
+    }
+    assert.ok(solutions[0].distance < 1e-2);
+  });
+
+  it('stops at maxSolutions', () => {
+    const solutions = solveAllIK(chain, forwardKinematics(chain, POSES[1]), { limits, maxSolutions: 1 });
+    assert.equal(solutions.length, 1);
+  });
+
+  it('gives no solution for a point out of reach', () => {
+    const target = new THREE.Matrix4().makeTranslation(5, 0, 0);
+    assert.equal(solveIK(chain, target, { limits, positionOnly: true }), null);
+    assert.deepEqual(solveAllIK(chain, target, { limits, positionOnly: true }), []);
+  });
+});
@@ -0,0 +1,272 @@
+import * as THREE from 'three';
+import { JointState } from '../types/robot';
+import { KinematicChain, computeJointFrames, movableJoints, toolFrame } from './kinematics';
+
+// Joint limits in radians, keyed by joint name
+export interface JointLimits {
+  [jointName: string]: { min: number; max: number };
+}
+
+export interface IKOptions {
+  seed?: JointState;
+  limits?: JointLimits;
+  maxIterations?: number;
+  positionTolerance?: number; // meters
+  orientationTolerance?: number; // radians
+  damping?: number;
+  positionOnly?: boolean; // reach the target position in any orientation
+  maxSolutions?: number; // solveAllIK stops once it has found this many
+}
+
+export interface IKSolution {
+  joints: JointState;
+  positionError: number;
+  orientationError: number;
+  distance: number; // joint-space distance from the seed
+}
+
+const DEFAULT_OPTIONS = {
+  maxIterations: 300,
+  positionTolerance: 1e-5,
+  orientationTolerance: 1e-4,
+  damping: 0.05,
+};
+
+// Two solutions closer than this (per joint, radians) are the same branch
+const DUPLICATE_TOLERANCE = 1e-2;
+
+// A seed whose error has not dropped by STALL_PROGRESS in STALL_ITERATIONS is given up
+const STALL_ITERATIONS = 30;
+const STALL_PROGRESS = 1e-3;
+
+const MAX_POSITION_STEP = 0.05;
+const MAX_ROTATION_STEP = 0.3;
+
+const _position = new THREE.Vector3();
+const _targetPosition = new THREE.Vector3();
+const _axis = new THREE.Vector3();
+const _jointPosition = new THREE.Vector3();
+const _cross = new THREE.Vector3();
+const _rotation = new THREE.Matrix4();
+const _quaternion = new THREE.Quaternion();
+
+// Solve A x = b in place with Gaussian elimination and partial pivoting
+function solveLinearSystem(a: number[][], b: number[]): number[] {
+  const n = b.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k < n; k++) a[row][k] -= factor * a[col][k];
+      b[row] -= factor * b[col];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+// 6-vector pose error [dx, dy, dz, rx, ry, rz] from the current tip to the target
+function poseError(current: THREE.Matrix4, target: THREE.Matrix4): number[] {
+  _position.setFromMatrixPosition(current);
+  _targetPosition.setFromMatrixPosition(target);
+
+  // Rotation taking the current orientation onto the target, as an axis-angle vector
+  _rotation.extractRotation(current).transpose().premultiply(new THREE.Matrix4().extractRotation(target));
+  _quaternion.setFromRotationMatrix(_rotation);
+  if (_quaternion.w < 0) {
+    _quaternion.set(-_quaternion.x, -_quaternion.y, -_quaternion.z, -_quaternion.w);
+  }
+  const angle = 2 * Math.acos(Math.min(1, _quaternion.w));
+  const sinHalf = Math.sqrt(1 - _quaternion.w * _quaternion.w);
+  const scale = sinHalf < 1e-9 ? 2 : angle / sinHalf;
+
+  return [
+    _targetPosition.x - _position.x,
+    _targetPosition.y - _position.y,
+    _targetPosition.z - _position.z,
+    _quaternion.x * scale,
+    _quaternion.y * scale,
+    _quaternion.z * scale,
+  ];
+}
+
+// Geometric Jacobian columns for the movable joints, evaluated at the given frames
+export function computeJacobian(chain: KinematicChain, frames: THREE.Matrix4[], jointNames: string[]): number[][] {
+  const tip = new THREE.Vector3().setFromMatrixPosition(toolFrame(chain, frames));
+  const columns: number[][] = [];
+
+  chain.joints.forEach((joint, index) => {
+    if (!jointNames.includes(joint.name)) return;
+
+    _axis.copy(joint.axis).transformDirection(frames[index]);
+    _jointPosition.setFromMatrixPosition(frames[index]);
+
+    if (joint.type === 'prismatic') {
+      columns.push([_axis.x, _axis.y, _axis.z, 0, 0, 0]);
+    } else {
+      _cross.subVectors(tip, _jointPosition).cross(_axis).negate();
+      columns.push([_cross.x, _cross.y, _cross.z, _axis.x, _axis.y, _axis.z]);
+    }
+  });
+
+  return columns;
+}
+
+const clampToLimits = (value: number, jointName: string, limits?: JointLimits) => {
+  const limit = limits?.[jointName];
+  return limit ? Math.max(limit.min, Math.min(limit.max, value)) : value;
+};
+
+const jointDistance = (a: JointState, b: JointState) =>
+  Math.sqrt(Object.keys(a).reduce((sum, name) => sum + ((a[name] || 0) - (b[name] || 0)) ** 2, 0));
+
+// Damped least-squares IK from a single seed; returns null if it does not converge
+// or stops getting closer (an unreachable target, or a seed stuck at a singularity)
+export function solveIK(chain: KinematicChain, target: THREE.Matrix4, options: IKOptions = {}): IKSolution | null {
+  const { maxIterations, positionTolerance, orientationTolerance, damping } = { ...DEFAULT_OPTIONS, ...options };
+  const seed = options.seed || {};
+  const jointNames = movableJoints(chain);
+  const rows = options.positionOnly ? 3 : 6;
+
+  const joints: JointState = {};
+  jointNames.forEach(name => {
+    joints[name] = clampToLimits(seed[name] || 0, name, options.limits);
+  });
+
+  let bestError = Infinity;
+  let bestIteration = 0;
+  for (let iteration = 0; iteration <= maxIterations; iteration++) {
+    const frames = computeJointFrames(chain, joints);
+    const error = poseError(toolFrame(chain, frames), target);
+    const positionError = Math.hypot(error[0], error[1], error[2]);
+    const orientationError = Math.hypot(error[3], error[4], error[5]);
+
+    if (positionError < positionTolerance && (options.positionOnly || orientationError < orientationTolerance)) {
+      return { joints, positionError, orientationError, distance: jointDistance(joints, seed) };
+    }
+    if (iteration === maxIterations) break;
+
+    const totalError = positionError + (options.positionOnly ? 0 : orientationError);
+    if (totalError < bestError * (1 - STALL_PROGRESS)) {
+      bestError = totalError;
+      bestIteration = iteration;
+    } else if (iteration - bestIteration >= STALL_ITERATIONS) {
+      break;
+    }
+
+    // Limit the step so the linearisation stays valid far from the target
+    const positionScale = Math.min(1, MAX_POSITION_STEP / (positionError || 1));
+    const rotationScale = Math.min(1, MAX_ROTATION_STEP / (orientationError || 1));
+    const e = error.slice(0, rows).map((value, i) => value * (i < 3 ? positionScale : rotationScale));
+
+    // dq = J^T (J J^T + lambda^2 I)^-1 e
+    const columns = computeJacobian(chain, frames, jointNames);
+    const jjt = Array.from({ length: rows }, (_, row) =>
+      Array.from({ length: rows }, (_, col) =>
+        columns.reduce((sum, column) => sum + column[row] * column[col], 0) + (row === col ? damping * damping : 0)
+      )
+    );
+    const y = solveLinearSystem(jjt, e);
+
+    jointNames.forEach((name, i) => {
+      const delta = y.reduce((sum, value, row) => sum + columns[i][row] * value, 0);
+      joints[name] = clampToLimits(joints[name] + delta, name, options.limits);
+    });
+  }
+
+  return null;
+}
+
+// Seeds covering the usual arm branches: base flipped, shoulder/elbow bent either way,
+// wrist flipped; 54 for a six-axis arm. The seeds are solved without limits, so the
+// base only needs flipping one way: a full turn either way is the same solution.
+function branchSeeds(jointNames: string[], seed: JointState): JointState[] {
+  const candidates = jointNames.map((name, index) => {
+    const current = seed[name] || 0;
+    switch (index) {
+      case 0:
+        return [current, current + Math.PI];
+      case 1:
+        return [current, -Math.PI / 4, Math.PI / 4];
+      case 2:
+        return [current, -Math.PI / 3, Math.PI / 3];
+      case 4:
+        return [current, -Math.PI / 2, Math.PI / 2];
+      default:
+        return [current];
+    }
+  });
+
+  return candidates.reduce<JointState[]>(
+    (seeds, values, index) =>
+      seeds.flatMap(partial => values.map(value => ({ ...partial, [jointNames[index]]: value }))),
+    [{}]
+  );
+}
+
+// Every representation of the same joint values that fits the limits: revolute
+// joints are equivalent modulo a full turn, so theta6 (+/-360 deg) can yield several
+function limitVariants(chain: KinematicChain, joints: JointState, limits?: JointLimits): JointState[] {
+  const candidates = chain.joints
+    .filter(joint => joint.name in joints)
+    .map(joint => {
+      const value = joints[joint.name];
+      const limit = limits?.[joint.name];
+      if (!limit) return [value];
+      if (joint.type === 'prismatic') {
+        return value >= limit.min && value <= limit.max ? [value] : [];
+      }
+
+      const wrapped = Math.atan2(Math.sin(value), Math.cos(value));
+      return [-2, -1, 0, 1, 2]
+        .map(turns => wrapped + turns * 2 * Math.PI)
+        .filter(candidate => candidate >= limit.min - 1e-9 && candidate <= limit.max + 1e-9);
+    });
+
+  const names = chain.joints.filter(joint => joint.name in joints).map(joint => joint.name);
+  return candidates.reduce<JointState[]>(
+    (variants, values, index) =>
+      variants.flatMap(partial => values.map(value => ({ ...partial, [names[index]]: value }))),
+    [{}]
+  );
+}
+
+// Every distinct solution inside the joint limits, closest to the seed first. This
+// runs the solver once per branch seed, so callers that only need one solution
+// (e.g. while rendering) should pass maxSolutions: 1.
+export function solveAllIK(chain: KinematicChain, target: THREE.Matrix4, options: IKOptions = {}): IKSolution[] {
+  const seed = options.seed || {};
+  const jointNames = movableJoints(chain);
+  const maxSolutions = options.maxSolutions ?? Infinity;
+
+  const solutions: IKSolution[] = [];
+  for (const branchSeed of branchSeeds(jointNames, seed)) {
+    // Solve unconstrained so clamping cannot trap the solver, then fold back into the limits
+    const solution = solveIK(chain, target, { ...options, seed: branchSeed, limits: undefined });
+    if (!solution) continue;
+
+    for (const joints of limitVariants(chain, solution.joints, options.limits)) {
+      const isDuplicate = solutions.some(existing =>
+        jointNames.every(name => Math.abs(existing.joints[name] - joints[name]) < DUPLICATE_TOLERANCE)
+      );
+      if (!isDuplicate) {
+        solutions.push({ ...solution, joints, distance: jointDistance(joints, seed) });
+      }
+    }
+    if (solutions.length >= maxSolutions) break;
+  }
+
+  return solutions.sort((a, b) => a.distance - b.distance).slice(0, maxSolutions);
+}
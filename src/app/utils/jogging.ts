@@ -0,0 +1,158 @@
+import * as THREE from 'three';
+import { JointState, RobotConfig } from '../types/robot';
+import { KinematicChain, forwardKinematics } from './kinematics';
+import { solveAllIK, solveIK } from './inverseKinematics';
+import { clampJointValue, getJointLimits } from './robotConfig';
+
+// Jogging shared by the Cartesian jog buttons and the keyboard/gamepad jog: one
+// jog axis per joint in joint mode, X Y Z Rx Ry Rz in Cartesian mode. Steps are
+// in degrees for joints and rotations, mm for translations and prismatic joints.
+
+export type JogMode = 'joint' | 'cartesian';
+export type JogFrame = 'world' | 'tool';
+
+export const CARTESIAN_AXES = ['X', 'Y', 'Z', 'Rx', 'Ry', 'Rz'];
+
+// Continuous Cartesian jog at 100 % speed
+export const MAX_LINEAR_SPEED = 0.25; // m/s
+export const MAX_ANGULAR_SPEED = Math.PI / 2; // rad/s
+
+const degToRad = (deg: number) => (deg * Math.PI) / 180;
+
+// Move the current pose by one jog step along an axis of the chosen frame
+export function jogTarget(current: THREE.Matrix4, axis: number, amount: number, frame: JogFrame): THREE.Matrix4 {
+  const direction = new THREE.Vector3().setComponent(axis % 3, 1);
+  const delta = axis < 3
+    ? new THREE.Matrix4().makeTranslation(direction.multiplyScalar(amount))
+    : new THREE.Matrix4().makeRotationAxis(direction, amount);
+
+  if (frame === 'tool') {
+    return current.clone().multiply(delta);
+  }
+
+  // World jog keeps rotations centred on the tool point rather than the base origin
+  const position = new THREE.Vector3();
+  const rotation = new THREE.Quaternion();
+  const scale = new THREE.Vector3();
+  current.decompose(position, rotation, scale);
+  if (axis < 3) {
+    position.add(new THREE.Vector3().setFromMatrixPosition(delta));
+  } else {
+    rotation.premultiply(new THREE.Quaternion().setFromRotationMatrix(delta));
+  }
+  return new THREE.Matrix4().compose(position, rotation, scale);
+}
+
+// Joint values after a Cartesian jog: the current IK branch when possible,
+// otherwise the nearest other one. Null when the target is out of reach.
+export function solveCartesianJog(
+  chain: KinematicChain,
+  config: RobotConfig,
+  jointStates: JointState,
+  moves: { axis: number; amount: number }[], // meters or radians
+  frame: JogFrame
+): JointState | null {
+  let target = forwardKinematics(chain, jointStates);
+  moves.forEach(({ axis, amount }) => {
+    target = jogTarget(target, axis, amount, frame);
+  });
+  const limits = getJointLimits(config);
+  const solution = solveIK(chain, target, { seed: jointStates, limits })
+    ?? solveAllIK(chain, target, { seed: jointStates, limits })[0];
+  return solution ? solution.joints : null;
+}
+
+// One joint moved by an amount in display units (degrees or mm), kept inside its limits
+export function jogJoint(config: RobotConfig, jointStates: JointState, index: number, amount: number): JointState {
+  const joint = config.joints[index];
+  if (!joint) return {};
+  const delta = joint.type === 'prismatic' ? amount / 1000 : degToRad(amount);
+  return { [joint.name]: clampJointValue(config, joint.name, (jointStates[joint.name] ?? 0) + delta) };
+}
+
+export interface GamepadAxisBinding {
+  index: number; // gamepad axis, -1 for none
+  invert: boolean;
+}
+
+export interface JogBindings {
+  keys: [string, string][]; // per jog axis: KeyboardEvent.code for plus and minus
+  gamepadAxes: GamepadAxisBinding[]; // per jog axis
+  deadmanKey: string;
+  deadmanButton: number; // gamepad button index
+}
+
+export const JOG_AXIS_COUNT = 6;
+
+// Keys in pairs down the left of the keyboard, sticks on the standard gamepad
+// layout (up on a stick reads negative, hence the inverted Y axes), left
+// shoulder as the deadman
+export const DEFAULT_JOG_BINDINGS: JogBindings = {
+  keys: [
+    ['KeyQ', 'KeyA'],
+    ['KeyW', 'KeyS'],
+    ['KeyE', 'KeyD'],
+    ['KeyR', 'KeyF'],
+    ['KeyT', 'KeyG'],
+    ['KeyY', 'KeyH']
+  ],
+  gamepadAxes: [
+    { index: 0, invert: false },
+    { index: 1, invert: true },
+    { index: 3, invert: true },
+    { index: 2, invert: false },
+    { index: -1, invert: false },
+    { index: -1, invert: false }
+  ],
+  deadmanKey: 'ShiftLeft',
+  deadmanButton: 4
+};
+
+// Stick deflection ignored around the centre
+export const GAMEPAD_DEADZONE = 0.15;
+
+const STORAGE_KEY = 'elbot.jogBindings';
+
+const isAxisBinding = (value: unknown): value is GamepadAxisBinding => {
+  const binding = value as GamepadAxisBinding | null;
+  return !!binding && Number.isInteger(binding.index) && typeof binding.invert === 'boolean';
+};
+
+// Validate bindings read from storage
+export function parseJogBindings(json: unknown): JogBindings {
+  const data = json as Partial<JogBindings> | null;
+  if (!data || !Array.isArray(data.keys) || !Array.isArray(data.gamepadAxes) ||
+      data.keys.length !== JOG_AXIS_COUNT || data.gamepadAxes.length !== JOG_AXIS_COUNT) {
+    throw new Error(`Expected key and gamepad bindings for ${JOG_AXIS_COUNT} axes`);
+  }
+  if (!data.keys.every(pair => Array.isArray(pair) && pair.length === 2 && pair.every(key => typeof key === 'string'))) {
+    throw new Error('Key bindings must be pairs of key codes');
+  }
+  if (!data.gamepadAxes.every(isAxisBinding)) throw new Error('Invalid gamepad axis binding');
+  if (typeof data.deadmanKey !== 'string' || !Number.isInteger(data.deadmanButton)) {
+    throw new Error('Invalid deadman binding');
+  }
+  return {
+    keys: data.keys.map(([plus, minus]) => [plus, minus]),
+    gamepadAxes: data.gamepadAxes.map(({ index, invert }) => ({ index, invert })),
+    deadmanKey: data.deadmanKey,
+    deadmanButton: data.deadmanButton as number
+  };
+}
+
+export function loadJogBindings(): JogBindings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseJogBindings(JSON.parse(stored)) : DEFAULT_JOG_BINDINGS;
+  } catch (error) {
+    console.error('Ignoring stored jog bindings:', error);
+    return DEFAULT_JOG_BINDINGS;
+  }
+}
+
+export function saveJogBindings(bindings: JogBindings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+}
+
+// Readable name of a KeyboardEvent.code, e.g. "KeyQ" -> "Q"
+export const keyLabel = (code: string) => code.replace(/^(Key|Digit)/, '');
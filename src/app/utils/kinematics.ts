@@ -0,0 +1,210 @@
+import * as THREE from 'three';
+import { JointState, URDFRobot, URDFJoint, URDFLink, URDFMimicJoint } from '../types/robot';
+
+// A single joint of a serial chain, expressed in its parent link frame
+export interface ChainJoint {
+  name: string;
+  type: URDFJoint['jointType'];
+  origin: THREE.Matrix4;
+  axis: THREE.Vector3;
+  mimic?: { joint: string; multiplier: number; offset: number }; // value follows another joint
+}
+
+// Serial chain from the robot root link down to a tip link, plus the tool (TCP) offset from the tip
+export interface KinematicChain {
+  baseLink: string;
+  tipLink: string;
+  joints: ChainJoint[];
+  tool: THREE.Matrix4;
+}
+
+// Cartesian pose in meters and radians (URDF roll/pitch/yaw convention)
+export interface Pose {
+  position: [number, number, number];
+  rpy: [number, number, number];
+}
+
+export const IDENTITY_POSE: Pose = { position: [0, 0, 0], rpy: [0, 0, 0] };
+
+const isMovable = (type: ChainJoint['type']) =>
+  type === 'revolute' || type === 'continuous' || type === 'prismatic';
+
+// Pick the link at the end of the longest chain of movable joints (arm6_Link for the Elbot)
+export function findTipLink(robot: URDFRobot): string {
+  let tipLink = robot.urdfName;
+  let maxDepth = -1;
+
+  Object.entries(robot.links).forEach(([linkName, link]) => {
+    let depth = 0;
+    let current: THREE.Object3D | null = link;
+    while (current && current !== robot) {
+      const joint = current as URDFJoint;
+      if (joint.isURDFJoint && isMovable(joint.jointType)) depth++;
+      current = current.parent;
+    }
+    if (depth > maxDepth) {
+      maxDepth = depth;
+      tipLink = linkName;
+    }
+  });
+
+  return tipLink;
+}
+
+// Build the chain from the joint origins and axes parsed by URDFLoader
+export function buildKinematicChain(robot: URDFRobot, tipLink = findTipLink(robot)): KinematicChain {
+  const tip: URDFLink | undefined = robot.links[tipLink];
+  if (!tip) {
+    throw new Error(`Link '${tipLink}' not found in robot '${robot.robotName}'`);
+  }
+
+  const joints: ChainJoint[] = [];
+  let current: THREE.Object3D | null = tip.parent;
+  while (current && current !== robot) {
+    const joint = current as URDFJoint;
+    if (joint.isURDFJoint) {
+      // origPosition/origQuaternion hold the <origin> once a joint value has been applied
+      const position = joint.origPosition ?? joint.position;
+      const quaternion = joint.origQuaternion ?? joint.quaternion;
+      const mimic = joint as URDFMimicJoint;
+      joints.unshift({
+        name: joint.urdfName,
+        type: joint.jointType,
+        origin: new THREE.Matrix4().compose(position, quaternion, new THREE.Vector3(1, 1, 1)),
+        axis: joint.axis.clone().normalize(),
+        ...(mimic.mimicJoint && {
+          mimic: {
+            joint: String(mimic.mimicJoint),
+            multiplier: Number(mimic.multiplier),
+            offset: Number(mimic.offset)
+          }
+        }),
+      });
+    }
+    current = current.parent;
+  }
+
+  return { baseLink: robot.urdfName, tipLink, joints, tool: new THREE.Matrix4() };
+}
+
+// Same chain with its end effector moved to the given tool centre point
+export function withToolOffset(chain: KinematicChain, toolOffset: Pose): KinematicChain {
+  return { ...chain, tool: poseToMatrix(toolOffset) };
+}
+
+// Names of the independently driven joints along the chain (mimic joints follow their master)
+export function movableJoints(chain: KinematicChain): string[] {
+  return chain.joints.filter(joint => isMovable(joint.type) && !joint.mimic).map(joint => joint.name);
+}
+
+// Value of a chain joint, following the master joint for mimic joints
+export function chainJointValue(joint: ChainJoint, jointStates: JointState): number {
+  if (joint.mimic) {
+    return (jointStates[joint.mimic.joint] || 0) * joint.mimic.multiplier + joint.mimic.offset;
+  }
+  return jointStates[joint.name] || 0;
+}
+
+const _motion = new THREE.Matrix4();
+
+// Transform of each joint frame (after its motion) relative to the base link; the last one is the tip link
+export function computeJointFrames(chain: KinematicChain, jointStates: JointState): THREE.Matrix4[] {
+  const frames: THREE.Matrix4[] = [];
+  const current = new THREE.Matrix4();
+
+  chain.joints.forEach(joint => {
+    current.multiply(joint.origin);
+    const value = chainJointValue(joint, jointStates);
+    if (joint.type === 'revolute' || joint.type === 'continuous') {
+      current.multiply(_motion.makeRotationAxis(joint.axis, value));
+    } else if (joint.type === 'prismatic') {
+      current.multiply(_motion.makeTranslation(
+        joint.axis.x * value,
+        joint.axis.y * value,
+        joint.axis.z * value
+      ));
+    }
+    frames.push(current.clone());
+  });
+
+  return frames;
+}
+
+// Tool centre point of a set of joint frames from computeJointFrames
+export function toolFrame(chain: KinematicChain, frames: THREE.Matrix4[]): THREE.Matrix4 {
+  const tip = frames.length > 0 ? frames[frames.length - 1].clone() : new THREE.Matrix4();
+  return tip.multiply(chain.tool);
+}
+
+// TCP transform relative to the base link
+export function forwardKinematics(chain: KinematicChain, jointStates: JointState): THREE.Matrix4 {
+  return toolFrame(chain, computeJointFrames(chain, jointStates));
+}
+
+export function matrixToPose(matrix: THREE.Matrix4): Pose {
+  const position = new THREE.Vector3().setFromMatrixPosition(matrix);
+  const euler = new THREE.Euler().setFromRotationMatrix(matrix, 'ZYX');
+  return {
+    position: [position.x, position.y, position.z],
+    rpy: [euler.x, euler.y, euler.z],
+  };
+}
+
+export function poseToMatrix(pose: Pose): THREE.Matrix4 {
+  const [roll, pitch, yaw] = pose.rpy;
+  const quaternion = new THREE.Quaternion().setFromEuler(new THREE.Euler(roll, pitch, yaw, 'ZYX'));
+  return new THREE.Matrix4().compose(
+    new THREE.Vector3(...pose.position),
+    quaternion,
+    new THREE.Vector3(1, 1, 1)
+  );
+}
+
+// Pose as the six values shown in the UI: mm and degrees
+export const poseToDisplay = (pose: Pose) => [
+  ...pose.position.map(value => value * 1000),
+  ...pose.rpy.map(value => (value * 180) / Math.PI)
+];
+
+export const displayToPose = (values: number[]): Pose => ({
+  position: [values[0] / 1000, values[1] / 1000, values[2] / 1000],
+  rpy: [values[3], values[4], values[5]].map(value => (value * Math.PI) / 180) as [number, number, number]
+});
+
+// Transform of every link relative to the base link, walking the whole URDF tree so
+// links off the main chain are included too. The displayed model is left untouched.
+export function computeLinkTransforms(robot: URDFRobot, jointStates: JointState): Map<string, THREE.Matrix4> {
+  const transforms = new Map<string, THREE.Matrix4>();
+
+  const visit = (object: THREE.Object3D, parentFrame: THREE.Matrix4) => {
+    object.children.forEach(child => {
+      const joint = child as URDFJoint;
+      const link = child as URDFLink;
+      if (joint.isURDFJoint) {
+        const mimic = joint as URDFMimicJoint;
+        const value = mimic.mimicJoint
+          ? (jointStates[String(mimic.mimicJoint)] || 0) * Number(mimic.multiplier) + Number(mimic.offset)
+          : jointStates[joint.urdfName] || 0;
+        const frame = parentFrame.clone().multiply(new THREE.Matrix4().compose(
+          joint.origPosition ?? joint.position,
+          joint.origQuaternion ?? joint.quaternion,
+          new THREE.Vector3(1, 1, 1)
+        ));
+        if (joint.jointType === 'revolute' || joint.jointType === 'continuous') {
+          frame.multiply(_motion.makeRotationAxis(joint.axis.clone().normalize(), value));
+        } else if (joint.jointType === 'prismatic') {
+          const axis = joint.axis.clone().normalize();
+          frame.multiply(_motion.makeTranslation(axis.x * value, axis.y * value, axis.z * value));
+        }
+        visit(joint, frame);
+      } else if (link.isURDFLink) {
+        transforms.set(link.urdfName, parentFrame.clone());
+        visit(link, parentFrame);
+      }
+    });
+  };
+
+  transforms.set(robot.urdfName, new THREE.Matrix4());
+  visit(robot, new THREE.Matrix4());
+  return transforms;
+}
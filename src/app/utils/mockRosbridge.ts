@@ -0,0 +1,148 @@
+import { JointState, RobotConfig } from '../types/robot';
+import {
+  DEFAULT_JOINT_STATES_TOPIC,
+  DEFAULT_TRAJECTORY_TOPIC,
+  JointTrajectoryMessage,
+  RosVersion,
+  RosbridgeClient,
+  RosbridgeHandlers,
+  jointStateMessage,
+  parseOperation,
+  rosTime
+} from './rosbridge';
+
+// Software stand-in for a rosbridge server and the ROS graph behind it, so the
+// ROS bridge can be tried without a ROS install. It keeps the subscriptions of
+// its clients and relays every publish to the subscribers of that topic, the
+// sender included, like rosbridge does. It can also act as a ROS node: publish
+// a moving arm on /joint_states, or send a JointTrajectory goal.
+
+interface MockClient {
+  deliver: (data: string) => void;
+  subscriptions: Map<string, string>; // subscription id -> topic
+}
+
+// Delay before a relayed message reaches its subscribers
+const RELAY_DELAY_MS = 5;
+const NODE_RATE_MS = 50;
+
+export class MockRosbridge {
+  private clients = new Set<MockClient>();
+  private types = new Map<string, string>(); // topic -> message type, as advertised
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+  private nodeTimer: ReturnType<typeof setInterval> | null = null;
+
+  // Open a connection the way a WebSocket would
+  connect(handlers: RosbridgeHandlers = {}): RosbridgeClient {
+    const client: MockClient = { deliver: () => undefined, subscriptions: new Map() };
+    this.clients.add(client);
+    const rosbridge = new RosbridgeClient('mock', {
+      send: data => this.receive(client, data),
+      close: () => {
+        this.clients.delete(client);
+        handlers.onClose?.();
+      }
+    }, handlers);
+    client.deliver = data => rosbridge.receive(data);
+    return rosbridge;
+  }
+
+  // Publish as a ROS node would
+  publish(topic: string, msg: unknown) {
+    const data = JSON.stringify({ op: 'publish', topic, msg });
+    this.clients.forEach(client => {
+      if (Array.from(client.subscriptions.values()).includes(topic)) this.later(() => client.deliver(data));
+    });
+  }
+
+  // A node publishing an arm that sweeps every joint slowly around the given pose
+  startJointStatePublisher(config: RobotConfig, around: JointState, version: RosVersion, topic = DEFAULT_JOINT_STATES_TOPIC) {
+    this.stopJointStatePublisher();
+    const start = Date.now();
+    this.nodeTimer = setInterval(() => {
+      const phase = ((Date.now() - start) / 1000) * 0.5;
+      const states = Object.fromEntries(config.joints.map((joint, index) => [
+        joint.name,
+        (around[joint.name] ?? 0) + (joint.type === 'prismatic' ? 0.02 : 0.2) * Math.sin(phase + index)
+      ]));
+      this.publish(topic, jointStateMessage(states, config, version));
+    }, NODE_RATE_MS);
+  }
+
+  stopJointStatePublisher() {
+    if (this.nodeTimer) clearInterval(this.nodeTimer);
+    this.nodeTimer = null;
+  }
+
+  get publishingJointStates() {
+    return this.nodeTimer !== null;
+  }
+
+  // Send a goal a controller would get from MoveIt: out and back on the first
+  // joints, a point every 1.5 seconds
+  sendTestTrajectory(config: RobotConfig, from: JointState, version: RosVersion, topic = DEFAULT_TRAJECTORY_TOPIC) {
+    const joints = config.joints.slice(0, 3);
+    const offsets = [0.3, -0.3, 0];
+    const msg: JointTrajectoryMessage = {
+      joint_names: joints.map(joint => joint.name),
+      points: offsets.map((offset, index) => ({
+        positions: joints.map(joint =>
+          Math.min(joint.max, Math.max(joint.min, (from[joint.name] ?? 0) + (joint.type === 'prismatic' ? offset / 10 : offset)))),
+        time_from_start: rosTime(1.5 * (index + 1), version)
+      }))
+    };
+    this.publish(topic, msg);
+  }
+
+  close() {
+    this.stopJointStatePublisher();
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.clients.clear();
+  }
+
+  private receive(client: MockClient, data: string) {
+    const operation = parseOperation(data);
+    if (!operation) {
+      this.reply(client, 'error', 'Could not parse the operation');
+      return;
+    }
+
+    switch (operation.op) {
+      case 'advertise':
+        this.types.set(operation.topic, operation.type);
+        break;
+      case 'subscribe':
+        client.subscriptions.set(operation.id ?? operation.topic, operation.topic);
+        break;
+      case 'unsubscribe':
+        client.subscriptions.delete(operation.id ?? operation.topic);
+        break;
+      case 'publish':
+        if (!this.types.has(operation.topic)) {
+          this.reply(client, 'error', `Topic ${operation.topic} was published without being advertised`);
+          return;
+        }
+        this.publish(operation.topic, operation.msg);
+        break;
+      case 'unadvertise':
+        this.types.delete(operation.topic);
+        break;
+      default:
+        this.reply(client, 'error', `Unsupported operation ${operation.op}`);
+    }
+  }
+
+  private reply(client: MockClient, level: string, msg: string) {
+    const data = JSON.stringify({ op: 'status', level, msg });
+    this.later(() => client.deliver(data));
+  }
+
+  private later(action: () => void) {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      action();
+    }, RELAY_DELAY_MS);
+    this.timers.add(timer);
+  }
+}
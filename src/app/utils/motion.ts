@@ -0,0 +1,98 @@
+import { JointState, RobotConfig } from '../types/robot';
+import { KinematicChain, forwardKinematics } from './kinematics';
+import { ProfileType, Trajectory, planMove } from './trajectory';
+
+// Playback of planned trajectories in the simulator, shared by incoming G06 moves,
+// program replay and the G-code runner so a move animates the same way whoever
+// asked for it.
+
+export interface MoveOptions {
+  feedRate?: number; // degrees/minute
+  profile?: ProfileType;
+  signal?: AbortSignal;
+}
+
+// Play a trajectory frame by frame in real time. Resolves true once it has
+// finished, or false if the signal aborted it part-way.
+export function animateTrajectory(
+  trajectory: Trajectory,
+  onUpdate: (states: JointState) => void,
+  signal?: AbortSignal
+): Promise<boolean> {
+  const startTime = performance.now();
+
+  return new Promise(resolve => {
+    const step = () => {
+      if (signal?.aborted) {
+        resolve(false);
+        return;
+      }
+
+      const elapsed = (performance.now() - startTime) / 1000;
+      if (elapsed < trajectory.duration) {
+        onUpdate(trajectory.sample(elapsed).positions);
+        requestAnimationFrame(step);
+      } else {
+        onUpdate({ ...trajectory.waypoints[trajectory.waypoints.length - 1] });
+        resolve(true);
+      }
+    };
+
+    requestAnimationFrame(step);
+  });
+}
+
+// Plan a point-to-point move within the joint limits and animate it
+export function animateMove(
+  start: JointState,
+  target: JointState,
+  config: RobotConfig,
+  onUpdate: (states: JointState) => void,
+  options: MoveOptions = {}
+): Promise<boolean> {
+  const trajectory = planMove(start, target, config, {
+    feedRate: options.feedRate,
+    profile: options.profile
+  });
+  return animateTrajectory(trajectory, onUpdate, options.signal);
+}
+
+// Wait for the given time; resolves false if the signal aborts the wait
+export function wait(ms: number, signal?: AbortSignal): Promise<boolean> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve(false);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// TCP positions (base link frame) along trajectories run back to back, for path previews
+export function sampleTcpPath(
+  chain: KinematicChain,
+  trajectories: Trajectory[],
+  samplesPerTrajectory = 8
+): [number, number, number][] {
+  const points: [number, number, number][] = [];
+  const addPoint = (states: JointState) => {
+    const tcp = forwardKinematics(chain, states).elements;
+    points.push([tcp[12], tcp[13], tcp[14]]);
+  };
+
+  trajectories.forEach((trajectory, index) => {
+    for (let sample = index === 0 ? 0 : 1; sample <= samplesPerTrajectory; sample++) {
+      addPoint(trajectory.sample((trajectory.duration * sample) / samplesPerTrajectory).positions);
+    }
+  });
+
+  return points;
+}
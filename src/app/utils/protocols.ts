@@ -0,0 +1,472 @@
+import { JointState, RobotConfig } from '../types/robot';
+import {
+  DEFAULT_FEED_RATE,
+  HALT_COMMAND,
+  POSITION_QUERY,
+  formatG06,
+  formatPositionReport,
+  fromWire,
+  isG06,
+  isPositionQuery,
+  parsePositionReport,
+  toWire
+} from './g06';
+import { parseGCodeLine } from './gcode';
+
+// Protocol drivers translate between the messages the app and the arm exchange
+// and the bytes on the wire. The same driver serves both ends of the link: the
+// app encodes moves and decodes acknowledgements, the virtual device does the
+// opposite. G06 is the Elbot firmware's own dialect; GRBL, binary and JSON lines
+// are there for other controllers, and more can be added with registerProtocolDriver.
+//
+// Messages carry joint values in radians (meters for prismatic joints) and feed
+// rates in degrees/minute; every driver puts degrees and mm on the wire.
+//
+// A move may carry a sequence number, which the receiver echoes in its "Ok". It
+// lets a retransmitted move be recognised and a late acknowledgement be told
+// apart from the one for the next move. Without one, acks pair up in order.
+
+export type ProtocolMessage =
+  | { type: 'move'; joints: JointState; feedRate: number; seq?: number }
+  | { type: 'ok'; seq?: number } // the move has completed
+  | { type: 'error'; message: string }
+  | { type: 'query-position' }
+  | { type: 'position'; joints: JointState }
+  | { type: 'halt' }; // stop now and drop queued moves; never acknowledged
+
+// A message read off the wire, with its raw form for the communication log
+export interface DecodedFrame {
+  message: ProtocolMessage | null; // null when the frame could not be understood
+  raw: string;
+  error?: string; // why it could not be understood
+}
+
+export type Parity = 'none' | 'even' | 'odd';
+export type LineEnding = '\n' | '\r\n' | '\r';
+
+// Serial settings chosen in the UI; the line ending only applies to text protocols
+export interface PortSettings {
+  baudRate: number;
+  parity: Parity;
+  lineEnding: LineEnding;
+}
+
+export interface ProtocolDriver {
+  id: string;
+  label: string;
+  binary: boolean; // framed bytes rather than text lines
+  defaultSettings: PortSettings; // applied when the driver is picked
+  encode(message: ProtocolMessage, config: RobotConfig, lineEnding: LineEnding): Uint8Array;
+  // Stateful decoder for one connection; takes chunks as they arrive and returns complete frames
+  createDecoder(config: RobotConfig): (chunk: Uint8Array) => DecodedFrame[];
+}
+
+export const DEFAULT_PORT_SETTINGS: PortSettings = {
+  baudRate: 115200,
+  parity: 'none',
+  lineEnding: '\n'
+};
+
+// Feed rate of a GRBL rapid (G0); far above any joint limit, so the joints' own maximum speeds apply
+export const RAPID_FEED_RATE = 36000;
+
+export const LINE_ENDINGS: { value: LineEnding; label: string }[] = [
+  { value: '\n', label: 'LF' },
+  { value: '\r\n', label: 'CR+LF' },
+  { value: '\r', label: 'CR' }
+];
+
+// Hex dump of a frame for the log, e.g. "a5 02 00 3c 4a"
+export const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join(' ');
+
+// Text for the log of what was written: the line itself, or a hex dump of a binary frame
+export function describeFrame(driver: ProtocolDriver, bytes: Uint8Array): string {
+  return driver.binary ? toHex(bytes) : new TextDecoder().decode(bytes).trim();
+}
+
+// ---------------------------------------------------------------------------
+// Text protocols: one message per line
+
+interface LineCodec {
+  id: string;
+  label: string;
+  defaultSettings: PortSettings;
+  formatLine(message: ProtocolMessage, config: RobotConfig): string;
+  parseLine(line: string, config: RobotConfig): ProtocolMessage; // throws on lines it does not understand
+}
+
+function createLineDriver(codec: LineCodec): ProtocolDriver {
+  const encoder = new TextEncoder();
+
+  return {
+    id: codec.id,
+    label: codec.label,
+    binary: false,
+    defaultSettings: codec.defaultSettings,
+    encode: (message, config, lineEnding) => encoder.encode(`${codec.formatLine(message, config)}${lineEnding}`),
+    createDecoder: config => {
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      // Any of CR, LF or CR+LF ends a line, whatever this side sends
+      return chunk => {
+        buffer += decoder.decode(chunk, { stream: true });
+        const lines = buffer.split(/\r\n|\r|\n/);
+        buffer = lines.pop() ?? '';
+
+        return lines
+          .map(line => line.trim())
+          .filter(Boolean)
+          .map(raw => {
+            try {
+              return { message: codec.parseLine(raw, config), raw };
+            } catch (error) {
+              return { message: null, raw, error: error instanceof Error ? error.message : 'Invalid line' };
+            }
+          });
+      };
+    }
+  };
+}
+
+// Wire values of the joints present in a message, keyed by joint config
+const wireValues = (joints: JointState, config: RobotConfig) =>
+  config.joints.map(joint => toWire(joint, joints[joint.name] || 0));
+
+const errorText = (line: string) => line.replace(/^error\s*:?\s*/i, '');
+
+// Text dialects put the sequence number in an N word: "N12 G06 ...", "Ok N12"
+const seqPrefix = (seq?: number) => (seq === undefined ? '' : `N${seq} `);
+const seqSuffix = (seq?: number) => (seq === undefined ? '' : ` N${seq}`);
+const OK_LINE = /^ok(?:\s+N(\d+))?$/i;
+const lineSeq = (line: string) => {
+  const match = line.match(/^N(\d+)\s/i);
+  return match ? parseInt(match[1], 10) : undefined;
+};
+const okMessage = (match: RegExpMatchArray): ProtocolMessage =>
+  (match[1] === undefined ? { type: 'ok' } : { type: 'ok', seq: parseInt(match[1], 10) });
+const withSeq = <T extends object>(message: T, seq?: number) => (seq === undefined ? message : { ...message, seq });
+
+const G06_CODEC: LineCodec = {
+  id: 'g06',
+  label: 'Elbot G06',
+  defaultSettings: DEFAULT_PORT_SETTINGS,
+  formatLine: (message, config) => {
+    switch (message.type) {
+      case 'move': return `${seqPrefix(message.seq)}${formatG06(message.joints, message.feedRate, config)}`;
+      case 'ok': return `Ok${seqSuffix(message.seq)}`;
+      case 'error': return `Error: ${message.message}`;
+      case 'query-position': return POSITION_QUERY;
+      case 'position': return formatPositionReport(message.joints, config);
+      case 'halt': return HALT_COMMAND;
+    }
+  },
+  parseLine: (line, config) => {
+    const ok = line.match(OK_LINE);
+    if (ok) return okMessage(ok);
+    if (/^error\b/i.test(line)) return { type: 'error', message: errorText(line) };
+    if (isPositionQuery(line)) return { type: 'query-position' };
+    if (line.toUpperCase() === HALT_COMMAND) return { type: 'halt' };
+
+    const reported = parsePositionReport(line, config);
+    if (reported) return { type: 'position', joints: reported };
+
+    const seq = lineSeq(line);
+    if (isG06(seq === undefined ? line : line.replace(/^N\d+\s+/i, ''))) {
+      const parsed = parseGCodeLine(line, config);
+      if (parsed) return withSeq({ type: 'move' as const, joints: parsed.joints, feedRate: parsed.feedRate }, seq);
+    }
+    throw new Error(`Unknown command '${line}'`);
+  }
+};
+
+export const G06_DRIVER = createLineDriver(G06_CODEC);
+
+// GRBL names axes by position rather than by the robot configuration's letters
+const GRBL_AXES = ['X', 'Y', 'Z', 'A', 'B', 'C', 'U', 'V', 'W'];
+const GRBL_WORD = /([A-Z])\s*([-+]?(?:\d+\.?\d*|\.\d+))/g;
+
+// "G1 X45.000 Y-30.000 ... F500" moves, "ok" / "error:msg" replies, "?" status
+// queries answered with "<Idle|MPos:45.000,-30.000,...>", "!" feed hold as the
+// halt. G0 moves at rapid speed.
+export const GRBL_DRIVER = createLineDriver({
+  id: 'grbl',
+  label: 'GRBL (G0/G1)',
+  defaultSettings: DEFAULT_PORT_SETTINGS,
+  formatLine: (message, config) => {
+    switch (message.type) {
+      case 'move': {
+        const words = wireValues(message.joints, config).map((value, index) => `${GRBL_AXES[index]}${value.toFixed(3)}`);
+        return `${seqPrefix(message.seq)}G1 ${words.join(' ')} F${message.feedRate}`;
+      }
+      case 'ok': return `ok${seqSuffix(message.seq)}`;
+      case 'error': return `error:${message.message}`;
+      case 'query-position': return '?';
+      case 'position':
+        return `<Idle|MPos:${wireValues(message.joints, config).map(value => value.toFixed(3)).join(',')}>`;
+      case 'halt': return '!';
+    }
+  },
+  parseLine: (line, config) => {
+    const ok = line.match(OK_LINE);
+    if (ok) return okMessage(ok);
+    if (/^error\b/i.test(line)) return { type: 'error', message: errorText(line) };
+    if (line === '?') return { type: 'query-position' };
+    if (line === '!') return { type: 'halt' };
+
+    const status = line.match(/^<[^|>]*\|MPos:([^|>]*)/);
+    if (status) {
+      const values = status[1].split(',').map(parseFloat);
+      if (values.length < config.joints.length || values.some(isNaN)) throw new Error('Incomplete status report');
+      const joints: JointState = {};
+      config.joints.forEach((joint, index) => {
+        joints[joint.name] = fromWire(joint, values[index]);
+      });
+      return { type: 'position', joints };
+    }
+
+    const words = new Map<string, number>();
+    for (const [, letter, value] of line.toUpperCase().matchAll(GRBL_WORD)) words.set(letter, parseFloat(value));
+    const motion = words.get('G');
+    if (motion === 0 || motion === 1) {
+      const joints: JointState = {};
+      config.joints.forEach((joint, index) => {
+        const value = words.get(GRBL_AXES[index]);
+        if (value !== undefined) joints[joint.name] = fromWire(joint, value);
+      });
+      if (Object.keys(joints).length === 0) throw new Error(`G${motion} without any axis words`);
+      const feedRate = motion === 0 ? RAPID_FEED_RATE : words.get('F') ?? DEFAULT_FEED_RATE;
+      return withSeq({ type: 'move' as const, joints, feedRate }, words.get('N'));
+    }
+    throw new Error(`Unsupported command '${line}'`);
+  }
+});
+
+// {"type":"move","joints":{"theta1":45,...},"feedRate":500,"seq":12}, {"type":"ok","seq":12},
+// {"type":"error","message":"..."}, {"type":"query-position"}, {"type":"position","joints":{...}},
+// {"type":"halt"}
+export const JSON_LINES_DRIVER = createLineDriver({
+  id: 'json-lines',
+  label: 'JSON lines',
+  defaultSettings: DEFAULT_PORT_SETTINGS,
+  formatLine: (message, config) => {
+    if (message.type !== 'move' && message.type !== 'position') return JSON.stringify(message);
+
+    const joints: Record<string, number> = {};
+    config.joints.forEach(joint => {
+      joints[joint.name] = Math.round(toWire(joint, message.joints[joint.name] || 0) * 1000) / 1000;
+    });
+    return JSON.stringify({ ...message, joints });
+  },
+  parseLine: (line, config) => {
+    let data;
+    try {
+      data = JSON.parse(line);
+    } catch {
+      throw new Error('Invalid JSON');
+    }
+
+    const readJoints = (value: unknown) => {
+      if (!value || typeof value !== 'object') throw new Error('Missing joints');
+      const joints: JointState = {};
+      config.joints.forEach(joint => {
+        const wire = (value as Record<string, unknown>)[joint.name];
+        if (typeof wire === 'number') joints[joint.name] = fromWire(joint, wire);
+      });
+      return joints;
+    };
+
+    const seq = Number.isInteger(data?.seq) ? data.seq as number : undefined;
+    switch (data?.type) {
+      case 'ok': return withSeq({ type: 'ok' as const }, seq);
+      case 'error': return { type: 'error', message: String(data.message ?? '') };
+      case 'query-position': return { type: 'query-position' };
+      case 'halt': return { type: 'halt' };
+      case 'position': return { type: 'position', joints: readJoints(data.joints) };
+      case 'move': {
+        const joints = readJoints(data.joints);
+        if (Object.keys(joints).length === 0) throw new Error('Move without any joints');
+        const feedRate = typeof data.feedRate === 'number' && data.feedRate > 0 ? data.feedRate : DEFAULT_FEED_RATE;
+        return withSeq({ type: 'move' as const, joints, feedRate }, seq);
+      }
+      default: throw new Error(`Unknown message type '${data?.type}'`);
+    }
+  }
+});
+
+// ---------------------------------------------------------------------------
+// Binary frames: 0xA5, type, payload length, payload, CRC-16 (little endian).
+// The CRC (CCITT-FALSE) covers type, length and payload. Joint values are
+// float32 little endian in configuration order; a move appends the feed rate.
+// A sequence number, when present, is a trailing uint16 on moves and acks.
+
+const FRAME_START = 0xa5;
+const FRAME_OVERHEAD = 5;
+
+const FRAME_TYPES: Record<ProtocolMessage['type'], number> = {
+  move: 0x01,
+  ok: 0x02,
+  error: 0x03,
+  'query-position': 0x04,
+  position: 0x05,
+  halt: 0x06
+};
+
+export function crc16(bytes: Uint8Array): number {
+  let crc = 0xffff;
+  bytes.forEach(byte => {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  });
+  return crc;
+}
+
+const encodeFloats = (values: number[]) => {
+  const payload = new Uint8Array(values.length * 4);
+  const view = new DataView(payload.buffer);
+  values.forEach((value, index) => view.setFloat32(index * 4, value, true));
+  return payload;
+};
+
+const decodeFloats = (payload: Uint8Array) => {
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  return Array.from({ length: payload.length / 4 }, (_, index) => view.getFloat32(index * 4, true));
+};
+
+const appendSeq = (payload: Uint8Array, seq?: number) => {
+  if (seq === undefined) return payload;
+  const result = new Uint8Array(payload.length + 2);
+  result.set(payload);
+  result[payload.length] = seq & 0xff;
+  result[payload.length + 1] = (seq >> 8) & 0xff;
+  return result;
+};
+
+const readSeq = (payload: Uint8Array, offset: number) => payload[offset] | (payload[offset + 1] << 8);
+
+function framePayload(message: ProtocolMessage, config: RobotConfig): Uint8Array {
+  switch (message.type) {
+    case 'move': return appendSeq(encodeFloats([...wireValues(message.joints, config), message.feedRate]), message.seq);
+    case 'ok': return appendSeq(new Uint8Array(0), message.seq);
+    case 'position': return encodeFloats(wireValues(message.joints, config));
+    case 'error': return new TextEncoder().encode(message.message).slice(0, 255);
+    default: return new Uint8Array(0);
+  }
+}
+
+function messageFromFrame(type: number, payload: Uint8Array, config: RobotConfig): ProtocolMessage {
+  const readJoints = (values: number[]) => {
+    const joints: JointState = {};
+    config.joints.forEach((joint, index) => {
+      joints[joint.name] = fromWire(joint, values[index]);
+    });
+    return joints;
+  };
+  const count = config.joints.length;
+
+  switch (type) {
+    case FRAME_TYPES.ok: return payload.length >= 2 ? { type: 'ok', seq: readSeq(payload, 0) } : { type: 'ok' };
+    case FRAME_TYPES.error: return { type: 'error', message: new TextDecoder().decode(payload) };
+    case FRAME_TYPES['query-position']: return { type: 'query-position' };
+    case FRAME_TYPES.halt: return { type: 'halt' };
+    case FRAME_TYPES.position:
+      if (payload.length !== count * 4) throw new Error('Position frame has the wrong length');
+      return { type: 'position', joints: readJoints(decodeFloats(payload)) };
+    case FRAME_TYPES.move: {
+      const size = (count + 1) * 4;
+      if (payload.length !== size && payload.length !== size + 2) throw new Error('Move frame has the wrong length');
+      const values = decodeFloats(payload.subarray(0, size));
+      const move = { type: 'move' as const, joints: readJoints(values), feedRate: values[count] };
+      return payload.length > size ? { ...move, seq: readSeq(payload, size) } : move;
+    }
+    default: throw new Error(`Unknown frame type 0x${type.toString(16)}`);
+  }
+}
+
+export const BINARY_DRIVER: ProtocolDriver = {
+  id: 'binary',
+  label: 'Binary frames (CRC-16)',
+  binary: true,
+  defaultSettings: DEFAULT_PORT_SETTINGS,
+  encode: (message, config) => {
+    const payload = framePayload(message, config);
+    const frame = new Uint8Array(payload.length + FRAME_OVERHEAD);
+    frame[0] = FRAME_START;
+    frame[1] = FRAME_TYPES[message.type];
+    frame[2] = payload.length;
+    frame.set(payload, 3);
+    const crc = crc16(frame.subarray(1, 3 + payload.length));
+    frame[3 + payload.length] = crc & 0xff;
+    frame[4 + payload.length] = crc >> 8;
+    return frame;
+  },
+  createDecoder: config => {
+    let buffer = new Uint8Array(0);
+
+    return chunk => {
+      const merged = new Uint8Array(buffer.length + chunk.length);
+      merged.set(buffer);
+      merged.set(chunk, buffer.length);
+      buffer = merged;
+
+      const frames: DecodedFrame[] = [];
+      while (buffer.length > 0) {
+        // Resynchronise on the next start byte, reporting whatever was skipped
+        const start = buffer.indexOf(FRAME_START);
+        if (start !== 0) {
+          const skipped = start === -1 ? buffer : buffer.subarray(0, start);
+          frames.push({ message: null, raw: toHex(skipped), error: 'Bytes outside a frame' });
+          buffer = start === -1 ? new Uint8Array(0) : buffer.slice(start);
+          continue;
+        }
+        if (buffer.length < 3) break;
+
+        const length = buffer[2];
+        if (buffer.length < length + FRAME_OVERHEAD) break;
+
+        const frame = buffer.subarray(0, length + FRAME_OVERHEAD);
+        const raw = toHex(frame);
+        const crc = frame[3 + length] | (frame[4 + length] << 8);
+        if (crc !== crc16(frame.subarray(1, 3 + length))) {
+          // Drop only the start byte; the real frame may begin inside this one
+          frames.push({ message: null, raw: toHex(frame.subarray(0, 1)), error: 'CRC mismatch' });
+          buffer = buffer.slice(1);
+          continue;
+        }
+
+        try {
+          frames.push({ message: messageFromFrame(frame[1], frame.subarray(3, 3 + length), config), raw });
+        } catch (error) {
+          frames.push({ message: null, raw, error: error instanceof Error ? error.message : 'Invalid frame' });
+        }
+        buffer = buffer.slice(length + FRAME_OVERHEAD);
+      }
+      return frames;
+    };
+  }
+};
+
+// ---------------------------------------------------------------------------
+
+export const PROTOCOL_DRIVERS: ProtocolDriver[] = [G06_DRIVER, GRBL_DRIVER, BINARY_DRIVER, JSON_LINES_DRIVER];
+
+export const DEFAULT_PROTOCOL_ID = G06_DRIVER.id;
+
+// Add a driver, or replace the one with the same id
+export function registerProtocolDriver(driver: ProtocolDriver) {
+  const index = PROTOCOL_DRIVERS.findIndex(entry => entry.id === driver.id);
+  if (index === -1) PROTOCOL_DRIVERS.push(driver);
+  else PROTOCOL_DRIVERS[index] = driver;
+}
+
+export function getProtocolDriver(id: string): ProtocolDriver {
+  return PROTOCOL_DRIVERS.find(driver => driver.id === id) ?? G06_DRIVER;
+}
+
+// Panels talk to the link in G06 lines; turn one into a message any driver can encode
+export function messageFromG06Line(line: string, config: RobotConfig): ProtocolMessage {
+  return G06_CODEC.parseLine(line.trim(), config);
+}
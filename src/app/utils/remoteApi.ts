@@ -0,0 +1,70 @@
+import { JointState, RobotConfig } from '../types/robot';
+import { fromWire, toWire } from './g06';
+import { toConfigFile } from './robotConfig';
+
+// Browser side of the /api/robot remote control API: the page follows the
+// arm that scripts drive through the server and reports poses set by hand.
+// Joint values cross the API in degrees (mm for prismatic joints). The events
+// and unit conversions are shared with the routes.
+
+export type RemoteEvent =
+  | { type: 'state'; joints: JointState; moving: boolean; origin?: string }
+  | { type: 'move'; id: number; target: JointState; feedRate: number; durationMs: number }
+  | { type: 'idle'; id: number; reason: 'finished' | 'stopped' };
+
+export interface RemoteEventHandlers {
+  onEvent: (event: RemoteEvent) => void;
+  onConnectionChange?: (connected: boolean) => void;
+}
+
+// API units to radians for the joints the robot has
+export function fromApiUnits(joints: JointState, config: RobotConfig): JointState {
+  return Object.fromEntries(config.joints.flatMap(joint =>
+    joints[joint.name] === undefined ? [] : [[joint.name, fromWire(joint, joints[joint.name])]]));
+}
+
+export function toApiUnits(joints: JointState, config: RobotConfig): JointState {
+  return Object.fromEntries(config.joints.map(joint => [joint.name, toWire(joint, joints[joint.name] ?? 0)]));
+}
+
+// Follow the event stream; EventSource reconnects on its own. Returns the close function.
+export function subscribeRemoteEvents(handlers: RemoteEventHandlers): () => void {
+  const events = new EventSource('/api/robot/events');
+  events.onopen = () => handlers.onConnectionChange?.(true);
+  events.onerror = () => handlers.onConnectionChange?.(false);
+  events.onmessage = (message) => {
+    try {
+      handlers.onEvent(JSON.parse(message.data));
+    } catch (error) {
+      console.error('Ignoring remote API event:', error);
+    }
+  };
+  return () => events.close();
+}
+
+async function request(path: string, method: string, body?: unknown) {
+  const response = await fetch(path, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  const result = await response.json().catch(() => null);
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.error ?? `Remote API answered ${response.status}`);
+  }
+  return result;
+}
+
+// Have the server check requests against the robot the page mirrors into
+export async function putRemoteConfig(config: RobotConfig, origin: string): Promise<void> {
+  await request('/api/robot/config', 'PUT', { config: toConfigFile(config), origin });
+}
+
+// Report a pose set in the page; origin lets the page skip the echo
+export async function putRemoteJoints(joints: JointState, origin: string): Promise<void> {
+  await request('/api/robot/joints', 'PUT', { joints, origin });
+}
+
+export async function stopRemoteMove(): Promise<void> {
+  await request('/api/robot/stop', 'POST');
+}
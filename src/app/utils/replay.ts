@@ -0,0 +1,96 @@
+import { JointState, RobotConfig } from '../types/robot';
+import { KinematicChain, forwardKinematics } from './kinematics';
+import { SessionEntry, StateKind } from './sessionLog';
+import { GCodeProgram } from './gcode';
+import { ProfileType, Trajectory, planMove, sampleTrajectory } from './trajectory';
+
+// Replay of a joint state sequence in the viewer, either recorded in a session
+// or planned from a program. Frames are what the timeline scrubs through; the
+// pose shown between two frames is interpolated.
+
+export interface ReplayFrame {
+  time: number; // seconds from the first frame
+  joints: JointState;
+}
+
+// Most points drawn for the end-effector trace; longer replays are thinned out
+const MAX_TRACE_POINTS = 1000;
+
+// Recorded states of one kind and robot
+export function framesFromSession(entries: SessionEntry[], kind: StateKind, robot: string): ReplayFrame[] {
+  const states = entries.filter(entry => entry.kind === kind && entry.robot === robot && entry.joints);
+  const start = states[0]?.time ?? 0;
+  return states.map(entry => ({ time: (entry.time - start) / 1000, joints: entry.joints! }));
+}
+
+// Trajectories played back to back, sampled every `interval` seconds
+export function framesFromTrajectories(trajectories: Trajectory[], interval = 0.02): ReplayFrame[] {
+  const frames: ReplayFrame[] = [];
+  let offset = 0;
+  trajectories.forEach((trajectory, index) => {
+    sampleTrajectory(trajectory, interval).forEach((sample, sampleIndex) => {
+      if (index > 0 && sampleIndex === 0) return; // same pose as the end of the previous one
+      frames.push({ time: offset + sample.time, joints: sample.positions });
+    });
+    offset += trajectory.duration;
+  });
+  return frames;
+}
+
+// The moves of a parsed G-code program as planned from its start position
+export function framesFromProgram(
+  program: GCodeProgram,
+  start: JointState,
+  config: RobotConfig,
+  profile: ProfileType
+): ReplayFrame[] {
+  return framesFromTrajectories(program.moves.map((move, index) => planMove(
+    index > 0 ? program.moves[index - 1].joints : start,
+    move.joints,
+    config,
+    { feedRate: move.feedRate, profile }
+  )));
+}
+
+export const replayDuration = (frames: ReplayFrame[]) => frames[frames.length - 1]?.time ?? 0;
+
+// Index of the last frame at or before the given time
+export function frameIndexAt(frames: ReplayFrame[], time: number): number {
+  let low = 0;
+  let high = frames.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (frames[middle].time <= time) low = middle;
+    else high = middle - 1;
+  }
+  return low;
+}
+
+// Pose at any time, linearly interpolated between the neighbouring frames
+export function statesAt(frames: ReplayFrame[], time: number): JointState {
+  const index = frameIndexAt(frames, time);
+  const frame = frames[index];
+  const next = frames[index + 1];
+  if (!next || next.time <= frame.time) return frame.joints;
+
+  const t = Math.max(0, Math.min(1, (time - frame.time) / (next.time - frame.time)));
+  return Object.fromEntries(Object.entries(frame.joints).map(([name, value]) => [
+    name,
+    value + ((next.joints[name] ?? value) - value) * t
+  ]));
+}
+
+export interface ReplayTrace {
+  points: [number, number, number][]; // TCP positions, base link frame
+  stride: number; // frames per point
+}
+
+export function tcpTrace(chain: KinematicChain, frames: ReplayFrame[]): ReplayTrace {
+  const stride = Math.max(1, Math.ceil(frames.length / MAX_TRACE_POINTS));
+  const points: [number, number, number][] = [];
+  for (let index = 0; index < frames.length; index += stride) {
+    const tcp = forwardKinematics(chain, frames[index].joints).elements;
+    points.push([tcp[12], tcp[13], tcp[14]]);
+  }
+  return { points, stride };
+}
@@ -0,0 +1,180 @@
+import { JointConfig, JointState, RobotConfig, URDFJoint, URDFRobot } from '../types/robot';
+import { JointLimits } from './inverseKinematics';
+import elbotConfig from '../config/elbot.json';
+
+// Single source of truth for joint names, limits, G-code letters, rate caps
+// and home positions. The default comes from config/elbot.json; other robots
+// can load their own JSON or derive it from the URDF <limit> tags.
+
+// Layout of a robot configuration JSON file. Angular values are in degrees
+// unless "units" is "radians"; prismatic joints are always in meters.
+export interface RobotConfigFile {
+  name: string;
+  units?: 'degrees' | 'radians';
+  joints: (Partial<JointConfig> & { name: string })[];
+}
+
+// Axis words handed out to joints that do not name their own
+const DEFAULT_LETTERS = ['X', 'Y', 'Z', 'W', 'U', 'V', 'A', 'B', 'C'];
+
+const DEFAULT_MAX_VELOCITY = Math.PI / 3; // rad/s
+const DEFAULT_MAX_ACCELERATION = (2 * Math.PI) / 3; // rad/s^2
+
+const degToRad = (deg: number) => (deg * Math.PI) / 180;
+
+export function parseRobotConfig(file: RobotConfigFile): RobotConfig {
+  if (!file || !Array.isArray(file.joints) || file.joints.length === 0) {
+    throw new Error('Robot configuration must list at least one joint');
+  }
+
+  const usedLetters = new Set(file.joints.map(joint => joint.letter).filter(Boolean));
+  const freeLetters = DEFAULT_LETTERS.filter(letter => !usedLetters.has(letter));
+
+  const joints = file.joints.map(joint => {
+    const type = joint.type ?? 'revolute';
+    const angular = type !== 'prismatic' && file.units !== 'radians';
+    const toInternal = (value: number) => (angular ? degToRad(value) : value);
+
+    const config: JointConfig = {
+      name: joint.name,
+      type,
+      letter: joint.letter ?? freeLetters.shift() ?? '',
+      min: toInternal(joint.min ?? -180),
+      max: toInternal(joint.max ?? 180),
+      maxVelocity: joint.maxVelocity !== undefined ? toInternal(joint.maxVelocity) : DEFAULT_MAX_VELOCITY,
+      maxAcceleration: joint.maxAcceleration !== undefined
+        ? toInternal(joint.maxAcceleration)
+        : DEFAULT_MAX_ACCELERATION,
+      home: toInternal(joint.home ?? 0)
+    };
+
+    const values = [config.min, config.max, config.maxVelocity, config.maxAcceleration, config.home];
+    if (typeof config.name !== 'string' || !values.every(Number.isFinite)) {
+      throw new Error(`Joint '${joint.name}' has a missing or non-numeric setting`);
+    }
+    if (!['revolute', 'continuous', 'prismatic'].includes(type)) {
+      throw new Error(`Joint '${joint.name}' has unknown type '${type}'`);
+    }
+    if (!config.letter) {
+      throw new Error(`No G-code letter left for joint '${joint.name}'`);
+    }
+    if (config.min >= config.max) {
+      throw new Error(`Joint '${joint.name}' has min >= max`);
+    }
+    if (config.home < config.min || config.home > config.max) {
+      throw new Error(`Joint '${joint.name}' home position is outside its limits`);
+    }
+    return config;
+  });
+
+  const names = new Set(joints.map(joint => joint.name));
+  const letters = new Set(joints.map(joint => joint.letter));
+  if (names.size !== joints.length) throw new Error('Duplicate joint names in robot configuration');
+  if (letters.size !== joints.length) throw new Error('Duplicate G-code letters in robot configuration');
+
+  return { name: file.name, joints };
+}
+
+export const DEFAULT_ROBOT_CONFIG = parseRobotConfig(elbotConfig as RobotConfigFile);
+
+// A parsed configuration as file contents, to send it where it is parsed again
+export function toConfigFile(config: RobotConfig): RobotConfigFile {
+  return { ...config, units: 'radians' };
+}
+
+export async function loadRobotConfig(url: string): Promise<RobotConfig> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load robot configuration '${url}': ${response.status} ${response.statusText}`);
+  }
+  return parseRobotConfig(await response.json());
+}
+
+// Build the configuration from the URDF's movable joints and their <limit> tags.
+// Values the URDF does not carry (letters, acceleration, home) come from the base config.
+export function configFromURDF(robot: URDFRobot, base: RobotConfig = DEFAULT_ROBOT_CONFIG): RobotConfig {
+  const baseJoints = new Map(base.joints.map(joint => [joint.name, joint]));
+  const movable = Object.values(robot.joints).filter((joint: URDFJoint & { mimicJoint?: string }) =>
+    (joint.jointType === 'revolute' || joint.jointType === 'continuous' || joint.jointType === 'prismatic') &&
+    !joint.mimicJoint
+  );
+
+  const usedLetters = new Set(
+    movable.map(joint => baseJoints.get(joint.urdfName)?.letter).filter(Boolean)
+  );
+  const freeLetters = DEFAULT_LETTERS.filter(letter => !usedLetters.has(letter));
+
+  const joints = movable.map(joint => {
+    const fallback = baseJoints.get(joint.urdfName);
+    const type = joint.jointType as JointConfig['type'];
+    const limitNode = joint.urdfNode?.querySelector('limit');
+    const hasLimits = type !== 'continuous' && !!limitNode;
+    const velocity = parseFloat(limitNode?.getAttribute('velocity') ?? '');
+
+    const min = hasLimits ? Number(joint.limit.lower) : fallback?.min ?? -Math.PI;
+    const max = hasLimits ? Number(joint.limit.upper) : fallback?.max ?? Math.PI;
+
+    return {
+      name: joint.urdfName,
+      type,
+      letter: fallback?.letter ?? freeLetters.shift() ?? '',
+      min,
+      max,
+      maxVelocity: velocity > 0 ? velocity : fallback?.maxVelocity ?? DEFAULT_MAX_VELOCITY,
+      maxAcceleration: fallback?.maxAcceleration ?? DEFAULT_MAX_ACCELERATION,
+      home: Math.max(min, Math.min(max, fallback?.home ?? 0))
+    };
+  });
+
+  return { name: robot.robotName || base.name, joints };
+}
+
+export function getJointConfig(config: RobotConfig, jointName: string): JointConfig | undefined {
+  return config.joints.find(joint => joint.name === jointName);
+}
+
+export function getJointLimits(config: RobotConfig): JointLimits {
+  const limits: JointLimits = {};
+  config.joints.forEach(joint => {
+    limits[joint.name] = { min: joint.min, max: joint.max };
+  });
+  return limits;
+}
+
+export function homeState(config: RobotConfig): JointState {
+  const state: JointState = {};
+  config.joints.forEach(joint => {
+    state[joint.name] = joint.home;
+  });
+  return state;
+}
+
+export function clampJointValue(config: RobotConfig, jointName: string, value: number): number {
+  const joint = getJointConfig(config, jointName);
+  return joint ? Math.max(joint.min, Math.min(joint.max, value)) : value;
+}
+
+// Joint value in the units shown to users: degrees, or mm for prismatic joints
+export function toDisplayUnits(joint: JointConfig, value: number): number {
+  return joint.type === 'prismatic' ? value * 1000 : (value * 180) / Math.PI;
+}
+
+export interface FollowingError {
+  joint: string;
+  error: number; // actual minus commanded, degrees or mm
+  exceeded: boolean;
+}
+
+// Difference between where the arm reports itself and where it was commanded,
+// checked against a threshold in display units
+export function followingErrors(
+  config: RobotConfig,
+  commanded: JointState,
+  actual: JointState,
+  threshold: number
+): FollowingError[] {
+  return config.joints.map(joint => {
+    const error = toDisplayUnits(joint, (actual[joint.name] ?? 0) - (commanded[joint.name] ?? 0));
+    return { joint: joint.name, error, exceeded: Math.abs(error) > threshold };
+  });
+}
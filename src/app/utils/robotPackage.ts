@@ -0,0 +1,135 @@
+import { unzipSync } from 'fflate';
+
+// Robot descriptions loaded at runtime: the bundled Elbot, or a URDF dropped in
+// by the user together with its meshes (loose files or a .zip). Uploaded files
+// are exposed under a virtual path prefix and mapped to object URLs through the
+// LoadingManager's URL modifier, so relative and package:// mesh paths resolve
+// the same way they would on a web server.
+
+export interface RobotSource {
+  label: string;
+  url: string; // URDF location, possibly under PACKAGE_ROOT
+  workingPath: string; // prefix for relative mesh paths
+  packages: string | ((targetPkg: string) => string); // handed to URDFLoader.packages
+  files?: Map<string, string>; // virtual path -> object URL for uploaded files
+}
+
+export const DEFAULT_ROBOT_SOURCE: RobotSource = {
+  label: 'Elbot (built-in)',
+  url: '/elbot_ros.urdf',
+  workingPath: '/',
+  packages: ''
+};
+
+// Virtual directory uploaded files live under
+const PACKAGE_ROOT = '/robot-package/';
+
+const MESH_TYPES: Record<string, string> = {
+  stl: 'model/stl',
+  dae: 'model/vnd.collada+xml',
+  urdf: 'application/xml',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg'
+};
+
+const extension = (path: string) => path.split('.').pop()?.toLowerCase() ?? '';
+const basename = (path: string) => path.split('/').pop() ?? path;
+const dirname = (path: string) => path.split('/').slice(0, -1).join('/');
+
+// Collapse "." and ".." segments and duplicate slashes
+export function normalizePath(path: string): string {
+  const segments: string[] = [];
+  path.split('/').forEach(segment => {
+    if (segment === '..') segments.pop();
+    else if (segment && segment !== '.') segments.push(segment);
+  });
+  return (path.startsWith('/') ? '/' : '') + segments.join('/');
+}
+
+// Find the object URL for a path requested by the loader. Falls back to a
+// case-insensitive file name match, since loose uploads lose their directories.
+export function resolvePackageUrl(source: RobotSource, url: string): string {
+  if (!source.files || !url.startsWith(PACKAGE_ROOT)) return url;
+
+  const path = normalizePath(decodeURIComponent(url));
+  const exact = source.files.get(path);
+  if (exact) return exact;
+
+  const name = basename(path).toLowerCase();
+  for (const [filePath, objectUrl] of source.files) {
+    if (basename(filePath).toLowerCase() === name) return objectUrl;
+  }
+  return url;
+}
+
+// Map an object URL back to the path it was uploaded as, for error messages
+export function describePackageUrl(source: RobotSource, url: string): string {
+  if (source.files) {
+    for (const [filePath, objectUrl] of source.files) {
+      if (objectUrl === url) return filePath.slice(PACKAGE_ROOT.length);
+    }
+  }
+  return url.startsWith(PACKAGE_ROOT) ? url.slice(PACKAGE_ROOT.length) : url;
+}
+
+// Build a source from uploaded files: a single .zip, or a URDF plus its meshes
+export async function robotSourceFromFiles(fileList: FileList | File[]): Promise<RobotSource> {
+  const entries: { path: string; data: Blob }[] = [];
+
+  for (const file of Array.from(fileList)) {
+    if (extension(file.name) === 'zip') {
+      const archive = unzipSync(new Uint8Array(await file.arrayBuffer()));
+      Object.entries(archive).forEach(([path, data]) => {
+        if (path.endsWith('/') || path.startsWith('__MACOSX/')) return;
+        const type = MESH_TYPES[extension(path)] ?? 'application/octet-stream';
+        entries.push({ path, data: new Blob([data as BlobPart], { type }) });
+      });
+    } else {
+      entries.push({ path: file.webkitRelativePath || file.name, data: file });
+    }
+  }
+
+  const urdfEntries = entries.filter(entry => extension(entry.path) === 'urdf');
+  if (urdfEntries.length === 0) {
+    throw new Error('No .urdf file found in the selection');
+  }
+  // Prefer the top-most URDF when an archive carries several
+  const urdf = urdfEntries.sort((a, b) => a.path.split('/').length - b.path.split('/').length)[0];
+
+  const files = new Map<string, string>();
+  entries.forEach(entry => {
+    files.set(normalizePath(PACKAGE_ROOT + entry.path), URL.createObjectURL(entry.data));
+  });
+
+  const urdfPath = normalizePath(PACKAGE_ROOT + urdf.path);
+  const urdfDir = dirname(urdfPath);
+  const directories = new Set(Array.from(files.keys()).map(dirname));
+
+  // package://<pkg>/... resolves to the shallowest directory named <pkg>; without one,
+  // assume the usual <pkg>/urdf/robot.urdf layout and use the URDF directory's parent
+  const packages = (targetPkg: string) => {
+    const matches = Array.from(directories)
+      .flatMap(dir => {
+        const segments = dir.split('/');
+        const index = segments.lastIndexOf(targetPkg);
+        return index >= 0 ? [segments.slice(0, index + 1).join('/')] : [];
+      })
+      .sort((a, b) => a.length - b.length);
+    if (matches.length > 0) return matches[0];
+    return urdfDir === PACKAGE_ROOT.slice(0, -1) ? urdfDir : dirname(urdfDir);
+  };
+
+  return {
+    label: basename(urdf.path),
+    url: urdfPath,
+    workingPath: `${urdfDir}/`,
+    packages,
+    files
+  };
+}
+
+// Release the object URLs held by an uploaded source
+export function releaseRobotSource(source: RobotSource) {
+  source.files?.forEach(objectUrl => URL.revokeObjectURL(objectUrl));
+}
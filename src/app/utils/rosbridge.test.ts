@@ -0,0 +1,130 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_FEED_RATE } from './g06';
+import { DEFAULT_ROBOT_CONFIG, parseRobotConfig } from './robotConfig';
+import { MockRosbridge } from './mockRosbridge';
+import {
+  JOINT_STATE_TYPE,
+  JOINT_TRAJECTORY_TYPE,
+  JointTrajectoryMessage,
+  jointStateMessage,
+  parseJointStateMessage,
+  parseTrajectoryGoal,
+  rosTime
+} from './rosbridge';
+
+const config = parseRobotConfig({
+  name: 'two-axis',
+  joints: [
+    { name: 'base', letter: 'A', min: -90, max: 90 },
+    { name: 'lift', letter: 'B', type: 'prismatic', min: 0, max: 0.5 }
+  ]
+});
+
+const deg = (value: number) => (value * Math.PI) / 180;
+
+const trajectory = (points: [number[], number?][]): JointTrajectoryMessage => ({
+  joint_names: ['base', 'lift'],
+  points: points.map(([positions, time]) => ({
+    positions,
+    ...(time === undefined ? {} : { time_from_start: rosTime(time, 2) })
+  }))
+});
+
+describe('parseTrajectoryGoal', () => {
+  it('sets each feed rate so the point is reached at its time', () => {
+    const goal = parseTrajectoryGoal(trajectory([[[deg(30), 0.1], 1], [[deg(60), 0.1], 3]]), config, { base: 0, lift: 0 });
+    assert.deepEqual(goal.waypoints, [{ base: deg(30), lift: 0.1 }, { base: deg(60), lift: 0.1 }]);
+    assert.deepEqual(goal.feedRates, [1800, 900]);
+  });
+
+  it('uses the default feed rate for points without a time', () => {
+    const goal = parseTrajectoryGoal(trajectory([[[deg(10), 0]]]), config, {});
+    assert.deepEqual(goal.feedRates, [DEFAULT_FEED_RATE]);
+  });
+
+  it('drops a first point at time 0 that is the start pose', () => {
+    const start = { base: deg(10), lift: 0.2 };
+    const goal = parseTrajectoryGoal(trajectory([[[deg(10), 0.2], 0], [[deg(40), 0.2], 2]]), config, start);
+    assert.deepEqual(goal.waypoints, [{ base: deg(40), lift: 0.2 }]);
+    assert.deepEqual(goal.feedRates, [900]);
+  });
+
+  it('rejects a first point at time 0 away from the start pose', () => {
+    assert.throws(
+      () => parseTrajectoryGoal(trajectory([[[deg(20), 0], 0], [[deg(40), 0], 2]]), config, { base: 0, lift: 0 }),
+      /Point 1 is at time 0 but not at the current pose/
+    );
+  });
+
+  it('rejects points out of order, outside the limits or for unknown joints', () => {
+    assert.throws(
+      () => parseTrajectoryGoal(trajectory([[[deg(20), 0], 2], [[deg(40), 0], 2]]), config, {}),
+      /Point 2 does not come after the one before it/
+    );
+    assert.throws(
+      () => parseTrajectoryGoal(trajectory([[[deg(120), 0], 1]]), config, {}),
+      /Point 1 puts base outside its limits/
+    );
+    assert.throws(
+      () => parseTrajectoryGoal({ joint_names: ['elbow'], points: [{ positions: [0] }] }, config, {}),
+      /Unknown joint elbow/
+    );
+  });
+});
+
+describe('MockRosbridge', () => {
+  let server: MockRosbridge | null = null;
+  afterEach(() => {
+    server?.close();
+    server = null;
+  });
+
+  // Next message on a topic, or null if none arrives in time
+  const nextMessage = (subscribe: (handler: (msg: unknown) => void) => () => void, timeoutMs = 200) =>
+    new Promise<unknown>(resolve => {
+      const timer = setTimeout(() => {
+        unsubscribe();
+        resolve(null);
+      }, timeoutMs);
+      const unsubscribe = subscribe(msg => {
+        clearTimeout(timer);
+        unsubscribe();
+        resolve(msg);
+      });
+    });
+
+  it('relays a published joint state to a subscriber of another client', async () => {
+    server = new MockRosbridge();
+    const publisher = server.connect();
+    const subscriber = server.connect();
+    const states = { base: deg(15), lift: 0.25 };
+
+    const received = nextMessage(handler => subscriber.subscribe('/joint_states', JOINT_STATE_TYPE, handler));
+    publisher.publish('/joint_states', JOINT_STATE_TYPE, jointStateMessage(states, config, 2));
+    assert.deepEqual(parseJointStateMessage(await received, config), states);
+  });
+
+  it('stops delivering once unsubscribed', async () => {
+    server = new MockRosbridge();
+    const client = server.connect();
+    let count = 0;
+    const unsubscribe = client.subscribe('/joint_states', JOINT_STATE_TYPE, () => count++);
+    unsubscribe();
+
+    client.publish('/joint_states', JOINT_STATE_TYPE, jointStateMessage({ base: 0 }, config, 1));
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert.equal(count, 0);
+  });
+
+  it('sends a test goal the robot accepts', async () => {
+    server = new MockRosbridge();
+    const client = server.connect();
+    const received = nextMessage(handler => client.subscribe('/joint_trajectory', JOINT_TRAJECTORY_TYPE, handler));
+    server.sendTestTrajectory(DEFAULT_ROBOT_CONFIG, {}, 1);
+
+    const goal = parseTrajectoryGoal(await received, DEFAULT_ROBOT_CONFIG, {});
+    assert.equal(goal.waypoints.length, 3);
+    assert.ok(goal.feedRates.every(feedRate => feedRate > 0));
+  });
+});
@@ -0,0 +1,279 @@
+import { JointState, RobotConfig } from '../types/robot';
+import { DEFAULT_FEED_RATE } from './g06';
+
+// Client for the rosbridge v2 protocol: JSON operations over a WebSocket to a
+// rosbridge_server, which relays them into the ROS graph. Only topics are used:
+// the arm's joint states go out as sensor_msgs/JointState, or come in from an
+// external source, and trajectory_msgs/JointTrajectory messages arrive as goals.
+// Joint values are radians (meters for prismatic joints) on both sides.
+
+export const DEFAULT_ROSBRIDGE_URL = 'ws://localhost:9090';
+// Connects to the in-page mock server instead of a WebSocket
+export const MOCK_ROSBRIDGE_URL = 'mock';
+
+// rosbridge resolves these ROS 1 style names on ROS 2 as well
+export const JOINT_STATE_TYPE = 'sensor_msgs/JointState';
+export const JOINT_TRAJECTORY_TYPE = 'trajectory_msgs/JointTrajectory';
+
+export const DEFAULT_JOINT_STATES_TOPIC = '/joint_states';
+export const DEFAULT_TRAJECTORY_TOPIC = '/joint_trajectory';
+
+// Time stamps and durations are {secs, nsecs} in ROS 1 and {sec, nanosec} in ROS 2
+export type RosVersion = 1 | 2;
+
+export interface RosTime {
+  sec?: number;
+  nanosec?: number;
+  secs?: number;
+  nsecs?: number;
+}
+
+export interface JointStateMessage {
+  header: { stamp: RosTime; frame_id: string };
+  name: string[];
+  position: number[];
+  velocity: number[];
+  effort: number[];
+}
+
+export interface JointTrajectoryPoint {
+  positions: number[];
+  velocities?: number[];
+  time_from_start?: RosTime;
+}
+
+export interface JointTrajectoryMessage {
+  joint_names: string[];
+  points: JointTrajectoryPoint[];
+}
+
+// A JointTrajectory resolved against the robot: absolute targets and the feed
+// rate that reaches each one on time
+export interface TrajectoryGoal {
+  waypoints: JointState[]; // radians, one per point
+  feedRates: number[]; // degrees/minute, one per point
+}
+
+// Operations exchanged with the server (rosbridge v2 protocol)
+type RosbridgeOperation =
+  | { op: 'advertise'; id?: string; topic: string; type: string }
+  | { op: 'unadvertise'; id?: string; topic: string }
+  | { op: 'publish'; id?: string; topic: string; msg: unknown }
+  | { op: 'subscribe'; id?: string; topic: string; type: string; throttle_rate?: number; queue_length?: number }
+  | { op: 'unsubscribe'; id?: string; topic: string }
+  | { op: 'status'; id?: string; level: string; msg: string };
+
+export const parseOperation = (data: string): RosbridgeOperation | null => {
+  try {
+    const operation = JSON.parse(data);
+    return operation && typeof operation.op === 'string' ? operation : null;
+  } catch {
+    return null;
+  }
+};
+
+// Text channel to a server: a browser WebSocket or the mock
+export interface RosbridgeSocket {
+  send(data: string): void;
+  close(): void;
+}
+
+export interface RosbridgeHandlers {
+  onClose?: (error?: Error) => void;
+  onStatus?: (level: string, message: string) => void; // status operations sent by the server
+}
+
+interface Subscription {
+  topic: string;
+  handler: (msg: unknown) => void;
+}
+
+export class RosbridgeClient {
+  private subscriptions = new Map<string, Subscription>();
+  private advertised = new Set<string>();
+  private nextId = 0;
+  private closed = false;
+
+  constructor(
+    readonly label: string,
+    private socket: RosbridgeSocket,
+    private handlers: RosbridgeHandlers = {}
+  ) {}
+
+  // Handle a frame received from the server
+  receive(data: string) {
+    const operation = parseOperation(data);
+    if (operation?.op === 'publish') {
+      this.subscriptions.forEach(subscription => {
+        if (subscription.topic === operation.topic) subscription.handler(operation.msg);
+      });
+    } else if (operation?.op === 'status') {
+      this.handlers.onStatus?.(operation.level, operation.msg);
+    }
+  }
+
+  publish(topic: string, type: string, msg: unknown) {
+    if (!this.advertised.has(topic)) {
+      this.advertised.add(topic);
+      this.send({ op: 'advertise', id: this.createId('advertise'), topic, type });
+    }
+    this.send({ op: 'publish', topic, msg });
+  }
+
+  // Receive messages on a topic, at most one per throttleMs; returns the unsubscribe function
+  subscribe(topic: string, type: string, handler: (msg: unknown) => void, throttleMs = 0): () => void {
+    const id = this.createId('subscribe');
+    this.subscriptions.set(id, { topic, handler });
+    this.send({ op: 'subscribe', id, topic, type, throttle_rate: throttleMs, queue_length: 1 });
+    return () => {
+      if (!this.subscriptions.delete(id)) return;
+      this.send({ op: 'unsubscribe', id, topic });
+    };
+  }
+
+  close() {
+    if (this.closed) return;
+    this.advertised.forEach(topic => this.send({ op: 'unadvertise', topic }));
+    this.closed = true;
+    this.subscriptions.clear();
+    this.advertised.clear();
+    this.socket.close();
+  }
+
+  private send(operation: RosbridgeOperation) {
+    if (!this.closed) this.socket.send(JSON.stringify(operation));
+  }
+
+  private createId(op: string) {
+    return `${op}:${this.label}:${++this.nextId}`;
+  }
+}
+
+// Connect to a rosbridge server; resolves once the WebSocket is open
+export function openRosbridge(url: string, handlers: RosbridgeHandlers = {}): Promise<RosbridgeClient> {
+  return new Promise((resolve, reject) => {
+    let client: RosbridgeClient | null = null;
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(url);
+    } catch (error) {
+      reject(error instanceof Error ? error : new Error(`Invalid rosbridge URL: ${url}`));
+      return;
+    }
+
+    socket.onopen = () => {
+      client = new RosbridgeClient(url, socket, handlers);
+      resolve(client);
+    };
+    socket.onmessage = (event) => client?.receive(String(event.data));
+    socket.onclose = (event) => {
+      if (!client) {
+        reject(new Error(`Could not reach rosbridge at ${url}`));
+      } else {
+        handlers.onClose?.(event.wasClean ? undefined : new Error('Lost connection to rosbridge'));
+      }
+    };
+  });
+}
+
+// How far a point at time 0 may be from the start: radians, meters for prismatic joints
+const START_TOLERANCE = 1e-3;
+
+const isNumberArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(entry => typeof entry === 'number' && Number.isFinite(entry));
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(entry => typeof entry === 'string');
+
+export function rosTime(seconds: number, version: RosVersion): RosTime {
+  const whole = Math.floor(seconds);
+  const nanoseconds = Math.round((seconds - whole) * 1e9);
+  return version === 1 ? { secs: whole, nsecs: nanoseconds } : { sec: whole, nanosec: nanoseconds };
+}
+
+export const rosSeconds = (time: RosTime) =>
+  (time.sec ?? time.secs ?? 0) + (time.nanosec ?? time.nsecs ?? 0) / 1e9;
+
+// Joint states of the robot in configuration order, stamped now
+export function jointStateMessage(states: JointState, config: RobotConfig, version: RosVersion): JointStateMessage {
+  return {
+    header: { stamp: rosTime(Date.now() / 1000, version), frame_id: '' },
+    name: config.joints.map(joint => joint.name),
+    position: config.joints.map(joint => states[joint.name] ?? 0),
+    velocity: [],
+    effort: []
+  };
+}
+
+// Positions of the robot's joints from a JointState message; joints the robot
+// does not have are ignored
+export function parseJointStateMessage(msg: unknown, config: RobotConfig): JointState {
+  const { name, position } = (msg ?? {}) as Partial<JointStateMessage>;
+  if (!isStringArray(name) || !isNumberArray(position) || name.length !== position.length) {
+    throw new Error('JointState needs name and position arrays of the same length');
+  }
+  return Object.fromEntries(name.flatMap((jointName, index) =>
+    config.joints.some(joint => joint.name === jointName) ? [[jointName, position[index]]] : []));
+}
+
+// Resolve a JointTrajectory from the given start. Joints a point leaves out keep
+// their value. Points with time_from_start set the feed rate so each one is reached
+// on time as far as the joint limits allow; without it the default feed rate is used.
+// A first point at time 0 is the pose the trajectory starts from, so it adds no move
+// and has to match the start. Anything the arm cannot do as asked is rejected rather
+// than clamped.
+export function parseTrajectoryGoal(msg: unknown, config: RobotConfig, start: JointState): TrajectoryGoal {
+  const { joint_names: names, points } = (msg ?? {}) as Partial<JointTrajectoryMessage>;
+  if (!isStringArray(names) || names.length === 0) throw new Error('JointTrajectory has no joint_names');
+  if (!Array.isArray(points) || points.length === 0) throw new Error('JointTrajectory has no points');
+
+  const joints = names.map(name => {
+    const joint = config.joints.find(entry => entry.name === name);
+    if (!joint) throw new Error(`Unknown joint ${name}`);
+    return joint;
+  });
+
+  const waypoints: JointState[] = [];
+  const feedRates: number[] = [];
+  let previous = start;
+  let previousTime = 0;
+
+  points.forEach((point, index) => {
+    const label = `Point ${index + 1}`;
+    if (!isNumberArray(point?.positions) || point.positions.length !== names.length) {
+      throw new Error(`${label} needs one position per joint name`);
+    }
+    const target = { ...previous };
+    joints.forEach((joint, jointIndex) => {
+      const value = point.positions[jointIndex];
+      if (joint.type !== 'continuous' && (value < joint.min || value > joint.max)) {
+        throw new Error(`${label} puts ${joint.name} outside its limits`);
+      }
+      target[joint.name] = value;
+    });
+
+    const time = point.time_from_start ? rosSeconds(point.time_from_start) : null;
+    if (index === 0 && time === 0) {
+      if (joints.some(joint => Math.abs(target[joint.name] - (start[joint.name] ?? 0)) > START_TOLERANCE)) {
+        throw new Error(`${label} is at time 0 but not at the current pose`);
+      }
+      return;
+    }
+
+    let feedRate = DEFAULT_FEED_RATE;
+    if (time !== null) {
+      if (!(time > previousTime)) throw new Error(`${label} does not come after the one before it`);
+      const maxDeltaDeg = Math.max(0, ...config.joints
+        .filter(joint => joint.type !== 'prismatic')
+        .map(joint => Math.abs(((target[joint.name] ?? 0) - (previous[joint.name] ?? 0)) * 180 / Math.PI)));
+      feedRate = Math.max(1, Math.round((maxDeltaDeg / (time - previousTime)) * 60));
+      previousTime = time;
+    }
+
+    waypoints.push(target);
+    feedRates.push(feedRate);
+    previous = target;
+  });
+
+  return { waypoints, feedRates };
+}
@@ -0,0 +1,71 @@
+import * as THREE from 'three';
+import { JointState } from '../types/robot';
+import { CollisionGuard, CollisionReport, findInTrajectory } from './collision';
+import { KinematicChain, forwardKinematics } from './kinematics';
+import { createId } from './teachPendant';
+
+// Cartesian keep-out zones: boxes in the cell frame (meters) the tool centre point
+// must never enter. They are enforced through the same guard as collisions, so
+// every panel that refuses colliding moves refuses these too. A robot whose base
+// is not at the cell origin passes its base transform along with its chain.
+
+export interface KeepOutZone {
+  id: string;
+  name: string;
+  center: [number, number, number];
+  size: [number, number, number];
+}
+
+// Name reported for the TCP in place of a link
+export const TCP_NAME = 'TCP';
+
+// 200 mm cube beside the robot, to be moved where it is needed
+export function createKeepOutZone(name: string): KeepOutZone {
+  return { id: createId(), name, center: [0, 0.4, 0.1], size: [0.2, 0.2, 0.2] };
+}
+
+export function zoneContains(zone: KeepOutZone, point: THREE.Vector3): boolean {
+  return zone.center.every((center, axis) =>
+    Math.abs(point.getComponent(axis) - center) <= zone.size[axis] / 2
+  );
+}
+
+const _point = new THREE.Vector3();
+
+// Zones the TCP is inside in the given pose
+export function checkKeepOut(
+  chain: KinematicChain,
+  zones: KeepOutZone[],
+  jointStates: JointState,
+  base?: THREE.Matrix4
+): CollisionReport | null {
+  if (zones.length === 0) return null;
+  _point.setFromMatrixPosition(forwardKinematics(chain, jointStates));
+  if (base) _point.applyMatrix4(base);
+  const contacts = zones
+    .filter(zone => zoneContains(zone, _point))
+    .map(zone => ({ link: TCP_NAME, other: zone.name }));
+  return contacts.length > 0 ? { links: [], contacts } : null;
+}
+
+// Collision checks plus keep-out zones behind one guard; null when there is nothing to check
+export function createSafetyGuard(
+  collisionGuard: CollisionGuard | null,
+  chain: KinematicChain | null,
+  zones: KeepOutZone[],
+  base?: THREE.Matrix4
+): CollisionGuard | null {
+  if (!chain || zones.length === 0) return collisionGuard;
+
+  const checkPose = (jointStates: JointState): CollisionReport | null => {
+    const collision = collisionGuard?.checkPose(jointStates) ?? null;
+    const keepOut = checkKeepOut(chain, zones, jointStates, base);
+    if (!collision || !keepOut) return collision ?? keepOut;
+    return { links: collision.links, contacts: [...collision.contacts, ...keepOut.contacts] };
+  };
+
+  return {
+    checkPose,
+    checkTrajectory: trajectory => findInTrajectory(trajectory, checkPose)
+  };
+}
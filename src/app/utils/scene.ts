@@ -0,0 +1,314 @@
+import * as THREE from 'three';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { IDENTITY_POSE, Pose, poseToMatrix, matrixToPose } from './kinematics';
+import { BoxObstacle, MeshObstacle, Obstacle, prepareGeometry } from './collision';
+import { createId } from './teachPendant';
+
+// The environment of the cell: fixtures drawn in the viewer and, unless turned
+// off, checked as obstacles, plus named work-object frames that waypoints can be
+// taught relative to. Everything is placed in the cell frame (meters, z up), a
+// frame optionally on top of a fixture so it follows the fixture around.
+
+export type PrimitiveShape = 'table' | 'box' | 'cylinder';
+
+interface SceneObjectBase {
+  id: string;
+  name: string;
+  pose: Pose; // tables: centre of the footprint on the floor; boxes and cylinders: centre; parts: file origin
+  color: string;
+  obstacle: boolean;
+}
+
+export interface PrimitiveObject extends SceneObjectBase {
+  shape: PrimitiveShape;
+  size: [number, number, number]; // bounding box; cylinders stand along z
+}
+
+// Imported STL/OBJ/GLB part, merged into one triangle soup in meters
+export interface PartObject extends SceneObjectBase {
+  shape: 'part';
+  fileName: string;
+  geometry: THREE.BufferGeometry;
+}
+
+export type SceneObject = PrimitiveObject | PartObject;
+
+export interface WorkObjectFrame {
+  id: string;
+  name: string;
+  parentId: string | null; // scene object the frame sits on, null for the cell itself
+  pose: Pose; // relative to the parent
+}
+
+export interface SceneLayout {
+  objects: SceneObject[];
+  frames: WorkObjectFrame[];
+}
+
+export const EMPTY_SCENE: SceneLayout = { objects: [], frames: [] };
+
+const STORAGE_KEY = 'elbot.scene';
+const FILE_VERSION = 1;
+
+// Thickness of a table top and width of its legs
+const TABLE_TOP = 0.04;
+const TABLE_LEG = 0.05;
+
+const PRIMITIVE_DEFAULTS: Record<PrimitiveShape, { size: [number, number, number]; color: string; z: number }> = {
+  table: { size: [1.2, 0.8, 0.7], color: '#a16207', z: 0 },
+  box: { size: [0.2, 0.2, 0.2], color: '#f59e0b', z: 0.1 },
+  cylinder: { size: [0.15, 0.15, 0.3], color: '#0ea5e9', z: 0.15 }
+};
+
+export function createPrimitiveObject(shape: PrimitiveShape, name: string): PrimitiveObject {
+  const { size, color, z } = PRIMITIVE_DEFAULTS[shape];
+  return {
+    id: createId(),
+    name,
+    shape,
+    size,
+    color,
+    obstacle: true,
+    pose: { position: [0.5, 0, z], rpy: [0, 0, 0] }
+  };
+}
+
+// A frame on an object starts in the middle of its top face
+export function createWorkObjectFrame(name: string, parent: SceneObject | null = null): WorkObjectFrame {
+  const top = !parent || parent.shape === 'part' ? 0 : parent.shape === 'table' ? parent.size[2] : parent.size[2] / 2;
+  return { id: createId(), name, parentId: parent?.id ?? null, pose: { position: [0, 0, top], rpy: [0, 0, 0] } };
+}
+
+// Boxes a table is built from, relative to its pose: the top and four legs
+export function tableParts([length, width, height]: [number, number, number]) {
+  const legHeight = Math.max(0, height - TABLE_TOP);
+  const x = Math.max(0, length / 2 - TABLE_LEG / 2);
+  const y = Math.max(0, width / 2 - TABLE_LEG / 2);
+  return [
+    { size: [length, width, TABLE_TOP] as [number, number, number], position: [0, 0, height - TABLE_TOP / 2] as [number, number, number] },
+    ...[[x, y], [-x, y], [x, -y], [-x, -y]].map(([legX, legY]) => ({
+      size: [TABLE_LEG, TABLE_LEG, legHeight] as [number, number, number],
+      position: [legX, legY, legHeight / 2] as [number, number, number]
+    }))
+  ];
+}
+
+const cylinders = new Map<string, THREE.BufferGeometry>();
+
+// Cylinder standing along z and filling the given bounding box; shared by size,
+// so the collision BVH is only built once per size
+export function cylinderGeometry(size: [number, number, number]): THREE.BufferGeometry {
+  const key = size.join(',');
+  let geometry = cylinders.get(key);
+  if (!geometry) {
+    geometry = new THREE.CylinderGeometry(0.5, 0.5, 1, 32)
+      .rotateX(Math.PI / 2)
+      .scale(...size);
+    cylinders.set(key, prepareGeometry(geometry));
+  }
+  return geometry;
+}
+
+// Pose of a work-object frame in the cell frame; frames on a deleted object fall back to the cell
+export function frameMatrix(frame: WorkObjectFrame, objects: SceneObject[]): THREE.Matrix4 {
+  const parent = objects.find(object => object.id === frame.parentId);
+  const local = poseToMatrix(frame.pose);
+  return parent ? poseToMatrix(parent.pose).multiply(local) : local;
+}
+
+// Scene objects that take part in the collision checks, as cell frame obstacles
+export function sceneObstacles(scene: SceneLayout): Obstacle[] {
+  return scene.objects.filter(object => object.obstacle).flatMap((object): Obstacle[] => {
+    if (object.shape === 'box') {
+      return [{ id: object.id, name: object.name, type: 'box', size: object.size, pose: object.pose }];
+    }
+    if (object.shape === 'table') {
+      const base = poseToMatrix(object.pose);
+      return tableParts(object.size).map((part, index): BoxObstacle => ({
+        id: `${object.id}-${index}`,
+        name: object.name,
+        type: 'box',
+        size: part.size,
+        pose: matrixToPose(base.clone().multiply(new THREE.Matrix4().makeTranslation(...part.position)))
+      }));
+    }
+    const geometry = object.shape === 'part' ? object.geometry : cylinderGeometry(object.size);
+    const mesh: MeshObstacle = { id: object.id, name: object.name, type: 'mesh', geometry, pose: object.pose };
+    return [mesh];
+  });
+}
+
+// Every triangle of the meshes under an object, in its frame, as one geometry
+function mergeMeshes(root: THREE.Object3D): THREE.BufferGeometry {
+  root.updateMatrixWorld(true);
+  const chunks: Float32Array[] = [];
+  root.traverse(child => {
+    const mesh = child as THREE.Mesh;
+    if (!mesh.isMesh || !mesh.geometry.getAttribute('position')) return;
+    const geometry = (mesh.geometry.index ? mesh.geometry.toNonIndexed() : mesh.geometry.clone())
+      .applyMatrix4(mesh.matrixWorld);
+    chunks.push(geometry.getAttribute('position').array as Float32Array);
+  });
+  const positions = new Float32Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  chunks.reduce((offset, chunk) => {
+    positions.set(chunk, offset);
+    return offset + chunk.length;
+  }, 0);
+  return positionsGeometry(positions);
+}
+
+function positionsGeometry(positions: Float32Array): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+const PART_EXTENSIONS = /\.(stl|obj|glb|gltf)$/i;
+export const PART_ACCEPT = '.stl,.obj,.glb,.gltf';
+
+// Part from an STL, OBJ or GLB file; scale converts the file units to meters (0.001 for mm)
+export async function loadPartObject(file: File, scale: number): Promise<PartObject> {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  let geometry: THREE.BufferGeometry;
+
+  if (extension === 'stl') {
+    geometry = new STLLoader().parse(await file.arrayBuffer());
+    if (geometry.index) geometry = geometry.toNonIndexed();
+  } else if (extension === 'obj') {
+    geometry = mergeMeshes(new OBJLoader().parse(await file.text()));
+  } else if (extension === 'glb' || extension === 'gltf') {
+    const buffer = await file.arrayBuffer();
+    const gltf = await new Promise<{ scene: THREE.Object3D }>((resolve, reject) =>
+      new GLTFLoader().parse(buffer, '', resolve, reject)
+    );
+    geometry = mergeMeshes(gltf.scene);
+  } else {
+    throw new Error(`${file.name}: unsupported format (STL, OBJ and GLB are supported)`);
+  }
+
+  if (!geometry.getAttribute('position')?.count) throw new Error(`${file.name} contains no triangles`);
+  geometry.scale(scale, scale, scale);
+  geometry.computeVertexNormals();
+
+  return {
+    id: createId(),
+    name: file.name.replace(PART_EXTENSIONS, ''),
+    shape: 'part',
+    fileName: file.name,
+    geometry: prepareGeometry(geometry),
+    pose: IDENTITY_POSE,
+    color: '#9ca3af',
+    obstacle: true
+  };
+}
+
+// Triangle positions travel as base64 little-endian float32
+function encodePositions(geometry: THREE.BufferGeometry): string {
+  const positions = Float32Array.from(geometry.getAttribute('position').array as ArrayLike<number>);
+  const bytes = new Uint8Array(positions.buffer);
+  let binary = '';
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function decodePositions(base64: string): Float32Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index++) bytes[index] = binary.charCodeAt(index);
+  if (bytes.length % 12 !== 0) throw new Error('Part geometry is not a whole number of vertices');
+  return new Float32Array(bytes.buffer);
+}
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isTriple = (value: unknown): value is [number, number, number] =>
+  Array.isArray(value) && value.length === 3 && value.every(isFiniteNumber);
+
+const isPose = (value: unknown): value is Pose => {
+  const pose = value as Pose | null;
+  return !!pose && isTriple(pose.position) && isTriple(pose.rpy);
+};
+
+export function serializeScene(scene: SceneLayout): string {
+  return JSON.stringify({
+    version: FILE_VERSION,
+    objects: scene.objects.map(object => (object.shape === 'part'
+      ? { ...object, geometry: undefined, positions: encodePositions(object.geometry) }
+      : object)),
+    frames: scene.frames
+  }, null, 2);
+}
+
+// Validate a layout read from storage or an imported file
+export function parseScene(json: unknown): SceneLayout {
+  const data = json as { objects?: unknown; frames?: unknown } | null;
+  if (!data || !Array.isArray(data.objects) || !Array.isArray(data.frames)) {
+    throw new Error('Expected an object with "objects" and "frames" arrays');
+  }
+
+  const objects = (data.objects as Record<string, unknown>[]).map((entry, index): SceneObject => {
+    const { id, name, shape, pose, color, obstacle } = entry ?? {};
+    if (typeof id !== 'string' || typeof name !== 'string' || !isPose(pose)) {
+      throw new Error(`Object ${index + 1} needs an id, a name and a pose`);
+    }
+    const base = {
+      id,
+      name,
+      pose,
+      color: typeof color === 'string' ? color : '#9ca3af',
+      obstacle: obstacle !== false
+    };
+    if (shape === 'part') {
+      if (typeof entry.positions !== 'string') throw new Error(`Part '${name}' has no geometry`);
+      return {
+        ...base,
+        shape,
+        fileName: typeof entry.fileName === 'string' ? entry.fileName : name,
+        geometry: prepareGeometry(positionsGeometry(decodePositions(entry.positions)))
+      };
+    }
+    if (shape !== 'table' && shape !== 'box' && shape !== 'cylinder') {
+      throw new Error(`Object '${name}' has an unknown shape`);
+    }
+    if (!isTriple(entry.size) || entry.size.some(value => value <= 0)) {
+      throw new Error(`Object '${name}' needs a positive size`);
+    }
+    return { ...base, shape, size: entry.size };
+  });
+
+  const objectIds = new Set(objects.map(object => object.id));
+  const frames = (data.frames as Record<string, unknown>[]).map((entry, index): WorkObjectFrame => {
+    const { id, name, parentId, pose } = entry ?? {};
+    if (typeof id !== 'string' || typeof name !== 'string' || !isPose(pose)) {
+      throw new Error(`Frame ${index + 1} needs an id, a name and a pose`);
+    }
+    return { id, name, pose, parentId: typeof parentId === 'string' && objectIds.has(parentId) ? parentId : null };
+  });
+
+  return { objects, frames };
+}
+
+export function loadScene(): SceneLayout {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseScene(JSON.parse(stored)) : EMPTY_SCENE;
+  } catch (error) {
+    console.error('Ignoring stored scene:', error);
+    return EMPTY_SCENE;
+  }
+}
+
+// Large imported parts can exceed the storage quota; the layout still exports to a file
+export function saveScene(scene: SceneLayout) {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializeScene(scene));
+  } catch (error) {
+    console.error('Could not store scene:', error);
+  }
+}
@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_ROBOT_CONFIG } from './robotConfig';
+import { DEFAULT_PORT_SETTINGS, DEFAULT_PROTOCOL_ID } from './protocols';
+import { openBridgeTransport } from './serialTransport';
+
+// Stand-in for the browser's EventSource; the bridge never sends anything here
+class SilentEventSource {
+  static CLOSED = 2;
+  readyState = 0;
+  onmessage: ((message: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  close() {
+    this.readyState = SilentEventSource.CLOSED;
+  }
+}
+
+describe('openBridgeTransport', () => {
+  const globals = globalThis as unknown as Record<string, unknown>;
+  const saved = { fetch: globals.fetch, EventSource: globals.EventSource };
+  // Bytes as the bridge's port receives them
+  let received: string[] = [];
+
+  beforeEach(() => {
+    received = [];
+    let requests = 0;
+    globals.EventSource = SilentEventSource;
+    // Later requests are answered sooner, so writes in flight together would overtake each other
+    globals.fetch = async (_url: string, init: { body: string }) => {
+      const body = JSON.parse(init.body);
+      await new Promise(resolve => setTimeout(resolve, Math.max(0, 40 - 10 * requests++)));
+      if (body.action === 'write') received.push(Buffer.from(body.data, 'base64').toString());
+      return { ok: true, status: 200, json: async () => ({ success: true }) };
+    };
+  });
+
+  afterEach(() => {
+    globals.fetch = saved.fetch;
+    globals.EventSource = saved.EventSource;
+  });
+
+  it('delivers concurrent writes to the port in the order they were made', async () => {
+    const transport = await openBridgeTransport(
+      '/dev/ttyUSB0',
+      DEFAULT_PORT_SETTINGS,
+      DEFAULT_PROTOCOL_ID,
+      DEFAULT_ROBOT_CONFIG,
+      { onData: () => undefined }
+    );
+    const lines = ['G06 X1 F500\n', 'G06 X2 F500\n', 'G06 X3 F500\n', 'G06 X4 F500\n'];
+    await Promise.all(lines.map(line => transport.write(new TextEncoder().encode(line))));
+    assert.deepEqual(received, lines);
+  });
+});
@@ -0,0 +1,248 @@
+import { VirtualElbot } from './virtualDevice';
+import { Parity, PortSettings } from './protocols';
+import { RobotConfig } from '../types/robot';
+import { toConfigFile } from './robotConfig';
+
+// Byte-stream transports behind SerialConnection: the browser's Web Serial API,
+// the server-side bridge at /api/serial for browsers that lack it, or an
+// in-browser virtual device for offline testing. Transports move raw bytes;
+// the protocol driver decides what they mean.
+
+export interface SerialTransport {
+  kind: 'web-serial' | 'bridge' | 'virtual';
+  label: string;
+  write(data: Uint8Array): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface TransportHandlers {
+  onData: (chunk: Uint8Array) => void;
+  onClose?: (error?: Error) => void;
+}
+
+// Line-level access to the open connection for components that stream commands.
+// Lines are G06; the connection translates them into the selected protocol.
+export interface SerialLink {
+  label: string;
+  // Queue a line without waiting for its acknowledgement
+  sendLine(line: string): Promise<void>;
+  // Queue a line and resolve on its "Ok"; rejects if the device answers with an error,
+  // no acknowledgement arrives after the retries, the signal aborts the wait or the
+  // connection closes first
+  sendAndWaitOk(line: string, signal?: AbortSignal): Promise<void>;
+}
+
+export interface BridgePortInfo {
+  path: string;
+  manufacturer?: string;
+  serialNumber?: string;
+  isOpen: boolean;
+}
+
+// The parts of the Web Serial API used here; TypeScript's DOM library does not declare it
+export interface WebSerialPort extends EventTarget {
+  readonly readable: ReadableStream<Uint8Array> | null;
+  readonly writable: WritableStream<Uint8Array> | null;
+  open(options: { baudRate: number; dataBits?: number; stopBits?: number; parity?: Parity }): Promise<void>;
+  close(): Promise<void>;
+  getInfo(): { usbVendorId?: number; usbProductId?: number };
+}
+
+export interface WebSerial extends EventTarget {
+  requestPort(): Promise<WebSerialPort>;
+  getPorts(): Promise<WebSerialPort[]>;
+}
+
+export const isWebSerialAvailable = () =>
+  typeof navigator !== 'undefined' && 'serial' in navigator;
+
+// navigator.serial, or null in browsers without it
+export const webSerial = (): WebSerial | null =>
+  isWebSerialAvailable() ? (navigator as Navigator & { serial: WebSerial }).serial : null;
+
+// Open a port granted through navigator.serial and pump its readable side into handlers.onData.
+// Unplugging the device (the port's "disconnect" event) or a read error ends the
+// transport: the port is released so it can be opened again, then onClose fires.
+export async function openWebSerialTransport(
+  port: WebSerialPort,
+  settings: PortSettings,
+  handlers: TransportHandlers
+): Promise<SerialTransport> {
+  await port.open({
+    baudRate: settings.baudRate,
+    dataBits: 8,
+    stopBits: 1,
+    parity: settings.parity
+  });
+
+  if (!port.readable || !port.writable) {
+    await port.close().catch(() => undefined);
+    throw new Error('Serial port opened without readable and writable streams');
+  }
+  const reader = port.readable.getReader();
+  const writer = port.writable.getWriter();
+
+  let closing = false;
+  let ended = false;
+
+  const release = async () => {
+    await reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+    await writer.close().catch(() => undefined);
+    writer.releaseLock();
+    await port.close().catch(() => undefined);
+  };
+
+  const end = async (error?: Error) => {
+    if (ended || closing) return;
+    ended = true;
+    port.removeEventListener('disconnect', onDisconnect);
+    await release();
+    handlers.onClose?.(error);
+  };
+
+  const onDisconnect = () => {
+    end(new Error('Device disconnected'));
+  };
+  port.addEventListener('disconnect', onDisconnect);
+
+  const readLoop = async () => {
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        handlers.onData(value);
+      }
+      end();
+    } catch (error) {
+      end(error instanceof Error ? error : new Error('Read error'));
+    }
+  };
+  readLoop();
+
+  return {
+    kind: 'web-serial',
+    label: 'Web Serial port',
+    write: async (data: Uint8Array) => {
+      await writer.write(data);
+    },
+    close: async () => {
+      if (ended) return;
+      closing = true;
+      port.removeEventListener('disconnect', onDisconnect);
+      await release();
+    }
+  };
+}
+
+// Find a previously granted port again after it was unplugged: the same port
+// object if the browser kept it, otherwise one with the same USB ids
+export async function findGrantedPort(previous: WebSerialPort): Promise<WebSerialPort | null> {
+  const serial = webSerial();
+  if (!serial) return null;
+  const ports = await serial.getPorts();
+  if (ports.includes(previous)) return previous;
+
+  const info = previous.getInfo();
+  if (info.usbVendorId === undefined) return null;
+  return ports.find(port => {
+    const candidate = port.getInfo();
+    return candidate.usbVendorId === info.usbVendorId && candidate.usbProductId === info.usbProductId;
+  }) ?? null;
+}
+
+const postBridge = async (body: object) => {
+  const response = await fetch('/api/serial', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `Serial bridge request failed (${response.status})`);
+  }
+  return result;
+};
+
+export async function listBridgePorts(): Promise<BridgePortInfo[]> {
+  const response = await fetch('/api/serial');
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Failed to list serial ports');
+  }
+  return result.ports;
+}
+
+// Bytes travel to and from the bridge as base64 inside JSON
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+// Open a port on the server and receive its data over Server-Sent Events.
+// The protocol and robot configuration only matter to the bridge's virtual
+// port, which has to speak the one and move like the other. Every write is its
+// own request, so each one starts only after the one before has finished;
+// requests in flight together could reach the port out of order.
+export async function openBridgeTransport(
+  path: string,
+  settings: PortSettings,
+  protocol: string,
+  config: RobotConfig,
+  handlers: TransportHandlers
+): Promise<SerialTransport> {
+  await postBridge({ action: 'open', path, ...settings, protocol, config: toConfigFile(config) });
+
+  let closing = false;
+  let lastWrite: Promise<unknown> = Promise.resolve();
+  const events = new EventSource(`/api/serial/stream?path=${encodeURIComponent(path)}`);
+
+  events.onmessage = (message) => {
+    const event = JSON.parse(message.data);
+    if (event.type === 'data') {
+      handlers.onData(fromBase64(event.data));
+    } else if (event.type === 'close') {
+      events.close();
+      if (!closing) handlers.onClose?.(event.error ? new Error(event.error) : undefined);
+    }
+  };
+
+  events.onerror = () => {
+    // EventSource retries on its own unless the stream was closed for good
+    if (events.readyState === EventSource.CLOSED && !closing) {
+      handlers.onClose?.(new Error('Lost connection to the serial bridge'));
+    }
+  };
+
+  return {
+    kind: 'bridge',
+    label: path,
+    write: async (data: Uint8Array) => {
+      const write = lastWrite.then(() => postBridge({ action: 'write', path, data: toBase64(data) }));
+      lastWrite = write.catch(() => undefined);
+      await write;
+    },
+    close: async () => {
+      closing = true;
+      events.close();
+      await postBridge({ action: 'close', path });
+    }
+  };
+}
+
+// Connect to a virtual device running in the page
+export async function openVirtualTransport(
+  device: VirtualElbot,
+  handlers: TransportHandlers
+): Promise<SerialTransport> {
+  const unsubscribe = device.onData(handlers.onData);
+
+  return {
+    kind: 'virtual',
+    label: 'Virtual device',
+    write: async (data: Uint8Array) => {
+      device.write(data);
+    },
+    close: async () => {
+      unsubscribe();
+    }
+  };
+}
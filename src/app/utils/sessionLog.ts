@@ -0,0 +1,273 @@
+import { JointState, RobotConfig } from '../types/robot';
+import { toWire } from './g06';
+import { TrajectorySample } from './trajectory';
+
+// Session recorder: every line sent to or received from the robot, the other
+// connection messages, and the commanded (simulator) and actual (reported) joint
+// states over time. It survives reloads through localStorage, keeping the most
+// recent MAX_ENTRIES entries. Joint states are stored in radians (meters for
+// prismatic joints), tagged with the id of the robot they belong to, and thinned
+// to one sample per STATE_INTERVAL_MS for each robot.
+
+export type SessionEntryKind = 'sent' | 'received' | 'info' | 'commanded' | 'actual';
+export type StateKind = 'commanded' | 'actual';
+export type LineKind = Exclude<SessionEntryKind, StateKind>;
+
+export const SESSION_ENTRY_KINDS: { kind: SessionEntryKind; label: string }[] = [
+  { kind: 'sent', label: 'Sent' },
+  { kind: 'received', label: 'Received' },
+  { kind: 'info', label: 'Info' },
+  { kind: 'commanded', label: 'Commanded' },
+  { kind: 'actual', label: 'Actual' }
+];
+
+export interface SessionEntry {
+  time: number; // ms since the epoch
+  kind: SessionEntryKind;
+  text?: string; // lines and messages
+  joints?: JointState; // commanded and actual states
+  robot?: string; // id of the robot a state belongs to
+}
+
+const STORAGE_KEY = 'elbot.session';
+const FILE_VERSION = 1;
+export const MAX_ENTRIES = 10000;
+export const STATE_INTERVAL_MS = 50;
+const SAVE_DELAY_MS = 1000;
+const NOTIFY_INTERVAL_MS = 250;
+
+const isStateKind = (kind: SessionEntryKind): kind is StateKind => kind === 'commanded' || kind === 'actual';
+
+const sameJoints = (a: JointState, b: JointState) =>
+  Object.keys(a).length === Object.keys(b).length && Object.keys(a).every(name => a[name] === b[name]);
+
+// Validate entries read from storage; anything malformed is dropped
+export function parseSessionEntries(json: unknown): SessionEntry[] {
+  const data = json as { entries?: unknown } | null;
+  if (!data || !Array.isArray(data.entries)) throw new Error('Expected an object with an "entries" array');
+
+  const kinds = new Set(SESSION_ENTRY_KINDS.map(entry => entry.kind));
+  return (data.entries as SessionEntry[]).filter(entry =>
+    entry && typeof entry.time === 'number' && kinds.has(entry.kind) &&
+    (entry.robot === undefined || typeof entry.robot === 'string') &&
+    (isStateKind(entry.kind)
+      ? !!entry.joints && Object.values(entry.joints).every(value => typeof value === 'number')
+      : typeof entry.text === 'string')
+  );
+}
+
+// Indented for export files, compact for storage
+export function serializeSession(entries: SessionEntry[], indent = 2): string {
+  return JSON.stringify({ version: FILE_VERSION, entries }, null, indent);
+}
+
+export class SessionRecorder {
+  // The entries as of the last notification. Each notification hands out a new
+  // array, so it works as a useSyncExternalStore snapshot.
+  entries: SessionEntry[] = [];
+  paused = false;
+
+  private log: SessionEntry[] = []; // appended to in place
+  private listeners = new Set<() => void>();
+  // Keyed by robot and state kind
+  private lastStates = new Map<string, SessionEntry>();
+  private pendingStates = new Map<string, SessionEntry>();
+  private stateTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private notifyTimer: ReturnType<typeof setTimeout> | null = null;
+  private loaded = false;
+
+  // Restore the stored session; localStorage is only available after hydration
+  load() {
+    if (this.loaded) return;
+    this.loaded = true;
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      const restored = stored ? parseSessionEntries(JSON.parse(stored)) : [];
+      this.log = [...restored, ...this.log].slice(-MAX_ENTRIES);
+    } catch (error) {
+      console.error('Ignoring stored session log:', error);
+    }
+    this.recordLine('info', 'Session started');
+    this.notify();
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getEntries = () => this.entries;
+
+  recordLine(kind: LineKind, text: string) {
+    if (this.paused) return;
+    this.push({ time: Date.now(), kind, text });
+  }
+
+  // Record a joint state; changes closer together than STATE_INTERVAL_MS are
+  // thinned out, but the last one of a burst is always kept
+  recordState(kind: StateKind, joints: JointState, robot: string) {
+    if (this.paused) return;
+    const key = `${robot}/${kind}`;
+    const entry: SessionEntry = { time: Date.now(), kind, joints: { ...joints }, robot };
+    const last = this.pendingStates.get(key) ?? this.lastStates.get(key);
+    if (last && sameJoints(last.joints!, entry.joints!)) return;
+
+    const previous = this.lastStates.get(key);
+    if (!previous || entry.time - previous.time >= STATE_INTERVAL_MS) {
+      this.pushState(key, entry);
+      return;
+    }
+
+    this.pendingStates.set(key, entry);
+    if (!this.stateTimers.has(key)) {
+      this.stateTimers.set(key, setTimeout(() => {
+        this.stateTimers.delete(key);
+        const pending = this.pendingStates.get(key);
+        if (pending) this.pushState(key, pending);
+      }, STATE_INTERVAL_MS - (entry.time - previous.time)));
+    }
+  }
+
+  clear() {
+    this.stateTimers.forEach(timer => clearTimeout(timer));
+    this.stateTimers.clear();
+    this.pendingStates.clear();
+    this.lastStates.clear();
+    this.log = [];
+    this.scheduleSave();
+    this.notify();
+  }
+
+  // Write the session out now instead of on the next save tick
+  flush() {
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    this.save();
+  }
+
+  private pushState(key: string, entry: SessionEntry) {
+    this.pendingStates.delete(key);
+    this.lastStates.set(key, entry);
+    this.push(entry);
+  }
+
+  private push(entry: SessionEntry) {
+    this.log.push(entry);
+    if (this.log.length > MAX_ENTRIES) this.log.splice(0, this.log.length - MAX_ENTRIES);
+    this.scheduleSave();
+    this.scheduleNotify();
+  }
+
+  private scheduleSave() {
+    if (!this.loaded || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, SAVE_DELAY_MS);
+  }
+
+  // Drop the older half and try again when the storage quota runs out
+  private save() {
+    if (!this.loaded) return;
+    try {
+      localStorage.setItem(STORAGE_KEY, serializeSession(this.log, 0));
+    } catch {
+      this.log = this.log.slice(Math.floor(this.log.length / 2));
+      try {
+        localStorage.setItem(STORAGE_KEY, serializeSession(this.log, 0));
+      } catch (error) {
+        console.error('Could not store session log:', error);
+      }
+      this.notify();
+    }
+  }
+
+  private scheduleNotify() {
+    if (this.notifyTimer) return;
+    this.notifyTimer = setTimeout(() => {
+      this.notifyTimer = null;
+      this.notify();
+    }, NOTIFY_INTERVAL_MS);
+  }
+
+  private notify() {
+    this.entries = [...this.log];
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export interface SessionFilter {
+  kinds: Set<SessionEntryKind>;
+  search: string; // case-insensitive, matched against the text of lines and messages
+}
+
+// Robots with recorded states, in order of their first entry
+export function sessionRobots(entries: SessionEntry[]): string[] {
+  return [...new Set(entries.flatMap(entry => (entry.robot === undefined ? [] : [entry.robot])))];
+}
+
+export function filterSessionEntries(entries: SessionEntry[], { kinds, search }: SessionFilter): SessionEntry[] {
+  const needle = search.trim().toLowerCase();
+  return entries.filter(entry =>
+    kinds.has(entry.kind) && (!needle || (entry.text ?? '').toLowerCase().includes(needle))
+  );
+}
+
+// Joint value in the units shown everywhere in the UI: degrees, or mm for prismatic joints
+export const displayValue = (config: RobotConfig, name: string, value: number) => {
+  const joint = config.joints.find(entry => entry.name === name);
+  return joint ? toWire(joint, value) : value;
+};
+
+const csvField = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// One row per entry; joint columns are in degrees (mm for prismatic joints)
+export function sessionToCsv(entries: SessionEntry[], config: RobotConfig): string {
+  const header = ['time', 'elapsed_s', 'kind', 'robot', 'text', ...config.joints.map(joint => joint.name)];
+  const start = entries[0]?.time ?? 0;
+  const rows = entries.map(entry => [
+    new Date(entry.time).toISOString(),
+    ((entry.time - start) / 1000).toFixed(3),
+    entry.kind,
+    csvField(entry.robot ?? ''),
+    csvField(entry.text ?? ''),
+    ...config.joints.map(joint => {
+      const value = entry.joints?.[joint.name];
+      return value === undefined ? '' : toWire(joint, value).toFixed(3);
+    })
+  ].join(','));
+  return [header.join(','), ...rows].join('\n');
+}
+
+// Recorded states of one kind and robot as trajectory samples, so they plot like
+// a planned move: time in seconds from the first sample, velocities and
+// accelerations by finite differences
+export function stateSamples(entries: SessionEntry[], kind: StateKind, robot: string): TrajectorySample[] {
+  const states = entries.filter(entry => entry.kind === kind && entry.robot === robot);
+  const start = states[0]?.time ?? 0;
+  const samples: TrajectorySample[] = [];
+
+  states.forEach((entry, index) => {
+    const time = (entry.time - start) / 1000;
+    const previous = samples[index - 1];
+    const dt = previous ? time - previous.time : 0;
+    const derivative = (values: JointState, before: JointState | undefined) => Object.fromEntries(
+      Object.entries(values).map(([name, value]) => [
+        name,
+        before && dt > 0 ? (value - (before[name] ?? value)) / dt : 0
+      ])
+    );
+    const velocities = derivative(entry.joints!, previous?.positions);
+    samples.push({
+      time,
+      positions: entry.joints!,
+      velocities,
+      accelerations: derivative(velocities, previous?.velocities)
+    });
+  });
+
+  return samples;
+}
@@ -0,0 +1,176 @@
+import * as THREE from 'three';
+import { JointState, RobotConfig } from '../types/robot';
+import { DEFAULT_FEED_RATE } from './g06';
+import { KinematicChain, Pose, forwardKinematics, matrixToPose, poseToMatrix } from './kinematics';
+import { solveAllIK, solveIK } from './inverseKinematics';
+import { getJointLimits } from './robotConfig';
+
+// Named waypoints and the programs built from them. Joint values are stored in
+// radians (meters for prismatic joints), the same as JointState everywhere else.
+// A waypoint taught in a work-object frame also keeps the TCP pose in that frame
+// and is solved again from wherever the frame is when it is used.
+
+export interface Waypoint {
+  id: string;
+  name: string;
+  joints: JointState; // pose when taught
+  frame?: { id: string; pose: Pose }; // TCP relative to a work-object frame
+}
+
+// A work-object frame as the robot sees it
+export interface TeachFrame {
+  id: string;
+  name: string;
+  matrix: THREE.Matrix4; // base link frame
+}
+
+export interface ProgramStep {
+  waypointId: string;
+  feedRate: number; // degrees/minute
+  dwellMs: number; // pause after the move completes
+}
+
+export interface WaypointProgram {
+  id: string;
+  name: string;
+  steps: ProgramStep[];
+}
+
+export interface TeachPendantData {
+  waypoints: Waypoint[];
+  programs: WaypointProgram[];
+}
+
+export const EMPTY_TEACH_PENDANT_DATA: TeachPendantData = { waypoints: [], programs: [] };
+
+const STORAGE_KEY = 'elbot.teachPendant';
+const FILE_VERSION = 1;
+
+export const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createStep = (waypointId: string): ProgramStep => ({
+  waypointId,
+  feedRate: DEFAULT_FEED_RATE,
+  dwellMs: 0
+});
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isTriple = (value: unknown) => Array.isArray(value) && value.length === 3 && value.every(isFiniteNumber);
+
+// Validate data read from storage or an imported file
+export function parseTeachPendantData(json: unknown): TeachPendantData {
+  const data = json as Partial<TeachPendantData> | null;
+  if (!data || !Array.isArray(data.waypoints) || !Array.isArray(data.programs)) {
+    throw new Error('Expected an object with "waypoints" and "programs" arrays');
+  }
+
+  const waypoints = data.waypoints.map((waypoint, index) => {
+    if (!waypoint || typeof waypoint.id !== 'string' || typeof waypoint.name !== 'string') {
+      throw new Error(`Waypoint ${index + 1} needs an id and a name`);
+    }
+    if (!waypoint.joints || !Object.values(waypoint.joints).every(isFiniteNumber)) {
+      throw new Error(`Waypoint '${waypoint.name}' has invalid joint values`);
+    }
+    if (waypoint.frame === undefined) return { id: waypoint.id, name: waypoint.name, joints: { ...waypoint.joints } };
+    const { frame } = waypoint;
+    if (typeof frame?.id !== 'string' || !isTriple(frame.pose?.position) || !isTriple(frame.pose?.rpy)) {
+      throw new Error(`Waypoint '${waypoint.name}' has an invalid frame pose`);
+    }
+    return {
+      id: waypoint.id,
+      name: waypoint.name,
+      joints: { ...waypoint.joints },
+      frame: { id: frame.id, pose: { position: frame.pose.position, rpy: frame.pose.rpy } }
+    };
+  });
+
+  const waypointIds = new Set(waypoints.map(waypoint => waypoint.id));
+
+  const programs = data.programs.map((program, index) => {
+    if (!program || typeof program.id !== 'string' || typeof program.name !== 'string' ||
+        !Array.isArray(program.steps)) {
+      throw new Error(`Program ${index + 1} needs an id, a name and a list of steps`);
+    }
+    const steps = program.steps.map((step, stepIndex) => {
+      if (!step || !waypointIds.has(step.waypointId)) {
+        throw new Error(`Step ${stepIndex + 1} of '${program.name}' refers to an unknown waypoint`);
+      }
+      if (!isFiniteNumber(step.feedRate) || step.feedRate <= 0) {
+        throw new Error(`Step ${stepIndex + 1} of '${program.name}' has an invalid feed rate`);
+      }
+      if (!isFiniteNumber(step.dwellMs) || step.dwellMs < 0) {
+        throw new Error(`Step ${stepIndex + 1} of '${program.name}' has an invalid dwell`);
+      }
+      return { waypointId: step.waypointId, feedRate: step.feedRate, dwellMs: step.dwellMs };
+    });
+    return { id: program.id, name: program.name, steps };
+  });
+
+  return { waypoints, programs };
+}
+
+// Waypoint at the current pose, relative to a frame when one is given
+export function createWaypoint(
+  name: string,
+  joints: JointState,
+  frame: TeachFrame | null,
+  chain: KinematicChain | null
+): Waypoint {
+  const waypoint: Waypoint = { id: createId(), name, joints: { ...joints } };
+  if (!frame || !chain) return waypoint;
+  const pose = frame.matrix.clone().invert().multiply(forwardKinematics(chain, joints));
+  return { ...waypoint, frame: { id: frame.id, pose: matrixToPose(pose) } };
+}
+
+// Joint values to move to for a waypoint. One taught in a frame is solved for
+// where the frame is now, on the branch it was taught on.
+export function waypointTarget(
+  waypoint: Waypoint,
+  frames: TeachFrame[],
+  chain: KinematicChain | null,
+  config: RobotConfig
+): JointState {
+  if (!waypoint.frame) return waypoint.joints;
+  const frame = frames.find(entry => entry.id === waypoint.frame!.id);
+  if (!frame) throw new Error(`Waypoint '${waypoint.name}' was taught in a frame that no longer exists`);
+  if (!chain) throw new Error('The robot model is still loading');
+
+  const target = frame.matrix.clone().multiply(poseToMatrix(waypoint.frame.pose));
+  const options = { seed: waypoint.joints, limits: getJointLimits(config) };
+  // Runs while plotting programs, so the fallback stops at the first configuration it finds
+  const solution = solveIK(chain, target, options) ?? solveAllIK(chain, target, { ...options, maxSolutions: 1 })[0];
+  if (!solution) throw new Error(`Waypoint '${waypoint.name}' is out of reach in frame '${frame.name}'`);
+  return solution.joints;
+}
+
+export function serializeTeachPendantData(data: TeachPendantData): string {
+  return JSON.stringify({ version: FILE_VERSION, ...data }, null, 2);
+}
+
+// Imported entries replace stored ones with the same id and are appended otherwise
+export function mergeTeachPendantData(current: TeachPendantData, imported: TeachPendantData): TeachPendantData {
+  const merge = <T extends { id: string }>(existing: T[], incoming: T[]) => {
+    const incomingIds = new Set(incoming.map(item => item.id));
+    return [...existing.filter(item => !incomingIds.has(item.id)), ...incoming];
+  };
+  return {
+    waypoints: merge(current.waypoints, imported.waypoints),
+    programs: merge(current.programs, imported.programs)
+  };
+}
+
+export function loadTeachPendantData(): TeachPendantData {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseTeachPendantData(JSON.parse(stored)) : EMPTY_TEACH_PENDANT_DATA;
+  } catch (error) {
+    console.error('Ignoring stored teach pendant data:', error);
+    return EMPTY_TEACH_PENDANT_DATA;
+  }
+}
+
+export function saveTeachPendantData(data: TeachPendantData) {
+  localStorage.setItem(STORAGE_KEY, serializeTeachPendantData(data));
+}
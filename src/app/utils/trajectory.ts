@@ -0,0 +1,267 @@
+import { JointState, RobotConfig } from '../types/robot';
+import { clampJointValue } from './robotConfig';
+
+// Time-parameterised joint trajectories that respect the per-joint velocity and
+// acceleration limits of the robot configuration.
+//
+// A trajectory is a chain of straight joint-space segments. Every joint shares the
+// same segment timing, so all joints start and arrive together. Velocity changes
+// happen in blends centred on the waypoints: a single move becomes the familiar
+// trapezoid (or triangle when too short to reach cruise speed), and intermediate
+// waypoints are passed without stopping, cutting the corner within the blend.
+//
+// 'trapezoidal' blends use constant acceleration. 's-curve' blends shape the
+// acceleration as a raised cosine, which keeps jerk finite; they take twice as long
+// so the peak acceleration stays within the same limit.
+
+export type ProfileType = 'trapezoidal' | 's-curve';
+
+export interface TrajectoryOptions {
+  profile?: ProfileType;
+  // Speed cap in degrees/minute (the G06 F word), one value for all segments or one per segment
+  feedRate?: number | number[];
+}
+
+export interface TrajectorySample {
+  time: number; // seconds from the start
+  positions: JointState;
+  velocities: JointState;
+  accelerations: JointState;
+}
+
+export interface Trajectory {
+  profile: ProfileType;
+  joints: string[];
+  duration: number; // seconds
+  waypoints: JointState[]; // after clamping into the joint limits
+  waypointTimes: number[]; // time each waypoint (or its blend centre) is passed
+  sample(time: number): TrajectorySample;
+}
+
+interface Blend {
+  center: number; // time of the waypoint the blend rounds
+  duration: number;
+  before: number[]; // velocity entering the blend
+  after: number[]; // velocity leaving it
+}
+
+const feedToRadPerSec = (feedRate: number) => (feedRate * Math.PI) / 180 / 60;
+
+// Velocity change and displacement over the first s seconds of a blend, per unit of delta-v
+function blendShape(profile: ProfileType, s: number, duration: number) {
+  if (duration <= 0) return { velocity: 1, position: 0, acceleration: 0 };
+  if (profile === 'trapezoidal') {
+    return {
+      velocity: s / duration,
+      position: (s * s) / (2 * duration),
+      acceleration: 1 / duration
+    };
+  }
+  const phase = (2 * Math.PI * s) / duration;
+  return {
+    velocity: s / duration - Math.sin(phase) / (2 * Math.PI),
+    position: (s * s) / (2 * duration) + (duration * (Math.cos(phase) - 1)) / (4 * Math.PI * Math.PI),
+    acceleration: (1 - Math.cos(phase)) / duration
+  };
+}
+
+// Plan a trajectory through the waypoints, starting and ending at rest
+export function planTrajectory(
+  waypointStates: JointState[],
+  config: RobotConfig,
+  options: TrajectoryOptions = {}
+): Trajectory {
+  const profile = options.profile ?? 'trapezoidal';
+  const joints = Array.from(new Set(waypointStates.flatMap(state => Object.keys(state))));
+  const jointConfigs = joints.map(name => config.joints.find(joint => joint.name === name));
+
+  // Fill joints a waypoint leaves out from the previous one, clamp into the limits
+  // and drop repeated points
+  const points: number[][] = [];
+  const feedRates: (number | undefined)[] = [];
+  let previous: number[] | null = null;
+  waypointStates.forEach((state, index) => {
+    const point = joints.map((name, jointIndex) =>
+      clampJointValue(config, name, state[name] ?? previous?.[jointIndex] ?? 0)
+    );
+    const feed = Array.isArray(options.feedRate) ? options.feedRate[index - 1] : options.feedRate;
+    if (previous && point.every((value, jointIndex) => Math.abs(value - previous![jointIndex]) < 1e-9)) return;
+    if (previous) feedRates.push(feed);
+    points.push(point);
+    previous = point;
+  });
+  if (points.length === 0) points.push(joints.map(() => 0));
+
+  const maxVelocity = (jointIndex: number, segment: number) => {
+    const joint = jointConfigs[jointIndex];
+    const limit = joint?.maxVelocity ?? Infinity;
+    const feed = feedRates[segment];
+    return feed && joint?.type !== 'prismatic' ? Math.min(limit, feedToRadPerSec(feed)) : limit;
+  };
+  const maxAcceleration = (jointIndex: number) => jointConfigs[jointIndex]?.maxAcceleration ?? Infinity;
+  const blendFactor = profile === 's-curve' ? 2 : 1;
+
+  const segmentCount = points.length - 1;
+  const deltas = Array.from({ length: segmentCount }, (_, k) =>
+    joints.map((_, j) => points[k + 1][j] - points[k][j])
+  );
+
+  // Segment durations at cruise speed
+  const segmentDurations = deltas.map((delta, k) =>
+    Math.max(...delta.map((d, j) => Math.abs(d) / maxVelocity(j, k)), 1e-6)
+  );
+
+  const velocitiesOf = (durations: number[]) => [
+    joints.map(() => 0),
+    ...deltas.map((delta, k) => delta.map(d => d / durations[k])),
+    joints.map(() => 0)
+  ];
+
+  const blendDurationsOf = (velocities: number[][]) =>
+    points.map((_, i) => blendFactor * Math.max(
+      0,
+      ...joints.map((_, j) => Math.abs(velocities[i + 1][j] - velocities[i][j]) / maxAcceleration(j))
+    ));
+
+  // Neighbouring blends may not overlap; stretch (slow down) segments until they fit
+  let velocities = velocitiesOf(segmentDurations);
+  let blendDurations = blendDurationsOf(velocities);
+  for (let iteration = 0; iteration < 50; iteration++) {
+    let stretched = false;
+    segmentDurations.forEach((duration, k) => {
+      const needed = (blendDurations[k] + blendDurations[k + 1]) / 2;
+      if (needed > duration * (1 + 1e-9)) {
+        // The blends shrink as the segment slows, so aim between the two
+        segmentDurations[k] = Math.sqrt(duration * needed) * 1.01;
+        stretched = true;
+      }
+    });
+    if (!stretched) break;
+    velocities = velocitiesOf(segmentDurations);
+    blendDurations = blendDurationsOf(velocities);
+  }
+
+  // The first blend accelerates from rest at the first waypoint, so shift time by half of it
+  const offset = blendDurations[0] / 2;
+  const waypointTimes = points.map((_, i) =>
+    offset + segmentDurations.slice(0, i).reduce((sum, duration) => sum + duration, 0)
+  );
+  const duration = waypointTimes[waypointTimes.length - 1] + blendDurations[blendDurations.length - 1] / 2;
+
+  const blends: Blend[] = points.map((_, i) => ({
+    center: waypointTimes[i],
+    duration: blendDurations[i],
+    before: velocities[i],
+    after: velocities[i + 1]
+  }));
+
+  const toState = (values: number[]) => {
+    const state: JointState = {};
+    joints.forEach((name, j) => {
+      state[name] = values[j];
+    });
+    return state;
+  };
+
+  const sample = (rawTime: number): TrajectorySample => {
+    const time = Math.max(0, Math.min(duration, rawTime));
+
+    // Inside a blend?
+    const blendIndex = blends.findIndex(blend =>
+      time >= blend.center - blend.duration / 2 && time <= blend.center + blend.duration / 2
+    );
+    if (blendIndex >= 0) {
+      const blend = blends[blendIndex];
+      const s = time - (blend.center - blend.duration / 2);
+      const shape = blendShape(profile, s, blend.duration);
+      const positions: number[] = [];
+      const velocitiesNow: number[] = [];
+      const accelerations: number[] = [];
+      joints.forEach((_, j) => {
+        const dv = blend.after[j] - blend.before[j];
+        positions.push(
+          points[blendIndex][j] - (blend.before[j] * blend.duration) / 2 + blend.before[j] * s + dv * shape.position
+        );
+        velocitiesNow.push(blend.before[j] + dv * shape.velocity);
+        accelerations.push(dv * shape.acceleration);
+      });
+      return {
+        time,
+        positions: toState(positions),
+        velocities: toState(velocitiesNow),
+        accelerations: toState(accelerations)
+      };
+    }
+
+    // Cruising along a straight segment
+    let segment = 0;
+    while (segment < segmentCount - 1 && time > waypointTimes[segment + 1]) segment++;
+    const velocity = velocities[segment + 1];
+    return {
+      time,
+      positions: toState(joints.map((_, j) => points[segment][j] + velocity[j] * (time - waypointTimes[segment]))),
+      velocities: toState(velocity),
+      accelerations: toState(joints.map(() => 0))
+    };
+  };
+
+  return {
+    profile,
+    joints,
+    duration,
+    waypoints: points.map(toState),
+    waypointTimes,
+    sample
+  };
+}
+
+// Point-to-point move starting and ending at rest
+export function planMove(
+  start: JointState,
+  target: JointState,
+  config: RobotConfig,
+  options: TrajectoryOptions = {}
+): Trajectory {
+  return planTrajectory([start, target], config, options);
+}
+
+// Evenly spaced samples of the planned position, velocity and acceleration, for plotting
+export function sampleTrajectory(trajectory: Trajectory, interval = 0.02): TrajectorySample[] {
+  const count = Math.max(1, Math.ceil(trajectory.duration / interval));
+  return Array.from({ length: count + 1 }, (_, index) =>
+    trajectory.sample(Math.min(trajectory.duration, index * interval))
+  );
+}
+
+// Samples of several trajectories run back to back, holding still for pauses[i]
+// seconds after trajectory i (a program with dwells, for example)
+export function sampleSequence(
+  trajectories: Trajectory[],
+  pauses: number[] = [],
+  interval = 0.02
+): TrajectorySample[] {
+  const samples: TrajectorySample[] = [];
+  let offset = 0;
+
+  trajectories.forEach((trajectory, index) => {
+    sampleTrajectory(trajectory, interval).forEach(sample => {
+      samples.push({ ...sample, time: sample.time + offset });
+    });
+    offset += trajectory.duration;
+
+    const pause = pauses[index] ?? 0;
+    if (pause > 0) {
+      const rest = trajectory.sample(trajectory.duration);
+      const still = (state: JointState) => Object.fromEntries(Object.keys(state).map(name => [name, 0]));
+      offset += pause;
+      samples.push({
+        time: offset,
+        positions: rest.positions,
+        velocities: still(rest.velocities),
+        accelerations: still(rest.accelerations)
+      });
+    }
+  });
+
+  return samples;
+}
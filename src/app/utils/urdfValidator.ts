@@ -0,0 +1,353 @@
+import URDFLoader from './urdf_loaders/URDFLoader.js';
+import { RobotSource, describePackageUrl, resolvePackageUrl } from './robotPackage';
+
+// Checks a URDF before (or instead of) loading it, so a broken description gets
+// a list of what is wrong rather than a generic load failure or a robot with
+// parts missing: the link/joint tree, mesh files, joint axes and limits, and
+// inertial properties. The description is finally parsed with URDFLoader, the
+// same way the viewer loads it.
+//
+// Issues point at the line of the element they concern. DOMParser keeps no
+// positions, so start tags are located by scanning the text in document order.
+// Runs in the browser and, with a DOMParser installed globally, in node.
+
+export type UrdfIssueSeverity = 'error' | 'warning';
+
+export interface UrdfIssue {
+  severity: UrdfIssueSeverity;
+  line: number | null; // 1-based
+  message: string;
+}
+
+export interface UrdfReport {
+  robotName: string | null;
+  linkCount: number;
+  jointCount: number;
+  issues: UrdfIssue[]; // in line order
+}
+
+export interface UrdfValidationOptions {
+  workingPath?: string; // prefix for relative mesh paths, as URDFLoader.workingPath
+  packages?: string | ((targetPkg: string) => string); // as URDFLoader.packages
+  fileExists?: (path: string) => Promise<boolean>; // mesh files are not checked without it
+  describePath?: (path: string) => string; // how a resolved mesh path is shown
+}
+
+const JOINT_TYPES = ['revolute', 'continuous', 'prismatic', 'fixed', 'floating', 'planar'];
+const MESH_FORMATS = /\.(stl|dae)$/i; // what the viewer can load
+
+// Line of every element's start tag, skipping comments, CDATA, processing
+// instructions, declarations and end tags
+function elementLines(text: string, document: Document): Map<Element, number> {
+  const lines: number[] = [];
+  const pattern = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\?[\s\S]*?\?>|<![^>]*>|<\/[^>]*>|<([A-Za-z_][\w:.-]*)/g;
+  let line = 1;
+  let position = 0;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    for (; position < match.index; position++) if (text.charCodeAt(position) === 10) line++;
+    if (match[1]) lines.push(line);
+  }
+
+  const map = new Map<Element, number>();
+  Array.from(document.getElementsByTagName('*')).forEach((element, index) => {
+    if (index < lines.length) map.set(element, lines[index]);
+  });
+  return map;
+}
+
+const childElements = (element: Element, name: string) =>
+  Array.from(element.children).filter(child => child.nodeName.toLowerCase() === name);
+
+const parseNumbers = (value: string | null) =>
+  value === null ? null : value.trim().split(/\s+/).map(Number);
+
+// Eigenvalues of a symmetric 3x3 matrix, smallest first
+function symmetricEigenvalues(m: number[][]): number[] {
+  const off = m[0][1] ** 2 + m[0][2] ** 2 + m[1][2] ** 2;
+  const diagonal = [m[0][0], m[1][1], m[2][2]];
+  if (off === 0) return diagonal.sort((a, b) => a - b);
+
+  const q = (m[0][0] + m[1][1] + m[2][2]) / 3;
+  const p = Math.sqrt(((m[0][0] - q) ** 2 + (m[1][1] - q) ** 2 + (m[2][2] - q) ** 2 + 2 * off) / 6);
+  const b = m.map((row, i) => row.map((value, j) => (value - (i === j ? q : 0)) / p));
+  const det = b[0][0] * (b[1][1] * b[2][2] - b[1][2] * b[2][1])
+    - b[0][1] * (b[1][0] * b[2][2] - b[1][2] * b[2][0])
+    + b[0][2] * (b[1][0] * b[2][1] - b[1][1] * b[2][0]);
+  const phi = Math.acos(Math.min(1, Math.max(-1, det / 2))) / 3;
+  const largest = q + 2 * p * Math.cos(phi);
+  const smallest = q + 2 * p * Math.cos(phi + (2 * Math.PI) / 3);
+  return [smallest, 3 * q - largest - smallest, largest];
+}
+
+export async function validateUrdf(text: string, options: UrdfValidationOptions = {}): Promise<UrdfReport> {
+  const issues: UrdfIssue[] = [];
+  const report = (): UrdfReport => ({
+    robotName,
+    linkCount: links.length,
+    jointCount: joints.length,
+    issues: issues.sort((a, b) => (a.line ?? 0) - (b.line ?? 0))
+  });
+  let robotName: string | null = null;
+  let links: Element[] = [];
+  let joints: Element[] = [];
+
+  const document = new DOMParser().parseFromString(text, 'text/xml');
+  const parseError = document.getElementsByTagName('parsererror')[0];
+  if (parseError) {
+    const message = parseError.textContent?.trim().split('\n')[0] || 'Not well-formed XML';
+    const line = /line[^\d]*(\d+)/i.exec(message)?.[1];
+    issues.push({ severity: 'error', line: line ? parseInt(line, 10) : null, message: `XML: ${message}` });
+    return report();
+  }
+
+  const lines = elementLines(text, document);
+  const add = (severity: UrdfIssueSeverity, element: Element | null | undefined, message: string) => {
+    issues.push({ severity, line: (element && lines.get(element)) ?? null, message });
+  };
+
+  const robot = document.documentElement;
+  if (!robot || robot.nodeName !== 'robot') {
+    add('error', robot, 'The root element must be <robot>');
+    return report();
+  }
+  robotName = robot.getAttribute('name');
+  links = childElements(robot, 'link');
+  joints = childElements(robot, 'joint');
+  if (links.length === 0) add('error', robot, 'The robot has no links');
+
+  // Links
+  const linkElements = new Map<string, Element>();
+  links.forEach(link => {
+    const name = link.getAttribute('name');
+    if (!name) add('error', link, '<link> has no name');
+    else if (linkElements.has(name)) add('error', link, `Link ${name} is defined twice`);
+    else linkElements.set(name, link);
+  });
+
+  // Joints and the tree they form
+  const jointNames = new Set<string>();
+  const parentJoint = new Map<string, string>(); // child link -> joint
+  const childLinks = new Map<string, string[]>(); // parent link -> child links
+  const movingChildren = new Set<string>();
+
+  joints.forEach(joint => {
+    const name = joint.getAttribute('name') ?? '';
+    const label = name ? `Joint ${name}` : '<joint> without a name';
+    if (!name) add('error', joint, '<joint> has no name');
+    else if (jointNames.has(name)) add('error', joint, `Joint ${name} is defined twice`);
+    jointNames.add(name);
+
+    const type = joint.getAttribute('type');
+    if (!type) add('error', joint, `${label} has no type`);
+    else if (!JOINT_TYPES.includes(type)) add('error', joint, `${label} has an unknown type ${type}`);
+    else if (type === 'floating' || type === 'planar') add('warning', joint, `${label} is ${type}; it cannot be moved in the viewer`);
+
+    const [parent] = childElements(joint, 'parent');
+    const [child] = childElements(joint, 'child');
+    const parentName = parent?.getAttribute('link');
+    const childName = child?.getAttribute('link');
+    if (!parentName) add('error', parent ?? joint, `${label} has no parent link`);
+    else if (!linkElements.has(parentName)) add('error', parent, `${label}: parent link ${parentName} is not defined`);
+    if (!childName) add('error', child ?? joint, `${label} has no child link`);
+    else if (!linkElements.has(childName)) add('error', child, `${label}: child link ${childName} is not defined`);
+
+    if (parentName && childName && linkElements.has(parentName) && linkElements.has(childName)) {
+      if (parentJoint.has(childName)) {
+        add('error', child, `${label}: link ${childName} is already the child of joint ${parentJoint.get(childName)}`);
+      } else {
+        parentJoint.set(childName, name);
+        childLinks.set(parentName, [...(childLinks.get(parentName) ?? []), childName]);
+        if (type && type !== 'fixed') movingChildren.add(childName);
+      }
+    }
+
+    childElements(joint, 'origin').forEach(origin => {
+      ['xyz', 'rpy'].forEach(attribute => {
+        const values = parseNumbers(origin.getAttribute(attribute));
+        if (values && (values.length !== 3 || values.some(value => !Number.isFinite(value)))) {
+          add('error', origin, `${label}: origin ${attribute} must be three numbers`);
+        }
+      });
+    });
+
+    if (type === 'revolute' || type === 'continuous' || type === 'prismatic') {
+      const [axis] = childElements(joint, 'axis');
+      if (axis) {
+        const xyz = parseNumbers(axis.getAttribute('xyz'));
+        if (!xyz || xyz.length !== 3 || xyz.some(value => !Number.isFinite(value))) {
+          add('error', axis, `${label}: axis xyz must be three numbers`);
+        } else if (Math.hypot(...xyz) < 1e-9) {
+          add('error', axis, `${label}: axis has zero length`);
+        }
+      }
+    }
+
+    const [limit] = childElements(joint, 'limit');
+    if (type === 'revolute' || type === 'prismatic') {
+      if (!limit) {
+        add('error', joint, `${label} is ${type} but has no <limit>`);
+      } else {
+        const lower = Number(limit.getAttribute('lower') ?? 0);
+        const upper = Number(limit.getAttribute('upper') ?? 0);
+        if (!Number.isFinite(lower) || !Number.isFinite(upper)) add('error', limit, `${label}: limit lower and upper must be numbers`);
+        else if (lower > upper) add('error', limit, `${label}: limit lower ${lower} is above upper ${upper}`);
+        else if (lower === upper) add('warning', limit, `${label}: limit lower and upper are equal, so the joint cannot move`);
+        ['effort', 'velocity'].forEach(attribute => {
+          if (!limit.hasAttribute(attribute)) add('warning', limit, `${label}: limit has no ${attribute}`);
+        });
+      }
+    }
+
+    const [mimic] = childElements(joint, 'mimic');
+    const mimicked = mimic?.getAttribute('joint');
+    if (mimic && (!mimicked || !joints.some(other => other.getAttribute('name') === mimicked))) {
+      add('error', mimic, `${label} mimics joint ${mimicked ?? '(none)'}, which is not defined`);
+    }
+  });
+
+  // Every link must hang off one root
+  const roots = Array.from(linkElements.keys()).filter(name => !parentJoint.has(name));
+  if (linkElements.size > 0 && roots.length === 0) {
+    add('error', robot, 'There is no root link: the joints form a loop');
+  } else if (roots.length > 0) {
+    const reached = new Set<string>();
+    const visit = (name: string) => {
+      if (reached.has(name)) return;
+      reached.add(name);
+      (childLinks.get(name) ?? []).forEach(visit);
+    };
+    visit(roots[0]);
+    roots.slice(1).forEach(name => {
+      add('error', linkElements.get(name), `Link ${name} is not connected to the root link ${roots[0]}`);
+    });
+    linkElements.forEach((link, name) => {
+      if (!reached.has(name) && !roots.includes(name)) {
+        add('error', link, `Link ${name} is not connected to the root link ${roots[0]} (joints form a loop)`);
+      }
+    });
+  }
+
+  // Geometry and inertial properties of each link
+  const meshElements: Element[] = []; // in the order URDFLoader asks for them
+  links.forEach(link => {
+    const name = link.getAttribute('name') ?? '';
+    ['visual', 'collision'].forEach(kind => childElements(link, kind).forEach(node => {
+      childElements(node, 'geometry').forEach(geometry => {
+        const shape = geometry.children[0];
+        if (!shape) {
+          add('error', geometry, `Link ${name}: ${kind} geometry is empty`);
+          return;
+        }
+        const positive = (attribute: string, count = 1) => {
+          const values = parseNumbers(shape.getAttribute(attribute));
+          if (!values || values.length !== count || values.some(value => !(value > 0))) {
+            add('error', shape, `Link ${name}: ${shape.nodeName} ${attribute} must be ${count === 1 ? 'a positive number' : `${count} positive numbers`}`);
+          }
+        };
+        switch (shape.nodeName.toLowerCase()) {
+          case 'mesh':
+            if (!shape.getAttribute('filename')) add('error', shape, `Link ${name}: ${kind} mesh has no filename`);
+            else meshElements.push(shape);
+            break;
+          case 'box':
+            positive('size', 3);
+            break;
+          case 'sphere':
+            positive('radius');
+            break;
+          case 'cylinder':
+            positive('radius');
+            positive('length');
+            break;
+          default:
+            add('error', shape, `Link ${name}: unknown geometry <${shape.nodeName}>`);
+        }
+      });
+    }));
+
+    const [inertial] = childElements(link, 'inertial');
+    if (!inertial) {
+      if (movingChildren.has(name)) add('warning', link, `Link ${name} has no <inertial>; dynamics will treat it as massless`);
+      return;
+    }
+    const [mass] = childElements(inertial, 'mass');
+    const massValue = Number(mass?.getAttribute('value'));
+    if (!mass) add('error', inertial, `Link ${name}: <inertial> has no <mass>`);
+    else if (!(massValue > 0)) add('error', mass, `Link ${name}: mass must be positive`);
+
+    const [inertia] = childElements(inertial, 'inertia');
+    if (!inertia) {
+      add('error', inertial, `Link ${name}: <inertial> has no <inertia>`);
+      return;
+    }
+    const [ixx, ixy, ixz, iyy, iyz, izz] = ['ixx', 'ixy', 'ixz', 'iyy', 'iyz', 'izz'].map(key => Number(inertia.getAttribute(key) ?? 0));
+    if ([ixx, ixy, ixz, iyy, iyz, izz].some(value => !Number.isFinite(value))) {
+      add('error', inertia, `Link ${name}: inertia values must be numbers`);
+      return;
+    }
+    const moments = symmetricEigenvalues([[ixx, ixy, ixz], [ixy, iyy, iyz], [ixz, iyz, izz]]);
+    const tolerance = 1e-9 * Math.max(1e-12, Math.abs(moments[2]));
+    if (moments[0] <= tolerance) {
+      add('error', inertia, `Link ${name}: inertia is not positive definite (principal moments ${moments.map(value => value.toPrecision(3)).join(', ')})`);
+    } else if (moments[0] + moments[1] < moments[2] - tolerance) {
+      add('error', inertia, `Link ${name}: principal moments ${moments.map(value => value.toPrecision(3)).join(', ')} break the triangle inequality, which no real body does`);
+    }
+  });
+
+  // Parse as the viewer does, recording the mesh paths it resolves
+  const meshPaths: string[] = [];
+  try {
+    const loader = new URDFLoader();
+    loader.workingPath = options.workingPath ?? '';
+    loader.packages = options.packages ?? '';
+    loader.parseCollision = true;
+    loader.loadMeshCb = (path, _manager, done) => {
+      meshPaths.push(path);
+      done(null as never);
+    };
+    loader.parse(text);
+  } catch (error) {
+    add('error', robot, `URDFLoader cannot parse the description: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const { fileExists, describePath = (path: string) => path } = options;
+  if (fileExists) {
+    const sameOrder = meshPaths.length === meshElements.length;
+    await Promise.all(meshPaths.map(async (path, index) => {
+      const element = sameOrder ? meshElements[index] : null;
+      const shown = describePath(path);
+      if (!MESH_FORMATS.test(path)) {
+        add('warning', element, `Mesh ${shown} is not STL or DAE, which the viewer cannot load`);
+      }
+      if (!(await fileExists(path))) add('error', element, `Mesh file ${shown} not found`);
+    }));
+  }
+
+  return report();
+}
+
+// A URDF loaded by the viewer, with its meshes looked up where the viewer would find them
+export async function validateRobotSource(source: RobotSource): Promise<UrdfReport> {
+  const response = await fetch(resolvePackageUrl(source, source.url));
+  if (!response.ok) throw new Error(`Could not read ${source.label} (${response.status})`);
+
+  return validateUrdf(await response.text(), {
+    workingPath: source.workingPath,
+    packages: source.packages,
+    describePath: path => describePackageUrl(source, path),
+    fileExists: async path => {
+      const url = resolvePackageUrl(source, path);
+      if (source.files && url.startsWith('blob:')) return true;
+      try {
+        return (await fetch(url, { method: 'HEAD' })).ok;
+      } catch {
+        return false;
+      }
+    }
+  });
+}
+
+// "file:line: severity: message", the format editors and CI logs link from
+export function formatUrdfIssue(issue: UrdfIssue, fileName: string): string {
+  return `${fileName}:${issue.line ?? 0}: ${issue.severity}: ${issue.message}`;
+}
@@ -1,9 +1,10 @@
-import { Object3D, Vector3 } from 'three';
+import { Object3D, Quaternion, Vector3 } from 'three';
 
 export interface URDFCollider extends Object3D {
 
     isURDFCollider: true;
     urdfNode: Element | null;
+    urdfName: string;
 
 }
 
@@ -11,6 +12,7 @@ export interface URDFVisual extends Object3D {
 
     isURDFVisual: true;
     urdfNode: Element | null;
+    urdfName: string;
 
 }
 
@@ -18,6 +20,7 @@ export interface URDFLink extends Object3D {
 
     isURDFLink: true;
     urdfNode: Element | null;
+    urdfName: string;
 
 }
 
@@ -26,6 +29,7 @@ export interface URDFJoint extends Object3D {
     isURDFJoint: true;
 
     urdfNode: Element | null;
+    urdfName: string;
     axis: Vector3;
     jointType: 'fixed' | 'continuous' | 'revolute' | 'planar' | 'prismatic' | 'floating';
     angle: Number;
@@ -33,6 +37,8 @@ export interface URDFJoint extends Object3D {
     limit: { lower: Number, upper: Number }; // TODO: add more
     ignoreLimits: Boolean;
     mimicJoints: URDFMimicJoint[];
+    origPosition: Vector3 | null;
+    origQuaternion: Quaternion | null;
 
     setJointValue(...values: (number | null)[]): boolean;
 
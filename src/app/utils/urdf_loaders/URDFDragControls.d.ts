@@ -0,0 +1,41 @@
+import { Camera, Object3D, Ray, Raycaster, Vector3 } from 'three';
+import { URDFJoint } from './URDFClasses';
+
+export class URDFDragControls {
+
+    enabled: boolean;
+    scene: Object3D;
+    raycaster: Raycaster;
+    initialGrabPoint: Vector3;
+
+    hitDistance: number;
+    hovered: URDFJoint | null;
+    manipulating: URDFJoint | null;
+
+    constructor(scene: Object3D);
+
+    update(): void;
+    updateJoint(joint: URDFJoint, angle: number): void;
+    onDragStart(joint: URDFJoint): void;
+    onDragEnd(joint: URDFJoint): void;
+    onHover(joint: URDFJoint): void;
+    onUnhover(joint: URDFJoint): void;
+
+    getRevoluteDelta(joint: URDFJoint, startPoint: Vector3, endPoint: Vector3): number;
+    getPrismaticDelta(joint: URDFJoint, startPoint: Vector3, endPoint: Vector3): number;
+
+    moveRay(toRay: Ray): void;
+    setGrabbed(grabbed: boolean): void;
+
+}
+
+export class PointerURDFDragControls extends URDFDragControls {
+
+    camera: Camera;
+    domElement: HTMLElement;
+
+    constructor(scene: Object3D, camera: Camera, domElement: HTMLElement);
+
+    dispose(): void;
+
+}
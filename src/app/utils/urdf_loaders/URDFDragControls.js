@@ -236,8 +236,10 @@ export class PointerURDFDragControls extends URDFDragControls {
 
         function updateMouse(e) {
 
-            mouse.x = ((e.pageX - domElement.offsetLeft) / domElement.offsetWidth) * 2 - 1;
-            mouse.y = -((e.pageY - domElement.offsetTop) / domElement.offsetHeight) * 2 + 1;
+            // offsetLeft/offsetTop are relative to the offset parent, not the page
+            const rect = domElement.getBoundingClientRect();
+            mouse.x = ((e.clientX - rect.left) / rect.width) * 2 - 1;
+            mouse.y = -((e.clientY - rect.top) / rect.height) * 2 + 1;
 
         }
 
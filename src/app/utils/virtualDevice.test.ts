@@ -0,0 +1,171 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RobotConfig } from '../types/robot';
+import { DEFAULT_ROBOT_CONFIG, parseRobotConfig } from './robotConfig';
+import { DecodedFrame, G06_DRIVER, ProtocolMessage } from './protocols';
+import { planMove } from './trajectory';
+import { VirtualDeviceOptions, VirtualElbot } from './virtualDevice';
+
+// The host side of a G06 link to the device: messages go out through the
+// protocol encoder and every reply comes back through its decoder
+function connect(options: Partial<VirtualDeviceOptions>, config: RobotConfig = DEFAULT_ROBOT_CONFIG) {
+  const device = new VirtualElbot({ latencyMs: 0, ...options }, G06_DRIVER, '\n', config);
+  const decode = G06_DRIVER.createDecoder(config);
+  const frames: DecodedFrame[] = [];
+  const waiting: ((frame: DecodedFrame) => void)[] = [];
+  device.onData(chunk => decode(chunk).forEach(frame => {
+    const resolve = waiting.shift();
+    if (resolve) resolve(frame);
+    else frames.push(frame);
+  }));
+
+  return {
+    device,
+    send: (message: ProtocolMessage) => device.write(G06_DRIVER.encode(message, config, '\n')),
+    // Next frame from the device, or null if none arrives in time
+    next: (timeoutMs = 1000) => new Promise<DecodedFrame | null>(resolve => {
+      const queued = frames.shift();
+      if (queued) {
+        resolve(queued);
+        return;
+      }
+      const timer = setTimeout(() => {
+        waiting.splice(waiting.indexOf(deliver), 1);
+        resolve(null);
+      }, timeoutMs);
+      const deliver = (frame: DecodedFrame) => {
+        clearTimeout(timer);
+        resolve(frame);
+      };
+      waiting.push(deliver);
+    })
+  };
+}
+
+const assertClose = (actual: number, expected: number, message?: string) =>
+  assert.ok(Math.abs(actual - expected) < 1e-3, message ?? `${actual} is not close to ${expected}`);
+
+// Same value for every draw, so the injected faults happen (or not) on purpose
+const fixed = (value: number) => () => value;
+
+describe('VirtualElbot', () => {
+  let link: ReturnType<typeof connect> | null = null;
+  afterEach(() => {
+    link?.device.close();
+    link = null;
+  });
+
+  it('answers a G06 move with Ok once the move has finished', async () => {
+    link = connect({ simulateMotion: true });
+    const target = { theta1: Math.PI / 36, theta2: -Math.PI / 36 };
+    const feedRate = 3000;
+    const expectedMs = planMove({}, target, DEFAULT_ROBOT_CONFIG, { feedRate }).duration * 1000;
+
+    const start = Date.now();
+    link.send({ type: 'move', joints: target, feedRate });
+    const reply = await link.next();
+    assert.deepEqual(reply?.message, { type: 'ok' });
+    assert.ok(Date.now() - start >= expectedMs - 5, `Ok came after ${Date.now() - start} ms, the move takes ${expectedMs} ms`);
+    assertClose(link.device.position.theta1, target.theta1);
+    assertClose(link.device.position.theta2, target.theta2);
+  });
+
+  it('reports the position asked for with M114', async () => {
+    link = connect({ simulateMotion: false });
+    link.send({ type: 'move', joints: { theta3: Math.PI / 4 }, feedRate: 1000 });
+    assert.deepEqual((await link.next())?.message, { type: 'ok' });
+
+    link.send({ type: 'query-position' });
+    const reply = (await link.next())?.message;
+    assert.equal(reply?.type, 'position');
+    assertClose(reply?.type === 'position' ? reply.joints.theta3 : NaN, Math.PI / 4);
+  });
+
+  it('resolves a move it pushes to the host once the host answers Ok', async () => {
+    link = connect({ simulateMotion: false });
+    let acknowledged = false;
+    const pushed = link.device.sendMove({ theta1: Math.PI / 6 }, 500).then(() => {
+      acknowledged = true;
+    });
+
+    const move = (await link.next())?.message;
+    assert.equal(move?.type, 'move');
+    assertClose(move?.type === 'move' ? move.joints.theta1 : NaN, Math.PI / 6);
+    assert.equal(acknowledged, false);
+
+    link.send({ type: 'ok' });
+    await pushed;
+    assert.equal(link.device.receivedOks, 1);
+  });
+
+  it('delays every reply by the configured latency', async () => {
+    link = connect({ simulateMotion: false, latencyMs: 60 });
+    const start = Date.now();
+    link.send({ type: 'move', joints: { theta1: 0.1 }, feedRate: 1000 });
+    assert.deepEqual((await link.next())?.message, { type: 'ok' });
+    assert.ok(Date.now() - start >= 55, `Ok came after ${Date.now() - start} ms`);
+  });
+
+  it('acknowledges a retransmitted sequence number again without moving twice', async () => {
+    link = connect({ simulateMotion: false });
+    link.send({ type: 'move', joints: { theta1: 0.2 }, feedRate: 1000, seq: 7 });
+    assert.deepEqual((await link.next())?.message, { type: 'ok', seq: 7 });
+
+    link.send({ type: 'move', joints: { theta1: 0.4 }, feedRate: 1000, seq: 7 });
+    assert.deepEqual((await link.next())?.message, { type: 'ok', seq: 7 });
+    assertClose(link.device.position.theta1, 0.2);
+  });
+
+  it('loses lines at the drop rate', async () => {
+    link = connect({ simulateMotion: false, dropRate: 0.5, random: fixed(0.4) });
+    link.send({ type: 'move', joints: { theta1: 0.3 }, feedRate: 1000 });
+    assert.equal(await link.next(100), null);
+    assert.equal(link.device.position.theta1, undefined);
+
+    link.device.setOptions({ random: fixed(0.6) });
+    link.send({ type: 'move', joints: { theta1: 0.3 }, feedRate: 1000 });
+    assert.deepEqual((await link.next())?.message, { type: 'ok' });
+  });
+
+  it('garbles replies at the garble rate so the host cannot parse them', async () => {
+    link = connect({ simulateMotion: false, garbleRate: 1, random: fixed(0.5) });
+    link.send({ type: 'move', joints: { theta1: 0.3 }, feedRate: 1000 });
+    const reply = await link.next();
+    assert.ok(reply);
+    assert.equal(reply.message, null);
+    assert.notEqual(reply.raw, 'Ok');
+    assert.match(reply.error ?? '', /Unknown command/);
+    // The move itself was carried out; only the answer was damaged
+    assertClose(link.device.position.theta1, 0.3);
+  });
+
+  it('answers moves with an error reply at the error rate, without moving', async () => {
+    link = connect({ simulateMotion: false, errorRate: 0.5, random: fixed(0.4) });
+    link.send({ type: 'move', joints: { theta1: 0.3 }, feedRate: 1000 });
+    assert.deepEqual((await link.next())?.message, { type: 'error', message: 'motion fault' });
+    assert.equal(link.device.position.theta1, undefined);
+  });
+
+  it('answers a line it cannot parse with an error', async () => {
+    link = connect({ simulateMotion: false });
+    link.device.write(new TextEncoder().encode('G07 X10\n'));
+    const reply = (await link.next())?.message;
+    assert.equal(reply?.type, 'error');
+    assert.match(reply?.type === 'error' ? reply.message : '', /G07 X10/);
+  });
+
+  it('reads moves with the configuration it was given', async () => {
+    const config = parseRobotConfig({
+      name: 'two-axis',
+      joints: [
+        { name: 'base', letter: 'A', min: -90, max: 90 },
+        { name: 'lift', letter: 'B', type: 'prismatic', min: 0, max: 0.5 }
+      ]
+    });
+    link = connect({ simulateMotion: false }, config);
+    link.device.write(new TextEncoder().encode('G06 A45 B100 F1000\n'));
+    assert.deepEqual((await link.next())?.message, { type: 'ok' });
+    assertClose(link.device.position.base, Math.PI / 4);
+    assertClose(link.device.position.lift, 0.1);
+  });
+});
@@ -0,0 +1,233 @@
+import { JointState, RobotConfig } from '../types/robot';
+import { Trajectory, planMove } from './trajectory';
+import { DEFAULT_ROBOT_CONFIG } from './robotConfig';
+import { DecodedFrame, G06_DRIVER, LineEnding, ProtocolDriver, ProtocolMessage } from './protocols';
+
+// Software stand-in for the Elbot controller board. It speaks the same protocol
+// as the firmware (G06 in, "Ok" out once the move is done, M114 position
+// reports taken part-way through the running move, M112 to halt), or any other
+// protocol driver, and can inject latency, lost messages, corrupted replies and
+// error replies so the serial code paths can be exercised without hardware.
+// It decodes, encodes and plans with the configuration of the robot it stands in for.
+// A move that repeats a sequence number already seen is a retransmission: it is
+// acknowledged again, without moving, once the original has finished.
+
+export const VIRTUAL_PORT_PATH = 'virtual';
+
+export interface VirtualDeviceOptions {
+  latencyMs: number; // delay added to every reply
+  dropRate: number; // probability (0-1) that an incoming message is lost
+  garbleRate: number; // probability that a reply is corrupted on the wire
+  errorRate: number; // probability that a valid move is answered with an error
+  simulateMotion: boolean; // hold the Ok until the move would have finished
+  random?: () => number; // injectable for deterministic runs
+}
+
+export const DEFAULT_VIRTUAL_DEVICE_OPTIONS: VirtualDeviceOptions = {
+  latencyMs: 20,
+  dropRate: 0,
+  garbleRate: 0,
+  errorRate: 0,
+  simulateMotion: true
+};
+
+type DataListener = (chunk: Uint8Array) => void;
+
+interface Motion {
+  trajectory: Trajectory;
+  start: number; // Date.now() when the move begins
+}
+
+export class VirtualElbot {
+  options: VirtualDeviceOptions;
+  position: JointState = {};
+  receivedOks = 0;
+
+  private listeners = new Set<DataListener>();
+  private decode: (chunk: Uint8Array) => DecodedFrame[];
+  private busyUntil = 0;
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+  private pendingAcks: (() => void)[] = [];
+  private motions: Motion[] = [];
+  private reached: JointState = {}; // where the last finished move ended
+  private finishTimes = new Map<number, number>(); // sequence number -> when that move ends
+  private closed = false;
+
+  constructor(
+    options: Partial<VirtualDeviceOptions> = {},
+    private driver: ProtocolDriver = G06_DRIVER,
+    private lineEnding: LineEnding = '\n',
+    private config: RobotConfig = DEFAULT_ROBOT_CONFIG
+  ) {
+    this.options = { ...DEFAULT_VIRTUAL_DEVICE_OPTIONS, ...options };
+    this.decode = driver.createDecoder(config);
+  }
+
+  setOptions(options: Partial<VirtualDeviceOptions>) {
+    this.options = { ...this.options, ...options };
+  }
+
+  // Follow a change of robot; a partly received message is dropped
+  setConfig(config: RobotConfig) {
+    if (config === this.config) return;
+    this.config = config;
+    this.decode = this.driver.createDecoder(config);
+  }
+
+  // Subscribe to data the device sends to the host; returns the unsubscribe function
+  onData(listener: DataListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Data written by the host, split into messages like the firmware's UART handler
+  write(data: Uint8Array) {
+    if (this.closed) return;
+    this.decode(data).forEach(frame => this.handleFrame(frame));
+  }
+
+  // Act as the host side: push a move to the app and resolve once it answers "Ok"
+  sendMove(joints: JointState, feedRate: number): Promise<void> {
+    return new Promise(resolve => {
+      this.pendingAcks.push(resolve);
+      this.emit(this.encode({ type: 'move', joints, feedRate }), 0);
+    });
+  }
+
+  // Where the simulated arm is at the given time, following the queued moves
+  actualPosition(now = Date.now()): JointState {
+    while (this.motions.length > 0) {
+      const { trajectory, start } = this.motions[0];
+      if (now < start + trajectory.duration * 1000) break;
+      this.reached = { ...this.reached, ...trajectory.waypoints[trajectory.waypoints.length - 1] };
+      this.motions.shift();
+    }
+
+    const current = this.motions[0];
+    if (!current || now < current.start) return { ...this.reached };
+    return { ...this.reached, ...current.trajectory.sample((now - current.start) / 1000).positions };
+  }
+
+  close() {
+    this.closed = true;
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.listeners.clear();
+    this.pendingAcks = [];
+  }
+
+  private random() {
+    return (this.options.random ?? Math.random)();
+  }
+
+  private encode(message: ProtocolMessage) {
+    return this.driver.encode(message, this.config, this.lineEnding);
+  }
+
+  private handleFrame({ message, error }: DecodedFrame) {
+    if (this.random() < this.options.dropRate) return;
+
+    if (!message) {
+      this.reply({ type: 'error', message: error ?? 'invalid command' }, 0);
+      return;
+    }
+
+    switch (message.type) {
+      case 'ok':
+        this.receivedOks++;
+        this.pendingAcks.shift()?.();
+        break;
+      case 'move':
+        this.handleMove(message);
+        break;
+      case 'query-position':
+        this.reply({ type: 'position', joints: this.actualPosition() }, 0);
+        break;
+      case 'halt':
+        this.halt();
+        break;
+      default:
+        this.reply({ type: 'error', message: `unexpected ${message.type} message` }, 0);
+    }
+  }
+
+  // Stop where the arm is now: queued moves are dropped and their Oks never sent
+  private halt() {
+    const now = Date.now();
+    const stopped = this.actualPosition(now);
+    this.motions = [];
+    this.reached = stopped;
+    this.position = stopped;
+    this.busyUntil = now;
+    this.finishTimes.clear();
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  private handleMove(command: { joints: JointState; feedRate: number; seq?: number }) {
+    const now = Date.now();
+    const { seq } = command;
+    const finish = seq === undefined ? undefined : this.finishTimes.get(seq);
+    if (seq !== undefined && finish !== undefined) {
+      this.reply({ type: 'ok', seq }, Math.max(0, finish - now));
+      return;
+    }
+
+    if (this.random() < this.options.errorRate) {
+      this.reply({ type: 'error', message: 'motion fault' }, 0);
+      return;
+    }
+
+    // Moves run back to back, so a queued move only starts when the previous one ends
+    const target = { ...this.position, ...command.joints };
+    // Motion follows the same velocity profile the app plans with
+    const trajectory = planMove(this.position, target, this.config, { feedRate: command.feedRate });
+    const start = Math.max(now, this.busyUntil);
+    if (this.options.simulateMotion) {
+      this.motions.push({ trajectory, start });
+      this.busyUntil = start + trajectory.duration * 1000;
+    } else {
+      this.motions = [];
+      this.reached = target;
+      this.busyUntil = start;
+    }
+    this.position = target;
+
+    if (seq !== undefined) {
+      this.finishTimes.set(seq, this.busyUntil);
+      // Only recent numbers matter; retransmissions follow the original closely
+      if (this.finishTimes.size > 64) this.finishTimes.delete(this.finishTimes.keys().next().value!);
+    }
+    this.reply(seq === undefined ? { type: 'ok' } : { type: 'ok', seq }, this.busyUntil - now);
+  }
+
+  private reply(message: ProtocolMessage, delayMs: number) {
+    const bytes = this.encode(message);
+    const garbled = this.random() < this.options.garbleRate;
+    this.emit(garbled ? this.garble(bytes) : bytes, delayMs + this.options.latencyMs);
+  }
+
+  // Flip a few characters the way line noise would, leaving the line ending intact
+  private garble(bytes: Uint8Array) {
+    const noisy = bytes.slice();
+    const body = this.driver.binary ? noisy.length : noisy.length - this.lineEnding.length;
+    const count = 1 + Math.floor(this.random() * 2);
+    for (let i = 0; i < count; i++) {
+      const index = Math.floor(this.random() * body);
+      noisy[index] = 33 + Math.floor(this.random() * 94);
+    }
+    return noisy;
+  }
+
+  private emit(bytes: Uint8Array, delayMs: number) {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      if (!this.closed) {
+        this.listeners.forEach(listener => listener(bytes));
+      }
+    }, delayMs);
+    this.timers.add(timer);
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as THREE from 'three';
+import { Pose, poseToMatrix } from './kinematics';
+import { DEFAULT_FLOOR, FloorObstacle } from './collision';
+import { obstaclesInBase } from './workcell';
+
+// Whether a point given in the base link frame is under a floor in that frame
+const below = (floor: FloorObstacle, point: THREE.Vector3) =>
+  new THREE.Vector3(...(floor.normal ?? [0, 0, 1])).dot(point) <= floor.height;
+
+describe('obstaclesInBase', () => {
+  it('lowers the floor by the height of a level base', () => {
+    const [floor] = obstaclesInBase([DEFAULT_FLOOR], { position: [1, 2, 0.3], rpy: [0, 0, 1] }) as FloorObstacle[];
+    assert.equal(floor.height, -0.3);
+    assert.equal(floor.normal, undefined);
+  });
+
+  it('tilts the floor under a rolled and pitched base', () => {
+    const base: Pose = { position: [0.2, -0.1, 0.4], rpy: [0.5, -0.3, 1.2] };
+    const cellFloor: FloorObstacle = { ...DEFAULT_FLOOR, height: 0.1 };
+    const [floor] = obstaclesInBase([cellFloor], base) as FloorObstacle[];
+    assert.ok(floor.normal);
+
+    // Points of the base frame are under the floor exactly when they are in the cell
+    const toCell = poseToMatrix(base);
+    for (let x = -1; x <= 1; x += 0.25) {
+      for (let z = -1; z <= 1; z += 0.25) {
+        const point = new THREE.Vector3(x, 0.5 * x - z, z);
+        const inCell = point.clone().applyMatrix4(toCell);
+        if (Math.abs(inCell.z - cellFloor.height) < 1e-9) continue;
+        assert.equal(below(floor, point), inCell.z <= cellFloor.height, `point ${point.toArray()}`);
+      }
+    }
+  });
+});
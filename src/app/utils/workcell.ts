@@ -0,0 +1,199 @@
+import * as THREE from 'three';
+import { JointState, RobotConfig } from '../types/robot';
+import { IDENTITY_POSE, Pose, matrixToPose, poseToMatrix } from './kinematics';
+import { DEFAULT_ROBOT_CONFIG } from './robotConfig';
+import { DEFAULT_ROBOT_SOURCE, RobotSource } from './robotPackage';
+import {
+  CollisionGuard,
+  CollisionModel,
+  NeighbourRobot,
+  Obstacle,
+  checkNeighbours,
+  placeNeighbour
+} from './collision';
+import { Trajectory } from './trajectory';
+import { createId } from './teachPendant';
+
+// Robots sharing one cell. Each has its own URDF, limits, tool, joint states and
+// serial connection, and stands at a base pose in the cell frame: z up, meters,
+// origin on the viewer grid. Obstacles and keep-out zones are placed in the cell
+// frame too; every robot checks them, and the other robots, in its own base
+// link frame.
+//
+// Joint states change all the time and are kept by robot id next to the
+// instances, so whatever is derived from an instance stays put while arms move.
+
+export interface RobotInstance {
+  id: string;
+  name: string;
+  source: RobotSource;
+  base: Pose; // base link in the cell frame
+  configSource: 'file' | 'urdf';
+  fileConfig: RobotConfig;
+  toolOffset: Pose;
+}
+
+// Distance along y between a new robot and the last one in the cell
+const ROBOT_SPACING = 0.8;
+
+// A built-in Elbot; the first robot gets a fixed id so server and client render alike
+export function createRobotInstance(name: string, base: Pose = IDENTITY_POSE, id = createId()): RobotInstance {
+  return {
+    id,
+    name,
+    source: DEFAULT_ROBOT_SOURCE,
+    base,
+    configSource: 'file',
+    fileConfig: DEFAULT_ROBOT_CONFIG,
+    toolOffset: IDENTITY_POSE
+  };
+}
+
+export const FIRST_ROBOT = createRobotInstance('Robot 1', IDENTITY_POSE, 'robot-1');
+
+// A new Elbot beside the last robot, facing the same way
+export function nextRobot(robots: RobotInstance[]): RobotInstance {
+  const last = robots[robots.length - 1];
+  const base: Pose = last
+    ? { position: [last.base.position[0], last.base.position[1] + ROBOT_SPACING, last.base.position[2]], rpy: last.base.rpy }
+    : IDENTITY_POSE;
+  return createRobotInstance(`Robot ${robots.length + 1}`, base);
+}
+
+const isIdentity = (pose: Pose) => [...pose.position, ...pose.rpy].every(value => value === 0);
+
+// Obstacles moved from the cell frame into a robot's base link frame. A floor
+// z <= h of the cell is n · p <= h - base z there, n being the cell's z axis as
+// seen from a base that may be rolled or pitched.
+export function obstaclesInBase(obstacles: Obstacle[], base: Pose): Obstacle[] {
+  if (isIdentity(base)) return obstacles;
+  const inverse = poseToMatrix(base).invert();
+  const tilted = base.rpy[0] !== 0 || base.rpy[1] !== 0;
+  const normal = new THREE.Vector3(0, 0, 1).transformDirection(inverse).toArray();
+  return obstacles.map(obstacle => obstacle.type === 'floor'
+    ? { ...obstacle, height: obstacle.height - base.position[2], ...(tilted ? { normal } : {}) }
+    : { ...obstacle, pose: matrixToPose(inverse.clone().multiply(poseToMatrix(obstacle.pose))) });
+}
+
+// The other robots of the cell, in their current pose, as seen from one of them.
+// Robots whose meshes are still loading are left out.
+export function neighboursOf(
+  robot: RobotInstance,
+  robots: RobotInstance[],
+  collisionModels: Record<string, CollisionModel | null | undefined>,
+  jointStates: Record<string, JointState | undefined>
+): NeighbourRobot[] {
+  const inverse = poseToMatrix(robot.base).invert();
+  return robots.flatMap(other => {
+    const model = collisionModels[other.id];
+    if (other.id === robot.id || !model) return [];
+    const base = inverse.clone().multiply(poseToMatrix(other.base));
+    return [placeNeighbour(other.name, model, jointStates[other.id] ?? {}, base)];
+  });
+}
+
+// A program waiting to be started together with the other robots' programs
+export interface SyncParticipant {
+  robotId: string;
+  name: string;
+  // Reason the program cannot start, checked with the given guard before anything is sent
+  check(guard: CollisionGuard | null): string | null;
+  plan(): Trajectory[]; // the program's moves, run back to back
+  start(): void;
+}
+
+// Checks the participants together; refusals, empty when they may all start
+export type SyncCheck = (participants: SyncParticipant[]) => string[];
+
+// A robot's program as it will run in a synchronized start
+export interface SyncMotion {
+  robot: RobotInstance;
+  model: CollisionModel;
+  trajectories: Trajectory[];
+  start: JointState; // held when there is nothing to run
+}
+
+// Time between the poses compared on the shared clock, about 3° of the
+// Elbot's fastest joint
+const SYNC_TIME_STEP = 0.025;
+
+// Pose of a program at a time from its start; the last pose is held once it ends
+function poseAt({ trajectories, start }: SyncMotion, time: number): JointState {
+  let elapsed = 0;
+  for (const trajectory of trajectories) {
+    if (time < elapsed + trajectory.duration) return trajectory.sample(time - elapsed).positions;
+    elapsed += trajectory.duration;
+  }
+  const last = trajectories[trajectories.length - 1];
+  return last ? last.waypoints[last.waypoints.length - 1] : start;
+}
+
+// Programs started together, played on one clock at their planned timing: at
+// every step each robot is checked against where the others are at that time.
+// Returns the first clash, or null.
+export function checkSynchronizedMotion(motions: SyncMotion[], timeStep = SYNC_TIME_STEP): string | null {
+  const durations = motions.map(motion => motion.trajectories.reduce((sum, trajectory) => sum + trajectory.duration, 0));
+  const duration = Math.max(0, ...durations);
+  const bases = motions.map(motion => poseToMatrix(motion.robot.base));
+  const steps = Math.ceil(duration / timeStep);
+
+  for (let step = 0; step <= steps; step++) {
+    const time = Math.min(duration, step * timeStep);
+    const poses = motions.map(motion => poseAt(motion, time));
+    for (let i = 0; i < motions.length; i++) {
+      const inverse = bases[i].clone().invert();
+      for (let j = i + 1; j < motions.length; j++) {
+        const other = motions[j];
+        const neighbour = placeNeighbour(other.robot.name, other.model, poses[j], inverse.clone().multiply(bases[j]));
+        const contacts = checkNeighbours(motions[i].model, poses[i], [neighbour]);
+        if (contacts.length > 0) {
+          const contact = contacts[0];
+          return `${motions[i].robot.name} and ${other.robot.name} would collide ${time.toFixed(1)} s after the start ` +
+            `(${contact.link} ↔ ${contact.other})`;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+// Synchronized start of programs across robots. Runners with a program ready
+// join; start() checks the participants together and starts them all in the
+// same tick only when nothing is refused, so either every robot moves or none does.
+export class SyncStart {
+  participants: SyncParticipant[] = [];
+  // Bumped whenever the participants change (for useSyncExternalStore)
+  version = 0;
+
+  private listeners = new Set<() => void>();
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getVersion = () => this.version;
+
+  join(participant: SyncParticipant) {
+    this.participants = [...this.participants, participant];
+    this.notify();
+    return () => {
+      this.participants = this.participants.filter(entry => entry !== participant);
+      this.notify();
+    };
+  }
+
+  // Refusals of the check; empty when every program was started
+  start(check: SyncCheck): string[] {
+    const refusals = check(this.participants);
+    if (refusals.length === 0) this.participants.forEach(participant => participant.start());
+    return refusals;
+  }
+
+  private notify() {
+    this.version++;
+    this.listeners.forEach(listener => listener());
+  }
+}
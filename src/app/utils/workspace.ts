@@ -0,0 +1,191 @@
+import * as THREE from 'three';
+import { JointState, RobotConfig } from '../types/robot';
+import { KinematicChain, computeJointFrames, movableJoints, toolFrame } from './kinematics';
+import { IKSolution, computeJacobian, solveAllIK } from './inverseKinematics';
+import { CollisionGuard, CollisionReport } from './collision';
+import { getJointLimits } from './robotConfig';
+
+// What the arm can reach: random poses spread over the joint ranges give a
+// cloud of TCP positions, each scored by how far the arm is from a singularity
+// there, and single points can be tested for every configuration that reaches
+// them. Positions are in the base link frame, in meters.
+
+// Yoshikawa manipulability sqrt(det(J J^T)), or the inverse condition number of
+// J: 1 where the arm moves equally well in every direction, 0 at a singularity
+export type WorkspaceMeasure = 'manipulability' | 'singularity';
+
+export interface WorkspaceCloud {
+  measure: WorkspaceMeasure;
+  positions: Float32Array; // x, y, z of each reachable sample
+  values: Float32Array; // measure at each sample
+  maxValue: number;
+  count: number;
+  rejected: number; // samples dropped because the pose collides
+}
+
+export interface WorkspaceOptions {
+  samples?: number;
+  measure?: WorkspaceMeasure;
+  guard?: CollisionGuard | null; // drop poses that collide
+  seed?: number; // same seed, same cloud
+}
+
+export interface ReachConfiguration extends IKSolution {
+  collision: CollisionReport | null;
+}
+
+export const DEFAULT_WORKSPACE_SAMPLES = 20000;
+
+// Arm configurations closer than this (per joint, radians) are the same one
+const ARM_TOLERANCE = 0.2;
+
+// Poses scored between yields to the page
+const CHUNK_SIZE = 250;
+
+// Small seeded generator (mulberry32), so a cloud can be reproduced
+function random(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Eigenvalues of a symmetric matrix by Jacobi rotations, smallest first
+export function symmetricEigenvalues(matrix: number[][]): number[] {
+  const a = matrix.map(row => [...row]);
+  const n = a.length;
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let off = 0;
+    for (let p = 0; p < n; p++) for (let q = p + 1; q < n; q++) off += a[p][q] * a[p][q];
+    if (off < 1e-22) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-30) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+      }
+    }
+  }
+  return a.map((row, index) => row[index]).sort((x, y) => x - y);
+}
+
+// Score of a pose; J J^T and J^T J share their non-zero eigenvalues, so the smaller one is used
+export function manipulability(chain: KinematicChain, jointStates: JointState, measure: WorkspaceMeasure): number {
+  const frames = computeJointFrames(chain, jointStates);
+  const columns = computeJacobian(chain, frames, movableJoints(chain));
+  if (columns.length === 0) return 0;
+
+  const size = Math.min(columns.length, 6);
+  const gram = Array.from({ length: size }, (_, row) => Array.from({ length: size }, (_, col) =>
+    columns.length < 6
+      ? columns[row].reduce((sum, value, k) => sum + value * columns[col][k], 0)
+      : columns.reduce((sum, column) => sum + column[row] * column[col], 0)));
+  const eigenvalues = symmetricEigenvalues(gram).map(value => Math.max(0, value));
+
+  if (measure === 'singularity') {
+    const largest = eigenvalues[eigenvalues.length - 1];
+    return largest > 0 ? Math.sqrt(eigenvalues[0] / largest) : 0;
+  }
+  return Math.sqrt(eigenvalues.reduce((product, value) => product * value, 1));
+}
+
+// Sample the joint ranges and score every pose. Works in chunks so the page
+// stays responsive; resolves null if the signal aborts it.
+export async function sampleWorkspace(
+  chain: KinematicChain,
+  config: RobotConfig,
+  { samples = DEFAULT_WORKSPACE_SAMPLES, measure = 'manipulability', guard = null, seed = 1 }: WorkspaceOptions = {},
+  signal?: AbortSignal,
+  onProgress?: (done: number, total: number) => void
+): Promise<WorkspaceCloud | null> {
+  const next = random(seed);
+  const joints = movableJoints(chain).map(name => {
+    const joint = config.joints.find(entry => entry.name === name);
+    return { name, min: joint?.min ?? 0, max: joint?.max ?? 0 };
+  });
+
+  const positions = new Float32Array(samples * 3);
+  const values = new Float32Array(samples);
+  const point = new THREE.Vector3();
+  let count = 0;
+  let rejected = 0;
+
+  for (let done = 0; done < samples; done += CHUNK_SIZE) {
+    if (signal?.aborted) return null;
+    for (let index = done; index < Math.min(samples, done + CHUNK_SIZE); index++) {
+      const jointStates: JointState = {};
+      joints.forEach(joint => {
+        jointStates[joint.name] = joint.min + next() * (joint.max - joint.min);
+      });
+      if (guard?.checkPose(jointStates)) {
+        rejected++;
+        continue;
+      }
+      point.setFromMatrixPosition(toolFrame(chain, computeJointFrames(chain, jointStates)));
+      positions.set([point.x, point.y, point.z], count * 3);
+      values[count] = manipulability(chain, jointStates, measure);
+      count++;
+    }
+    onProgress?.(Math.min(samples, done + CHUNK_SIZE), samples);
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  return {
+    measure,
+    positions: positions.slice(0, count * 3),
+    values: values.slice(0, count),
+    maxValue: values.slice(0, count).reduce((max, value) => Math.max(max, value), 0),
+    count,
+    rejected
+  };
+}
+
+// Every joint configuration inside the limits that puts the TCP at the point,
+// with the tool kept at the given orientation or, without one, in any
+// orientation. Each is checked against the guard.
+export function testReach(
+  chain: KinematicChain,
+  config: RobotConfig,
+  point: THREE.Vector3,
+  {
+    orientation = null,
+    seed = {},
+    guard = null
+  }: { orientation?: THREE.Quaternion | null; seed?: JointState; guard?: CollisionGuard | null } = {}
+): ReachConfiguration[] {
+  const target = new THREE.Matrix4().compose(point, orientation ?? new THREE.Quaternion(), new THREE.Vector3(1, 1, 1));
+  const solutions = solveAllIK(chain, target, {
+    seed,
+    limits: getJointLimits(config),
+    positionOnly: !orientation,
+    positionTolerance: 1e-4
+  });
+
+  // In any orientation the wrist can take endless values; keep one solution per
+  // arm configuration (the first three joints), the one closest to the seed
+  const armJoints = movableJoints(chain).slice(0, 3);
+  const distinct = orientation ? solutions : solutions.filter((solution, index) =>
+    !solutions.slice(0, index).some(other =>
+      armJoints.every(name => Math.abs(other.joints[name] - solution.joints[name]) < ARM_TOLERANCE)));
+
+  return distinct.map(solution => ({ ...solution, collision: guard?.checkPose(solution.joints) ?? null }));
+}